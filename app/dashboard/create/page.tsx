@@ -3,17 +3,18 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "../../../lib/supabaseClient";
+import { toInt } from "../../../lib/domain/utils";
+import { deleteTemplate, insertTemplate, insertTournament, listTemplates } from "../../../lib/repository";
+import type { TablesInsert } from "../../../lib/database.types";
+import type { TournamentTemplate } from "../../../lib/domain/models";
+import { normalizeTemplateSettings, type TournamentSettings } from "../../../lib/domain/templates";
+import { normHHMM } from "../../../lib/domain/time";
 
 type Pause = { from: string; to: string };
 type TournamentPause =
   | { type: "tournament"; from: string; to: string }
   | { type: "tournament_except"; from: string; to: string; exceptFields: number[] };
 
-function clampInt(v: string, fallback: number) {
-  const n = Number(v);
-  return Number.isFinite(n) ? Math.floor(n) : fallback;
-}
-
 function normalizeTextArray(arr: string[], size: number, defaultPrefix: string) {
   const next = [...arr];
   while (next.length < size) next.push(`${defaultPrefix} ${next.length + 1}`);
@@ -26,6 +27,11 @@ export default function CreateTournamentPage() {
 
   const [status, setStatus] = useState("");
 
+  // Modèles
+  const [templates, setTemplates] = useState<TournamentTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [templateRules, setTemplateRules] = useState<TournamentSettings>({});
+
   // Champs “pro”
   const [title, setTitle] = useState("DOPPI Cup");
   const [tournamentDate, setTournamentDate] = useState<string>(""); // YYYY-MM-DD
@@ -48,6 +54,10 @@ export default function CreateTournamentPage() {
   const [groupCount, setGroupCount] = useState<string>("2"); // 1..8 si poules
   const [groupNames, setGroupNames] = useState<string[]>(["Poule 1", "Poule 2"]);
 
+  // Phase finale
+  const [knockoutEnabled, setKnockoutEnabled] = useState(false);
+  const [knockoutQualifiers, setKnockoutQualifiers] = useState<string>("2"); // par poule
+
   // Pauses
   const [globalPauseFrom, setGlobalPauseFrom] = useState("");
   const [globalPauseTo, setGlobalPauseTo] = useState("");
@@ -58,7 +68,17 @@ export default function CreateTournamentPage() {
 
   const [fieldPauses, setFieldPauses] = useState<Record<string, Pause[]>>({});
 
-  const fieldCount = useMemo(() => Math.max(1, clampInt(numFields, 1)), [numFields]);
+  useEffect(() => {
+    async function loadTemplates() {
+      const { data, error } = await listTemplates();
+      if (error) return setStatus("Erreur modèles: " + error.message);
+      setTemplates(data ?? []);
+    }
+
+    loadTemplates();
+  }, []);
+
+  const fieldCount = useMemo(() => Math.max(1, toInt(numFields, 1)), [numFields]);
 
   // Maintenir fieldNames à la bonne taille
   useEffect(() => {
@@ -82,7 +102,7 @@ export default function CreateTournamentPage() {
 
   // Maintenir groupNames à la bonne taille (quand format=poules)
   const gc = useMemo(() => {
-    const n = clampInt(groupCount, 2);
+    const n = toInt(groupCount, 2);
     return Math.min(8, Math.max(1, n));
   }, [groupCount]);
 
@@ -158,8 +178,8 @@ export default function CreateTournamentPage() {
   }
 
   function validateForm() {
-    const minT = clampInt(minTeams, 2);
-    const maxT = clampInt(maxTeams, 24);
+    const minT = toInt(minTeams, 2);
+    const maxT = toInt(maxTeams, 24);
 
     if (!title.trim()) return "Le titre est obligatoire.";
     if (minT < 2) return "min_teams doit être ≥ 2.";
@@ -168,14 +188,14 @@ export default function CreateTournamentPage() {
     if (minT > maxT) return "min_teams ne peut pas être > max_teams.";
     if (endTime <= startTime) return "end_time doit être après start_time.";
 
-    const minP = clampInt(minPlayersPerTeam, 1);
-    const maxP = clampInt(maxPlayersPerTeam, 1);
+    const minP = toInt(minPlayersPerTeam, 1);
+    const maxP = toInt(maxPlayersPerTeam, 1);
     if (minP < 1) return "min joueurs/équipe doit être ≥ 1.";
     if (maxP < 1) return "max joueurs/équipe doit être ≥ 1.";
     if (minP > maxP) return "min joueurs/équipe ne peut pas être > max.";
 
-    const md = clampInt(matchDurationMin, 1);
-    const rd = clampInt(rotationDurationMin, 0);
+    const md = toInt(matchDurationMin, 1);
+    const rd = toInt(rotationDurationMin, 0);
     if (md < 1) return "Durée de match invalide.";
     if (rd < 0) return "Durée de rotation invalide.";
 
@@ -189,9 +209,160 @@ export default function CreateTournamentPage() {
       if (empty != null) return "Chaque poule doit avoir un nom.";
     }
 
+    if (knockoutEnabled) {
+      const q = toInt(knockoutQualifiers, 0);
+      if (q < 1 || q > 8) return "Qualifiés par poule: entre 1 et 8.";
+      const total = q * (fmt === "groups_round_robin" ? gc : 1);
+      if (total < 2) return "Phase finale: il faut au moins 2 qualifiés au total.";
+      if (total > maxT) return "Phase finale: plus de qualifiés que d'équipes (max_teams).";
+    }
+
     return "";
   }
 
+  /** Réglages du formulaire (+ règles du modèle choisi: points, départages, fair-play, suspensions, mode de score). */
+  function buildSettings(): TournamentSettings {
+    const fmt = (format ?? "round_robin").trim();
+    const gcFinal = fmt === "groups_round_robin" ? gc : 1;
+    const groupNamesFinal = fmt === "groups_round_robin" ? normalizeTextArray(groupNames, gcFinal, "Poule") : null;
+
+    return {
+      ...templateRules,
+
+      min_teams: toInt(minTeams, 2),
+      max_teams: toInt(maxTeams, 24),
+
+      start_time: startTime,
+      end_time: endTime,
+
+      match_duration_min: toInt(matchDurationMin, 12),
+      rotation_duration_min: toInt(rotationDurationMin, 3),
+
+      num_fields: fieldCount,
+      field_names: fieldNames,
+
+      min_players_per_team: toInt(minPlayersPerTeam, 6),
+      max_players_per_team: toInt(maxPlayersPerTeam, 7),
+
+      pauses: buildPausesPayload(),
+      field_pauses: fieldPauses,
+
+      format: fmt,
+      group_count: gcFinal,
+      group_names: groupNamesFinal,
+
+      knockout_enabled: knockoutEnabled,
+      knockout_qualifiers: toInt(knockoutQualifiers, 2),
+    };
+  }
+
+  // --------- MODÈLES ---------
+
+  async function refreshTemplates() {
+    const { data, error } = await listTemplates();
+    if (error) {
+      setStatus("Erreur modèles: " + error.message);
+      return;
+    }
+    setTemplates(data ?? []);
+  }
+
+  function applyTemplate(templateId: string) {
+    setTemplateId(templateId);
+    const tpl = templates.find((x) => x.id === templateId);
+    if (!tpl) {
+      setTemplateRules({});
+      return;
+    }
+
+    const st = normalizeTemplateSettings(tpl.settings);
+
+    if (st.min_teams != null) setMinTeams(String(st.min_teams));
+    if (st.max_teams != null) setMaxTeams(String(st.max_teams));
+    if (st.start_time) setStartTime(normHHMM(st.start_time));
+    if (st.end_time) setEndTime(normHHMM(st.end_time));
+    if (st.match_duration_min != null) setMatchDurationMin(String(st.match_duration_min));
+    if (st.rotation_duration_min != null) setRotationDurationMin(String(st.rotation_duration_min));
+    if (st.min_players_per_team != null) setMinPlayersPerTeam(String(st.min_players_per_team));
+    if (st.max_players_per_team != null) setMaxPlayersPerTeam(String(st.max_players_per_team));
+
+    if (st.num_fields != null) setNumFields(String(st.num_fields));
+    if (Array.isArray(st.field_names)) setFieldNames(st.field_names.map(String));
+
+    setFormat(st.format === "groups_round_robin" ? "groups_round_robin" : "round_robin");
+    if (st.group_count != null) setGroupCount(String(st.group_count));
+    if (Array.isArray(st.group_names)) setGroupNames(st.group_names.map(String));
+
+    setKnockoutEnabled(Boolean(st.knockout_enabled));
+    if (st.knockout_qualifiers != null) setKnockoutQualifiers(String(st.knockout_qualifiers));
+
+    const pauses = (Array.isArray(st.pauses) ? st.pauses : []) as Partial<TournamentPause>[];
+    const pGlobal = pauses.find((p) => p?.type === "tournament");
+    const pExcept = pauses.find((p) => p?.type === "tournament_except");
+    setGlobalPauseFrom(pGlobal?.from ?? "");
+    setGlobalPauseTo(pGlobal?.to ?? "");
+    setExceptPauseFrom(pExcept?.from ?? "");
+    setExceptPauseTo(pExcept?.to ?? "");
+    setExceptFieldsCsv(pExcept && "exceptFields" in pExcept ? (pExcept.exceptFields ?? []).join(",") : "");
+
+    const fp = st.field_pauses && typeof st.field_pauses === "object" && !Array.isArray(st.field_pauses) ? st.field_pauses : {};
+    setFieldPauses(fp as Record<string, Pause[]>);
+
+    // règles sans champ dans ce formulaire: reprises telles quelles
+    setTemplateRules({
+      points_win: st.points_win,
+      points_draw: st.points_draw,
+      points_loss: st.points_loss,
+      tiebreakers: st.tiebreakers,
+      fair_play_points: st.fair_play_points,
+      suspension_rules: st.suspension_rules,
+      score_mode: st.score_mode,
+      min_rest_min: st.min_rest_min,
+      max_consecutive: st.max_consecutive,
+      field_settings: st.field_settings,
+      group_match_durations: st.group_match_durations,
+      categories: st.categories,
+    });
+
+    setStatus(`Modèle "${tpl.name}" appliqué ✅`);
+  }
+
+  async function saveTemplate() {
+    const err = validateForm();
+    if (err) {
+      setStatus("Erreur: " + err);
+      return;
+    }
+
+    const name = window.prompt("Nom du modèle", title.trim())?.trim();
+    if (!name) return;
+
+    const { error } = await insertTemplate({ name, settings: buildSettings() });
+    if (error) {
+      setStatus("Erreur enregistrement modèle: " + error.message);
+      return;
+    }
+
+    await refreshTemplates();
+    setStatus(`✅ Modèle "${name}" enregistré.`);
+  }
+
+  async function removeTemplate() {
+    const tpl = templates.find((x) => x.id === templateId);
+    if (!tpl) return;
+    if (!window.confirm(`Supprimer le modèle "${tpl.name}" ?`)) return;
+
+    const { error } = await deleteTemplate(tpl.id);
+    if (error) {
+      setStatus("Erreur suppression modèle: " + error.message);
+      return;
+    }
+
+    setTemplateId("");
+    setTemplateRules({});
+    await refreshTemplates();
+  }
+
   async function createTournament() {
     const err = validateForm();
     if (err) {
@@ -208,40 +379,16 @@ export default function CreateTournamentPage() {
       return;
     }
 
-    const fmt = (format ?? "round_robin").trim();
-    const gcFinal = fmt === "groups_round_robin" ? gc : 1;
-    const groupNamesFinal = fmt === "groups_round_robin" ? normalizeTextArray(groupNames, gcFinal, "Poule") : null;
-
-    const payload: any = {
+    const payload: TablesInsert<"tournaments"> = {
       user_id: user.id,
 
       title: title.trim(),
-
       tournament_date: tournamentDate || null,
-      min_teams: clampInt(minTeams, 2),
-      max_teams: clampInt(maxTeams, 24),
 
-      start_time: startTime,
-      end_time: endTime,
-
-      match_duration_min: clampInt(matchDurationMin, 12),
-      rotation_duration_min: clampInt(rotationDurationMin, 3),
-
-      num_fields: fieldCount,
-      field_names: fieldNames,
-
-      min_players_per_team: clampInt(minPlayersPerTeam, 6),
-      max_players_per_team: clampInt(maxPlayersPerTeam, 7),
-
-      pauses: buildPausesPayload(),
-      field_pauses: fieldPauses,
-
-      format: fmt,
-      group_count: gcFinal,
-      group_names: groupNamesFinal,
+      ...buildSettings(),
     };
 
-    const { data, error } = await supabase.from("tournaments").insert(payload).select("id").single();
+    const { data, error } = await insertTournament(payload);
 
     if (error) {
       setStatus("Erreur: " + error.message);
@@ -274,6 +421,28 @@ export default function CreateTournamentPage() {
 
         {status && <div className="bg-white rounded-xl shadow p-4 text-gray-700">{status}</div>}
 
+        <div className="bg-white rounded-xl shadow p-6 flex items-end gap-3 flex-wrap">
+          <div className="flex-1 min-w-[240px]">
+            <label className="text-sm text-gray-600">📚 Partir d’un modèle</label>
+            <select className="w-full border rounded-lg p-2 bg-white" value={templateId} onChange={(e) => applyTemplate(e.target.value)}>
+              <option value="">— Aucun (réglages par défaut) —</option>
+              {templates.map((tpl) => (
+                <option key={tpl.id} value={tpl.id}>
+                  {tpl.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button onClick={saveTemplate} className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition">
+            💾 Enregistrer comme modèle
+          </button>
+          {templateId && (
+            <button onClick={removeTemplate} className="bg-gray-200 text-red-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition">
+              Supprimer le modèle
+            </button>
+          )}
+        </div>
+
         <div className="bg-white rounded-xl shadow p-6 space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
@@ -321,6 +490,27 @@ export default function CreateTournamentPage() {
               </div>
             )}
 
+            <div>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input type="checkbox" checked={knockoutEnabled} onChange={(e) => setKnockoutEnabled(e.target.checked)} />
+                🏆 Phase finale (élimination directe)
+              </label>
+              <p className="text-xs text-gray-500 mt-1">Les meilleurs de chaque poule jouent un tableau après les poules.</p>
+            </div>
+
+            <div className={knockoutEnabled ? "" : "opacity-60"}>
+              <label className="text-sm text-gray-600">{showGroups ? "Qualifiés par poule" : "Qualifiés (classement général)"}</label>
+              <input
+                type="number"
+                min={1}
+                max={8}
+                className="w-full border rounded-lg p-2"
+                value={knockoutQualifiers}
+                disabled={!knockoutEnabled}
+                onChange={(e) => setKnockoutQualifiers(e.target.value)}
+              />
+            </div>
+
             <div>
               <label className="text-sm text-gray-600">Heure début</label>
               <input type="time" className="w-full border rounded-lg p-2" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
@@ -3,26 +3,47 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "../../lib/supabaseClient";
-
-type Tournament = {
-  id: string;
-  title: string;
-  date: string | null;
-  created_at: string;
-};
+import {
+  acceptInvitations,
+  deleteTournamentCascade,
+  duplicateTournament,
+  insertTemplate,
+  listTournaments,
+  listTrashedTournaments,
+  purgeTrashedTournaments,
+  restoreTournament,
+  trashTournament,
+} from "../../lib/repository";
+import { TRASH_RETENTION_DAYS, trashDaysLeft } from "../../lib/domain/tournament";
+import type { Tournament } from "../../lib/domain/models";
+import { settingsOf } from "../../lib/domain/templates";
+
+type DuplicateForm = { title: string; date: string; withTeams: boolean; withPlayers: boolean };
 
 export default function DashboardPage() {
   const router = useRouter();
   const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [trash, setTrash] = useState<Tournament[]>([]);
   const [status, setStatus] = useState("Chargement...");
   const [busyId, setBusyId] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+
+  // Duplication (panneau ouvert sous le tournoi source)
+  const [dupFor, setDupFor] = useState<string | null>(null);
+  const [dupForm, setDupForm] = useState<DuplicateForm>({ title: "", date: "", withTeams: false, withPlayers: false });
 
   useEffect(() => {
     async function load() {
       const { data: userData } = await supabase.auth.getUser();
       if (!userData.user) return router.push("/login");
+      setUserId(userData.user.id);
+
+      // invitations reçues (co-organisateur, arbitre...) => tournois visibles ici
+      await acceptInvitations();
 
-      await refresh();
+      // corbeille: les tournois de plus de 30 jours partent définitivement
+      await purgeTrashedTournaments();
+      await refresh(userData.user.id);
       setStatus("");
     }
 
@@ -30,109 +51,139 @@ export default function DashboardPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [router]);
 
-  async function refresh() {
-    const { data, error } = await supabase
-      .from("tournaments")
-      .select("id,title,date,created_at")
-      .order("created_at", { ascending: false });
+  async function refresh(uid = userId) {
+    const { data, error } = await listTournaments();
 
     if (error) {
       setStatus("Erreur: " + error.message);
       return;
     }
 
-    setTournaments((data ?? []) as any);
+    setTournaments(data ?? []);
+
+    if (!uid) return;
+
+    const { data: trashed, error: trashErr } = await listTrashedTournaments(uid);
+
+    if (trashErr) {
+      setStatus("Erreur corbeille: " + trashErr.message);
+      return;
+    }
+
+    setTrash(trashed ?? []);
   }
 
   async function deleteTournament(tournamentId: string, title: string) {
     const ok = window.confirm(
-      `Supprimer définitivement le tournoi "${title}" ?\n\n⚠️ Cela supprimera aussi les équipes, joueurs, matchs et événements liés.`
+      `Mettre le tournoi "${title}" à la corbeille ?\n\nIl pourra être restauré pendant ${TRASH_RETENTION_DAYS} jours, puis sera supprimé définitivement (équipes, joueurs, matchs et événements).`
     );
     if (!ok) return;
 
     setBusyId(tournamentId);
     setStatus("");
 
-    // 1) Récupérer les match ids pour effacer match_events proprement
-    const { data: mData, error: mErr } = await supabase
-      .from("matches")
-      .select("id")
-      .eq("tournament_id", tournamentId);
+    const { error } = await trashTournament(tournamentId);
 
-    if (mErr) {
-      setStatus("Erreur lecture matches: " + mErr.message);
+    if (error) {
+      setStatus("Erreur suppression tournoi: " + error.message);
       setBusyId(null);
       return;
     }
 
-    const matchIds = (mData ?? []).map((m: any) => m.id);
+    await refresh();
+    setBusyId(null);
+    setStatus("🗑️ Tournoi mis à la corbeille.");
+    setTimeout(() => setStatus(""), 1500);
+  }
 
-    // 2) Supprimer match_events (si table liée à match_id)
-    if (matchIds.length > 0) {
-      const { error: eErr } = await supabase
-        .from("match_events")
-        .delete()
-        .in("match_id", matchIds);
+  function openDuplicate(t: Tournament) {
+    setDupFor(t.id);
+    setDupForm({ title: t.title ?? "", date: "", withTeams: false, withPlayers: false });
+  }
 
-      if (eErr) {
-        setStatus("Erreur suppression events: " + eErr.message);
-        setBusyId(null);
-        return;
-      }
-    }
+  async function duplicate(tournamentId: string) {
+    const title = dupForm.title.trim();
+    if (!title) return setStatus("⚠️ Titre obligatoire pour la copie.");
 
-    // 3) Supprimer matches
-    const { error: delMatchesErr } = await supabase
-      .from("matches")
-      .delete()
-      .eq("tournament_id", tournamentId);
+    setBusyId(tournamentId);
+    setStatus("");
 
-    if (delMatchesErr) {
-      setStatus("Erreur suppression matches: " + delMatchesErr.message);
-      setBusyId(null);
+    const { data: newId, error } = await duplicateTournament(tournamentId, {
+      title,
+      tournamentDate: dupForm.date || null,
+      withTeams: dupForm.withTeams,
+      withPlayers: dupForm.withPlayers,
+    });
+
+    setBusyId(null);
+
+    if (error) {
+      setStatus("Erreur duplication: " + error.message);
       return;
     }
 
-    // 4) Supprimer players
-    const { error: delPlayersErr } = await supabase
-      .from("players")
-      .delete()
-      .eq("tournament_id", tournamentId);
+    setDupFor(null);
+    router.push(`/dashboard/tournaments/${newId}`);
+  }
 
-    if (delPlayersErr) {
-      setStatus("Erreur suppression players: " + delPlayersErr.message);
-      setBusyId(null);
+  async function saveAsTemplate(t: Tournament) {
+    const name = window.prompt("Nom du modèle", t.title ?? "")?.trim();
+    if (!name) return;
+
+    setBusyId(t.id);
+    setStatus("");
+
+    const { error } = await insertTemplate({ name, settings: settingsOf(t) });
+
+    setBusyId(null);
+
+    if (error) {
+      setStatus("Erreur enregistrement modèle: " + error.message);
       return;
     }
 
-    // 5) Supprimer teams
-    const { error: delTeamsErr } = await supabase
-      .from("teams")
-      .delete()
-      .eq("tournament_id", tournamentId);
+    setStatus(`✅ Modèle "${name}" enregistré (disponible dans Créer un tournoi).`);
+    setTimeout(() => setStatus(""), 2500);
+  }
+
+  async function restore(tournamentId: string) {
+    setBusyId(tournamentId);
+    setStatus("");
 
-    if (delTeamsErr) {
-      setStatus("Erreur suppression teams: " + delTeamsErr.message);
+    const { error } = await restoreTournament(tournamentId);
+
+    if (error) {
+      setStatus("Erreur restauration: " + error.message);
       setBusyId(null);
       return;
     }
 
-    // 6) Supprimer tournament
-    const { error: delTournamentErr } = await supabase
-      .from("tournaments")
-      .delete()
-      .eq("id", tournamentId);
+    await refresh();
+    setBusyId(null);
+    setStatus("✅ Tournoi restauré.");
+    setTimeout(() => setStatus(""), 1500);
+  }
+
+  async function deleteForever(tournamentId: string, title: string) {
+    const ok = window.confirm(
+      `Supprimer définitivement le tournoi "${title}" ?\n\n⚠️ Cela supprimera aussi les équipes, joueurs, matchs et événements liés. Action irréversible.`
+    );
+    if (!ok) return;
 
-    if (delTournamentErr) {
-      setStatus("Erreur suppression tournoi: " + delTournamentErr.message);
+    setBusyId(tournamentId);
+    setStatus("");
+
+    const { error } = await deleteTournamentCascade(tournamentId);
+
+    if (error) {
+      setStatus("Erreur suppression définitive: " + error.message);
       setBusyId(null);
       return;
     }
 
-    // 7) UI refresh
-    setTournaments((prev) => prev.filter((t) => t.id !== tournamentId));
+    setTrash((prev) => prev.filter((t) => t.id !== tournamentId));
     setBusyId(null);
-    setStatus("✅ Tournoi supprimé.");
+    setStatus("✅ Tournoi supprimé définitivement.");
     setTimeout(() => setStatus(""), 1500);
   }
 
@@ -171,43 +222,169 @@ export default function DashboardPage() {
           ) : (
             <div className="space-y-3">
               {tournaments.map((t) => (
+                <div key={t.id} className="border rounded-lg p-4 hover:bg-slate-50">
+                  <div className="flex items-center justify-between gap-3 flex-wrap">
+                    <div>
+                      <div className="font-semibold">
+                        {t.title}
+                        {userId && t.user_id !== userId && (
+                          <span className="ml-2 text-xs font-normal px-2 py-0.5 rounded bg-blue-50 text-blue-700">
+                            👥 Partagé avec moi
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {t.tournament_date ? `Date: ${t.tournament_date}` : "Date non renseignée"}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => router.push(`/dashboard/tournaments/${t.id}`)}
+                        className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition"
+                      >
+                        Ouvrir
+                      </button>
+
+                      <button
+                        onClick={() => (dupFor === t.id ? setDupFor(null) : openDuplicate(t))}
+                        disabled={busyId === t.id}
+                        className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition disabled:opacity-50"
+                        title="Copier les réglages dans un nouveau tournoi"
+                      >
+                        📄 Dupliquer
+                      </button>
+
+                      <button
+                        onClick={() => saveAsTemplate(t)}
+                        disabled={busyId === t.id}
+                        className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition disabled:opacity-50"
+                        title="Enregistrer les réglages comme modèle"
+                      >
+                        💾 Modèle
+                      </button>
+
+                      {t.user_id === userId && (
+                        <button
+                          onClick={() => deleteTournament(t.id, t.title ?? "Sans titre")}
+                          disabled={busyId === t.id}
+                          className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition disabled:opacity-50"
+                          title="Mettre ce tournoi à la corbeille"
+                        >
+                          {busyId === t.id ? "Suppression..." : "🗑️ Supprimer"}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {dupFor === t.id && (
+                    <div className="mt-4 border-t pt-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <label className="text-sm text-gray-600">Titre de la copie</label>
+                        <input
+                          className="w-full border rounded-lg p-2"
+                          value={dupForm.title}
+                          onChange={(e) => setDupForm((f) => ({ ...f, title: e.target.value }))}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="text-sm text-gray-600">Nouvelle date</label>
+                        <input
+                          type="date"
+                          className="w-full border rounded-lg p-2"
+                          value={dupForm.date}
+                          onChange={(e) => setDupForm((f) => ({ ...f, date: e.target.value }))}
+                        />
+                      </div>
+
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={dupForm.withTeams}
+                          onChange={(e) => setDupForm((f) => ({ ...f, withTeams: e.target.checked }))}
+                        />
+                        Copier les équipes (noms, couleurs, poules, staff)
+                      </label>
+
+                      <label className={`flex items-center gap-2 text-sm ${dupForm.withTeams ? "" : "opacity-50"}`}>
+                        <input
+                          type="checkbox"
+                          disabled={!dupForm.withTeams}
+                          checked={dupForm.withTeams && dupForm.withPlayers}
+                          onChange={(e) => setDupForm((f) => ({ ...f, withPlayers: e.target.checked }))}
+                        />
+                        Copier aussi les joueurs
+                      </label>
+
+                      <div className="md:col-span-2 flex gap-2">
+                        <button
+                          onClick={() => duplicate(t.id)}
+                          disabled={busyId === t.id}
+                          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                        >
+                          {busyId === t.id ? "Copie..." : "Créer la copie"}
+                        </button>
+                        <button
+                          onClick={() => setDupFor(null)}
+                          className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition"
+                        >
+                          Annuler
+                        </button>
+                      </div>
+                      <p className="md:col-span-2 text-xs text-gray-500">
+                        Les matchs et résultats ne sont jamais copiés: le planning est à regénérer.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {trash.length > 0 && (
+          <div className="bg-white rounded-xl shadow p-6">
+            <h2 className="text-lg font-semibold">🗑️ Corbeille</h2>
+            <p className="text-sm text-gray-500 mb-3">
+              Les tournois supprimés sont conservés {TRASH_RETENTION_DAYS} jours avant suppression définitive.
+            </p>
+
+            <div className="space-y-3">
+              {trash.map((t) => (
                 <div
                   key={t.id}
-                  className="border rounded-lg p-4 flex items-center justify-between gap-3 flex-wrap hover:bg-slate-50"
+                  className="border rounded-lg p-4 flex items-center justify-between gap-3 flex-wrap bg-slate-50"
                 >
                   <div>
-                    <div className="font-semibold">{t.title}</div>
+                    <div className="font-semibold text-gray-600">{t.title}</div>
                     <div className="text-sm text-gray-500">
-                      {t.date ? `Date: ${t.date}` : "Date non renseignée"}
+                      Suppression définitive dans {trashDaysLeft(t)} jour(s)
                     </div>
                   </div>
 
                   <div className="flex items-center gap-2">
                     <button
-                      onClick={() => router.push(`/dashboard/tournaments/${t.id}`)}
-                      className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition"
+                      onClick={() => restore(t.id)}
+                      disabled={busyId === t.id}
+                      className="bg-emerald-600 text-white px-4 py-2 rounded-lg hover:bg-emerald-700 transition disabled:opacity-50"
                     >
-                      Ouvrir
+                      ♻️ Restaurer
                     </button>
 
                     <button
-                      onClick={() => deleteTournament(t.id, t.title)}
+                      onClick={() => deleteForever(t.id, t.title ?? "Sans titre")}
                       disabled={busyId === t.id}
-                      className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition disabled:opacity-50"
-                      title="Supprimer ce tournoi"
+                      className="bg-gray-200 text-red-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition disabled:opacity-50"
                     >
-                      {busyId === t.id ? "Suppression..." : "🗑️ Supprimer"}
+                      Supprimer définitivement
                     </button>
                   </div>
                 </div>
               ))}
             </div>
-          )}
-
-          <p className="text-xs text-gray-400 mt-4">
-            Astuce: on peut aussi ajouter plus tard une “archive” (sans suppression) si tu veux garder l’historique.
-          </p>
-        </div>
+          </div>
+        )}
       </div>
     </main>
   );
@@ -0,0 +1,217 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { supabase } from "../../../../../lib/supabaseClient";
+import {
+  getMyRole,
+  getTournament,
+  listAuditLog,
+  listMatches,
+  listPlayers,
+  listTeams,
+  type MatchWithTeams,
+} from "../../../../../lib/repository";
+import type { AuditEntry, Player, Team, Tournament } from "../../../../../lib/domain/models";
+import { ADMIN_ONLY_MESSAGE, canManage, normalizeRole } from "../../../../../lib/domain/roles";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_TABLE_LABELS,
+  AUDIT_TABLES,
+  auditActor,
+  auditChanges,
+  auditDateTime,
+  auditNames,
+  auditSubject,
+  type AuditTable,
+} from "../../../../../lib/domain/audit";
+import { timeHHMM } from "../../../../../lib/domain/time";
+
+const PAGE_SIZE = 200;
+
+export default function AuditPage() {
+  const router = useRouter();
+  const params = useParams();
+  const tournamentId = String(params.id);
+
+  const [status, setStatus] = useState("Chargement...");
+  const [allowed, setAllowed] = useState(false);
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [matches, setMatches] = useState<MatchWithTeams[]>([]);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+
+  // Filtres (rechargés côté serveur)
+  const [table, setTable] = useState<AuditTable | "ALL">("ALL");
+  const [matchId, setMatchId] = useState("ALL");
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  useEffect(() => {
+    async function load() {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) return router.push("/login");
+
+      const { data: myRole } = await getMyRole(tournamentId);
+      if (!canManage(normalizeRole(myRole))) return setStatus(ADMIN_ONLY_MESSAGE);
+
+      const { data: tData, error: tErr } = await getTournament(tournamentId);
+      if (tErr) return setStatus("Erreur tournoi: " + tErr.message);
+      setTournament(tData);
+
+      const [teamsRes, playersRes, matchesRes] = await Promise.all([
+        listTeams(tournamentId),
+        listPlayers(tournamentId),
+        listMatches(tournamentId),
+      ]);
+      if (teamsRes.error) return setStatus("Erreur équipes: " + teamsRes.error.message);
+      if (playersRes.error) return setStatus("Erreur joueurs: " + playersRes.error.message);
+      if (matchesRes.error) return setStatus("Erreur matchs: " + matchesRes.error.message);
+
+      setTeams(teamsRes.data ?? []);
+      setPlayers(playersRes.data ?? []);
+      setMatches(matchesRes.data ?? []);
+      setAllowed(true);
+    }
+
+    load();
+  }, [router, tournamentId]);
+
+  useEffect(() => {
+    if (!allowed) return;
+
+    async function refresh() {
+      setStatus("Chargement...");
+      const { data, error } = await listAuditLog({
+        tournamentId,
+        matchId: matchId === "ALL" ? undefined : matchId,
+        tables: table === "ALL" ? undefined : [table],
+        limit,
+      });
+      if (error) return setStatus("Erreur historique: " + error.message);
+      setEntries(data ?? []);
+      setStatus("");
+    }
+
+    refresh();
+  }, [allowed, tournamentId, table, matchId, limit]);
+
+  const names = useMemo(() => auditNames(teams, players, entries), [teams, players, entries]);
+
+  function matchLabel(m: MatchWithTeams) {
+    return `${timeHHMM(m.start_time)} · T${m.field_idx ?? "?"} · ${m.home?.name ?? "À déterminer"} vs ${m.away?.name ?? "À déterminer"}`;
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-100 p-6">
+      <div className="max-w-5xl mx-auto space-y-4">
+        <div className="bg-white rounded-xl shadow p-6 flex items-start justify-between gap-3 flex-wrap">
+          <div>
+            <h1 className="text-2xl font-bold">🕓 Historique des modifications</h1>
+            <p className="text-sm text-gray-500">
+              {tournament?.title ?? "Tournoi"} · scores, événements, équipes et joueurs: qui, quand, avant / après.
+            </p>
+          </div>
+
+          <button
+            onClick={() => router.push(`/dashboard/tournaments/${tournamentId}`)}
+            className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition"
+          >
+            ← Tournoi
+          </button>
+        </div>
+
+        {allowed && (
+          <div className="bg-white rounded-xl shadow p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+            <select
+              className="w-full border rounded-lg p-2 bg-white"
+              value={table}
+              onChange={(e) => {
+                setTable(e.target.value as AuditTable | "ALL");
+                setLimit(PAGE_SIZE);
+              }}
+            >
+              <option value="ALL">Tout</option>
+              {AUDIT_TABLES.map((t) => (
+                <option key={t} value={t}>
+                  {AUDIT_TABLE_LABELS[t]}
+                </option>
+              ))}
+            </select>
+
+            <select
+              className="w-full border rounded-lg p-2 bg-white"
+              value={matchId}
+              onChange={(e) => {
+                setMatchId(e.target.value);
+                setLimit(PAGE_SIZE);
+              }}
+            >
+              <option value="ALL">Tous les matchs</option>
+              {matches.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {matchLabel(m)}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {status && <div className="bg-white rounded-xl shadow p-4 text-gray-700">{status}</div>}
+
+        {allowed && !status && (
+          <div className="bg-white rounded-xl shadow p-6 space-y-2">
+            {entries.length === 0 ? (
+              <p className="text-gray-600">Aucune modification enregistrée.</p>
+            ) : (
+              entries.map((e) => {
+                const changes = auditChanges(e, names);
+                return (
+                  <div key={e.id} className="border rounded-lg p-3">
+                    <div className="flex items-center justify-between gap-2 flex-wrap">
+                      <div className="font-semibold">
+                        <span className="text-xs font-bold px-2 py-[2px] rounded bg-gray-100 mr-2">
+                          {AUDIT_ACTION_LABELS[e.action] ?? e.action}
+                        </span>
+                        {auditSubject(e, names)}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {auditDateTime(e)} · {auditActor(e)}
+                      </div>
+                    </div>
+
+                    {changes.length > 0 && (
+                      <ul className="mt-2 text-sm text-gray-700 space-y-[2px]">
+                        {changes.map((c) => (
+                          <li key={c.field}>
+                            <span className="text-gray-500">{c.label}:</span>{" "}
+                            {e.action === "update" ? (
+                              <>
+                                <span className="line-through text-gray-400">{c.before}</span> → <b>{c.after}</b>
+                              </>
+                            ) : (
+                              <b>{c.after || c.before}</b>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })
+            )}
+
+            {entries.length >= limit && (
+              <button
+                onClick={() => setLimit((n) => n + PAGE_SIZE)}
+                className="w-full bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition"
+              >
+                Afficher plus
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -3,89 +3,24 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "../../../../../lib/supabaseClient";
+import { formatScoreline, normalizeDecidedBy } from "../../../../../lib/domain/penalties";
+import { standingsOptionsFromTournament } from "../../../../../lib/domain/standings";
+import { timeHHMM } from "../../../../../lib/domain/time";
+import { categoriesOf, categoryOf, computeCategoryStandings } from "../../../../../lib/domain/categories";
+import {
+  CARD_EVENT_TYPES,
+  computeFairPlay,
+  fairPlayPointsByTeam,
+  normalizeFairPlayPoints,
+  type CardEvent,
+} from "../../../../../lib/domain/fairPlay";
+import type { Tournament } from "../../../../../lib/domain/models";
+import { eventLabel, SCORER_EVENT_TYPES } from "../../../../../lib/domain/events";
+import { getTournament, listMatchEvents, listMatches, listPlayers, listTeams } from "../../../../../lib/repository";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 
-type TournamentRow = {
-  id: string;
-  title: string | null;
-  created_at: string | null;
-};
-
-type TeamRow = {
-  id: string;
-  name: string | null;
-  email: string | null;
-};
-
-type PlayerRow = {
-  id: string;
-  team_id: string | null;
-  first_name: string | null;
-  last_name: string | null;
-  jersey_number: number | null;
-  license_number: string | null;
-};
-
-type MatchRow = {
-  id: string;
-  start_time: string | null;
-  field_idx: number | null;
-  status: string | null;
-  home_score: number | null;
-  away_score: number | null;
-  home_team_id?: string;
-  away_team_id?: string;
-  home: { name: string | null } | null;
-  away: { name: string | null } | null;
-};
-
-type EventRow = {
-  id: string;
-  created_at: string | null;
-  event_type: string | null;
-  minute: number | null;
-  player: {
-    first_name: string | null;
-    last_name: string | null;
-    jersey_number: number | null;
-  } | null;
-  team: { name: string | null } | null;
-  match: {
-    start_time: string | null;
-    status: string | null;
-    field_idx: number | null;
-    home: { name: string | null } | null;
-    away: { name: string | null } | null;
-  } | null;
-};
-
-type StandingRow = {
-  team_id: string;
-  team_name: string;
-  played: number;
-  wins: number;
-  draws: number;
-  losses: number;
-  points: number;
-  goals_for: number;
-  goals_against: number;
-  goal_diff: number;
-};
-
-function hhmm(v: string | null) {
-  if (!v) return "";
-  const m = /^(\d{1,2}):(\d{2})/.exec(v.trim());
-  if (m) return `${m[1].padStart(2, "0")}:${m[2]}`;
-  const ms = Date.parse(v);
-  if (!Number.isNaN(ms)) {
-    return new Date(ms).toLocaleTimeString("fr-FR", {
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  }
-  return "";
-}
+type TournamentRow = Tournament;
 
 function fullName(fn: string | null, ln: string | null) {
   const a = (fn ?? "").trim();
@@ -122,84 +57,6 @@ function toCsv(rows: Record<string, any>[], headers: string[]) {
   return lines.join("\n");
 }
 
-function computeStandingsFromPlayedMatches(matches: MatchRow[]) {
-  const map = new Map<string, StandingRow>();
-
-  const ensure = (id: string, name: string) => {
-    const existing = map.get(id);
-    if (existing) return existing;
-
-    const row: StandingRow = {
-      team_id: id,
-      team_name: name || "Équipe",
-      played: 0,
-      wins: 0,
-      draws: 0,
-      losses: 0,
-      points: 0,
-      goals_for: 0,
-      goals_against: 0,
-      goal_diff: 0,
-    };
-    map.set(id, row);
-    return row;
-  };
-
-  for (const m of matches) {
-    const hs = typeof m.home_score === "number" ? m.home_score : null;
-    const as = typeof m.away_score === "number" ? m.away_score : null;
-    if (hs == null || as == null) continue;
-
-    const homeId = String((m as any).home_team_id ?? "");
-    const awayId = String((m as any).away_team_id ?? "");
-    if (!homeId || !awayId) continue;
-
-    const homeName = (m.home?.name ?? "").trim() || "Domicile";
-    const awayName = (m.away?.name ?? "").trim() || "Extérieur";
-
-    const H = ensure(homeId, homeName);
-    const A = ensure(awayId, awayName);
-
-    H.played += 1;
-    A.played += 1;
-
-    H.goals_for += hs;
-    H.goals_against += as;
-
-    A.goals_for += as;
-    A.goals_against += hs;
-
-    if (hs > as) {
-      H.wins += 1;
-      A.losses += 1;
-      H.points += 3;
-    } else if (hs < as) {
-      A.wins += 1;
-      H.losses += 1;
-      A.points += 3;
-    } else {
-      H.draws += 1;
-      A.draws += 1;
-      H.points += 1;
-      A.points += 1;
-    }
-  }
-
-  for (const r of map.values()) {
-    r.goal_diff = r.goals_for - r.goals_against;
-  }
-
-  const arr = Array.from(map.values());
-  arr.sort((a, b) => {
-    if (b.points !== a.points) return b.points - a.points;
-    if (b.goal_diff !== a.goal_diff) return b.goal_diff - a.goal_diff;
-    if (b.goals_for !== a.goals_for) return b.goals_for - a.goals_for;
-    return a.team_name.localeCompare(b.team_name);
-  });
-
-  return arr;
-}
-
 export default function ExportsPage() {
   const router = useRouter();
   const params = useParams();
@@ -213,18 +70,14 @@ export default function ExportsPage() {
       const { data: userData } = await supabase.auth.getUser();
       if (!userData.user) return router.push("/login");
 
-      const { data, error } = await supabase
-        .from("tournaments")
-        .select("id,title,created_at")
-        .eq("id", tournamentId)
-        .single();
+      const { data, error } = await getTournament(tournamentId);
 
       if (error) {
         setStatus("Erreur tournoi: " + error.message);
         return;
       }
 
-      setTournament((data ?? null) as any);
+      setTournament(data);
       setStatus("");
     }
     load();
@@ -232,18 +85,19 @@ export default function ExportsPage() {
 
   async function exportTeamsCsv() {
     setStatus("Export équipes...");
-    const { data, error } = await supabase
-      .from("teams")
-      .select("id,name,email")
-      .eq("tournament_id", tournamentId)
-      .order("name", { ascending: true });
+    const { data, error } = await listTeams(tournamentId);
 
     if (error) return setStatus("Erreur export équipes: " + error.message);
 
-    const rows = (data ?? []) as any as TeamRow[];
+    const rows = data ?? [];
     const csv = toCsv(
-      rows.map((t) => ({ id: t.id, name: t.name ?? "", email: t.email ?? "" })),
-      ["id", "name", "email"]
+      rows.map((t) => ({
+        id: t.id,
+        name: t.name ?? "",
+        email: t.email ?? "",
+        category: categoryOf(categoriesOf(tournament), t).name,
+      })),
+      ["id", "name", "email", "category"]
     );
     downloadText(`teams_${tournamentId}.csv`, csv, "text/csv;charset=utf-8");
     setStatus("");
@@ -251,15 +105,11 @@ export default function ExportsPage() {
 
   async function exportPlayersCsv() {
     setStatus("Export joueurs...");
-    const { data, error } = await supabase
-      .from("players")
-      .select("id,team_id,first_name,last_name,jersey_number,license_number")
-      .eq("tournament_id", tournamentId)
-      .order("team_id", { ascending: true });
+    const { data, error } = await listPlayers(tournamentId);
 
     if (error) return setStatus("Erreur export joueurs: " + error.message);
 
-    const rows = (data ?? []) as any as PlayerRow[];
+    const rows = [...(data ?? [])].sort((a, b) => a.team_id.localeCompare(b.team_id));
     const csv = toCsv(
       rows.map((p) => ({
         id: p.id,
@@ -278,31 +128,42 @@ export default function ExportsPage() {
 
   async function exportMatchesCsv() {
     setStatus("Export matchs...");
-    const { data, error } = await supabase
-      .from("matches")
-      .select(
-        "id,start_time,field_idx,status,home_score,away_score,home_team_id,away_team_id,home:home_team_id(name),away:away_team_id(name)"
-      )
-      .eq("tournament_id", tournamentId)
-      .order("start_time", { ascending: true })
-      .order("field_idx", { ascending: true });
+    const { data, error } = await listMatches(tournamentId);
 
     if (error) return setStatus("Erreur export matchs: " + error.message);
 
-    const rows = (data ?? []) as any as MatchRow[];
+    const rows = data ?? [];
     const csv = toCsv(
       rows.map((m) => ({
         id: m.id,
+        category: categoryOf(categoriesOf(tournament), m).name,
         start_time: m.start_time ?? "",
-        hhmm: hhmm(m.start_time),
+        hhmm: timeHHMM(m.start_time, ""),
         field_idx: m.field_idx ?? "",
         status: m.status ?? "",
         home: m.home?.name ?? "",
         away: m.away?.name ?? "",
         home_score: m.home_score ?? "",
         away_score: m.away_score ?? "",
+        decided_by: normalizeDecidedBy(m.decided_by),
+        home_penalties: m.home_penalties ?? "",
+        away_penalties: m.away_penalties ?? "",
       })),
-      ["id", "start_time", "hhmm", "field_idx", "status", "home", "away", "home_score", "away_score"]
+      [
+        "id",
+        "category",
+        "start_time",
+        "hhmm",
+        "field_idx",
+        "status",
+        "home",
+        "away",
+        "home_score",
+        "away_score",
+        "decided_by",
+        "home_penalties",
+        "away_penalties",
+      ]
     );
 
     downloadText(`matches_${tournamentId}.csv`, csv, "text/csv;charset=utf-8");
@@ -311,30 +172,25 @@ export default function ExportsPage() {
 
   async function exportResultsCsv() {
     setStatus("Export résultats (validés)...");
-    const { data, error } = await supabase
-      .from("matches")
-      .select(
-        "id,start_time,field_idx,status,home_score,away_score,home:home_team_id(name),away:away_team_id(name)"
-      )
-      .eq("tournament_id", tournamentId)
-      .eq("status", "played")
-      .order("start_time", { ascending: true })
-      .order("field_idx", { ascending: true });
+    const { data, error } = await listMatches(tournamentId, { status: "played" });
 
     if (error) return setStatus("Erreur export résultats: " + error.message);
 
-    const rows = (data ?? []) as any as MatchRow[];
+    const rows = data ?? [];
     const csv = toCsv(
       rows.map((m) => ({
         id: m.id,
-        hhmm: hhmm(m.start_time),
+        hhmm: timeHHMM(m.start_time, ""),
         field_idx: m.field_idx ?? "",
         home: m.home?.name ?? "",
         away: m.away?.name ?? "",
         home_score: m.home_score ?? "",
         away_score: m.away_score ?? "",
+        decided_by: normalizeDecidedBy(m.decided_by),
+        home_penalties: m.home_penalties ?? "",
+        away_penalties: m.away_penalties ?? "",
       })),
-      ["id", "hhmm", "field_idx", "home", "away", "home_score", "away_score"]
+      ["id", "hhmm", "field_idx", "home", "away", "home_score", "away_score", "decided_by", "home_penalties", "away_penalties"]
     );
 
     downloadText(`results_${tournamentId}.csv`, csv, "text/csv;charset=utf-8");
@@ -344,35 +200,35 @@ export default function ExportsPage() {
   async function exportEventsCsv() {
     setStatus("Export événements (validés)...");
 
-    const { data, error } = await supabase
-      .from("match_events")
-      .select(
-        "id,created_at,event_type,minute,player:player_id(first_name,last_name,jersey_number),team:team_id(name),match:match_id(start_time,status,field_idx,home:home_team_id(name),away:away_team_id(name))"
-      )
-      .eq("tournament_id", tournamentId)
-      .order("created_at", { ascending: true });
+    const { data: mData, error: mErr } = await listMatches(tournamentId, { status: "played" });
+    if (mErr) return setStatus("Erreur export événements: " + mErr.message);
 
+    const { data, error } = await listMatchEvents({ tournamentId });
     if (error) return setStatus("Erreur export événements: " + error.message);
 
-    const all = (data ?? []) as any as EventRow[];
-    const rows = all.filter((e) => (e.match?.status ?? "").toLowerCase() === "played");
+    const playedById = new Map((mData ?? []).map((m) => [m.id, m]));
+    const rows = (data ?? []).flatMap((e) => {
+      const match = playedById.get(e.match_id);
+      return match ? [{ ...e, match }] : [];
+    });
 
     const csv = toCsv(
       rows.map((e) => ({
         id: e.id,
         created_at: e.created_at ?? "",
         event_type: e.event_type ?? "",
+        event: eventLabel(e.event_type),
         minute: e.minute ?? "",
         player: `${fullName(e.player?.first_name ?? null, e.player?.last_name ?? null)}${
           e.player?.jersey_number != null ? ` #${e.player.jersey_number}` : ""
         }`,
         team: e.team?.name ?? "",
-        match_time: hhmm(e.match?.start_time ?? null),
-        field_idx: e.match?.field_idx ?? "",
-        home: e.match?.home?.name ?? "",
-        away: e.match?.away?.name ?? "",
+        match_time: timeHHMM(e.match.start_time, ""),
+        field_idx: e.match.field_idx ?? "",
+        home: e.match.home?.name ?? "",
+        away: e.match.away?.name ?? "",
       })),
-      ["id", "created_at", "event_type", "minute", "player", "team", "match_time", "field_idx", "home", "away"]
+      ["id", "created_at", "event_type", "event", "minute", "player", "team", "match_time", "field_idx", "home", "away"]
     );
 
     downloadText(`events_played_${tournamentId}.csv`, csv, "text/csv;charset=utf-8");
@@ -381,19 +237,11 @@ export default function ExportsPage() {
 
   async function exportResultsPdfSimple() {
     setStatus("Génération PDF résultats...");
-    const { data, error } = await supabase
-      .from("matches")
-      .select(
-        "id,start_time,field_idx,status,home_score,away_score,home:home_team_id(name),away:away_team_id(name)"
-      )
-      .eq("tournament_id", tournamentId)
-      .eq("status", "played")
-      .order("start_time", { ascending: true })
-      .order("field_idx", { ascending: true });
+    const { data, error } = await listMatches(tournamentId, { status: "played" });
 
     if (error) return setStatus("Erreur PDF: " + error.message);
 
-    const rows = (data ?? []) as any as MatchRow[];
+    const rows = data ?? [];
 
     const doc = new jsPDF({ orientation: "portrait", unit: "pt", format: "a4" });
     const title = tournament?.title ?? "Tournoi";
@@ -410,10 +258,10 @@ export default function ExportsPage() {
       startY: 90,
       head: [["Heure", "Terrain", "Domicile", "Score", "Extérieur"]],
       body: rows.map((m) => [
-        hhmm(m.start_time),
+        timeHHMM(m.start_time, ""),
         String(m.field_idx ?? ""),
         m.home?.name ?? "",
-        `${m.home_score ?? ""} - ${m.away_score ?? ""}`,
+        formatScoreline(m),
         m.away?.name ?? "",
       ]),
       styles: { font: "helvetica", fontSize: 10, cellPadding: 6 },
@@ -429,43 +277,58 @@ export default function ExportsPage() {
     setStatus("Génération PDF Tournoi complet...");
 
     // 1) Récupère tous les matchs validés (avec ids équipes pour classement)
-    const { data: playedData, error: playedErr } = await supabase
-      .from("matches")
-      .select(
-        "id,start_time,field_idx,status,home_score,away_score,home_team_id,away_team_id,home:home_team_id(name),away:away_team_id(name)"
-      )
-      .eq("tournament_id", tournamentId)
-      .eq("status", "played")
-      .order("start_time", { ascending: true })
-      .order("field_idx", { ascending: true });
+    const { data: playedData, error: playedErr } = await listMatches(tournamentId, { status: "played" });
 
     if (playedErr) {
       setStatus("Erreur matchs validés: " + playedErr.message);
       return;
     }
 
-    const playedMatches = (playedData ?? []) as any as MatchRow[];
-
-    // 2) Classement calculé à la volée
-    const standings = computeStandingsFromPlayedMatches(playedMatches);
+    const playedMatches = playedData ?? [];
 
-    // 3) Top buteurs (goal) uniquement sur matchs validés
+    // 2) Cartons des matchs validés (fair-play)
+    const fairPlayPoints = normalizeFairPlayPoints(tournament?.fair_play_points);
     const playedIds = playedMatches.map((m) => m.id).filter(Boolean);
+    let cards: CardEvent[] = [];
+    if (playedIds.length > 0) {
+      const { data: cardData, error: cardErr } = await listMatchEvents({ matchIds: playedIds, types: CARD_EVENT_TYPES });
+      if (cardErr) {
+        setStatus("Erreur cartons: " + cardErr.message);
+        return;
+      }
+      cards = cardData ?? [];
+    }
+
+    const { data: teamData, error: teamErr } = await listTeams(tournamentId);
+    if (teamErr) {
+      setStatus("Erreur teams: " + teamErr.message);
+      return;
+    }
+
+    // 3) Classement: même moteur et même découpage par catégorie / poule que la page Classement
+    const groupMatchIds = new Set(playedMatches.filter((m) => m.phase !== "knockout").map((m) => m.id));
+    const standingsByGroup = computeCategoryStandings(teamData ?? [], playedMatches, categoriesOf(tournament), {
+      ...standingsOptionsFromTournament(tournament),
+      fairPlay: fairPlayPointsByTeam(
+        cards.filter((c) => groupMatchIds.has(c.match_id ?? "")),
+        fairPlayPoints
+      ),
+    });
+
+    const fairPlayRows = computeFairPlay(teamData ?? [], cards, fairPlayPoints);
+
+    // 4) Top buteurs (goal + penalty_goal) uniquement sur matchs validés
     let topScorers: { name: string; goals: number }[] = [];
 
     if (playedIds.length > 0) {
-      const { data: goalsData, error: goalsErr } = await supabase
-        .from("match_events")
-        .select("player_id,event_type,player:player_id(first_name,last_name)")
-        .in("match_id", playedIds)
-        .eq("event_type", "goal");
+      const { data: goalsData, error: goalsErr } = await listMatchEvents({ matchIds: playedIds, types: SCORER_EVENT_TYPES });
 
       if (!goalsErr) {
         const c = new Map<string, { name: string; goals: number }>();
         for (const g of goalsData ?? []) {
-          const pid = String((g as any).player_id ?? "");
+          const pid = g.player_id ?? "";
           if (!pid) continue;
-          const p = (g as any).player;
+          const p = g.player;
           const name = fullName(p?.first_name ?? null, p?.last_name ?? null);
           const cur = c.get(pid) ?? { name, goals: 0 };
           cur.goals += 1;
@@ -500,10 +363,10 @@ export default function ExportsPage() {
       startY: 90,
       head: [["Heure", "Terrain", "Domicile", "Score", "Extérieur"]],
       body: playedMatches.map((m) => [
-        hhmm(m.start_time),
+        timeHHMM(m.start_time, ""),
         String(m.field_idx ?? ""),
         m.home?.name ?? "",
-        `${m.home_score ?? ""} - ${m.away_score ?? ""}`,
+        formatScoreline(m),
         m.away?.name ?? "",
       ]),
       styles: { font: "helvetica", fontSize: 10, cellPadding: 6 },
@@ -517,25 +380,42 @@ export default function ExportsPage() {
     doc.setFontSize(18);
     doc.text("Classement (calculé)", 40, 60);
 
-    autoTable(doc, {
-      startY: 90,
-      head: [["#", "Équipe", "Pts", "J", "G", "N", "P", "BP", "BC", "Diff"]],
-      body: standings.map((s, idx) => [
-        String(idx + 1),
-        s.team_name,
-        String(s.points),
-        String(s.played),
-        String(s.wins),
-        String(s.draws),
-        String(s.losses),
-        String(s.goals_for),
-        String(s.goals_against),
-        String(s.goal_diff),
-      ]),
-      styles: { font: "helvetica", fontSize: 9, cellPadding: 5 },
-      headStyles: { fillColor: [20, 20, 20] },
-      alternateRowStyles: { fillColor: [245, 245, 245] },
-    });
+    let standingsY = 80;
+    for (const g of standingsByGroup) {
+      if (standingsY > 740) {
+        doc.addPage();
+        standingsY = 40;
+      }
+
+      if (standingsByGroup.length > 1) {
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(12);
+        doc.text(g.label, 40, standingsY + 10);
+        standingsY += 18;
+      }
+
+      autoTable(doc, {
+        startY: standingsY + 10,
+        head: [["#", "Équipe", "Pts", "J", "G", "N", "P", "BP", "BC", "Diff"]],
+        body: g.rows.map((s, idx) => [
+          String(idx + 1),
+          s.team_name,
+          String(s.pts),
+          String(s.played),
+          String(s.wins),
+          String(s.draws),
+          String(s.losses),
+          String(s.gf),
+          String(s.ga),
+          String(s.gd),
+        ]),
+        styles: { font: "helvetica", fontSize: 9, cellPadding: 5 },
+        headStyles: { fillColor: [20, 20, 20] },
+        alternateRowStyles: { fillColor: [245, 245, 245] },
+      });
+
+      standingsY = ((doc as unknown as { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? standingsY) + 20;
+    }
 
     // Page 4: Top buteurs
     doc.addPage();
@@ -552,6 +432,37 @@ export default function ExportsPage() {
       alternateRowStyles: { fillColor: [245, 245, 245] },
     });
 
+    // Page 5: Fair-play
+    doc.addPage();
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(18);
+    doc.text("Fair-play", 40, 60);
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    doc.text(
+      `Barème: jaune ${fairPlayPoints.yellow} · 2e jaune +${fairPlayPoints.second_yellow} · rouge direct ${fairPlayPoints.red} · carton staff ${fairPlayPoints.staff}`,
+      40,
+      78
+    );
+
+    autoTable(doc, {
+      startY: 95,
+      head: [["#", "Équipe", "Jaunes", "2e jaunes", "Rouges", "Staff", "Pts"]],
+      body: fairPlayRows.map((r, idx) => [
+        String(idx + 1),
+        r.team_name,
+        String(r.yellows),
+        String(r.second_yellows),
+        String(r.reds),
+        String(r.staff_cards),
+        String(r.points),
+      ]),
+      styles: { font: "helvetica", fontSize: 10, cellPadding: 6 },
+      headStyles: { fillColor: [20, 20, 20] },
+      alternateRowStyles: { fillColor: [245, 245, 245] },
+    });
+
     doc.save(`tournoi_complet_${tournamentId}.pdf`);
     setStatus("");
   }
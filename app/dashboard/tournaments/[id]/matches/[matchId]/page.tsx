@@ -3,41 +3,66 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "../../../../../../lib/supabaseClient";
-
-type MatchInfo = {
-  id: string;
-  home_team_id: string;
-  away_team_id: string;
-  home: { name: string } | null;
-  away: { name: string } | null;
-};
-
-type Player = {
-  id: string;
-  first_name: string | null;
-  last_name: string | null;
-  jersey_number: number | null;
-  team_id: string;
-};
-
-type EventRow = {
-  id: string;
-  event_type: string;
-  created_at: string | null;
-  team_id: string | null;
-  player_id: string | null;
-  player: { first_name: string | null; last_name: string | null; jersey_number: number | null } | null;
-};
-
-function iconFor(type: string) {
-  const t = (type ?? "").toLowerCase();
-  if (t === "goal") return "⚽️";
-  if (t === "assist") return "🎯";
-  if (t === "yellow") return "🟡";
-  if (t === "red") return "🔴";
-  if (t === "mvp") return "⭐";
-  return "•";
-}
+import { isStaffCard } from "../../../../../../lib/domain/fairPlay";
+import {
+  computeSuspensions,
+  normalizeSuspensionRules,
+  suspendedForMatch,
+  suspensionReasonLabel,
+  type Suspension,
+} from "../../../../../../lib/domain/suspensions";
+import {
+  nextKicker,
+  safePenaltyKicks,
+  shootoutWinner,
+  tallyPenalties,
+  type PenaltyKick,
+} from "../../../../../../lib/domain/penalties";
+import type { Player as PlayerModel } from "../../../../../../lib/domain/models";
+import {
+  deleteMatchEvent,
+  flagMatchDispute,
+  getMatch,
+  getMyRole,
+  getTournament,
+  insertMatchEvent,
+  listAuditLog,
+  listMatchEvents,
+  listMatches,
+  listPlayers,
+  reopenMatch,
+  updateMatch,
+  type MatchEventWithPeople,
+  type MatchWithTeams,
+} from "../../../../../../lib/repository";
+import { canManage, canScore, normalizeRole, READ_ONLY_MESSAGE, type TournamentRole } from "../../../../../../lib/domain/roles";
+import {
+  clockLabel,
+  clockPatch,
+  clockTransitions,
+  halfMinutesOf,
+  MATCH_STATUS_LABELS,
+  matchMinute,
+  normalizeMatchStatus,
+} from "../../../../../../lib/domain/matchClock";
+import type { AuditEntry, MatchStatus } from "../../../../../../lib/domain/models";
+import {
+  AUDIT_ACTION_LABELS,
+  auditActor,
+  auditChanges,
+  auditDateTime,
+  auditNames,
+  auditSubject,
+} from "../../../../../../lib/domain/audit";
+import { eventIcon, eventSuffix } from "../../../../../../lib/domain/events";
+import { checkScore, normalizeScoreMode, scoreFromEvents, type ScoreMode } from "../../../../../../lib/domain/scoring";
+import { DISPUTE_BADGE, isDisputed, LOCKED_MESSAGE } from "../../../../../../lib/domain/disputes";
+import { isPlayed } from "../../../../../../lib/domain/tournament";
+import { clean } from "../../../../../../lib/domain/utils";
+
+type MatchInfo = MatchWithTeams;
+type Player = PlayerModel;
+type EventRow = MatchEventWithPeople;
 
 function formatPlayerName(p: EventRow["player"]) {
   const fn = (p?.first_name ?? "").trim();
@@ -58,6 +83,29 @@ export default function MatchDetailPage() {
   const [players, setPlayers] = useState<Player[]>([]);
   const [events, setEvents] = useState<EventRow[]>([]);
   const [status, setStatus] = useState("Chargement...");
+  const [role, setRole] = useState<TournamentRole | null>(null);
+
+  // ✅ Chrono (minute de jeu) + rafraîchissement de l'affichage chaque seconde
+  const [halfMinutes, setHalfMinutes] = useState(6);
+  const [now, setNow] = useState(0);
+  const [savingClock, setSavingClock] = useState(false);
+
+  // ✅ Score: manuel (page Matchs) ou calculé depuis les buts
+  const [scoreMode, setScoreMode] = useState<ScoreMode>("manual");
+
+  // ✅ Tirs au but (tir par tir)
+  const [kicks, setKicks] = useState<PenaltyKick[]>([]);
+  const [kickerId, setKickerId] = useState("");
+  const [savingKick, setSavingKick] = useState(false);
+
+  // ✅ Historique des modifications du match (admins), chargé à la demande
+  const [history, setHistory] = useState<AuditEntry[] | null>(null);
+
+  // ✅ Contestation: équipe qui conteste (saisie admin)
+  const [disputeTeamId, setDisputeTeamId] = useState("");
+
+  // ✅ Joueurs suspendus sur ce match (cartons des matchs précédents)
+  const [suspended, setSuspended] = useState<Map<string, Suspension>>(new Map());
 
   const teamNameById = useMemo(() => {
     const m = new Map<string, string>();
@@ -67,13 +115,13 @@ export default function MatchDetailPage() {
   }, [match]);
 
   function formatEventLine(e: EventRow) {
-    const icon = iconFor(e.event_type);
-    const name = formatPlayerName(e.player);
+    const icon = e.minute != null ? `${e.minute}' ${eventIcon(e.event_type)}` : eventIcon(e.event_type);
+    const name = isStaffCard(e.event_type) ? "Staff" : formatPlayerName(e.player);
     const num = e.player?.jersey_number;
     const teamName = e.team_id ? teamNameById.get(e.team_id) : undefined;
 
     const inside = `${num != null ? `#${num} ` : ""}${teamName ?? "Équipe"}`.trim();
-    return `${icon} ${name} (${inside})`;
+    return `${icon} ${name}${eventSuffix(e.event_type)} (${inside})`;
   }
 
   const homePlayers = useMemo(() => {
@@ -111,72 +159,130 @@ export default function MatchDetailPage() {
     async function load() {
       setStatus("Chargement...");
 
-      const { data: mData, error: mErr } = await supabase
-        .from("matches")
-        .select("id,home_team_id,away_team_id,home:home_team_id(name),away:away_team_id(name)")
-        .eq("id", matchId)
-        .single();
+      const { data: myRole } = await getMyRole(tournamentId);
+      const r = normalizeRole(myRole);
+      setRole(r);
+
+      const { data: mData, error: mErr } = await getMatch(matchId);
 
       if (mErr) {
         setStatus("Erreur match: " + mErr.message);
         return;
       }
 
-      setMatch(mData as any);
+      setMatch(mData);
+      setKicks(safePenaltyKicks(mData?.penalty_kicks));
+
+      const { data: tData } = await getTournament(tournamentId);
+      setHalfMinutes(halfMinutesOf(tData, mData));
+      setScoreMode(normalizeScoreMode(tData?.score_mode));
 
-      const { data: pData, error: pErr } = await supabase
-        .from("players")
-        .select("id,first_name,last_name,jersey_number,team_id")
-        .eq("tournament_id", tournamentId);
+      const { data: pData, error: pErr } = await listPlayers(tournamentId);
 
       if (pErr) {
         setStatus("Erreur players: " + pErr.message);
         return;
       }
 
-      setPlayers((pData ?? []) as any);
+      setPlayers(pData ?? []);
 
+      await refreshSuspensions();
       await refreshEvents();
-      setStatus("");
+      setStatus(canScore(r) ? "" : READ_ONLY_MESSAGE);
     }
 
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [matchId, tournamentId]);
 
+  const clockRunning = normalizeMatchStatus(match?.status) === "in_progress";
+
+  useEffect(() => {
+    if (!clockRunning) return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [clockRunning]);
+
+  async function changeClock(to: MatchStatus) {
+    if (!match) return;
+    if (!canScore(role)) return setStatus(READ_ONLY_MESSAGE);
+    if (to === "scheduled" && !window.confirm("Remettre le chrono à zéro ? Les minutes déjà saisies sont conservées.")) return;
+
+    setSavingClock(true);
+    setStatus("");
+
+    const { error } = await updateMatch(matchId, clockPatch(match, to));
+
+    if (error) {
+      setSavingClock(false);
+      setStatus("Erreur chrono: " + error.message);
+      return;
+    }
+
+    const { data } = await getMatch(matchId);
+    if (data) setMatch(data);
+    setNow(Date.now());
+    setSavingClock(false);
+  }
+
   async function refreshEvents() {
-    const { data, error } = await supabase
-      .from("match_events")
-      .select("id,event_type,created_at,team_id,player_id,player:player_id(first_name,last_name,jersey_number)")
-      .eq("match_id", matchId)
-      .order("created_at", { ascending: true });
+    const { data, error } = await listMatchEvents({ matchId });
 
     if (error) {
       setStatus("Erreur events: " + error.message);
       return;
     }
 
-    setEvents((data ?? []) as any);
+    setEvents(data ?? []);
   }
 
-  async function insertEvent(playerId: string, teamId: string, type: string) {
-    const { error } = await supabase.from("match_events").insert({
+  async function refreshSuspensions() {
+    const { data: tData, error: tErr } = await getTournament(tournamentId);
+
+    if (tErr) {
+      setStatus("Erreur tournoi: " + tErr.message);
+      return;
+    }
+
+    const { data: allMatches, error: amErr } = await listMatches(tournamentId);
+
+    if (amErr) {
+      setStatus("Erreur matchs: " + amErr.message);
+      return;
+    }
+
+    const { data: cards, error: cErr } = await listMatchEvents({ tournamentId, types: ["yellow", "red"] });
+
+    if (cErr) {
+      setStatus("Erreur cartons: " + cErr.message);
+      return;
+    }
+
+    const all = computeSuspensions(allMatches ?? [], cards ?? [], normalizeSuspensionRules(tData?.suspension_rules));
+    setSuspended(suspendedForMatch(all, matchId));
+  }
+
+  async function insertEvent(playerId: string | null, teamId: string, type: string) {
+    const { error } = await insertMatchEvent({
       tournament_id: tournamentId,
       match_id: matchId,
       team_id: teamId,
       player_id: playerId,
       event_type: type,
+      minute: match && type !== "mvp" ? matchMinute(match, halfMinutes) : null,
     });
     return error;
   }
 
   async function deleteEvent(eventId: string) {
+    if (!canScore(role)) return setStatus(READ_ONLY_MESSAGE);
+    if (match && isPlayed(match)) return setStatus(LOCKED_MESSAGE);
     setStatus("");
 
     const ok = window.confirm("Supprimer cet événement ?");
     if (!ok) return;
 
-    const { error } = await supabase.from("match_events").delete().eq("id", eventId);
+    const { error } = await deleteMatchEvent(eventId);
 
     if (error) {
       setStatus("Erreur suppression event: " + error.message);
@@ -187,6 +293,8 @@ export default function MatchDetailPage() {
   }
 
   async function addEvent(playerId: string, teamId: string, type: string) {
+    if (!canScore(role)) return setStatus(READ_ONLY_MESSAGE);
+    if (match && isPlayed(match)) return setStatus(LOCKED_MESSAGE);
     setStatus("");
     const t = (type ?? "").toLowerCase();
 
@@ -260,7 +368,7 @@ export default function MatchDetailPage() {
       return;
     }
 
-    // ⚽️ / 🎯 illimités
+    // ⚽️ / 🅿️ / 🥅 / ❌ / 🎯 / 🧤 / 🔵 illimités
     const err = await insertEvent(playerId, teamId, t);
     if (err) {
       setStatus("Erreur ajout event: " + err.message);
@@ -269,6 +377,122 @@ export default function MatchDetailPage() {
     await refreshEvents();
   }
 
+  async function reloadMatch() {
+    const { data, error } = await getMatch(matchId);
+    if (error) return setStatus("Erreur match: " + error.message);
+    if (data) setMatch(data);
+    if (history) setHistory(null);
+  }
+
+  // 🔓 Réouverture d'un match validé (admin, motif obligatoire, tracé dans l'historique)
+  async function reopen() {
+    if (!canManage(role)) return setStatus(LOCKED_MESSAGE);
+
+    const reason = clean(window.prompt("Motif de la réouverture (obligatoire):") ?? "");
+    if (!reason) return;
+
+    setStatus("");
+    const { error } = await reopenMatch(matchId, reason);
+    if (error) return setStatus("Erreur réouverture: " + error.message);
+    await reloadMatch();
+  }
+
+  // ⚠️ Contestation du résultat (saisie par un admin pour une équipe)
+  async function flagDispute() {
+    if (!canManage(role)) return;
+    if (!disputeTeamId) return setStatus("Choisis l'équipe qui conteste.");
+
+    const reason = clean(window.prompt("Motif de la contestation:") ?? "");
+    if (!reason) return;
+
+    setStatus("");
+    const { error } = await flagMatchDispute(matchId, reason, disputeTeamId);
+    if (error) return setStatus("Erreur contestation: " + error.message);
+    setDisputeTeamId("");
+    await reloadMatch();
+  }
+
+  async function resolveDispute() {
+    if (!canManage(role)) return;
+
+    const resolution = clean(window.prompt("Décision (résultat maintenu, rejoué, ...):") ?? "");
+    if (!resolution) return;
+
+    setStatus("");
+    const { error } = await updateMatch(matchId, {
+      dispute_resolved_at: new Date().toISOString(),
+      dispute_resolution: resolution,
+    });
+    if (error) return setStatus("Erreur contestation: " + error.message);
+    await reloadMatch();
+  }
+
+  async function toggleHistory() {
+    if (history) return setHistory(null);
+
+    const { data, error } = await listAuditLog({ tournamentId, matchId });
+    if (error) return setStatus("Erreur historique: " + error.message);
+    setHistory(data ?? []);
+  }
+
+  // --------- TIRS AU BUT ---------
+
+  const shootoutDone = useMemo(() => shootoutWinner(kicks), [kicks]);
+  const kickSide = nextKicker(kicks);
+
+  async function saveKicks(next: PenaltyKick[]) {
+    if (!canScore(role)) return setStatus(READ_ONLY_MESSAGE);
+    if (match && isPlayed(match)) return setStatus(LOCKED_MESSAGE);
+    setSavingKick(true);
+    setStatus("");
+
+    const t = tallyPenalties(next);
+    const { error } = await supabase
+      .from("matches")
+      .update({
+        penalty_kicks: next,
+        home_penalties: next.length ? t.home : null,
+        away_penalties: next.length ? t.away : null,
+        decided_by: next.length ? "penalties" : "regular",
+      })
+      .eq("id", matchId);
+
+    setSavingKick(false);
+
+    if (error) {
+      setStatus("Erreur tirs au but: " + error.message);
+      return;
+    }
+
+    setKicks(next);
+    setKickerId("");
+  }
+
+  async function recordKick(scored: boolean) {
+    if (shootoutDone) return;
+    await saveKicks([...kicks, { team: kickSide, scored, player_id: kickerId || null }]);
+  }
+
+  async function undoKick() {
+    if (kicks.length === 0) return;
+    await saveKicks(kicks.slice(0, -1));
+  }
+
+  // 🟡/🔴 Staff: carton à l'encadrement (compte dans le fair-play, pas de joueur)
+  async function addStaffCard(teamId: string | null, type: "staff_yellow" | "staff_red") {
+    if (!canScore(role)) return setStatus(READ_ONLY_MESSAGE);
+    if (match && isPlayed(match)) return setStatus(LOCKED_MESSAGE);
+    setStatus("");
+    if (!teamId) return;
+
+    const err = await insertEvent(null, teamId, type);
+    if (err) {
+      setStatus("Erreur carton staff: " + err.message);
+      return;
+    }
+    await refreshEvents();
+  }
+
   if (!match) {
     return (
       <main className="min-h-screen bg-slate-100 p-6">
@@ -279,6 +503,18 @@ export default function MatchDetailPage() {
 
   function PlayerRow({ p }: { p: Player }) {
     const isMvp = mvpByTeam.get(p.team_id) === p.id;
+    const suspension = suspended.get(p.id);
+
+    if (suspension) {
+      return (
+        <div className="flex items-center justify-between mb-2 opacity-50" title={suspensionReasonLabel(suspension)}>
+          <span className="line-through">
+            #{p.jersey_number ?? "-"} {p.first_name ?? ""} {p.last_name ?? ""}
+          </span>
+          <span className="text-xs font-semibold text-red-700">⛔ Suspendu</span>
+        </div>
+      );
+    }
 
     return (
       <div className="flex items-center justify-between mb-2">
@@ -287,13 +523,25 @@ export default function MatchDetailPage() {
           {isMvp ? " ⭐" : ""}
         </span>
 
-        <div className="flex gap-2">
+        <div className="flex gap-2 flex-wrap justify-end">
           <button onClick={() => addEvent(p.id, p.team_id, "goal")} className="px-2 py-1 bg-green-600 text-white rounded" title="But">
             ⚽
           </button>
+          <button onClick={() => addEvent(p.id, p.team_id, "own_goal")} className="px-2 py-1 bg-gray-700 text-white rounded" title="But contre son camp (compté pour l'adversaire)">
+            🥅
+          </button>
+          <button onClick={() => addEvent(p.id, p.team_id, "penalty_goal")} className="px-2 py-1 bg-green-700 text-white rounded" title="But sur penalty">
+            🅿️
+          </button>
+          <button onClick={() => addEvent(p.id, p.team_id, "penalty_missed")} className="px-2 py-1 bg-gray-200 rounded" title="Penalty manqué">
+            ❌
+          </button>
           <button onClick={() => addEvent(p.id, p.team_id, "assist")} className="px-2 py-1 bg-blue-600 text-white rounded" title="Passe">
             🎯
           </button>
+          <button onClick={() => addEvent(p.id, p.team_id, "save")} className="px-2 py-1 bg-sky-100 rounded" title="Arrêt (gardien)">
+            🧤
+          </button>
           <button
             onClick={() => addEvent(p.id, p.team_id, "yellow")}
             className="px-2 py-1 bg-yellow-400 text-black rounded"
@@ -301,6 +549,9 @@ export default function MatchDetailPage() {
           >
             🟡
           </button>
+          <button onClick={() => addEvent(p.id, p.team_id, "blue_card")} className="px-2 py-1 bg-blue-500 text-white rounded" title="Carton bleu (exclusion temporaire)">
+            🔵
+          </button>
           <button onClick={() => addEvent(p.id, p.team_id, "red")} className="px-2 py-1 bg-red-600 text-white rounded" title="Carton rouge (max 1)">
             🔴
           </button>
@@ -316,41 +567,238 @@ export default function MatchDetailPage() {
     );
   }
 
+  function StaffRow({ teamId }: { teamId: string | null }) {
+    if (!teamId) return null;
+    return (
+      <div className="flex items-center justify-between mt-3 pt-3 border-t">
+        <span className="text-sm text-gray-600">Staff / encadrement</span>
+        <div className="flex gap-2">
+          <button
+            onClick={() => addStaffCard(teamId, "staff_yellow")}
+            className="px-2 py-1 bg-yellow-400 text-black rounded"
+            title="Carton jaune staff"
+          >
+            🟡
+          </button>
+          <button
+            onClick={() => addStaffCard(teamId, "staff_red")}
+            className="px-2 py-1 bg-red-600 text-white rounded"
+            title="Carton rouge staff"
+          >
+            🔴
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const tally = tallyPenalties(kicks);
+  const matchLocked = isPlayed(match);
+  const disputed = isDisputed(match);
+  const drawn = match.home_score != null && match.home_score === match.away_score;
+  const kickPlayers = (kickSide === "home" ? homePlayers : awayPlayers).filter((p) => !suspended.has(p.id));
+  const goals = scoreFromEvents(match, events);
+  const historyNames = auditNames(
+    [
+      { id: match.home_team_id ?? "", name: match.home?.name ?? null },
+      { id: match.away_team_id ?? "", name: match.away?.name ?? null },
+    ],
+    players,
+    history ?? []
+  );
+  const scoreIssue = scoreMode === "manual" ? checkScore(match, events) : null;
+
+  function sideName(side: "home" | "away") {
+    return (side === "home" ? match?.home?.name : match?.away?.name) ?? "À déterminer";
+  }
+
   return (
     <main className="min-h-screen bg-slate-100 p-6">
       <div className="max-w-4xl mx-auto space-y-6">
         <div className="bg-white rounded-xl shadow p-6">
-          <h1 className="text-2xl font-bold">
-            {match.home?.name} vs {match.away?.name}
-          </h1>
+          <div className="flex items-start justify-between gap-3 flex-wrap">
+            <h1 className="text-2xl font-bold">
+              {match.home?.name ?? "À déterminer"} vs {match.away?.name ?? "À déterminer"}
+            </h1>
+            {canScore(role) && (
+              <button
+                onClick={() => router.push(`/dashboard/tournaments/${tournamentId}/matches/${matchId}/referee`)}
+                className="bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-900 transition"
+                title="Saisie tactile, fonctionne hors connexion"
+              >
+                📱 Mode arbitre
+              </button>
+            )}
+          </div>
 
           {status && <p className="mt-2 text-sm text-gray-700">{status}</p>}
 
+          {matchLocked && (
+            <div className="mt-3 flex items-center justify-between gap-3 flex-wrap rounded-lg bg-green-50 border border-green-200 p-3 text-sm">
+              <span className="text-green-800">🔒 Match validé: score et événements verrouillés.</span>
+              {canManage(role) && (
+                <button onClick={reopen} className="px-3 py-2 bg-yellow-200 rounded-lg hover:bg-yellow-300 transition">
+                  🔓 Rouvrir
+                </button>
+              )}
+            </div>
+          )}
+          {!matchLocked && match.reopen_reason && (
+            <p className="mt-2 text-xs text-gray-500">Rouvert: {match.reopen_reason}</p>
+          )}
+
+          {/* Chrono */}
+          <div className="mt-3 flex items-center gap-3 flex-wrap">
+            <span className="text-3xl font-extrabold tabular-nums min-w-[64px]">{clockLabel(match, halfMinutes, now || undefined) || "—"}</span>
+            <span className="text-sm font-semibold text-gray-600">{MATCH_STATUS_LABELS[normalizeMatchStatus(match.status)]}</span>
+            {canScore(role) &&
+              clockTransitions(match).map((tr) => (
+                <button
+                  key={tr.to + tr.label}
+                  onClick={() => changeClock(tr.to)}
+                  disabled={savingClock}
+                  className="px-3 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-900 transition text-sm disabled:opacity-50"
+                >
+                  {tr.label}
+                </button>
+              ))}
+            {canScore(role) && match.kickoff_at && !matchLocked && (
+              <button
+                onClick={() => changeClock("scheduled")}
+                disabled={savingClock}
+                className="px-3 py-2 bg-gray-200 rounded-lg hover:bg-gray-300 transition text-sm disabled:opacity-50"
+              >
+                ⏮️ Remettre à zéro
+              </button>
+            )}
+          </div>
+
+          {/* Score d'après les buts saisis */}
+          <div className="mt-3 text-sm">
+            <span className="font-semibold">
+              {scoreMode === "events" ? "Score" : "Buts saisis"}: {goals.home} - {goals.away}
+            </span>
+            {scoreMode === "events" && <span className="text-gray-500"> (calculé automatiquement)</span>}
+            {scoreIssue?.kind === "mismatch" && (
+              <span className="ml-2 text-amber-700">
+                ⚠️ Score saisi: {match.home_score} - {match.away_score}
+              </span>
+            )}
+          </div>
+
           <p className="mt-2 text-sm text-gray-500">
-            Règles: 🟡 max 2 (le 2e ajoute 🔴), 🔴 max 1, ⭐ MVP = 1 par équipe. Supprime via ✖ si erreur.
+            Règles: 🟡 max 2 (le 2e ajoute 🔴), 🔴 max 1, ⭐ MVP = 1 par équipe, 🥅 CSC = compté pour l’adversaire, 🔵 exclusion temporaire. Supprime via ✖ si erreur.
           </p>
+
+          {suspended.size > 0 && (
+            <p className="mt-1 text-sm text-red-700">
+              ⛔ Suspendu{suspended.size > 1 ? "s" : ""} sur ce match:{" "}
+              {players
+                .filter((p) => suspended.has(p.id))
+                .map((p) => `#${p.jersey_number ?? "-"} ${p.first_name ?? ""} ${p.last_name ?? ""}`.trim())
+                .join(", ")}
+            </p>
+          )}
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="bg-white rounded-xl shadow p-6">
-            <h2 className="font-semibold mb-3">{match.home?.name}</h2>
+            <h2 className="font-semibold mb-3">{match.home?.name ?? "À déterminer"}</h2>
             {homePlayers.length === 0 ? (
               <div className="text-sm text-gray-500">Aucun joueur.</div>
             ) : (
               homePlayers.map((p) => <PlayerRow key={p.id} p={p} />)
             )}
+            <StaffRow teamId={match.home_team_id} />
           </div>
 
           <div className="bg-white rounded-xl shadow p-6">
-            <h2 className="font-semibold mb-3">{match.away?.name}</h2>
+            <h2 className="font-semibold mb-3">{match.away?.name ?? "À déterminer"}</h2>
             {awayPlayers.length === 0 ? (
               <div className="text-sm text-gray-500">Aucun joueur.</div>
             ) : (
               awayPlayers.map((p) => <PlayerRow key={p.id} p={p} />)
             )}
+            <StaffRow teamId={match.away_team_id} />
           </div>
         </div>
 
+        {(match.phase === "knockout" || match.decided_by === "penalties" || kicks.length > 0) && (
+          <div className="bg-white rounded-xl shadow p-6 space-y-3">
+            <h2 className="font-semibold">🥅 Tirs au but</h2>
+
+            <div className="grid grid-cols-[1fr_auto] gap-y-2 gap-x-4 items-center">
+              {(["home", "away"] as const).map((side) => (
+                <div key={side} className="contents">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="font-semibold truncate">{sideName(side)}</span>
+                    <span className="flex gap-1">
+                      {kicks
+                        .filter((k) => k.team === side)
+                        .map((k, i) => (
+                          <span key={i} title={k.scored ? "Marqué" : "Manqué"}>
+                            {k.scored ? "🟢" : "🔴"}
+                          </span>
+                        ))}
+                    </span>
+                  </div>
+                  <div className="text-2xl font-extrabold tabular-nums text-right">
+                    {side === "home" ? tally.home : tally.away}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {shootoutDone ? (
+              <div className="text-sm font-bold text-green-700">🏆 {sideName(shootoutDone)} gagne aux tirs au but.</div>
+            ) : matchLocked ? (
+              <div className="text-sm text-gray-500">Match validé: un admin doit le rouvrir pour modifier la séance.</div>
+            ) : (
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-sm text-gray-700">
+                  Tir n°{(kickSide === "home" ? tally.homeTaken : tally.awayTaken) + 1} · <strong>{sideName(kickSide)}</strong>
+                </span>
+                <select
+                  value={kickerId}
+                  onChange={(e) => setKickerId(e.target.value)}
+                  className="border rounded px-2 py-1 text-sm bg-white"
+                >
+                  <option value="">Tireur (optionnel)</option>
+                  {kickPlayers.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      #{p.jersey_number ?? "-"} {p.first_name ?? ""} {p.last_name ?? ""}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => recordKick(true)}
+                  disabled={savingKick}
+                  className="px-3 py-1 bg-green-600 text-white rounded disabled:opacity-50"
+                >
+                  ✅ Marqué
+                </button>
+                <button
+                  onClick={() => recordKick(false)}
+                  disabled={savingKick}
+                  className="px-3 py-1 bg-red-600 text-white rounded disabled:opacity-50"
+                >
+                  ❌ Manqué
+                </button>
+              </div>
+            )}
+
+            {!matchLocked && kicks.length > 0 && (
+              <button onClick={undoKick} disabled={savingKick} className="px-3 py-1 bg-gray-200 rounded text-sm disabled:opacity-50">
+                ↩️ Annuler le dernier tir
+              </button>
+            )}
+
+            {!drawn && kicks.length === 0 && (
+              <p className="text-xs text-gray-500">Les tirs au but ne servent qu&apos;en cas de match nul.</p>
+            )}
+          </div>
+        )}
+
         <div className="bg-white rounded-xl shadow p-6">
           <h2 className="font-semibold mb-3">Événements</h2>
 
@@ -362,20 +810,106 @@ export default function MatchDetailPage() {
                 <div key={e.id} className="flex items-center justify-between gap-3">
                   <div className="text-sm text-gray-800 font-semibold">{formatEventLine(e)}</div>
 
-                  <button
-                    onClick={() => deleteEvent(e.id)}
-                    className="text-gray-400 hover:text-red-600 px-2 py-1"
-                    title="Supprimer"
-                    aria-label="Supprimer"
-                  >
-                    ✖
-                  </button>
+                  {!matchLocked && (
+                    <button
+                      onClick={() => deleteEvent(e.id)}
+                      className="text-gray-400 hover:text-red-600 px-2 py-1"
+                      title="Supprimer"
+                      aria-label="Supprimer"
+                    >
+                      ✖
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
           )}
         </div>
 
+        {(disputed || match.dispute_resolved_at || (matchLocked && canManage(role))) && (
+          <div className={`rounded-xl shadow p-6 space-y-2 ${disputed ? "bg-orange-50 border border-orange-200" : "bg-white"}`}>
+            <h2 className="font-semibold">{disputed ? DISPUTE_BADGE : "⚠️ Contestation"}</h2>
+
+            {match.disputed_at && (
+              <div className="text-sm text-gray-700">
+                <div>
+                  Équipe: <b>{(match.dispute_team_id && teamNameById.get(match.dispute_team_id)) ?? "—"}</b>
+                </div>
+                <div>Motif: {match.dispute_reason ?? "—"}</div>
+                <div className="text-xs text-gray-500">
+                  {new Date(match.disputed_at).toLocaleString("fr-FR")}
+                  {match.disputed_by_email ? ` · ${match.disputed_by_email}` : ""}
+                </div>
+              </div>
+            )}
+
+            {!disputed && match.dispute_resolved_at && (
+              <div className="text-sm text-green-800">
+                ✅ Close le {new Date(match.dispute_resolved_at).toLocaleString("fr-FR")}: {match.dispute_resolution ?? "—"}
+              </div>
+            )}
+
+            {disputed && canManage(role) && (
+              <button onClick={resolveDispute} className="px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition text-sm">
+                ✅ Clore la contestation
+              </button>
+            )}
+
+            {!disputed && matchLocked && canManage(role) && (
+              <div className="flex items-center gap-2 flex-wrap">
+                <select
+                  value={disputeTeamId}
+                  onChange={(e) => setDisputeTeamId(e.target.value)}
+                  className="border rounded-lg px-2 py-2 text-sm bg-white"
+                >
+                  <option value="">Équipe qui conteste</option>
+                  {match.home_team_id && <option value={match.home_team_id}>{sideName("home")}</option>}
+                  {match.away_team_id && <option value={match.away_team_id}>{sideName("away")}</option>}
+                </select>
+                <button onClick={flagDispute} className="px-3 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition text-sm">
+                  ⚠️ Contester le résultat
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {canManage(role) && (
+          <div className="bg-white rounded-xl shadow p-6">
+            <div className="flex items-center justify-between gap-3">
+              <h2 className="font-semibold">🕓 Historique</h2>
+              <button onClick={toggleHistory} className="px-3 py-2 bg-gray-200 rounded-lg hover:bg-gray-300 transition text-sm">
+                {history ? "Masquer" : "Afficher"}
+              </button>
+            </div>
+
+            {history && history.length === 0 && <p className="mt-3 text-sm text-gray-500">Aucune modification enregistrée.</p>}
+
+            {history && history.length > 0 && (
+              <div className="mt-3 space-y-2">
+                {history.map((h) => (
+                  <div key={h.id} className="text-sm border-b pb-2">
+                    <div className="flex items-center justify-between gap-2 flex-wrap">
+                      <span className="font-semibold">
+                        {AUDIT_ACTION_LABELS[h.action] ?? h.action} · {auditSubject(h, historyNames)}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {auditDateTime(h)} · {auditActor(h)}
+                      </span>
+                    </div>
+                    {h.action === "update" &&
+                      auditChanges(h, historyNames).map((c) => (
+                        <div key={c.field} className="text-gray-600">
+                          {c.label}: <span className="line-through text-gray-400">{c.before}</span> → <b>{c.after}</b>
+                        </div>
+                      ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <button onClick={() => router.back()} className="px-4 py-2 bg-gray-300 rounded">
           Retour
         </button>
@@ -0,0 +1,546 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { supabase } from "../../../../../../../lib/supabaseClient";
+import {
+  deleteMatchEvent,
+  getMatch,
+  getMyRole,
+  getTournament,
+  insertMatchEvent,
+  listMatchEvents,
+  listMatches,
+  listPlayers,
+  updateMatch,
+  type MatchEventWithPeople,
+  type MatchWithTeams,
+} from "../../../../../../../lib/repository";
+import type { MatchEventType, MatchStatus, Player } from "../../../../../../../lib/domain/models";
+import { canScore, normalizeRole, READ_ONLY_MESSAGE, type TournamentRole } from "../../../../../../../lib/domain/roles";
+import {
+  computeSuspensions,
+  normalizeSuspensionRules,
+  suspendedForMatch,
+  type Suspension,
+} from "../../../../../../../lib/domain/suspensions";
+import {
+  ALREADY_SYNCED_CODE,
+  checkQueuedInsert,
+  isNetworkError,
+  loadConflicts,
+  loadQueue,
+  newClientId,
+  saveConflicts,
+  saveQueue,
+  type QueueConflict,
+  type QueuedOp,
+  type ServerMatchState,
+} from "../../../../../../../lib/domain/offlineQueue";
+import {
+  clockLabel,
+  clockPatch,
+  clockTransitions,
+  halfMinutesOf,
+  matchMinute,
+  normalizeMatchStatus,
+} from "../../../../../../../lib/domain/matchClock";
+import { scoreFromEvents } from "../../../../../../../lib/domain/scoring";
+import { EVENT_ICONS, isScorerEvent } from "../../../../../../../lib/domain/events";
+import { LOCKED_MESSAGE } from "../../../../../../../lib/domain/disputes";
+import { isPlayed } from "../../../../../../../lib/domain/tournament";
+
+type EventType = Exclude<MatchEventType, "mvp" | "staff_yellow" | "staff_red">;
+
+const ACTIONS: { type: EventType; label: string; className: string }[] = [
+  { type: "goal", label: "⚽ But", className: "bg-green-600 text-white" },
+  { type: "penalty_goal", label: "🅿️ Penalty", className: "bg-green-700 text-white" },
+  { type: "own_goal", label: "🥅 CSC", className: "bg-gray-700 text-white" },
+  { type: "penalty_missed", label: "❌ Pen. raté", className: "bg-gray-200 text-black" },
+  { type: "assist", label: "🎯 Passe", className: "bg-blue-600 text-white" },
+  { type: "save", label: "🧤 Arrêt", className: "bg-sky-100 text-black" },
+  { type: "yellow", label: "🟡 Jaune", className: "bg-yellow-400 text-black" },
+  { type: "blue_card", label: "🔵 Bleu", className: "bg-blue-500 text-white" },
+  { type: "red", label: "🔴 Rouge", className: "bg-red-600 text-white" },
+];
+
+// Seuls les événements saisissables ici sont affichés (pas de MVP ni de cartons staff)
+const ICONS: Record<string, string> = Object.fromEntries(ACTIONS.map((a) => [a.type, EVENT_ICONS[a.type]]));
+
+const RETRY_MS = 15_000;
+
+/** Événement affiché: en base (id) ou encore dans la file locale (pending). */
+type ViewEvent = {
+  key: string;
+  id: string | null;
+  team_id: string | null;
+  player_id: string | null;
+  event_type: string;
+  pending: boolean;
+};
+
+function playerLabel(p: Player | undefined) {
+  if (!p) return "Joueur";
+  const name = `${p.first_name ?? ""} ${(p.last_name ?? "").slice(0, 1)}`.trim();
+  return `${p.jersey_number != null ? `#${p.jersey_number} ` : ""}${name || "Joueur"}`;
+}
+
+export default function RefereePage() {
+  const router = useRouter();
+  const params = useParams();
+  const tournamentId = String(params.id);
+  const matchId = String(params.matchId);
+
+  const [status, setStatus] = useState("Chargement...");
+  const [role, setRole] = useState<TournamentRole | null>(null);
+  const [match, setMatch] = useState<MatchWithTeams | null>(null);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [serverEvents, setServerEvents] = useState<MatchEventWithPeople[]>([]);
+  const [suspended, setSuspended] = useState<Map<string, Suspension>>(new Map());
+
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [queue, setQueue] = useState<QueuedOp[]>([]);
+  const [conflicts, setConflicts] = useState<QueueConflict[]>([]);
+
+  const [halfMinutes, setHalfMinutes] = useState(6);
+  const [now, setNow] = useState(0);
+
+  const [action, setAction] = useState<EventType>("goal");
+  const [side, setSide] = useState<"home" | "away">("home");
+
+  // ✅ source de vérité de la file (les ajouts pendant une synchro ne doivent pas être perdus)
+  const queueRef = useRef<QueuedOp[]>([]);
+  const flushingRef = useRef(false);
+
+  function commitQueue(next: QueuedOp[]) {
+    queueRef.current = next;
+    saveQueue(matchId, next);
+    setQueue(next);
+  }
+
+  function addConflicts(found: QueueConflict[]) {
+    if (found.length === 0) return;
+    setConflicts((prev) => {
+      const next = [...prev, ...found];
+      saveConflicts(matchId, next);
+      return next;
+    });
+  }
+
+  async function refreshEvents() {
+    const { data, error } = await listMatchEvents({ matchId });
+    if (error) return false;
+    setServerEvents(data ?? []);
+    return true;
+  }
+
+  // --------- SYNCHRO ---------
+
+  /** Rejoue la file dans l'ordre; s'arrête au premier échec réseau (le reste attend la prochaine tentative). */
+  async function flush() {
+    if (flushingRef.current || queueRef.current.length === 0) return;
+    if (typeof navigator !== "undefined" && !navigator.onLine) return;
+
+    flushingRef.current = true;
+    setSyncing(true);
+
+    const done = new Set<string>();
+    const found: QueueConflict[] = [];
+
+    try {
+      const [{ data: m, error: mErr }, { data: evs, error: eErr }] = await Promise.all([
+        getMatch(matchId),
+        listMatchEvents({ matchId }),
+      ]);
+      if (mErr || eErr) return;
+
+      const server: ServerMatchState = { status: m.status, events: [...(evs ?? [])] };
+
+      for (const item of [...queueRef.current]) {
+        if (item.op === "insert") {
+          const check = checkQueuedInsert(item, server);
+          if (check === "synced") {
+            done.add(item.client_id);
+            continue;
+          }
+          if (check) {
+            found.push({ op: item, reason: check });
+            done.add(item.client_id);
+            continue;
+          }
+
+          const { error } = await insertMatchEvent(item.row);
+          if (isNetworkError(error)) break;
+          if (error && error.code !== ALREADY_SYNCED_CODE) found.push({ op: item, reason: error.message });
+
+          server.events.push({ id: "", player_id: item.row.player_id ?? null, event_type: item.row.event_type, client_id: item.client_id });
+          done.add(item.client_id);
+        } else {
+          const { error } = await deleteMatchEvent(item.event_id);
+          if (isNetworkError(error)) break;
+          if (error) found.push({ op: item, reason: error.message });
+
+          server.events = server.events.filter((e) => e.id !== item.event_id);
+          done.add(item.client_id);
+        }
+      }
+    } finally {
+      commitQueue(queueRef.current.filter((x) => !done.has(x.client_id)));
+      addConflicts(found);
+      await refreshEvents();
+      flushingRef.current = false;
+      setSyncing(false);
+    }
+  }
+
+  // --------- LOAD ---------
+
+  useEffect(() => {
+    async function load() {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) return router.push("/login");
+
+      setOnline(navigator.onLine);
+      queueRef.current = loadQueue(matchId);
+      setQueue(queueRef.current);
+      setConflicts(loadConflicts(matchId));
+
+      const { data: myRole } = await getMyRole(tournamentId);
+      const r = normalizeRole(myRole);
+      setRole(r);
+      if (!canScore(r)) return setStatus(READ_ONLY_MESSAGE);
+
+      const { data: mData, error: mErr } = await getMatch(matchId);
+      if (mErr) return setStatus("Erreur match: " + mErr.message);
+      setMatch(mData);
+
+      const { data: pData, error: pErr } = await listPlayers(tournamentId);
+      if (pErr) return setStatus("Erreur joueurs: " + pErr.message);
+      setPlayers(pData ?? []);
+
+      await refreshEvents();
+
+      // suspensions (mêmes règles que le détail du match)
+      const [{ data: tData }, { data: allMatches }, { data: cards }] = await Promise.all([
+        getTournament(tournamentId),
+        listMatches(tournamentId),
+        listMatchEvents({ tournamentId, types: ["yellow", "red"] }),
+      ]);
+      const all = computeSuspensions(allMatches ?? [], cards ?? [], normalizeSuspensionRules(tData?.suspension_rules));
+      setSuspended(suspendedForMatch(all, matchId));
+      setHalfMinutes(halfMinutesOf(tData, mData));
+
+      setStatus("");
+      await flush();
+    }
+
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, tournamentId, matchId]);
+
+  // ✅ Réseau: synchro dès le retour de la connexion + nouvelle tentative régulière
+  useEffect(() => {
+    const onOnline = () => {
+      setOnline(true);
+      flush();
+    };
+    const onOffline = () => setOnline(false);
+
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    const id = window.setInterval(() => {
+      if (queueRef.current.length > 0) flush();
+    }, RETRY_MS);
+
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      window.clearInterval(id);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [matchId]);
+
+  // ✅ Chrono: affichage à la seconde tant que le match est en cours
+  const clockRunning = normalizeMatchStatus(match?.status) === "in_progress";
+
+  useEffect(() => {
+    if (!clockRunning) return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [clockRunning]);
+
+  // --------- VUE (serveur + file locale) ---------
+
+  const events = useMemo<ViewEvent[]>(() => {
+    const deleted = new Set(queue.filter((q) => q.op === "delete").map((q) => q.event_id));
+    const fromServer: ViewEvent[] = serverEvents
+      .filter((e) => !deleted.has(e.id) && e.event_type in ICONS)
+      .map((e) => ({ key: e.id, id: e.id, team_id: e.team_id, player_id: e.player_id, event_type: e.event_type, pending: false }));
+    const pending: ViewEvent[] = queue.flatMap((q) =>
+      q.op === "insert"
+        ? [{ key: q.client_id, id: null, team_id: q.row.team_id ?? null, player_id: q.row.player_id ?? null, event_type: q.row.event_type, pending: true }]
+        : []
+    );
+    return [...fromServer, ...pending];
+  }, [serverEvents, queue]);
+
+  // CSC comptés pour l'adversaire
+  const score = useMemo(() => {
+    if (!match) return { home: 0, away: 0 };
+    return scoreFromEvents(match, events);
+  }, [events, match]);
+
+  const playerById = useMemo(() => new Map(players.map((p) => [p.id, p])), [players]);
+
+  const sidePlayers = useMemo(() => {
+    const teamId = side === "home" ? match?.home_team_id : match?.away_team_id;
+    return players
+      .filter((p) => p.team_id === teamId)
+      .sort((a, b) => Number(a.jersey_number ?? 999) - Number(b.jersey_number ?? 999));
+  }, [players, match, side]);
+
+  // --------- ACTIONS ---------
+
+  // minute figée au moment du tap (même si l'envoi attend le réseau)
+  function enqueueInsert(playerId: string, teamId: string, type: string): QueuedOp {
+    const client_id = newClientId();
+    const minute = match ? matchMinute(match, halfMinutes) : null;
+    return {
+      op: "insert",
+      client_id,
+      queued_at: new Date().toISOString(),
+      row: { tournament_id: tournamentId, match_id: matchId, team_id: teamId, player_id: playerId, event_type: type, minute, client_id },
+    };
+  }
+
+  /** Changement d'état du chrono: nécessite le réseau (horodatage serveur partagé avec l'écran). */
+  async function changeClock(to: MatchStatus) {
+    if (!match) return;
+    if (!canScore(role)) return setStatus(READ_ONLY_MESSAGE);
+    if (!navigator.onLine) return setStatus("🔴 Hors ligne: le chrono se pilote avec du réseau.");
+
+    const { error } = await updateMatch(matchId, clockPatch(match, to));
+    if (error) return setStatus("Erreur chrono: " + error.message);
+
+    const { data } = await getMatch(matchId);
+    if (data) setMatch(data);
+    setNow(Date.now());
+  }
+
+  function tap(p: Player) {
+    if (!canScore(role)) return setStatus(READ_ONLY_MESSAGE);
+    if (match && isPlayed(match)) return setStatus(LOCKED_MESSAGE);
+
+    const mine = events.filter((e) => e.player_id === p.id);
+    const yellows = mine.filter((e) => e.event_type === "yellow").length;
+    const hasRed = mine.some((e) => e.event_type === "red");
+
+    if (action === "red" && hasRed) return setStatus("Ce joueur a déjà un 🔴 rouge sur ce match.");
+    if (action === "yellow" && yellows >= 2) return setStatus("Ce joueur a déjà 2 🟡 jaunes sur ce match (maximum atteint).");
+
+    const ops = [enqueueInsert(p.id, p.team_id, action)];
+    // 2e jaune => rouge automatique (comme la saisie en ligne)
+    if (action === "yellow" && yellows === 1 && !hasRed) ops.push(enqueueInsert(p.id, p.team_id, "red"));
+
+    setStatus(`${ICONS[action]} ${playerLabel(p)}`);
+    commitQueue([...queueRef.current, ...ops]);
+    flush();
+  }
+
+  function undo() {
+    const last = events[events.length - 1];
+    if (!last) return;
+    if (match && isPlayed(match) && !last.pending) return setStatus(LOCKED_MESSAGE);
+
+    if (last.pending) {
+      commitQueue(queueRef.current.filter((q) => q.client_id !== last.key));
+      setStatus("↩️ Annulé (pas encore envoyé).");
+      return;
+    }
+
+    const label = `${ICONS[last.event_type] ?? ""} ${playerLabel(playerById.get(last.player_id ?? ""))}`;
+    if (!window.confirm(`Annuler ${label} ?`)) return;
+
+    commitQueue([...queueRef.current, { op: "delete", client_id: newClientId(), queued_at: new Date().toISOString(), event_id: last.id! }]);
+    setStatus(`↩️ Annulé: ${label}`);
+    flush();
+  }
+
+  function dismissConflict(idx: number) {
+    setConflicts((prev) => {
+      const next = prev.filter((_, i) => i !== idx);
+      saveConflicts(matchId, next);
+      return next;
+    });
+  }
+
+  function conflictLabel(c: QueueConflict) {
+    if (c.op.op === "delete") return "↩️ Suppression d'un événement";
+    return `${ICONS[c.op.row.event_type] ?? ""} ${playerLabel(playerById.get(c.op.row.player_id ?? ""))}`;
+  }
+
+  if (!match) {
+    return (
+      <main className="min-h-screen bg-slate-100 p-4">
+        <div className="max-w-xl mx-auto bg-white rounded-xl shadow p-6">{status}</div>
+      </main>
+    );
+  }
+
+  const teamName = (s: "home" | "away") => (s === "home" ? match.home?.name : match.away?.name) ?? "À déterminer";
+
+  return (
+    <main className="min-h-screen bg-slate-100 p-3 select-none">
+      <div className="max-w-xl mx-auto space-y-3">
+        {/* Score + réseau */}
+        <div className="bg-white rounded-xl shadow p-4 sticky top-2 z-10">
+          <div className="flex items-center justify-between text-xs">
+            <button
+              onClick={() => router.push(`/dashboard/tournaments/${tournamentId}/matches/${matchId}`)}
+              className="bg-gray-200 px-3 py-1 rounded-lg"
+            >
+              ← Détail
+            </button>
+            <span className={`font-semibold ${online ? "text-green-700" : "text-red-700"}`}>
+              {online ? "🟢 En ligne" : "🔴 Hors ligne"}
+              {queue.length > 0 && ` · ⏳ ${queue.length} en attente`}
+              {syncing && " · synchro..."}
+            </span>
+          </div>
+
+          <div className="mt-3 grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+            <div className="font-bold truncate">{teamName("home")}</div>
+            <div className="text-4xl font-extrabold tabular-nums">
+              {score.home} - {score.away}
+            </div>
+            <div className="font-bold truncate text-right">{teamName("away")}</div>
+          </div>
+
+          <div className="mt-2 flex items-center justify-center gap-2 flex-wrap">
+            <span className="text-xl font-extrabold tabular-nums">{clockLabel(match, halfMinutes, now || undefined) || "—"}</span>
+            {clockTransitions(match).map((tr) => (
+              <button
+                key={tr.to + tr.label}
+                onClick={() => changeClock(tr.to)}
+                className="h-10 px-3 bg-slate-800 text-white rounded-lg text-sm font-semibold"
+              >
+                {tr.label}
+              </button>
+            ))}
+          </div>
+
+          {status && <p className="mt-2 text-sm text-center text-gray-700">{status}</p>}
+        </div>
+
+        {/* Action */}
+        <div className="grid grid-cols-3 gap-2">
+          {ACTIONS.map((a) => (
+            <button
+              key={a.type}
+              onClick={() => setAction(a.type)}
+              className={`h-12 rounded-xl font-bold text-sm shadow ${a.className} ${
+                action === a.type ? "ring-4 ring-offset-2 ring-slate-800" : "opacity-60"
+              }`}
+            >
+              {a.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Équipe */}
+        <div className="grid grid-cols-2 gap-2 bg-white rounded-xl shadow p-1">
+          {(["home", "away"] as const).map((s) => (
+            <button
+              key={s}
+              onClick={() => setSide(s)}
+              className={`h-12 rounded-lg font-semibold truncate px-2 ${side === s ? "bg-slate-800 text-white" : ""}`}
+            >
+              {teamName(s)}
+            </button>
+          ))}
+        </div>
+
+        {/* Joueurs */}
+        <div className="grid grid-cols-2 gap-2">
+          {sidePlayers.length === 0 && <div className="col-span-2 text-sm text-gray-500 p-4">Aucun joueur.</div>}
+          {sidePlayers.map((p) => {
+            const susp = suspended.has(p.id);
+            const goals = events.filter((e) => e.player_id === p.id && isScorerEvent(e.event_type)).length;
+            const ownGoals = events.filter((e) => e.player_id === p.id && e.event_type === "own_goal").length;
+            const cards = events
+              .filter((e) => e.player_id === p.id && ["yellow", "blue_card", "red"].includes(e.event_type))
+              .map((e) => ICONS[e.event_type])
+              .join("");
+            return (
+              <button
+                key={p.id}
+                onClick={() => tap(p)}
+                disabled={susp}
+                className="h-20 bg-white rounded-xl shadow p-2 text-left active:bg-slate-200 disabled:opacity-40"
+              >
+                <div className="text-2xl font-extrabold">{p.jersey_number ?? "-"}</div>
+                <div className="text-sm truncate">
+                  {susp ? "⛔ " : ""}
+                  {p.first_name ?? ""} {p.last_name ?? ""}
+                </div>
+                <div className="text-xs">
+                  {goals > 0 && `⚽×${goals} `}
+                  {ownGoals > 0 && `🥅×${ownGoals} `}
+                  {cards}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={undo}
+          disabled={events.length === 0}
+          className="w-full h-14 bg-gray-800 text-white rounded-xl font-bold shadow disabled:opacity-40"
+        >
+          ↩️ Annuler le dernier
+        </button>
+
+        {/* Conflits */}
+        {conflicts.length > 0 && (
+          <div className="bg-white rounded-xl shadow p-4 border border-amber-300">
+            <h2 className="font-semibold text-amber-800">⚠️ Non synchronisés</h2>
+            <p className="text-xs text-gray-500 mb-2">Refusés par le serveur: vérifie la saisie depuis le détail du match.</p>
+            {conflicts.map((c, i) => (
+              <div key={c.op.client_id} className="flex items-center justify-between gap-2 py-1 border-b last:border-0">
+                <div className="text-sm">
+                  {conflictLabel(c)}
+                  <div className="text-xs text-amber-700">{c.reason}</div>
+                </div>
+                <button onClick={() => dismissConflict(i)} className="bg-gray-200 px-3 py-1 rounded-lg text-sm">
+                  OK
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Derniers événements */}
+        <div className="bg-white rounded-xl shadow p-4">
+          <h2 className="font-semibold mb-2">Derniers événements</h2>
+          {events.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucun événement.</p>
+          ) : (
+            [...events]
+              .reverse()
+              .slice(0, 10)
+              .map((e) => (
+                <div key={e.key} className="text-sm py-1 border-b last:border-0 flex justify-between">
+                  <span>
+                    {ICONS[e.event_type]} {playerLabel(playerById.get(e.player_id ?? ""))}
+                  </span>
+                  <span className="text-xs text-gray-500">{e.pending ? "⏳ en attente" : "✅"}</span>
+                </div>
+              ))
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
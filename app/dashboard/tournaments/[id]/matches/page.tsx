@@ -3,83 +3,47 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
-
-type TournamentRow = {
-  id: string;
-  match_duration_min: number | null;
-  rotation_duration_min: number | null;
-  num_fields: number | null;
-  field_names: string[] | null;
-};
-
-type MatchRow = {
-  id: string;
-  start_time: string; // ISO ou HH:MM...
-  field_idx: number;
-  status: string; // "scheduled" | "played" | ...
-  home_score: number | null;
-  away_score: number | null;
-  home_team_id: string;
-  away_team_id: string;
-  home: { name: string } | null;
-  away: { name: string } | null;
-};
-
-function parseMsLoose(v: string | null) {
-  if (!v) return NaN;
-
-  const ms = Date.parse(v);
-  if (!Number.isNaN(ms)) return ms;
-
-  const m = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(v.trim());
-  if (m) {
-    const hh = Math.min(23, Math.max(0, Number(m[1])));
-    const mm = Math.min(59, Math.max(0, Number(m[2])));
-    const d = new Date();
-    d.setHours(hh, mm, 0, 0);
-    return d.getTime();
-  }
-
-  return NaN;
-}
-
-function timeHHMM(v: string | null) {
-  if (!v) return "--:--";
-
-  const m = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(v.trim());
-  if (m) {
-    const hh = String(Math.min(23, Math.max(0, Number(m[1])))).padStart(2, "0");
-    const mm = String(Math.min(59, Math.max(0, Number(m[2])))).padStart(2, "0");
-    return `${hh}:${mm}`;
-  }
-
-  const ms = Date.parse(v);
-  if (!Number.isNaN(ms)) {
-    return new Date(ms).toLocaleTimeString("fr-FR", {
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  }
-
-  return "--:--";
-}
-
-function isPlayed(m: MatchRow) {
-  return (m.status ?? "").toLowerCase() === "played";
-}
-
-function isLive(m: MatchRow, slotMs: number) {
-  if (isPlayed(m)) return false;
-
-  const now = Date.now();
-  const st = parseMsLoose(m.start_time);
-  if (Number.isNaN(st)) return false;
-
-  const et = st + slotMs;
-  if (slotMs <= 0 || Number.isNaN(et) || et === st) return false;
-
-  return st <= now && now < et;
-}
+import {
+  getMyRole,
+  getTournament,
+  listMatchEvents,
+  listMatches,
+  listTeams,
+  reopenMatch,
+  setKnockoutTeams,
+  updateMatch,
+  type MatchWithTeams,
+} from "@/lib/repository";
+import type { TablesUpdate } from "@/lib/database.types";
+import type { Tournament } from "@/lib/domain/models";
+import { decidedBySuffix, matchOutcome, normalizeDecidedBy, safePenaltyKicks, type DecidedBy } from "@/lib/domain/penalties";
+import { CARD_EVENT_TYPES, fairPlayPointsByTeam, normalizeFairPlayPoints } from "@/lib/domain/fairPlay";
+import { standingsOptionsFromTournament } from "@/lib/domain/standings";
+import { planKnockoutAssignments, roundShortLabel, sourceLabel, type KnockoutMatch } from "@/lib/domain/knockout";
+import { parseMsLoose, timeHHMM } from "@/lib/domain/time";
+import {
+  fieldCountOf,
+  fieldNamesOf,
+  groupCountOf,
+  isLiveToday,
+  isPlayed,
+  knockoutGroupNamesOf,
+  matchSlotMs,
+} from "@/lib/domain/tournament";
+import { clean } from "@/lib/domain/utils";
+import { DISPUTE_BADGE, isDisputed, LOCKED_MESSAGE } from "@/lib/domain/disputes";
+import { clockLabel, halfMinutesOf, normalizeMatchStatus } from "@/lib/domain/matchClock";
+import { canManage, canScore, normalizeRole, READ_ONLY_MESSAGE, type TournamentRole } from "@/lib/domain/roles";
+import { checkScore, GOAL_EVENT_TYPES, scoreFromEvents, scoreModeOf } from "@/lib/domain/scoring";
+import { dayLabel, daysOf, matchDayIdx, todayDayIdx } from "@/lib/domain/days";
+import { categoriesOf, categoryOf, inCategory } from "@/lib/domain/categories";
+
+type TournamentRow = Tournament;
+type MatchRow = MatchWithTeams;
+
+type ScoreEdit = { home: string; away: string; decidedBy: DecidedBy; penHome: string; penAway: string };
+
+const EMPTY_EDIT: ScoreEdit = { home: "", away: "", decidedBy: "regular", penHome: "", penAway: "" };
 
 function teamShort(name: string | null | undefined) {
   const s = (name ?? "").trim();
@@ -87,11 +51,6 @@ function teamShort(name: string | null | undefined) {
   return s.length > 16 ? s.slice(0, 15) + "…" : s;
 }
 
-function clampInt(n: number, min: number, max: number) {
-  if (!Number.isFinite(n)) return min;
-  return Math.max(min, Math.min(max, Math.floor(n)));
-}
-
 export default function MatchesPage() {
   const router = useRouter();
   const params = useParams();
@@ -101,75 +60,71 @@ export default function MatchesPage() {
 
   const [tournament, setTournament] = useState<TournamentRow | null>(null);
   const [matches, setMatches] = useState<MatchRow[]>([]);
+  const [role, setRole] = useState<TournamentRole | null>(null);
 
   // ✅ scores éditables (resync à chaque refreshMatches)
-  const [editScores, setEditScores] = useState<Record<string, { home: string; away: string }>>({});
+  const [editScores, setEditScores] = useState<Record<string, ScoreEdit>>({});
 
   const [showPlayed, setShowPlayed] = useState(true);
 
-  const slotMs = useMemo(() => {
-    const md = Number(tournament?.match_duration_min ?? 0);
-    const rd = Number(tournament?.rotation_duration_min ?? 0);
-    return Math.max(0, md + rd) * 60_000;
-  }, [tournament]);
-
-  const numFields = useMemo(() => {
-    const nf = Number(tournament?.num_fields ?? 1);
-    return clampInt(nf, 1, 24);
-  }, [tournament]);
-
-  const fieldLabels = useMemo(() => {
-    const raw = Array.isArray(tournament?.field_names) ? tournament!.field_names! : [];
-    const out: string[] = [];
-    for (let i = 1; i <= numFields; i++) {
-      const nm = String(raw[i - 1] ?? "").trim();
-      out.push(nm || `Terrain ${i}`);
-    }
-    return out;
-  }, [tournament, numFields]);
+  // ✅ Tournoi sur plusieurs jours: jour du jour par défaut
+  const days = useMemo(() => daysOf(tournament), [tournament]);
+  const [pickedDay, setPickedDay] = useState<number | null>(null);
+  const dayIdx = Math.min(pickedDay ?? todayDayIdx(days), days.length);
+
+  const numFields = days[dayIdx - 1]?.num_fields ?? fieldCountOf(tournament);
+  const fieldLabels = useMemo(
+    () => (tournament ? fieldNamesOf({ num_fields: numFields, field_names: tournament.field_names }) : []),
+    [tournament, numFields]
+  );
+
+  // ✅ Mode "buts": le score est calculé par la base à chaque but saisi, non modifiable ici
+  const autoScore = scoreModeOf(tournament) === "events";
+
+  // ✅ Libellés des sources de phase finale ("1er Poule A", "Vainqueur QF 2"), poules de la catégorie du match
+  const categories = useMemo(() => categoriesOf(tournament), [tournament]);
+
+  function sideName(m: MatchRow, side: "home" | "away") {
+    const name = side === "home" ? m.home?.name : m.away?.name;
+    if (name || m.phase !== "knockout") return teamShort(name);
+    const groupNames = knockoutGroupNamesOf(categoryOf(categories, m));
+    return teamShort(sourceLabel(side === "home" ? m.home_source : m.away_source, groupNames));
+  }
 
   // --------- DATA LOAD / SYNC ---------
 
   async function refreshTournament() {
-    const { data, error } = await supabase
-      .from("tournaments")
-      .select("id,match_duration_min,rotation_duration_min,num_fields,field_names")
-      .eq("id", tournamentId)
-      .single();
+    const { data, error } = await getTournament(tournamentId);
 
     if (error) {
       setStatus("Erreur tournoi: " + error.message);
       return null;
     }
 
-    setTournament((data ?? null) as any);
-    return data as any as TournamentRow;
+    setTournament(data);
+    return data;
   }
 
   async function refreshMatches() {
-    const { data, error } = await supabase
-      .from("matches")
-      .select(
-        "id,start_time,field_idx,status,home_score,away_score,home_team_id,away_team_id,home:home_team_id(name),away:away_team_id(name)"
-      )
-      .eq("tournament_id", tournamentId)
-      .order("start_time", { ascending: true })
-      .order("field_idx", { ascending: true });
+    const { data, error } = await listMatches(tournamentId);
 
     if (error) {
       setStatus("Erreur matches: " + error.message);
       return;
     }
 
-    const arr = (data ?? []) as any as MatchRow[];
+    const arr = data ?? [];
     setMatches(arr);
 
     // ✅ resync editScores depuis DB
-    const next: Record<string, { home: string; away: string }> = {};
+    const next: Record<string, ScoreEdit> = {};
     for (const m of arr) {
       next[m.id] = {
         home: m.home_score != null ? String(m.home_score) : "",
         away: m.away_score != null ? String(m.away_score) : "",
+        decidedBy: normalizeDecidedBy(m.decided_by),
+        penHome: m.home_penalties != null ? String(m.home_penalties) : "",
+        penAway: m.away_penalties != null ? String(m.away_penalties) : "",
       };
     }
     setEditScores(next);
@@ -187,6 +142,10 @@ export default function MatchesPage() {
     async function load() {
       const { data: userData } = await supabase.auth.getUser();
       if (!userData.user) return router.push("/login");
+
+      const { data: myRole } = await getMyRole(tournamentId);
+      setRole(normalizeRole(myRole));
+
       await refreshAll();
     }
     load();
@@ -260,46 +219,180 @@ export default function MatchesPage() {
 
   // --------- ACTIONS ---------
 
+  // ✅ Phase finale: place les qualifiés / vainqueurs dans les matchs suivants (idempotent)
+  async function syncKnockout() {
+    const { data: t, error: tErr } = await getTournament(tournamentId);
+    if (tErr || !t) return;
+    const knockoutCategories = categoriesOf(t).filter((c) => c.knockout_enabled);
+    if (knockoutCategories.length === 0) return;
+
+    const [
+      { data: teamRows, error: teamErr },
+      { data: matchRows, error: matchErr },
+      { data: cardRows, error: cardErr },
+    ] = await Promise.all([
+      listTeams(tournamentId),
+      listMatches(tournamentId),
+      listMatchEvents({ tournamentId, types: CARD_EVENT_TYPES }),
+    ]);
+
+    if (teamErr) return setStatus("Erreur teams: " + teamErr.message);
+    if (matchErr) return setStatus("Erreur matches: " + matchErr.message);
+    if (cardErr) return setStatus("Erreur cartons: " + cardErr.message);
+
+    // mêmes règles que la page Classement: cartons des matchs de poule validés uniquement
+    const allMatches: KnockoutMatch[] = matchRows ?? [];
+    const groupPlayedIds = new Set(
+      allMatches.filter((m) => m.phase !== "knockout" && (m.status ?? "").toLowerCase() === "played").map((m) => m.id)
+    );
+    const cards = (cardRows ?? []).filter((c) => groupPlayedIds.has(c.match_id));
+
+    const standings = { ...standingsOptionsFromTournament(t), fairPlay: fairPlayPointsByTeam(cards, normalizeFairPlayPoints(t.fair_play_points)) };
+
+    // chaque catégorie a son tableau: qualifiés de ses poules uniquement
+    const categories = categoriesOf(t);
+    const updates = knockoutCategories.flatMap((c) =>
+      planKnockoutAssignments({
+        teams: inCategory(teamRows ?? [], categories, c),
+        matches: inCategory(matchRows ?? [], categories, c),
+        groupCount: groupCountOf(c),
+        qualifiersPerGroup: c.knockout_qualifiers,
+        standings,
+      })
+    );
+
+    for (const u of updates) {
+      const { error } = await setKnockoutTeams(u.id, u.home_team_id, u.away_team_id);
+      if (error) return setStatus("Erreur phase finale: " + error.message);
+    }
+  }
+
   async function saveScore(matchId: string) {
+    if (!canScore(role)) return alert(READ_ONLY_MESSAGE);
+
     const v = editScores[matchId];
     if (!v) return;
 
+    const current = matches.find((x) => x.id === matchId);
+    if (current && isPlayed(current)) return alert(LOCKED_MESSAGE);
+
     const hs = v.home.trim() === "" ? null : Number(v.home);
     const as = v.away.trim() === "" ? null : Number(v.away);
 
     if (hs != null && Number.isNaN(hs)) return alert("Score domicile invalide");
     if (as != null && Number.isNaN(as)) return alert("Score extérieur invalide");
 
-    const { error } = await supabase.from("matches").update({ home_score: hs, away_score: as }).eq("id", matchId);
+    const payload: TablesUpdate<"matches"> = autoScore
+      ? { decided_by: v.decidedBy }
+      : { home_score: hs, away_score: as, decided_by: v.decidedBy };
+
+    if (v.decidedBy === "penalties") {
+      if (hs != null && as != null && hs !== as) return alert("Tirs au but: le score doit être nul.");
+
+      const ph = v.penHome.trim() === "" ? null : Number(v.penHome);
+      const pa = v.penAway.trim() === "" ? null : Number(v.penAway);
+      if (ph != null && Number.isNaN(ph)) return alert("Tirs au but domicile invalide");
+      if (pa != null && Number.isNaN(pa)) return alert("Tirs au but extérieur invalide");
+
+      // saisie manuelle différente de la séance enregistrée tir par tir => on repart de la saisie manuelle
+      if (current && (current.home_penalties !== ph || current.away_penalties !== pa)) payload.penalty_kicks = [];
+
+      payload.home_penalties = ph;
+      payload.away_penalties = pa;
+    } else {
+      payload.home_penalties = null;
+      payload.away_penalties = null;
+      payload.penalty_kicks = [];
+    }
+
+    const { error } = await updateMatch(matchId, payload);
 
     if (error) {
       alert("Erreur update score: " + error.message);
       return;
     }
 
+    await syncKnockout();
     await refreshMatches();
   }
 
   async function toggleValidation(match: MatchRow) {
-    const played = isPlayed(match);
-    const newStatus = played ? "scheduled" : "played";
+    if (!canScore(role)) return alert(READ_ONLY_MESSAGE);
 
-    const { error } = await supabase.from("matches").update({ status: newStatus }).eq("id", match.id);
+    // 🔒 Match validé: réouverture par un admin, motif obligatoire (visible dans l'historique)
+    if (isPlayed(match)) {
+      if (!canManage(role)) return alert(LOCKED_MESSAGE);
+
+      const reason = clean(window.prompt("Motif de la réouverture (obligatoire):") ?? "");
+      if (!reason) return;
+
+      const { error } = await reopenMatch(match.id, reason);
+      if (error) return alert("Erreur réouverture: " + error.message);
+
+      await syncKnockout();
+      await refreshMatches();
+      return;
+    }
+
+    if (match.phase === "knockout" && (!match.home_team_id || !match.away_team_id)) {
+      alert("Phase finale: les équipes de ce match ne sont pas encore connues.");
+      return;
+    }
+
+    const patch: TablesUpdate<"matches"> = { status: "played" };
+
+    // ✅ Validation: score recopié depuis les buts (mode "buts"), sinon alerte si le score saisi ne correspond pas
+    const { data: goalEvents, error: gErr } = await listMatchEvents({ matchId: match.id, types: GOAL_EVENT_TYPES });
+    if (gErr) return alert("Erreur buts: " + gErr.message);
+
+    if (autoScore) {
+      const s = scoreFromEvents(match, goalEvents ?? []);
+      patch.home_score = s.home;
+      patch.away_score = s.away;
+    }
+
+    // Phase finale: il faut un vainqueur (score final, tirs au but compris) pour alimenter le tour suivant
+    if (match.phase === "knockout") {
+      const outcome = matchOutcome({ ...match, ...patch });
+      if (outcome === null) {
+        alert("Phase finale: saisis le score avant de valider (💾 puis ✅).");
+        return;
+      }
+      if (outcome === "draw") {
+        alert("Phase finale: un match nul ne peut pas être validé. Renseigne les tirs au but (💾 puis ✅).");
+        return;
+      }
+    }
+
+    if (!autoScore) {
+      const issue = checkScore(match, goalEvents ?? []);
+      if (issue && issue.kind !== "no_events") {
+        const typed = issue.score ? `${issue.score.home} - ${issue.score.away}` : "vide";
+        const ok = window.confirm(
+          `⚠️ Score saisi (${typed}) différent des buts saisis (${issue.fromEvents.home} - ${issue.fromEvents.away}).\nValider quand même ?`
+        );
+        if (!ok) return;
+      }
+    }
+
+    const { error } = await updateMatch(match.id, patch);
 
     if (error) {
       alert("Erreur validation: " + error.message);
       return;
     }
 
+    await syncKnockout();
     await refreshMatches();
   }
 
   // --------- GRILLE (heures x terrains) ---------
 
   const filteredMatches = useMemo(() => {
-    if (showPlayed) return matches;
-    return matches.filter((m) => !isPlayed(m));
-  }, [matches, showPlayed]);
+    const ofDay = days.length > 1 ? matches.filter((m) => matchDayIdx(m, days.length) === dayIdx) : matches;
+    if (showPlayed) return ofDay;
+    return ofDay.filter((m) => !isPlayed(m));
+  }, [matches, showPlayed, days, dayIdx]);
 
   const times = useMemo(() => {
     const map = new Map<string, number>(); // HH:MM -> ms pour tri
@@ -328,12 +421,19 @@ export default function MatchesPage() {
   }, [filteredMatches]);
 
   function Cell({ m }: { m: MatchRow }) {
-    const live = isLive(m, slotMs);
+    const live = isLiveToday(m, matchSlotMs(tournament, m), days);
     const played = isPlayed(m);
+    const finished = normalizeMatchStatus(m.status) === "finished";
     const t = timeHHMM(m.start_time);
 
     const hs = editScores[m.id]?.home ?? "";
     const as = editScores[m.id]?.away ?? "";
+    const edit = editScores[m.id] ?? EMPTY_EDIT;
+    const kicksCount = safePenaltyKicks(m.penalty_kicks).length;
+
+    function patchEdit(patch: Partial<ScoreEdit>) {
+      setEditScores((prev) => ({ ...prev, [m.id]: { ...(prev[m.id] ?? EMPTY_EDIT), ...patch } }));
+    }
 
     return (
       <div
@@ -350,13 +450,36 @@ export default function MatchesPage() {
             <div className="min-w-0">
               <div className="text-[12px] text-gray-500 font-semibold">⏱️ {t}</div>
               <div className="font-extrabold text-[13px] truncate">
-                {teamShort(m.home?.name)} <span className="text-gray-400">vs</span> {teamShort(m.away?.name)}
+                {sideName(m, "home")} <span className="text-gray-400">vs</span> {sideName(m, "away")}
               </div>
 
               <div className="mt-1 flex flex-wrap gap-1">
+                {categoryOf(categories, m).name && (
+                  <span className="text-[11px] font-bold px-2 py-[2px] rounded bg-indigo-100 text-indigo-800">
+                    🏷️ {categoryOf(categories, m).name}
+                  </span>
+                )}
+                {m.phase === "knockout" && (
+                  <span className="text-[11px] font-bold px-2 py-[2px] rounded bg-amber-100 text-amber-800">
+                    🏆 {roundShortLabel(m.ko_round)}
+                  </span>
+                )}
                 {live && (
                   <span className="text-[11px] font-bold px-2 py-[2px] rounded bg-red-100 text-red-700">
-                    🔴 LIVE
+                    🔴 LIVE{m.kickoff_at ? ` ${clockLabel(m, halfMinutesOf(tournament, m))}` : ""}
+                  </span>
+                )}
+                {finished && (
+                  <span className="text-[11px] font-bold px-2 py-[2px] rounded bg-slate-200 text-slate-700">
+                    🏁 Terminé
+                  </span>
+                )}
+                {isDisputed(m) && (
+                  <span
+                    className="text-[11px] font-bold px-2 py-[2px] rounded bg-orange-200 text-orange-900"
+                    title={m.dispute_reason ?? ""}
+                  >
+                    {DISPUTE_BADGE}
                   </span>
                 )}
                 {played && (
@@ -364,7 +487,15 @@ export default function MatchesPage() {
                     ✅ Validé
                   </span>
                 )}
-                {!played && !live && (
+                {decidedBySuffix(m.decided_by) && (
+                  <span className="text-[11px] font-bold px-2 py-[2px] rounded bg-purple-100 text-purple-700">
+                    {decidedBySuffix(m.decided_by)}
+                    {m.decided_by === "penalties" && m.home_penalties != null && m.away_penalties != null
+                      ? ` ${m.home_penalties}-${m.away_penalties}`
+                      : ""}
+                  </span>
+                )}
+                {!played && !live && !finished && (
                   <span className="text-[11px] font-bold px-2 py-[2px] rounded bg-blue-100 text-blue-700">
                     ⏳ À jouer
                   </span>
@@ -389,10 +520,12 @@ export default function MatchesPage() {
               onChange={(e) =>
                 setEditScores((prev) => ({
                   ...prev,
-                  [m.id]: { ...(prev[m.id] ?? { home: "", away: "" }), home: e.target.value },
+                  [m.id]: { ...(prev[m.id] ?? EMPTY_EDIT), home: e.target.value },
                 }))
               }
-              className="w-12 border rounded-lg px-2 py-2 text-center text-xl font-extrabold"
+              readOnly={autoScore || played}
+              title={played ? "Match validé (verrouillé)" : autoScore ? "Calculé depuis les buts saisis (détails)" : undefined}
+              className={`w-12 border rounded-lg px-2 py-2 text-center text-xl font-extrabold ${autoScore || played ? "bg-gray-50" : ""}`}
               placeholder="-"
             />
             <span className="text-xl font-extrabold text-gray-500">-</span>
@@ -401,32 +534,38 @@ export default function MatchesPage() {
               onChange={(e) =>
                 setEditScores((prev) => ({
                   ...prev,
-                  [m.id]: { ...(prev[m.id] ?? { home: "", away: "" }), away: e.target.value },
+                  [m.id]: { ...(prev[m.id] ?? EMPTY_EDIT), away: e.target.value },
                 }))
               }
-              className="w-12 border rounded-lg px-2 py-2 text-center text-xl font-extrabold"
+              readOnly={autoScore || played}
+              title={played ? "Match validé (verrouillé)" : autoScore ? "Calculé depuis les buts saisis (détails)" : undefined}
+              className={`w-12 border rounded-lg px-2 py-2 text-center text-xl font-extrabold ${autoScore || played ? "bg-gray-50" : ""}`}
               placeholder="-"
             />
           </div>
 
           <div className="flex items-center gap-1">
-            <button
-              onClick={() => saveScore(m.id)}
-              className="bg-gray-200 px-2 py-2 rounded-lg hover:bg-gray-300 transition text-sm"
-              title="Enregistrer"
-            >
-              💾
-            </button>
-
-            <button
-              onClick={() => toggleValidation(m)}
-              className={`px-2 py-2 rounded-lg transition text-sm ${
-                played ? "bg-yellow-200 hover:bg-yellow-300" : "bg-green-600 text-white hover:bg-green-700"
-              }`}
-              title={played ? "Dévalider" : "Valider"}
-            >
-              {played ? "↩️" : "✅"}
-            </button>
+            {canScore(role) && !played && (
+              <button
+                onClick={() => saveScore(m.id)}
+                className="bg-gray-200 px-2 py-2 rounded-lg hover:bg-gray-300 transition text-sm"
+                title="Enregistrer"
+              >
+                💾
+              </button>
+            )}
+
+            {(played ? canManage(role) : canScore(role)) && (
+              <button
+                onClick={() => toggleValidation(m)}
+                className={`px-2 py-2 rounded-lg transition text-sm ${
+                  played ? "bg-yellow-200 hover:bg-yellow-300" : "bg-green-600 text-white hover:bg-green-700"
+                }`}
+                title={played ? "Rouvrir (admin, motif obligatoire)" : "Valider"}
+              >
+                {played ? "🔓" : "✅"}
+              </button>
+            )}
 
             <button
               onClick={() => router.push(`/dashboard/tournaments/${tournamentId}/matches/${m.id}`)}
@@ -437,6 +576,46 @@ export default function MatchesPage() {
             </button>
           </div>
         </div>
+
+        {/* ✅ Issue du match: toujours proposée en phase finale, sinon seulement si déjà renseignée */}
+        {(m.phase === "knockout" || edit.decidedBy !== "regular") && (
+          <div className="mt-2 flex items-center gap-2 flex-wrap">
+            <select
+              value={edit.decidedBy}
+              onChange={(e) => patchEdit({ decidedBy: normalizeDecidedBy(e.target.value) })}
+              className="border rounded-lg px-2 py-1 text-xs bg-white"
+              title="Issue du match"
+            >
+              <option value="regular">Temps régl.</option>
+              <option value="extra_time">Prolongation</option>
+              <option value="penalties">Tirs au but</option>
+            </select>
+
+            {edit.decidedBy === "penalties" && (
+              <div className="flex items-center gap-1 text-xs">
+                <span className="text-gray-500 font-semibold">TAB</span>
+                <input
+                  value={edit.penHome}
+                  onChange={(e) => patchEdit({ penHome: e.target.value })}
+                  className="w-10 border rounded-lg px-1 py-1 text-center font-bold"
+                  placeholder="-"
+                />
+                <span className="text-gray-500">-</span>
+                <input
+                  value={edit.penAway}
+                  onChange={(e) => patchEdit({ penAway: e.target.value })}
+                  className="w-10 border rounded-lg px-1 py-1 text-center font-bold"
+                  placeholder="-"
+                />
+                {kicksCount > 0 && (
+                  <span className="text-gray-400" title="Séance saisie tir par tir (détails)">
+                    ({kicksCount} tirs)
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     );
   }
@@ -450,6 +629,9 @@ export default function MatchesPage() {
             <p className="text-sm text-gray-500">
               Lignes = heures, colonnes = terrains. Les noms des terrains viennent des paramètres du tournoi.
             </p>
+            {autoScore && (
+              <p className="text-sm text-gray-500">⚽ Scores calculés depuis les buts saisis (feuille de match / mode arbitre).</p>
+            )}
             {status && <p className="text-sm text-amber-700 mt-2">{status}</p>}
           </div>
 
@@ -469,6 +651,31 @@ export default function MatchesPage() {
               🔄
             </button>
 
+            {canManage(role) && (
+              <button
+                onClick={() => router.push(`/dashboard/tournaments/${tournamentId}/scores`)}
+                className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition"
+                title="Scores et buts saisis qui ne correspondent pas"
+              >
+                🧮 Contrôle des scores
+              </button>
+            )}
+
+            {days.length > 1 && (
+              <select
+                className="bg-gray-100 px-3 py-2 rounded-lg text-sm"
+                value={dayIdx}
+                onChange={(e) => setPickedDay(Number(e.target.value))}
+                title="Jour affiché"
+              >
+                {days.map((d, i) => (
+                  <option key={i} value={i + 1}>
+                    {dayLabel(d, i + 1)}
+                  </option>
+                ))}
+              </select>
+            )}
+
             <label className="flex items-center gap-2 bg-gray-100 px-3 py-2 rounded-lg text-sm">
               <input type="checkbox" checked={showPlayed} onChange={(e) => setShowPlayed(e.target.checked)} />
               Afficher validés
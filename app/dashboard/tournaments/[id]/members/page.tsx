@@ -0,0 +1,224 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { supabase } from "../../../../../lib/supabaseClient";
+import { deleteMember, getMyRole, getTournament, insertMember, listMembers, updateMember } from "../../../../../lib/repository";
+import type { Tournament, TournamentMember } from "../../../../../lib/domain/models";
+import {
+  canManage,
+  INVITABLE_ROLES,
+  normalizeRole,
+  ROLE_HINTS,
+  ROLE_LABELS,
+  type InvitableRole,
+  type TournamentRole,
+} from "../../../../../lib/domain/roles";
+import { clean } from "../../../../../lib/domain/utils";
+
+function prettyDateTime(iso: string | null) {
+  if (!iso) return "";
+  try {
+    return new Date(iso).toLocaleString("fr-FR");
+  } catch {
+    return iso;
+  }
+}
+
+export default function MembersPage() {
+  const router = useRouter();
+  const params = useParams();
+  const tournamentId = String(params.id);
+
+  const [status, setStatus] = useState("Chargement...");
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [role, setRole] = useState<TournamentRole | null>(null);
+  const [members, setMembers] = useState<TournamentMember[]>([]);
+
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InvitableRole>("scorer");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    async function load() {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) return router.push("/login");
+
+      const { data: tData, error: tErr } = await getTournament(tournamentId);
+      if (tErr) return setStatus("Erreur tournoi: " + tErr.message);
+      setTournament(tData);
+
+      const { data: r, error: rErr } = await getMyRole(tournamentId);
+      if (rErr) return setStatus("Erreur rôle: " + rErr.message);
+      setRole(normalizeRole(r));
+
+      await refreshMembers();
+      setStatus("");
+    }
+
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, tournamentId]);
+
+  async function refreshMembers() {
+    const { data, error } = await listMembers(tournamentId);
+    if (error) {
+      setStatus("Erreur membres: " + error.message);
+      return;
+    }
+    setMembers(data ?? []);
+  }
+
+  async function invite() {
+    const e = clean(email).toLowerCase();
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(e)) return setStatus("⚠️ Email invalide.");
+    if (members.some((m) => m.email.toLowerCase() === e)) return setStatus("⚠️ Cette personne est déjà invitée.");
+
+    setBusy(true);
+    setStatus("");
+
+    const { error } = await insertMember({ tournament_id: tournamentId, email: e, role: inviteRole });
+
+    setBusy(false);
+
+    if (error) {
+      setStatus("Erreur invitation: " + error.message);
+      return;
+    }
+
+    setEmail("");
+    setStatus(`✅ Invitation enregistrée: ${e} verra le tournoi à sa prochaine connexion.`);
+    await refreshMembers();
+  }
+
+  async function changeRole(m: TournamentMember, next: InvitableRole) {
+    setStatus("");
+    const { error } = await updateMember(m.id, { role: next });
+    if (error) {
+      setStatus("Erreur changement de rôle: " + error.message);
+      return;
+    }
+    await refreshMembers();
+  }
+
+  async function remove(m: TournamentMember) {
+    if (!window.confirm(`Retirer l’accès de ${m.email} ?`)) return;
+
+    setStatus("");
+    const { error } = await deleteMember(m.id);
+    if (error) {
+      setStatus("Erreur suppression accès: " + error.message);
+      return;
+    }
+    await refreshMembers();
+  }
+
+  const manage = canManage(role);
+
+  return (
+    <main className="min-h-screen bg-slate-100 p-6">
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="bg-white rounded-xl shadow p-6 flex items-start justify-between gap-3 flex-wrap">
+          <div>
+            <h1 className="text-2xl font-bold">Organisateurs</h1>
+            <p className="text-sm text-gray-500">
+              {tournament?.title ?? "Tournoi"} · invitations par email avec un rôle par personne.
+            </p>
+            {role && <p className="text-xs text-gray-400 mt-1">Ton rôle: {ROLE_LABELS[role]}</p>}
+          </div>
+
+          <button
+            onClick={() => router.push(`/dashboard/tournaments/${tournamentId}`)}
+            className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition"
+          >
+            ← Tournoi
+          </button>
+        </div>
+
+        {status && <div className="bg-white rounded-xl shadow p-4 text-gray-700">{status}</div>}
+
+        {manage && (
+          <div className="bg-white rounded-xl shadow p-6 space-y-3">
+            <h2 className="font-semibold">✉️ Inviter</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <input
+                type="email"
+                className="md:col-span-2 w-full border rounded-lg p-2"
+                placeholder="email@exemple.fr"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              <select
+                className="w-full border rounded-lg p-2 bg-white"
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as InvitableRole)}
+              >
+                {INVITABLE_ROLES.map((r) => (
+                  <option key={r} value={r}>
+                    {ROLE_LABELS[r]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-gray-500">{ROLE_HINTS[inviteRole]}</p>
+            <button
+              onClick={invite}
+              disabled={busy}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              {busy ? "Invitation..." : "Inviter"}
+            </button>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow p-6">
+          <h2 className="font-semibold mb-3">👥 Accès</h2>
+
+          {members.length === 0 ? (
+            <p className="text-gray-600">Aucun co-organisateur pour le moment.</p>
+          ) : (
+            <div className="space-y-2">
+              {members.map((m) => {
+                const r = normalizeRole(m.role) ?? "viewer";
+                return (
+                  <div key={m.id} className="border rounded-lg p-3 flex items-center justify-between gap-3 flex-wrap">
+                    <div>
+                      <div className="font-medium">{m.email}</div>
+                      <div className="text-xs text-gray-500">
+                        {m.accepted_at ? `✅ Actif depuis le ${prettyDateTime(m.accepted_at)}` : "⏳ Invitation en attente"}
+                      </div>
+                    </div>
+
+                    {manage ? (
+                      <div className="flex items-center gap-2">
+                        <select
+                          className="border rounded-lg p-2 bg-white text-sm"
+                          value={r}
+                          onChange={(e) => changeRole(m, e.target.value as InvitableRole)}
+                        >
+                          {INVITABLE_ROLES.map((x) => (
+                            <option key={x} value={x}>
+                              {ROLE_LABELS[x]}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => remove(m)}
+                          className="bg-gray-200 text-red-700 px-3 py-2 rounded-lg hover:bg-gray-300 transition text-sm"
+                        >
+                          Retirer
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-sm text-gray-600">{ROLE_LABELS[r]}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -3,45 +3,19 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "../../../../lib/supabaseClient";
-
-type TournamentRow = {
-  id: string;
-  title: string | null;
-  created_at: string | null;
-  match_duration_min: number | null;
-  rotation_duration_min: number | null;
-};
-
-type NextMatchRow = {
-  id: string;
-  start_time: string;
-  field_idx: number;
-  status: string;
-  home: { name: string } | null;
-  away: { name: string } | null;
-};
-
-type LastPlayedRow = {
-  id: string;
-  start_time: string;
-  field_idx: number;
-  status: string;
-  home_score: number | null;
-  away_score: number | null;
-  home: { name: string } | null;
-  away: { name: string } | null;
-};
-
-type LiveMatchRow = {
-  id: string;
-  start_time: string;
-  field_idx: number;
-  status: string;
-  home_score: number | null;
-  away_score: number | null;
-  home: { name: string } | null;
-  away: { name: string } | null;
-};
+import { timeHHMM } from "../../../../lib/domain/time";
+import { daysOf } from "../../../../lib/domain/days";
+import { isLiveToday, isPlayed, matchSlotMs, TRASH_RETENTION_DAYS } from "../../../../lib/domain/tournament";
+import type { Tournament } from "../../../../lib/domain/models";
+import { getMyRole, getTournament, listMatchEvents, listMatches, trashTournament, type MatchWithTeams } from "../../../../lib/repository";
+import { publicPath } from "../../../../lib/domain/publicPage";
+import { SCORER_EVENT_TYPES } from "../../../../lib/domain/events";
+import { canManage, isOwner, normalizeRole, ROLE_LABELS, type TournamentRole } from "../../../../lib/domain/roles";
+
+type TournamentRow = Tournament;
+type NextMatchRow = MatchWithTeams;
+type LastPlayedRow = MatchWithTeams;
+type LiveMatchRow = MatchWithTeams;
 
 type TopScorerRow = {
   player_id: string;
@@ -61,22 +35,6 @@ function prettyDateTime(iso: string | null) {
   }
 }
 
-function hhmmFromIso(iso: string | null) {
-  if (!iso) return "";
-  // si ISO, on prend HH:MM
-  const maybe = (iso ?? "").slice(11, 16);
-  if (maybe.includes(":")) return maybe;
-
-  // sinon "HH:MM"
-  const m = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(String(iso).trim());
-  if (m) {
-    const hh = String(Math.min(23, Math.max(0, Number(m[1])))).padStart(2, "0");
-    const mm = String(Math.min(59, Math.max(0, Number(m[2])))).padStart(2, "0");
-    return `${hh}:${mm}`;
-  }
-  return "";
-}
-
 function fullName(fn: string | null, ln: string | null) {
   const a = (fn ?? "").trim();
   const b = (ln ?? "").trim();
@@ -92,24 +50,6 @@ function safeUrlEncode(s: string) {
   }
 }
 
-function parseMsLoose(v: string | null) {
-  if (!v) return NaN;
-
-  const ms = Date.parse(v);
-  if (!Number.isNaN(ms)) return ms;
-
-  const m = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(String(v).trim());
-  if (m) {
-    const hh = Math.min(23, Math.max(0, Number(m[1])));
-    const mm = Math.min(59, Math.max(0, Number(m[2])));
-    const d = new Date();
-    d.setHours(hh, mm, 0, 0);
-    return d.getTime();
-  }
-
-  return NaN;
-}
-
 export default function TournamentHubPage() {
   const router = useRouter();
   const params = useParams();
@@ -117,6 +57,7 @@ export default function TournamentHubPage() {
 
   const [tournament, setTournament] = useState<TournamentRow | null>(null);
   const [status, setStatus] = useState("Chargement...");
+  const [role, setRole] = useState<TournamentRole | null>(null);
 
   const [teamsCount, setTeamsCount] = useState<number>(0);
   const [matchesTotal, setMatchesTotal] = useState<number>(0);
@@ -154,33 +95,21 @@ export default function TournamentHubPage() {
     setScreenUrl(sUrl);
 
     // 1) Tournoi + durées
-    const { data: tData, error: tErr } = await supabase
-      .from("tournaments")
-      .select("id,title,created_at,match_duration_min,rotation_duration_min")
-      .eq("id", tournamentId)
-      .single();
+    const { data: tData, error: tErr } = await getTournament(tournamentId);
 
     if (tErr) {
       setStatus("Erreur tournoi: " + tErr.message);
       return;
     }
 
-    const tRow = (tData ?? null) as any as TournamentRow;
-    setTournament(tRow);
+    const tRow = tData;
 
-    const matchDur = Number(tRow.match_duration_min ?? 0);
-    const rotDur = Number(tRow.rotation_duration_min ?? 0);
-    const slotMinutes = Math.max(0, matchDur + rotDur);
-    const slotMs = slotMinutes * 60_000;
+    const { data: myRole } = await getMyRole(tournamentId);
+    setRole(normalizeRole(myRole));
+    setTournament(tRow);
 
     // 2) Résumé base
-    const [
-      teamsRes,
-      matchesTotalRes,
-      matchesPlayedRes,
-      nextMatchRes,
-      lastPlayedRes,
-    ] = await Promise.all([
+    const [teamsRes, matchesTotalRes, matchesPlayedRes, allMatchesRes] = await Promise.all([
       supabase
         .from("teams")
         .select("*", { count: "exact", head: true })
@@ -197,29 +126,8 @@ export default function TournamentHubPage() {
         .eq("tournament_id", tournamentId)
         .eq("status", "played"),
 
-      // Prochain match
-      supabase
-        .from("matches")
-        .select(
-          "id,start_time,field_idx,status,home:home_team_id(name),away:away_team_id(name)"
-        )
-        .eq("tournament_id", tournamentId)
-        .neq("status", "played")
-        .order("start_time", { ascending: true })
-        .order("field_idx", { ascending: true })
-        .limit(1),
-
-      // Dernier résultat
-      supabase
-        .from("matches")
-        .select(
-          "id,start_time,field_idx,status,home_score,away_score,home:home_team_id(name),away:away_team_id(name)"
-        )
-        .eq("tournament_id", tournamentId)
-        .eq("status", "played")
-        .order("start_time", { ascending: false })
-        .order("field_idx", { ascending: false })
-        .limit(1),
+      // Prochain match / dernier résultat / match en cours (ordre start_time, field_idx)
+      listMatches(tournamentId),
     ]);
 
     if (teamsRes.error) {
@@ -239,69 +147,38 @@ export default function TournamentHubPage() {
     setMatchesTotal(matchesTotalRes.count ?? 0);
     setMatchesPlayed(matchesPlayedRes.count ?? 0);
 
-    const nm = (nextMatchRes.data ?? [])[0] as any as NextMatchRow | undefined;
-    setNextMatch(nm ?? null);
+    const allMatches = allMatchesRes.data ?? [];
+    const upcoming = allMatches.filter((m) => !isPlayed(m));
+    const played = allMatches.filter((m) => isPlayed(m));
 
-    const lp = (lastPlayedRes.data ?? [])[0] as any as LastPlayedRow | undefined;
-    setLastPlayed(lp ?? null);
+    setNextMatch(upcoming[0] ?? null);
+    setLastPlayed(played[played.length - 1] ?? null);
 
     // BONUS 1: Match en cours (calcul via slot)
-    const { data: liveCandidates, error: liveErr } = await supabase
-      .from("matches")
-      .select(
-        "id,start_time,field_idx,status,home_score,away_score,home:home_team_id(name),away:away_team_id(name)"
-      )
-      .eq("tournament_id", tournamentId)
-      .neq("status", "played")
-      .order("start_time", { ascending: true })
-      .limit(200);
-
-    if (!liveErr) {
-      const now = Date.now();
-      const candidates = (liveCandidates ?? []).map((m: any) => m as LiveMatchRow);
-
-      const live = candidates.find((m) => {
-        const st = parseMsLoose(m.start_time);
-        if (Number.isNaN(st)) return false;
-        if (slotMs <= 0) return false;
-        const et = st + slotMs;
-        return st <= now && now < et;
-      });
-
-      setLiveMatch(live ?? null);
+    if (!allMatchesRes.error) {
+      const days = daysOf(tRow);
+      setLiveMatch(upcoming.find((m) => isLiveToday(m, matchSlotMs(tRow, m), days)) ?? null);
     } else {
       setLiveMatch(null);
     }
 
     // BONUS 2: Top 3 buteurs (matchs validés uniquement)
-    const { data: playedMatches, error: playedListErr } = await supabase
-      .from("matches")
-      .select("id")
-      .eq("tournament_id", tournamentId)
-      .eq("status", "played");
-
-    if (!playedListErr) {
-      const playedIds = (playedMatches ?? []).map((r: any) => r.id);
+    if (!allMatchesRes.error) {
+      const playedIds = played.map((r) => r.id);
 
       if (playedIds.length === 0) {
         setTopScorers([]);
       } else {
-        const { data: goalsEvents, error: goalsErr } = await supabase
-          .from("match_events")
-          .select(
-            "id,match_id,event_type,player:player_id(id,first_name,last_name,jersey_number,team:team_id(name))"
-          )
-          .in("match_id", playedIds)
-          .eq("event_type", "goal");
+        const { data: goalsEvents, error: goalsErr } = await listMatchEvents({ matchIds: playedIds, types: SCORER_EVENT_TYPES });
 
         if (!goalsErr) {
           const counter = new Map<string, TopScorerRow>();
 
           for (const e of goalsEvents ?? []) {
-            const p = (e as any).player;
-            if (!p?.id) continue;
+            const p = e.player;
+            if (!e.player_id || !p) continue;
 
-            const key = String(p.id);
+            const key = e.player_id;
             const current = counter.get(key);
 
             const row: TopScorerRow = current ?? {
@@ -309,7 +186,7 @@ export default function TournamentHubPage() {
               first_name: p.first_name ?? null,
               last_name: p.last_name ?? null,
               jersey_number: p.jersey_number ?? null,
-              team_name: p.team?.name ?? null,
+              team_name: e.team?.name ?? null,
               goals: 0,
             };
 
@@ -352,83 +229,21 @@ export default function TournamentHubPage() {
     return () => clearInterval(id);
   }, [autoRefresh, refreshEverySec, loadAll]);
 
-  async function deleteTournamentCascade() {
+  async function deleteTournament() {
     if (!tournament) return;
 
     const ok = window.confirm(
-      `Supprimer définitivement le tournoi "${tournament.title ?? "Sans titre"}" ?\n\n⚠️ Cela supprimera aussi: équipes, joueurs, matchs, événements.`
+      `Mettre le tournoi "${tournament.title ?? "Sans titre"}" à la corbeille ?\n\nRestauration possible depuis le Dashboard pendant ${TRASH_RETENTION_DAYS} jours.`
     );
     if (!ok) return;
 
     setBusyDelete(true);
     setStatus("");
 
-    const { data: mData, error: mErr } = await supabase
-      .from("matches")
-      .select("id")
-      .eq("tournament_id", tournamentId);
-
-    if (mErr) {
-      setStatus("Erreur lecture matches: " + mErr.message);
-      setBusyDelete(false);
-      return;
-    }
-
-    const matchIds = (mData ?? []).map((m: any) => m.id);
-
-    if (matchIds.length > 0) {
-      const { error: eErr } = await supabase
-        .from("match_events")
-        .delete()
-        .in("match_id", matchIds);
-
-      if (eErr) {
-        setStatus("Erreur suppression événements: " + eErr.message);
-        setBusyDelete(false);
-        return;
-      }
-    }
-
-    const { error: delMatchesErr } = await supabase
-      .from("matches")
-      .delete()
-      .eq("tournament_id", tournamentId);
-
-    if (delMatchesErr) {
-      setStatus("Erreur suppression matches: " + delMatchesErr.message);
-      setBusyDelete(false);
-      return;
-    }
-
-    const { error: delPlayersErr } = await supabase
-      .from("players")
-      .delete()
-      .eq("tournament_id", tournamentId);
+    const { error } = await trashTournament(tournamentId);
 
-    if (delPlayersErr) {
-      setStatus("Erreur suppression joueurs: " + delPlayersErr.message);
-      setBusyDelete(false);
-      return;
-    }
-
-    const { error: delTeamsErr } = await supabase
-      .from("teams")
-      .delete()
-      .eq("tournament_id", tournamentId);
-
-    if (delTeamsErr) {
-      setStatus("Erreur suppression équipes: " + delTeamsErr.message);
-      setBusyDelete(false);
-      return;
-    }
-
-    const { error: delTournamentErr } = await supabase
-      .from("tournaments")
-      .delete()
-      .eq("id", tournamentId);
-
-    if (delTournamentErr) {
-      setStatus("Erreur suppression tournoi: " + delTournamentErr.message);
+    if (error) {
+      setStatus("Erreur suppression tournoi: " + error.message);
       setBusyDelete(false);
       return;
     }
@@ -474,6 +289,7 @@ export default function TournamentHubPage() {
             <p className="text-sm text-gray-500">
               ID: <span className="font-mono text-xs">{tournamentId}</span>
             </p>
+            {role && <p className="text-xs text-gray-400 mt-1">Ton rôle: {ROLE_LABELS[role]}</p>}
             {tournament.created_at && (
               <p className="text-xs text-gray-400 mt-1">
                 Créé le {prettyDateTime(tournament.created_at)}
@@ -519,6 +335,18 @@ export default function TournamentHubPage() {
               <span className="text-xs text-gray-600">sec</span>
             </div>
 
+            {tournament.is_public && tournament.public_slug && (
+              <a
+                href={publicPath(tournament.public_slug)}
+                target="_blank"
+                rel="noreferrer"
+                className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition"
+                title="Page publique (sans connexion)"
+              >
+                🌍 Page publique
+              </a>
+            )}
+
             <button
               onClick={() => go("screen")}
               className="bg-black text-white px-4 py-2 rounded-lg hover:bg-gray-900 transition"
@@ -537,7 +365,7 @@ export default function TournamentHubPage() {
               <div className="mt-2">
                 <div className="inline-flex items-center gap-2 text-xs font-semibold px-2 py-1 rounded bg-red-100 text-red-700">
                   🔴 LIVE
-                  <span className="text-gray-500">{hhmmFromIso(liveMatch.start_time)}</span>
+                  <span className="text-gray-500">{timeHHMM(liveMatch.start_time, "")}</span>
                 </div>
 
                 <div className="mt-3 text-lg font-bold">
@@ -667,7 +495,7 @@ export default function TournamentHubPage() {
                   {nextMatch.home?.name ?? "Équipe A"} vs {nextMatch.away?.name ?? "Équipe B"}
                 </div>
                 <div className="text-sm text-gray-600 mt-1">
-                  ⏱️ {hhmmFromIso(nextMatch.start_time)} · 🟩 Terrain {nextMatch.field_idx}
+                  ⏱️ {timeHHMM(nextMatch.start_time, "")} · 🟩 Terrain {nextMatch.field_idx}
                 </div>
                 <button
                   onClick={() =>
@@ -690,7 +518,7 @@ export default function TournamentHubPage() {
             <h2 className="font-semibold">Dernier résultat</h2>
             {lastPlayed ? (
               <div className="text-sm text-gray-700 mt-1">
-                <span className="font-semibold">{hhmmFromIso(lastPlayed.start_time)}</span> · Terrain{" "}
+                <span className="font-semibold">{timeHHMM(lastPlayed.start_time, "")}</span> · Terrain{" "}
                 {lastPlayed.field_idx} ·{" "}
                 <span className="font-semibold">{lastPlayed.home?.name ?? "A"}</span>{" "}
                 {lastPlayed.home_score ?? 0} - {lastPlayed.away_score ?? 0}{" "}
@@ -719,14 +547,16 @@ export default function TournamentHubPage() {
 
         {/* Quick actions */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-          <button
-            onClick={() => go("schedule")}
-            className="bg-white rounded-xl shadow p-5 text-left hover:bg-slate-50 transition"
-          >
-            <div className="text-2xl">🗓️</div>
-            <div className="mt-2 font-semibold">Planning</div>
-            <div className="text-sm text-gray-500">Voir les créneaux et la grille horaire.</div>
-          </button>
+          {canManage(role) && (
+            <button
+              onClick={() => go("schedule")}
+              className="bg-white rounded-xl shadow p-5 text-left hover:bg-slate-50 transition"
+            >
+              <div className="text-2xl">🗓️</div>
+              <div className="mt-2 font-semibold">Planning</div>
+              <div className="text-sm text-gray-500">Voir les créneaux et la grille horaire.</div>
+            </button>
+          )}
 
           <button
             onClick={() => go("matches")}
@@ -764,31 +594,66 @@ export default function TournamentHubPage() {
             <div className="text-sm text-gray-500">Buteurs, passeurs, cartons (validés).</div>
           </button>
 
+          {canManage(role) && (
+            <button
+              onClick={() => go("teams")}
+              className="bg-white rounded-xl shadow p-5 text-left hover:bg-slate-50 transition"
+            >
+              <div className="text-2xl">👥</div>
+              <div className="mt-2 font-semibold">Équipes</div>
+              <div className="text-sm text-gray-500">Feuilles, joueurs, présence.</div>
+            </button>
+          )}
+
+          {canManage(role) && (
+            <button
+              onClick={() => go("audit")}
+              className="bg-white rounded-xl shadow p-5 text-left hover:bg-slate-50 transition"
+            >
+              <div className="text-2xl">🕓</div>
+              <div className="mt-2 font-semibold">Historique</div>
+              <div className="text-sm text-gray-500">Qui a modifié quoi: scores, événements, équipes.</div>
+            </button>
+          )}
+
+          {canManage(role) && (
+            <button
+              onClick={() => go("scores")}
+              className="bg-white rounded-xl shadow p-5 text-left hover:bg-slate-50 transition"
+            >
+              <div className="text-2xl">🧮</div>
+              <div className="mt-2 font-semibold">Contrôle des scores</div>
+              <div className="text-sm text-gray-500">Scores qui ne correspondent pas aux buts saisis.</div>
+            </button>
+          )}
+
           <button
-            onClick={() => go("teams")}
+            onClick={() => go("members")}
             className="bg-white rounded-xl shadow p-5 text-left hover:bg-slate-50 transition"
           >
-            <div className="text-2xl">👥</div>
-            <div className="mt-2 font-semibold">Équipes</div>
-            <div className="text-sm text-gray-500">Feuilles, joueurs, présence.</div>
+            <div className="text-2xl">🤝</div>
+            <div className="mt-2 font-semibold">Organisateurs</div>
+            <div className="text-sm text-gray-500">Co-organisateurs, arbitres, lecture seule.</div>
           </button>
         </div>
 
-        {/* Danger zone */}
-        <div className="bg-white rounded-xl shadow p-6 flex items-center justify-between gap-3 flex-wrap border border-red-200">
-          <div>
-            <h2 className="font-semibold text-red-700">Zone sensible</h2>
-            <p className="text-sm text-gray-600">À utiliser uniquement si le tournoi est terminé.</p>
-          </div>
+        {/* Danger zone: propriétaire uniquement */}
+        {isOwner(role) && (
+          <div className="bg-white rounded-xl shadow p-6 flex items-center justify-between gap-3 flex-wrap border border-red-200">
+            <div>
+              <h2 className="font-semibold text-red-700">Zone sensible</h2>
+              <p className="text-sm text-gray-600">À utiliser uniquement si le tournoi est terminé.</p>
+            </div>
 
-          <button
-            onClick={deleteTournamentCascade}
-            disabled={busyDelete}
-            className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition disabled:opacity-50"
-          >
-            {busyDelete ? "Suppression..." : "🗑️ Supprimer le tournoi"}
-          </button>
-        </div>
+            <button
+              onClick={deleteTournament}
+              disabled={busyDelete}
+              className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition disabled:opacity-50"
+            >
+              {busyDelete ? "Suppression..." : "🗑️ Supprimer le tournoi"}
+            </button>
+          </div>
+        )}
       </div>
     </main>
   );
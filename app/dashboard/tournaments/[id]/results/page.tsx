@@ -3,25 +3,22 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "../../../../../lib/supabaseClient";
-
-type TournamentRow = {
-  id: string;
-  num_fields: number | null;
-  field_names: string[] | null;
-};
-
-type MatchRow = {
-  id: string;
-  start_time: string;
-  field_idx: number;
-  status: string;
-  home_score: number | null;
-  away_score: number | null;
-  home_team_id: string;
-  away_team_id: string;
-  home: { name: string } | null;
-  away: { name: string } | null;
-};
+import { roundLabel } from "../../../../../lib/domain/knockout";
+import { decidedBySuffix } from "../../../../../lib/domain/penalties";
+import { isStaffCard } from "../../../../../lib/domain/fairPlay";
+import { eventIcon, eventSuffix } from "../../../../../lib/domain/events";
+import { normHHMM } from "../../../../../lib/domain/time";
+import type { Tournament } from "../../../../../lib/domain/models";
+import {
+  getTournament,
+  listMatchEvents,
+  listMatches,
+  type MatchEventWithPeople,
+  type MatchWithTeams,
+} from "../../../../../lib/repository";
+
+type TournamentRow = Tournament;
+type MatchRow = MatchWithTeams;
 
 type PlayerMini = {
   first_name: string | null;
@@ -29,28 +26,7 @@ type PlayerMini = {
   jersey_number: number | null;
 };
 
-type EventRow = {
-  id: string;
-  match_id: string;
-  team_id: string | null;
-  player_id: string | null;
-  event_type: string;
-  created_at: string | null;
-  player: PlayerMini | null;
-};
-
-function normHHMM(t: string) {
-  return (t ?? "").slice(0, 5);
-}
-
-function iconFor(type: string) {
-  const t = (type ?? "").toLowerCase();
-  if (t === "goal") return "⚽️";
-  if (t === "assist") return "🎯";
-  if (t === "yellow") return "🟡";
-  if (t === "red") return "🔴";
-  return "•";
-}
+type EventRow = MatchEventWithPeople;
 
 function formatName(p: PlayerMini | null) {
   const fn = (p?.first_name ?? "").trim();
@@ -59,11 +35,6 @@ function formatName(p: PlayerMini | null) {
   return fn || ln || "Joueur";
 }
 
-function clampInt(n: number, min: number, max: number) {
-  if (!Number.isFinite(n)) return min;
-  return Math.max(min, Math.min(max, Math.floor(n)));
-}
-
 export default function ResultsPage() {
   const router = useRouter();
   const params = useParams();
@@ -94,9 +65,7 @@ export default function ResultsPage() {
   // ✅ noms de terrains personnalisés
   const fieldLabel = useMemo(() => {
     const raw = Array.isArray(tournament?.field_names) ? tournament!.field_names! : [];
-    const nf = clampInt(Number(tournament?.num_fields ?? raw.length ?? 0), 1, 24);
-
-    return (fieldIdx: number) => {
+    return (fieldIdx: number | null) => {
       const idx = Math.max(1, Number(fieldIdx || 1));
       const nm = String(raw[idx - 1] ?? "").trim();
       // fallback si pas de nom: "Terrain X"
@@ -184,30 +153,18 @@ export default function ResultsPage() {
 
   async function refreshAll() {
     // ✅ tournoi (noms terrains)
-    const { data: tData, error: tErr } = await supabase
-      .from("tournaments")
-      .select("id,num_fields,field_names")
-      .eq("id", tournamentId)
-      .single();
-
-    if (!tErr) setTournament((tData ?? null) as any);
-
-    const { data: mData, error: mErr } = await supabase
-      .from("matches")
-      .select(
-        "id,start_time,field_idx,status,home_score,away_score,home_team_id,away_team_id,home:home_team_id(name),away:away_team_id(name)"
-      )
-      .eq("tournament_id", tournamentId)
-      .eq("status", "played")
-      .order("start_time", { ascending: true })
-      .order("field_idx", { ascending: true });
+    const { data: tData, error: tErr } = await getTournament(tournamentId);
+
+    if (!tErr) setTournament(tData);
+
+    const { data: mData, error: mErr } = await listMatches(tournamentId, { status: "played" });
 
     if (mErr) {
       setStatus("Erreur matches: " + mErr.message);
       return;
     }
 
-    const played = (mData ?? []) as any as MatchRow[];
+    const played = mData ?? [];
     setMatches(played);
 
     const matchIds = played.map((m) => m.id);
@@ -216,10 +173,7 @@ export default function ResultsPage() {
       return;
     }
 
-    const { data: eData, error: eErr } = await supabase
-      .from("match_events")
-      .select("id,match_id,team_id,player_id,event_type,created_at,player:player_id(first_name,last_name,jersey_number)")
-      .in("match_id", matchIds);
+    const { data: eData, error: eErr } = await listMatchEvents({ matchIds });
 
     if (eErr) {
       setEvents([]);
@@ -228,17 +182,17 @@ export default function ResultsPage() {
     }
 
     // ✅ MVP masqués dans Résultats + écran
-    const all = ((eData ?? []) as any as EventRow[]).filter((e) => (e.event_type ?? "").toLowerCase() !== "mvp");
+    const all = (eData ?? []).filter((e) => (e.event_type ?? "").toLowerCase() !== "mvp");
 
     setEvents(all);
   }
 
   function renderEvent(e: EventRow, teamName: string) {
-    const icon = iconFor(e.event_type);
-    const name = formatName(e.player);
+    const icon = eventIcon(e.event_type);
+    const name = isStaffCard(e.event_type) ? "Staff" : formatName(e.player);
     const num = e.player?.jersey_number;
     const inside = `${num != null ? `#${num} ` : ""}${teamName}`.trim();
-    return `${icon} ${name} (${inside})`;
+    return `${icon} ${name}${eventSuffix(e.event_type)} (${inside})`;
   }
 
   return (
@@ -309,12 +263,21 @@ export default function ResultsPage() {
                   <div className="flex items-start justify-between gap-3 flex-wrap">
                     <div className="text-xs text-gray-600 font-semibold">
                       <strong>{normHHMM(m.start_time)}</strong> · <span className="font-bold">{terrain}</span>
+                      {m.phase === "knockout" && <span className="ml-2 text-amber-700">🏆 {roundLabel(m.ko_round)}</span>}
                     </div>
 
                     <div className="text-sm font-extrabold">
                       {homeName}{" "}
                       <span className="mx-2 font-extrabold">
                         {m.home_score ?? 0} - {m.away_score ?? 0}
+                        {m.decided_by === "penalties" && m.home_penalties != null && m.away_penalties != null && (
+                          <span className="ml-1 text-xs text-gray-600">
+                            ({m.home_penalties}-{m.away_penalties} {decidedBySuffix(m.decided_by)})
+                          </span>
+                        )}
+                        {m.decided_by === "extra_time" && (
+                          <span className="ml-1 text-xs text-gray-600">{decidedBySuffix(m.decided_by)}</span>
+                        )}
                       </span>{" "}
                       {awayName}
                     </div>
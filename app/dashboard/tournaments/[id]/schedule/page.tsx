@@ -3,117 +3,77 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "../../../../../lib/supabaseClient";
-
-type Pause = { from: string; to: string };
-
-type Tournament = {
-  id: string;
-  title: string;
-
-  tournament_date: string | null;
-
-  min_teams: number | null;
-  max_teams: number | null;
-
-  start_time: string; // time
-  end_time: string; // time
-  match_duration_min: number;
-  rotation_duration_min: number;
-
-  num_fields: number;
-  field_names: string[];
-
-  pauses: any;
-  field_pauses: any;
-
-  // ✅ Poules
-  format: string | null; // "round_robin" | "groups_round_robin"
-  group_count: number | null; // 1..8
-  group_names: string[] | null;
+import { buildKnockoutBracket, roundShortLabel, sourceLabel } from "../../../../../lib/domain/knockout";
+import { minToTime, normHHMM, timeToMin } from "../../../../../lib/domain/time";
+import { fieldNamesOf, groupCountOf, groupNamesOf, isGroupFormat, knockoutGroupNamesOf } from "../../../../../lib/domain/tournament";
+import {
+  categoriesOf,
+  categoryGroupOffsets,
+  categoryIdOrNull,
+  categoryOf,
+  categoryPrefix,
+  globalGroupIdx,
+  inCategory,
+  withCategoryDurations,
+} from "../../../../../lib/domain/categories";
+import type { Team, Tournament } from "../../../../../lib/domain/models";
+import {
+  generateKeepingLocked,
+  isFrozenMatch,
+  isSlotPaused,
+  pauseModelOf,
+  rescheduleFrom,
+  tournamentSlots,
+  type RescheduleResult,
+} from "../../../../../lib/domain/scheduler";
+import {
+  backToBackKeys,
+  checkSchedule,
+  HARD_VIOLATIONS,
+  isHardViolation,
+  matchKeyTime,
+  placedMatchKey,
+  scheduleRulesOf,
+  VIOLATION_LABELS,
+  type ViolationKind,
+} from "../../../../../lib/domain/scheduleConstraints";
+import { absoluteMin, dayLabel, daysOf, matchDayIdx, todayDayIdx } from "../../../../../lib/domain/days";
+import {
+  durationModelOf,
+  fieldAttributesLabel,
+  fieldSettingsOf,
+  fieldSlotMinutes,
+  fitsField,
+  matchMinutesFor,
+} from "../../../../../lib/domain/fields";
+import {
+  deleteUnlockedMatches,
+  getMyRole,
+  getTournament,
+  insertMatches,
+  listMatches,
+  listTeams,
+  updateMatch,
+  type MatchWithTeams,
+} from "../../../../../lib/repository";
+import { ADMIN_ONLY_MESSAGE, canManage, normalizeRole } from "../../../../../lib/domain/roles";
+
+type MatchRow = MatchWithTeams;
+
+// Surlignage de l'éditeur: contraintes du planning + matchs enchaînés sans pause
+type CellIssue = ViolationKind | "back_to_back";
+
+const ISSUE_ICONS: Record<CellIssue, string> = {
+  double_booking: "👥",
+  shared_players: "🔗",
+  availability: "🕐",
+  rest: "😮‍💨",
+  consecutive: "🔁",
+  field: "🏟️",
+  back_to_back: "⏩",
 };
 
-type Team = { id: string; name: string; group_idx?: number | null };
-
-type MatchRow = {
-  id: string;
-  start_time: string;
-  field_idx: number;
-  home_team_id: string;
-  away_team_id: string;
-  home: { name: string } | null;
-  away: { name: string } | null;
-};
-
-function normHHMM(t: string) {
-  return (t ?? "").slice(0, 5);
-}
-function timeToMin(t: string) {
-  const hhmm = normHHMM(t);
-  const [h, m] = hhmm.split(":").map(Number);
-  return h * 60 + m;
-}
-function minToTime(min: number) {
-  const h = Math.floor(min / 60);
-  const m = min % 60;
-  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
-}
-function overlaps(aStart: number, aEnd: number, bStart: number, bEnd: number) {
-  return aStart < bEnd && bStart < aEnd;
-}
-function clampInt(n: number, min: number, max: number) {
-  if (!Number.isFinite(n)) return min;
-  return Math.max(min, Math.min(max, Math.floor(n)));
-}
-
-/** Round Robin (méthode du cercle) */
-function roundRobinPairs(teamIds: string[]) {
-  const ids = [...teamIds];
-  if (ids.length % 2 === 1) ids.push("__BYE__");
-
-  const n = ids.length;
-  const rounds = n - 1;
-  const half = n / 2;
-
-  const pairs: Array<{ a: string; b: string; round: number }> = [];
-  let arr = [...ids];
-
-  for (let r = 0; r < rounds; r++) {
-    for (let i = 0; i < half; i++) {
-      const a = arr[i];
-      const b = arr[n - 1 - i];
-      if (a !== "__BYE__" && b !== "__BYE__") pairs.push({ a, b, round: r + 1 });
-    }
-    const fixed = arr[0];
-    const rest = arr.slice(1);
-    rest.unshift(rest.pop() as string);
-    arr = [fixed, ...rest];
-  }
-
-  return pairs;
-}
-
-/** Mélange alterné des poules: A1,B1,C1,A2,B2,C2,... */
-function interleaveByGroups(groups: { groupIdx: number; pairs: Array<{ a: string; b: string; round: number }> }[]) {
-  const queues = groups.map((g) => ({ groupIdx: g.groupIdx, q: [...g.pairs] }));
-  const out: Array<{ a: string; b: string; groupIdx: number }> = [];
-
-  // ordre: poule 1..N
-  queues.sort((x, y) => x.groupIdx - y.groupIdx);
-
-  let madeProgress = true;
-  while (madeProgress) {
-    madeProgress = false;
-    for (const g of queues) {
-      const item = g.q.shift();
-      if (item) {
-        out.push({ a: item.a, b: item.b, groupIdx: g.groupIdx });
-        madeProgress = true;
-      }
-    }
-  }
-
-  return out;
-}
+const issueLabel = (kind: CellIssue) => (kind === "back_to_back" ? "⏩ Matchs enchaînés sans pause" : VIOLATION_LABELS[kind]);
 
 export default function SchedulePage() {
   const router = useRouter();
@@ -123,142 +83,185 @@ export default function SchedulePage() {
   const [t, setT] = useState<Tournament | null>(null);
   const [status, setStatus] = useState("Chargement...");
   const [matches, setMatches] = useState<MatchRow[]>([]);
-  const [teamsCount, setTeamsCount] = useState<number>(0);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const teamsCount = teams.length;
 
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
+  const [dayIdx, setDayIdx] = useState(1); // jour affiché (tournoi sur plusieurs jours)
 
-  // ✅ édition manuelle
+  // ✅ édition manuelle: glisser-déposer (ou clic puis clic), annuler / rétablir, verrous
   const [editMode, setEditMode] = useState(false);
   const [selectedCell, setSelectedCell] = useState<string | null>(null);
-  const originalPositionsRef = useRef<Map<string, { start: string; field: number }>>(new Map());
+  const [dragFrom, setDragFrom] = useState<string | null>(null); // cellule du match glissé
+  const [dragOver, setDragOver] = useState<string | null>(null);
+  const [history, setHistory] = useState<{ past: MatchRow[][]; future: MatchRow[][] }>({ past: [], future: [] });
+  const originalPositionsRef = useRef<Map<string, { start: string; field: number; locked: boolean }>>(new Map());
+
+  // ✅ replanification à partir d'une heure (matchs joués / en cours figés)
+  const [replanFrom, setReplanFrom] = useState("");
+  const [replan, setReplan] = useState<Extract<RescheduleResult, { ok: true }> | null>(null);
 
   const slotMinutes = useMemo(() => {
     if (!t) return 15;
     return Math.max(1, (t.match_duration_min ?? 12) + (t.rotation_duration_min ?? 0));
   }, [t]);
 
-  const fieldNames = useMemo(() => {
-    if (!t) return [];
-    const count = t.num_fields ?? 1;
-    return t.field_names ?? Array.from({ length: count }, (_, i) => `Terrain ${i + 1}`);
-  }, [t]);
-
-  const showGroups = useMemo(() => (t?.format ?? "") === "groups_round_robin", [t]);
-  const groupCount = useMemo(() => clampInt(Number(t?.group_count ?? 1), 1, 8), [t]);
-  const groupNames = useMemo(() => {
-    const raw = Array.isArray(t?.group_names) ? (t?.group_names as any[]) : [];
-    const out: string[] = [];
-    for (let i = 1; i <= groupCount; i++) {
-      const s = String(raw[i - 1] ?? "").trim();
-      out.push(s || `Poule ${i}`);
-    }
-    return out;
-  }, [t, groupCount]);
-
-  // Pauses: global + except + per-field
-  const pauseModel = useMemo(() => {
-    if (!t) {
-      return {
-        globalPauses: [] as Pause[],
-        exceptPause: null as null | { from: string; to: string; exceptFields: number[] },
-        fieldPausesObj: {} as Record<string, Pause[]>,
-      };
-    }
-
-    const pausesArr = Array.isArray(t.pauses) ? t.pauses : [];
-    const pTournament = pausesArr.find((p: any) => p?.type === "tournament");
-    const pExcept = pausesArr.find((p: any) => p?.type === "tournament_except");
-
-    const globalPauses: Pause[] = [];
-    if (pTournament?.from && pTournament?.to) globalPauses.push({ from: pTournament.from, to: pTournament.to });
-
-    const exceptPause =
-      pExcept?.from && pExcept?.to
-        ? {
-            from: pExcept.from,
-            to: pExcept.to,
-            exceptFields: Array.isArray(pExcept.exceptFields) ? pExcept.exceptFields : [],
-          }
-        : null;
-
-    const rawFp = t.field_pauses && typeof t.field_pauses === "object" ? t.field_pauses : {};
-    const fieldPausesObj: Record<string, Pause[]> = {};
-    for (const k of Object.keys(rawFp)) {
-      fieldPausesObj[k] = Array.isArray(rawFp[k])
-        ? rawFp[k].filter((x: any) => x?.from && x?.to).map((x: any) => ({ from: x.from, to: x.to }))
-        : [];
-    }
+  const matchMinutes = Math.max(1, t?.match_duration_min ?? 12);
 
-    return { globalPauses, exceptPause, fieldPausesObj };
-  }, [t]);
+  // ✅ Jours: horaires, terrains et pauses propres à chaque jour
+  const days = useMemo(() => daysOf(t), [t]);
+  const multiDay = days.length > 1;
+  const day = days[dayIdx - 1] ?? days[0];
 
-  function isPaused(fieldIdx: number, startHHMM: string) {
-    if (!t) return false;
+  // noms pour le plus grand nb de terrains (un jour peut en avoir plus que le jour 1)
+  const fieldNames = useMemo(
+    () => (t ? fieldNamesOf({ num_fields: Math.max(...days.map((d) => d.num_fields)), field_names: t.field_names }) : []),
+    [t, days]
+  );
+  const dayFieldNames = fieldNames.slice(0, day.num_fields);
+
+  // ✅ Catégories: poules numérotées à la suite (le moteur ne voit que des poules), terrains partagés
+  const categories = useMemo(() => categoriesOf(t), [t]);
+  const showGroups = useMemo(() => categories.some((c) => isGroupFormat(c)), [categories]);
+  const groupCount = useMemo(() => categoryGroupOffsets(categories).total, [categories]);
+  const groupNames = useMemo(
+    () => categories.filter((c) => isGroupFormat(c)).flatMap((c) => groupNamesOf(c).map((n) => categoryPrefix(c) + n)),
+    [categories]
+  );
+  const schedulerTeams = (list: Team[]) =>
+    list.map((tm) => ({
+      id: tm.id,
+      groupIdx: globalGroupIdx(categories, tm),
+      categoryId: categoryIdOrNull(categoryOf(categories, tm)),
+    }));
+
+  // ✅ Terrains: format / surface et durées propres (grilles pas forcément alignées)
+  const fieldSettings = useMemo(() => fieldSettingsOf(t, fieldNames.length), [t, fieldNames.length]);
+  const durations = useMemo(
+    () => withCategoryDurations(durationModelOf(t, fieldNames.length), categories), // poule > catégorie > terrain
+    [t, fieldNames.length, categories]
+  );
+  const variableDurations = useMemo(
+    () =>
+      fieldNames.some((_, i) => fieldSlotMinutes(durations, i + 1) !== slotMinutes) ||
+      durations.groupMinutes.some((n) => n != null) ||
+      Object.keys(durations.categoryMinutes).length > 0,
+    [fieldNames, durations, slotMinutes]
+  );
 
-    const start = timeToMin(startHHMM);
-    const end = start + slotMinutes;
+  // poule "globale" d'un match (null = phase finale)
+  function matchGroupIdx(m: Pick<MatchRow, "phase" | "home_team_id">) {
+    if (m.phase === "knockout") return null;
+    const home = teams.find((tm) => tm.id === m.home_team_id);
+    return home ? globalGroupIdx(categories, home) : null;
+  }
 
-    if (pauseModel.globalPauses.some((p) => overlaps(start, end, timeToMin(p.from), timeToMin(p.to)))) return true;
+  // ✅ Contraintes (présence, repos, enchaînements, terrains, joueurs partagés)
+  const rules = useMemo(() => scheduleRulesOf(t, teams), [t, teams]);
+  const violations = useMemo(
+    () => checkSchedule(matches, rules, { slotMinutes, matchMinutes }),
+    [matches, rules, slotMinutes, matchMinutes]
+  );
+  const violationsByKind = useMemo(() => {
+    const out = new Map<ViolationKind, typeof violations>();
+    for (const v of violations) out.set(v.kind, [...(out.get(v.kind) ?? []), v]);
+    return out;
+  }, [violations]);
+  const teamName = (id: string | undefined) => teams.find((tm) => tm.id === id)?.name ?? "Équipe";
+
+  // ✅ Phase finale (par catégorie): nb de qualifiés = qualifiés par poule x nb de poules
+  const knockoutCategories = useMemo(() => categories.filter((c) => c.knockout_enabled), [categories]);
+  const knockoutEnabled = knockoutCategories.length > 0;
+  const knockoutQualifiers = useMemo(
+    () => knockoutCategories.reduce((n, c) => n + c.knockout_qualifiers * groupCountOf(c), 0),
+    [knockoutCategories]
+  );
+  const knockoutBracket = useMemo(
+    () =>
+      knockoutCategories.flatMap((c) =>
+        buildKnockoutBracket(c.knockout_qualifiers * groupCountOf(c), groupCountOf(c)).map((bm) => ({ ...bm, category_id: categoryIdOrNull(c) }))
+      ),
+    [knockoutCategories]
+  );
+  const knockoutCount = knockoutBracket.length;
 
-    if (pauseModel.exceptPause) {
-      const inExcept = overlaps(start, end, timeToMin(pauseModel.exceptPause.from), timeToMin(pauseModel.exceptPause.to));
-      if (inExcept) {
-        const allowed = pauseModel.exceptPause.exceptFields.includes(fieldIdx);
-        if (!allowed) return true;
-      }
+  function sideLabel(m: MatchRow, side: "home" | "away") {
+    const name = side === "home" ? m.home?.name : m.away?.name;
+    if (name) return name;
+    if (m.phase === "knockout") {
+      return sourceLabel(side === "home" ? m.home_source : m.away_source, knockoutGroupNamesOf(categoryOf(categories, m)));
     }
+    return side === "home" ? "Équipe A" : "Équipe B";
+  }
 
-    const fp = pauseModel.fieldPausesObj[String(fieldIdx)] ?? [];
-    if (fp.some((p) => overlaps(start, end, timeToMin(p.from), timeToMin(p.to)))) return true;
+  // "U11 · " (rien sans catégorie)
+  const matchCategoryLabel = (m: MatchRow) => categoryPrefix(categoryOf(categories, m));
 
-    return false;
-  }
+  // Pauses du jour affiché: global + except + per-field
+  const pauseModel = useMemo(() => pauseModelOf(day), [day]);
 
-  const timeline = useMemo(() => {
-    if (!t) return [];
-    const start = timeToMin(t.start_time || "09:00");
-    const end = timeToMin(t.end_time || "18:00");
+  function isPaused(fieldIdx: number, startHHMM: string) {
+    return isSlotPaused(pauseModel, fieldIdx, startHHMM, fieldSlotMinutes(durations, fieldIdx));
+  }
 
-    const times: string[] = [];
-    for (let cur = start; cur + slotMinutes <= end; cur += slotMinutes) times.push(minToTime(cur));
-    return times;
-  }, [t, slotMinutes]);
+  // créneaux jouables de tous les jours (génération) + grille du jour affiché
+  const { timelines, fieldTimelines, slots } = useMemo(
+    () => tournamentSlots(days, slotMinutes, durations),
+    [days, slotMinutes, durations]
+  );
+  const timeline = timelines[dayIdx - 1] ?? [];
 
-  const timeIndexMap = useMemo(() => {
-    const m = new Map<string, number>();
-    timeline.forEach((hhmm, idx) => m.set(hhmm, idx));
-    return m;
-  }, [timeline]);
+  // début de créneau sur ce terrain (sinon: créneau en cours commencé plus tôt)
+  function isSlotStart(fieldIdx: number, hhmm: string) {
+    return (fieldTimelines[dayIdx - 1]?.[fieldIdx - 1] ?? []).includes(hhmm);
+  }
 
   const matchMap = useMemo(() => {
     const m = new Map<string, MatchRow>();
     for (const match of matches) {
+      if (matchDayIdx(match, days.length) !== dayIdx) continue;
       const key = `${normHHMM(match.start_time)}|${match.field_idx}`;
       m.set(key, match);
     }
     return m;
-  }, [matches]);
-
-  const totalPlayableSlots = useMemo(() => {
-    if (!t) return 0;
+  }, [matches, days, dayIdx]);
+
+  // ✅ Éditeur: pendant le glisser-déposer, contraintes recalculées comme si le match était lâché ici
+  const dragPreview = dragFrom && dragOver && dragFrom !== dragOver ? swapCells(matches, dragFrom, dragOver) : null;
+  const editMatches = Array.isArray(dragPreview) ? dragPreview : matches;
+
+  const cellIssues = useMemo(() => {
+    const out = new Map<string, Set<CellIssue>>();
+    const add = (key: string, kind: CellIssue) => out.set(key, (out.get(key) ?? new Set<CellIssue>()).add(kind));
+
+    for (const v of checkSchedule(editMatches, rules, { slotMinutes, matchMinutes })) {
+      add(v.matchKey, v.kind);
+      if (v.kind !== "double_booking") continue;
+
+      // équipe à deux endroits: les deux matchs
+      const [vDay, vTime] = v.matchKey.split("|");
+      const vStart = absoluteMin(Number(vDay), vTime);
+      for (const m of editMatches) {
+        if (m.home_team_id !== v.teamId && m.away_team_id !== v.teamId) continue;
+        const start = absoluteMin(m.day_idx, normHHMM(m.start_time));
+        if (start <= vStart && vStart < start + (m.duration_min ?? matchMinutes)) add(placedMatchKey(m), v.kind);
+      }
+    }
+    for (const key of backToBackKeys(editMatches, { slotMinutes, matchMinutes })) add(key, "back_to_back");
 
-    const fieldCount = t.num_fields ?? 1;
-    const startMin = timeToMin(t.start_time || "09:00");
-    const endMin = timeToMin(t.end_time || "18:00");
+    return out;
+  }, [editMatches, rules, slotMinutes, matchMinutes]);
 
-    let count = 0;
-    for (let cur = startMin; cur + slotMinutes <= endMin; cur += slotMinutes) {
-      const hhmm = minToTime(cur);
-      for (let f = 1; f <= fieldCount; f++) if (!isPaused(f, hhmm)) count++;
-    }
-    return count;
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [t, slotMinutes, pauseModel]);
+  const totalPlayableSlots = slots.length;
 
-  const neededMatches = useMemo(() => {
-    if (!teamsCount || teamsCount < 2) return 0;
-    return (teamsCount * (teamsCount - 1)) / 2;
-  }, [teamsCount]);
+  const neededMatches = useMemo(
+    () =>
+      categories.reduce((sum, c) => {
+        const n = inCategory(teams, categories, c).length;
+        return sum + (n < 2 ? 0 : (n * (n - 1)) / 2);
+      }, 0),
+    [teams, categories]
+  );
 
   // estimation simple (théorique)
   const estimate = useMemo(() => {
@@ -302,65 +305,102 @@ export default function SchedulePage() {
       const { data: userData } = await supabase.auth.getUser();
       if (!userData.user) return router.push("/login");
 
-      const { data, error } = await supabase
-        .from("tournaments")
-        .select(
-          "id,title,tournament_date,min_teams,max_teams,start_time,end_time,match_duration_min,rotation_duration_min,num_fields,field_names,pauses,field_pauses,format,group_count,group_names"
-        )
-        .eq("id", tournamentId)
-        .single();
+      const { data: myRole } = await getMyRole(tournamentId);
+      if (!canManage(normalizeRole(myRole))) return setStatus(ADMIN_ONLY_MESSAGE);
+
+      const { data, error } = await getTournament(tournamentId);
 
       if (error) return setStatus("Erreur: " + error.message);
 
-      setT(data as Tournament);
+      setT(data);
+      setDayIdx(todayDayIdx(daysOf(data)));
       setStatus("");
 
       await refreshMatches();
-      await refreshTeamsCount();
+      await refreshTeams();
     }
 
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [router, tournamentId]);
 
-  async function refreshTeamsCount() {
-    const { count } = await supabase
-      .from("teams")
-      .select("id", { count: "exact", head: true })
-      .eq("tournament_id", tournamentId);
+  async function refreshTeams() {
+    const { data, error } = await listTeams(tournamentId);
 
-    setTeamsCount(count ?? 0);
+    if (!error) setTeams(data ?? []);
   }
 
   async function refreshMatches() {
-    const { data, error } = await supabase
-      .from("matches")
-      .select("id,start_time,field_idx,home_team_id,away_team_id,home:home_team_id(name),away:away_team_id(name)")
-      .eq("tournament_id", tournamentId)
-      .order("start_time", { ascending: true })
-      .order("field_idx", { ascending: true });
-
-    if (!error) setMatches((data ?? []) as any);
+    const { data, error } = await listMatches(tournamentId);
+
+    if (!error) setMatches(data ?? []);
   }
 
   function enterEditMode() {
     // snapshot positions
-    const snap = new Map<string, { start: string; field: number }>();
-    for (const m of matches) snap.set(m.id, { start: normHHMM(m.start_time), field: Number(m.field_idx) });
+    const snap = new Map<string, { start: string; field: number; locked: boolean }>();
+    for (const m of matches) snap.set(m.id, { start: normHHMM(m.start_time), field: Number(m.field_idx), locked: m.schedule_locked });
     originalPositionsRef.current = snap;
 
     setSelectedCell(null);
+    setHistory({ past: [], future: [] });
+    setReplan(null);
     setEditMode(true);
-    setStatus("Mode modification manuelle activé. Clique une cellule puis une autre pour échanger (ou déplacer sur une cellule vide).");
+    setStatus("Mode modification manuelle activé. Glisse un match sur une autre cellule (ou clique une cellule puis une autre) pour échanger / déplacer.");
   }
 
   async function cancelEditMode() {
     setEditMode(false);
     setSelectedCell(null);
+    setHistory({ past: [], future: [] });
     setStatus("Annulé.");
     await refreshMatches();
   }
 
+  // ✅ Annuler / rétablir (Ctrl+Z / Ctrl+Y)
+  function applyEdit(next: MatchRow[]) {
+    setHistory((h) => ({ past: [...h.past, matches], future: [] }));
+    setMatches(next);
+  }
+
+  function undo() {
+    const prev = history.past[history.past.length - 1];
+    if (!prev) return;
+    setHistory({ past: history.past.slice(0, -1), future: [matches, ...history.future] });
+    setMatches(prev);
+  }
+
+  function redo() {
+    const next = history.future[0];
+    if (!next) return;
+    setHistory({ past: [...history.past, matches], future: history.future.slice(1) });
+    setMatches(next);
+  }
+
+  useEffect(() => {
+    if (!editMode) return;
+
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const k = e.key.toLowerCase();
+      if (k === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (k === "y" || (k === "z" && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    }
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  // 🔒 verrouillé: gardé tel quel à la régénération / replanification
+  function toggleLock(matchId: string) {
+    applyEdit(matches.map((m) => (m.id === matchId ? { ...m, schedule_locked: !m.schedule_locked } : m)));
+  }
+
   async function saveManualEdits() {
     const orig = originalPositionsRef.current;
     if (!orig || orig.size === 0) {
@@ -370,31 +410,30 @@ export default function SchedulePage() {
     }
 
     // Détecter changements
-    const updates: Array<{ id: string; start_time: string; field_idx: number }> = [];
+    const updates: Array<{ id: string; start_time: string; field_idx: number; duration_min: number | null; schedule_locked: boolean }> =
+      [];
     for (const m of matches) {
       const curStart = normHHMM(m.start_time);
       const curField = Number(m.field_idx);
       const o = orig.get(m.id);
       if (!o) continue;
-      if (o.start !== curStart || o.field !== curField) {
-        updates.push({ id: m.id, start_time: curStart, field_idx: curField });
+      if (o.start !== curStart || o.field !== curField || o.locked !== m.schedule_locked) {
+        updates.push({
+          id: m.id,
+          start_time: curStart,
+          field_idx: curField,
+          duration_min: m.duration_min,
+          schedule_locked: m.schedule_locked,
+        });
       }
     }
 
-    // Validation: pas d’équipe en double sur un même créneau
-    const byTime = new Map<string, Set<string>>();
-    for (const m of matches) {
-      const hhmm = normHHMM(m.start_time);
-      if (!byTime.has(hhmm)) byTime.set(hhmm, new Set());
-      const set = byTime.get(hhmm)!;
-      const a = m.home_team_id;
-      const b = m.away_team_id;
-      if (set.has(a) || set.has(b)) {
-        setStatus(`❌ Invalide: une équipe est présente 2 fois sur le créneau ${hhmm}.`);
-        return;
-      }
-      set.add(a);
-      set.add(b);
+    // Validation: contraintes dures (équipe sur deux matchs qui se chevauchent, joueurs partagés, présence)
+    // phase finale: équipes pas encore connues => pas de contrôle
+    const clash = checkSchedule(matches, rules, { slotMinutes, matchMinutes }).find(isHardViolation);
+    if (clash) {
+      setStatus(`❌ Invalide: ${VIOLATION_LABELS[clash.kind]} · ${teamName(clash.teamId)}${clash.otherTeamId ? ` / ${teamName(clash.otherTeamId)}` : ""} (${clash.detail}).`);
+      return;
     }
 
     if (updates.length === 0) {
@@ -410,9 +449,16 @@ export default function SchedulePage() {
     for (let i = 0; i < updates.length; i += chunkSize) {
       const chunk = updates.slice(i, i + chunkSize);
       const res = await Promise.all(
-        chunk.map((u) => supabase.from("matches").update({ start_time: u.start_time, field_idx: u.field_idx }).eq("id", u.id))
+        chunk.map((u) =>
+          updateMatch(u.id, {
+            start_time: u.start_time,
+            field_idx: u.field_idx,
+            duration_min: u.duration_min,
+            schedule_locked: u.schedule_locked,
+          })
+        )
       );
-      const firstErr = res.find((r) => (r as any).error)?.error;
+      const firstErr = res.find((r) => r.error)?.error;
       if (firstErr) {
         setStatus("Erreur enregistrement: " + firstErr.message);
         return;
@@ -421,6 +467,7 @@ export default function SchedulePage() {
 
     setEditMode(false);
     setSelectedCell(null);
+    setHistory({ past: [], future: [] });
     setStatus("✅ Modifications enregistrées.");
     await refreshMatches();
   }
@@ -429,10 +476,81 @@ export default function SchedulePage() {
     return `${hhmm}|${fieldIdx}`;
   }
 
+  // match du jour affiché dans cette cellule ("HH:MM|terrain")
+  function matchAt(list: MatchRow[], key: string) {
+    return list.find((m) => matchDayIdx(m, days.length) === dayIdx && cellKey(normHHMM(m.start_time), Number(m.field_idx)) === key) ?? null;
+  }
+
+  // Raison qui empêche d'échanger / déplacer entre ces deux cellules (null = possible)
+  function dropBlocker(list: MatchRow[], fromKey: string, toKey: string) {
+    const [sTime, sFieldStr] = fromKey.split("|");
+    const [tTime, tFieldStr] = toKey.split("|");
+    const sField = Number(sFieldStr);
+    const tField = Number(tFieldStr);
+
+    if (isPaused(sField, sTime) || isPaused(tField, tTime)) return "une des cellules est en pause.";
+    if (!isSlotStart(sField, sTime) || !isSlotStart(tField, tTime)) return "pas de début de créneau sur ce terrain à cette heure.";
+
+    const a = matchAt(list, fromKey);
+    const b = matchAt(list, toKey);
+    if (a?.schedule_locked || b?.schedule_locked) return "match verrouillé 🔒 (déverrouille-le pour le déplacer).";
+
+    // Le match doit tenir dans le créneau du terrain d'arrivée
+    const tooLong = [
+      { m: a, field: tField },
+      { m: b, field: sField },
+    ].find((x) => x.m && !fitsField(durations, x.field, matchGroupIdx(x.m), x.m.category_id));
+    if (tooLong) return `ce match est trop long pour les créneaux de ${fieldNames[tooLong.field - 1] ?? `Terrain ${tooLong.field}`}.`;
+
+    return null;
+  }
+
+  // Échange (ou déplacement vers une cellule vide): nouveau planning, ou raison du refus
+  function swapCells(list: MatchRow[], fromKey: string, toKey: string): MatchRow[] | string {
+    const blocker = dropBlocker(list, fromKey, toKey);
+    if (blocker) return blocker;
+
+    const [sTime, sFieldStr] = fromKey.split("|");
+    const [tTime, tFieldStr] = toKey.split("|");
+    const a = matchAt(list, fromKey);
+    const b = matchAt(list, toKey);
+    const next = list.map((m) => ({ ...m }));
+
+    // helper update match position
+    const move = (matchId: string, newTime: string, newField: number) => {
+      const idx = next.findIndex((x) => x.id === matchId);
+      if (idx >= 0) {
+        next[idx].start_time = newTime; // time string
+        next[idx].field_idx = newField;
+        next[idx].duration_min = matchMinutesFor(durations, newField, matchGroupIdx(next[idx]), next[idx].category_id);
+      }
+    };
+
+    if (a) move(a.id, tTime, Number(tFieldStr));
+    if (b) move(b.id, sTime, Number(sFieldStr));
+
+    // keep sorted for list mode + grid mapping
+    next.sort((x, y) => {
+      if ((x.day_idx ?? 1) !== (y.day_idx ?? 1)) return (x.day_idx ?? 1) - (y.day_idx ?? 1);
+      const ax = timeToMin(normHHMM(x.start_time));
+      const ay = timeToMin(normHHMM(y.start_time));
+      if (ax !== ay) return ax - ay;
+      return Number(x.field_idx) - Number(y.field_idx);
+    });
+
+    return next;
+  }
+
+  function moveCell(fromKey: string, toKey: string) {
+    const next = swapCells(matches, fromKey, toKey);
+    if (typeof next === "string") setStatus("⚠️ Impossible: " + next);
+    else applyEdit(next);
+  }
+
   function onCellClick(hhmm: string, fieldIdx: number) {
     if (!editMode) return;
 
-    if (isPaused(fieldIdx, hhmm)) return;
+    if (isPaused(fieldIdx, hhmm) || !isSlotStart(fieldIdx, hhmm)) return;
 
     const key = cellKey(hhmm, fieldIdx);
     if (!selectedCell) {
@@ -440,77 +558,62 @@ export default function SchedulePage() {
       return;
     }
 
-    if (selectedCell === key) {
-      setSelectedCell(null);
-      return;
-    }
-
-    // swap selectedCell <-> key (can be empty)
-    const [sTime, sFieldStr] = selectedCell.split("|");
-    const sField = Number(sFieldStr);
-
-    const a = matchMap.get(cellKey(sTime, sField)) ?? null;
-    const b = matchMap.get(cellKey(hhmm, fieldIdx)) ?? null;
-
-    // Éviter de déplacer vers pause
-    if (isPaused(sField, sTime) || isPaused(fieldIdx, hhmm)) {
-      setStatus("⚠️ Impossible: une des cellules est en pause.");
-      setSelectedCell(null);
-      return;
-    }
-
-    setMatches((prev) => {
-      const next = prev.map((m) => ({ ...m }));
-
-      // helper update match position
-      const move = (matchId: string, newTime: string, newField: number) => {
-        const idx = next.findIndex((x) => x.id === matchId);
-        if (idx >= 0) {
-          next[idx].start_time = newTime; // time string
-          next[idx].field_idx = newField;
-        }
-      };
+    if (selectedCell !== key) moveCell(selectedCell, key);
+    setSelectedCell(null);
+  }
 
-      if (a && b) {
-        move(a.id, normHHMM(b.start_time), Number(b.field_idx));
-        move(b.id, sTime, sField);
-      } else if (a && !b) {
-        move(a.id, hhmm, fieldIdx);
-      } else if (!a && b) {
-        move(b.id, sTime, sField);
-      }
+  // ✅ Glisser-déposer (HTML5): la cellule survolée montre en direct ce que donnerait le dépôt
+  function onDragStart(e: React.DragEvent, key: string) {
+    e.dataTransfer.setData("text/plain", key);
+    e.dataTransfer.effectAllowed = "move";
+    setSelectedCell(null);
+    setDragFrom(key);
+  }
 
-      // keep sorted for list mode + grid mapping
-      next.sort((x, y) => {
-        const ax = timeToMin(normHHMM(x.start_time));
-        const ay = timeToMin(normHHMM(y.start_time));
-        if (ax !== ay) return ax - ay;
-        return Number(x.field_idx) - Number(y.field_idx);
-      });
+  function onDragEnd() {
+    setDragFrom(null);
+    setDragOver(null);
+  }
 
-      return next;
-    });
+  function onDragOverCell(e: React.DragEvent, key: string) {
+    if (!dragFrom) return;
+    if (key === dragFrom || !dropBlocker(matches, dragFrom, key)) e.preventDefault(); // dépôt autorisé
+    if (dragOver !== key) setDragOver(key);
+  }
 
-    setSelectedCell(null);
+  function onDropCell(e: React.DragEvent, key: string) {
+    e.preventDefault();
+    if (dragFrom && dragFrom !== key) moveCell(dragFrom, key);
+    onDragEnd();
   }
 
   async function generateMatches() {
     if (!t) return;
 
+    // 🔒 matchs verrouillés: conservés tels quels, le reste est régénéré autour
+    const locked = matches.filter((m) => m.schedule_locked);
+    const frozenCount = matches.filter((m) => isFrozenMatch(m) && !m.schedule_locked).length;
+    if (
+      frozenCount > 0 &&
+      !window.confirm(
+        `⚠️ ${frozenCount} match(s) déjà commencé(s) ou validé(s) seront supprimés avec leurs résultats.\nPour les conserver, utilise plutôt « Replanifier » ou verrouille-les 🔒. Continuer ?`
+      )
+    ) {
+      return;
+    }
+
     setEditMode(false);
     setSelectedCell(null);
+    setReplan(null);
     setStatus("Génération des matchs...");
 
-    const { data: teamRows, error: teamErr } = await supabase
-      .from("teams")
-      .select("id,name,group_idx")
-      .eq("tournament_id", tournamentId)
-      .order("created_at", { ascending: true });
+    const { data: teamRows, error: teamErr } = await listTeams(tournamentId);
 
     if (teamErr) return setStatus("Erreur teams: " + teamErr.message);
 
-    const teams = (teamRows ?? []) as Team[];
-    setTeamsCount(teams.length);
+    // ordre d'inscription (têtes de série du round robin)
+    const teams = [...(teamRows ?? [])].sort((a, b) => String(a.created_at ?? "").localeCompare(String(b.created_at ?? "")));
+    setTeams(teams);
 
     // contrôles min/max + capacité
     const minT = t.min_teams ?? 2;
@@ -525,240 +628,117 @@ export default function SchedulePage() {
       return;
     }
 
-    // Génération des paires
-    let sequence: Array<{ a: string; b: string; groupIdx: number }> = [];
-
-    if (showGroups) {
-      // regrouper par poule
-      const groups = new Map<number, Team[]>();
-      for (const tm of teams) {
-        const g = clampInt(Number(tm.group_idx ?? 1), 1, groupCount);
-        if (!groups.has(g)) groups.set(g, []);
-        groups.get(g)!.push(tm);
-      }
-
-      // construire pairs par poule
-      const list: { groupIdx: number; pairs: Array<{ a: string; b: string; round: number }> }[] = [];
-      for (let g = 1; g <= groupCount; g++) {
-        const gTeams = groups.get(g) ?? [];
-        if (gTeams.length < 2) continue; // poule vide ou 1 équipe -> aucun match
-        const pairs = roundRobinPairs(gTeams.map((x) => x.id));
-        list.push({ groupIdx: g, pairs });
-      }
-
-      sequence = interleaveByGroups(list);
-    } else {
-      const pairs = roundRobinPairs(teams.map((x) => x.id));
-      sequence = pairs.map((p) => ({ a: p.a, b: p.b, groupIdx: 1 }));
-    }
-
-    const mustMatches = sequence.length;
-    if (mustMatches > totalPlayableSlots) {
-      setStatus(
-        `Planning impossible: ${mustMatches} matchs requis, mais seulement ${totalPlayableSlots} créneaux jouables (horaires/pauses/terrains).`
-      );
+    const bracket = knockoutBracket;
+    if (knockoutEnabled && knockoutCategories.some((c) => buildKnockoutBracket(c.knockout_qualifiers * groupCountOf(c), groupCountOf(c)).length === 0)) {
+      setStatus("Phase finale: il faut au moins 2 qualifiés.");
       return;
     }
 
-    // On supprime les matchs existants
-    const { error: delErr } = await supabase.from("matches").delete().eq("tournament_id", tournamentId);
-    if (delErr) return setStatus("Erreur delete matches: " + delErr.message);
-
-    // Créneaux jouables: on remplit “tous terrains à chaque temps” sauf pauses
-    const allSlots: Array<{ start: string; fieldIdx: number; timeIndex: number }> = [];
-    const fieldCount = t.num_fields ?? 1;
-
-    for (const hhmm of timeline) {
-      const ti = timeIndexMap.get(hhmm) ?? 0;
-      for (let f = 1; f <= fieldCount; f++) {
-        if (!isPaused(f, hhmm)) allSlots.push({ start: hhmm, fieldIdx: f, timeIndex: ti });
-      }
-    }
-
-// Placement “contraintes” (anti-enchaînement + équité stricte)
-const lastTimeIndex = new Map<string, number>();
-const busyAtTime = new Map<string, Set<string>>();
-const fieldUsage = new Map<number, number>(); // équilibrage terrain
-
-// ✅ Comptage matchs joués (global + par poule)
-const playedCount = new Map<string, number>();
-const playedCountByGroup = new Map<number, Map<string, number>>();
-
-for (const tm of teams) {
-  const g = clampInt(Number(tm.group_idx ?? 1), 1, groupCount);
-
-  playedCount.set(tm.id, 0);
-  lastTimeIndex.set(tm.id, -9999);
-
-  if (!playedCountByGroup.has(g)) playedCountByGroup.set(g, new Map());
-  playedCountByGroup.get(g)!.set(tm.id, 0);
-}
-
-for (let f = 1; f <= fieldCount; f++) fieldUsage.set(f, 0);
-
-const scheduled: Array<{
-  tournament_id: string;
-  home_team_id: string;
-  away_team_id: string;
-  field_idx: number;
-  start_time: string;
-}> = [];
-
-function minMaxGlobalAfter(a: string, b: string) {
-  const values = Array.from(playedCount.values());
-  const minV = values.length ? Math.min(...values) : 0;
-  let maxV = values.length ? Math.max(...values) : 0;
-
-  const ca = playedCount.get(a) ?? 0;
-  const cb = playedCount.get(b) ?? 0;
-
-  maxV = Math.max(maxV, ca + 1, cb + 1);
-  return { minV, maxV };
-}
-
-function minMaxGroupAfter(groupIdx: number, a: string, b: string) {
-  const m = playedCountByGroup.get(groupIdx);
-  if (!m) return { minV: 0, maxV: 0 };
-
-  const values = Array.from(m.values());
-  const minV = values.length ? Math.min(...values) : 0;
-  let maxV = values.length ? Math.max(...values) : 0;
-
-  const ca = m.get(a) ?? 0;
-  const cb = m.get(b) ?? 0;
-
-  maxV = Math.max(maxV, ca + 1, cb + 1);
-  return { minV, maxV };
-}
-
-function restOkStrict(teamId: string, timeIndex: number) {
-  const last = lastTimeIndex.get(teamId) ?? -9999;
-  return timeIndex - last >= 2;
-}
-
-let ptr = 0;
-
-for (const slot of allSlots) {
-  if (ptr >= sequence.length) break;
-
-  const timeKey = slot.start;
-  if (!busyAtTime.has(timeKey)) busyAtTime.set(timeKey, new Set());
-  const busySet = busyAtTime.get(timeKey)!;
-
-  const passes: Array<{ strictRest: boolean }> = [
-    { strictRest: true },
-    { strictRest: false },
-  ];
-
-  let chosenIndex = -1;
-
-  for (const pass of passes) {
-    let bestIndex = -1;
-    let bestScore = Number.POSITIVE_INFINITY;
-
-    const window = 180;
-    const endPtr = Math.min(sequence.length, ptr + window);
-
-    for (let i = ptr; i < endPtr; i++) {
-      const cand = sequence[i];
-      const a = cand.a;
-      const b = cand.b;
-      const g = clampInt(Number(cand.groupIdx ?? 1), 1, groupCount);
-
-      if (busySet.has(a) || busySet.has(b)) continue;
-
-      // Anti-enchaînement strict
-      if (pass.strictRest) {
-        if (!restOkStrict(a, slot.timeIndex) || !restOkStrict(b, slot.timeIndex)) continue;
-      }
-
-      // Équité globale stricte: max-min <= 1
-      const gg = minMaxGlobalAfter(a, b);
-      if (gg.maxV - gg.minV > 1) continue;
-
-      // Équité poule stricte: max-min <= 1
-      const mg = minMaxGroupAfter(g, a, b);
-      if (mg.maxV - mg.minV > 1) continue;
-
-      // Score heuristique
-      const usage = fieldUsage.get(slot.fieldIdx) ?? 0;
-      const fieldPenalty = usage * 2;
-
-      const orderPenalty = (i - ptr) * 1.2;
-
-      let relaxPenalty = 0;
-      if (!pass.strictRest) {
-        const la = lastTimeIndex.get(a) ?? -9999;
-        const lb = lastTimeIndex.get(b) ?? -9999;
-        const consA = slot.timeIndex - la < 2;
-        const consB = slot.timeIndex - lb < 2;
-        if (consA || consB) relaxPenalty = 80;
-      }
+    const result = generateKeepingLocked({
+      locked,
+      teams: schedulerTeams(teams),
+      groupCount,
+      slots,
+      knockout: bracket,
+      rules: scheduleRulesOf(t, teams),
+      slotMinutes,
+      matchMinutes,
+      durations,
+    });
+    if (!result.ok) return setStatus(result.error);
 
-      const ca = playedCount.get(a) ?? 0;
-      const cb = playedCount.get(b) ?? 0;
-      const lowPlayedBonus = (ca + cb) * 0.5;
+    const scheduled = result.matches.map((m) => ({ ...m, tournament_id: tournamentId }));
+    const { unplaced, restViolations, violations: softViolations } = result.diagnostics;
 
-      const score = fieldPenalty + orderPenalty + relaxPenalty + lowPlayedBonus;
+    // On supprime les matchs existants non verrouillés (après calcul: en cas d'échec on garde l'ancien planning)
+    const { error: delErr } = await deleteUnlockedMatches(tournamentId);
+    if (delErr) return setStatus("Erreur delete matches: " + delErr.message);
 
-      if (score < bestScore) {
-        bestScore = score;
-        bestIndex = i;
-      }
+    // Insert par chunk
+    const chunkSize = 200;
+    for (let i = 0; i < scheduled.length; i += chunkSize) {
+      const chunk = scheduled.slice(i, i + chunkSize);
+      const { error } = await insertMatches(chunk);
+      if (error) return setStatus("Erreur insert matches: " + error.message);
     }
 
-    if (bestIndex !== -1) {
-      chosenIndex = bestIndex;
-      break;
-    }
+    const knockoutPlaced = scheduled.filter((m) => m.phase === "knockout").length;
+    setStatus(
+      (knockoutPlaced > 0
+        ? `OK ✅ Matchs générés: ${scheduled.length} (dont ${knockoutPlaced} en phase finale).`
+        : `OK ✅ Matchs générés: ${scheduled.length}.`) +
+        (locked.length > 0 ? ` 🔒 ${locked.length} match(s) verrouillé(s) conservé(s).` : "") +
+        (unplaced.length > 0 ? ` ⚠️ ${unplaced.length} match(s) de poule non placé(s): ajoute des créneaux ou des terrains.` : "") +
+        (restViolations > 0 ? ` · ${restViolations} match(s) sans créneau de repos.` : "") +
+        (softViolations.length > 0 ? ` · ${softViolations.length} contrainte(s) non respectée(s) (voir ci-dessous).` : "")
+    );
+    await refreshMatches();
   }
 
-  if (chosenIndex === -1) continue;
-
-  [sequence[ptr], sequence[chosenIndex]] = [sequence[chosenIndex], sequence[ptr]];
-  const chosen = sequence[ptr];
-  const gChosen = clampInt(Number(chosen.groupIdx ?? 1), 1, groupCount);
-
-  scheduled.push({
-    tournament_id: tournamentId,
-    home_team_id: chosen.a,
-    away_team_id: chosen.b,
-    field_idx: slot.fieldIdx,
-    start_time: slot.start,
-  });
-
-  busySet.add(chosen.a);
-  busySet.add(chosen.b);
+  function previewReschedule() {
+    if (!t) return;
 
-  lastTimeIndex.set(chosen.a, slot.timeIndex);
-  lastTimeIndex.set(chosen.b, slot.timeIndex);
+    const now = new Date();
+    const from = replanFrom || minToTime(now.getHours() * 60 + now.getMinutes());
+    const fromDayIdx = replanFrom ? dayIdx : todayDayIdx(days, now);
+    setReplanFrom(from);
+    setEditMode(false);
+    setSelectedCell(null);
 
-  playedCount.set(chosen.a, (playedCount.get(chosen.a) ?? 0) + 1);
-  playedCount.set(chosen.b, (playedCount.get(chosen.b) ?? 0) + 1);
+    const result = rescheduleFrom({
+      matches,
+      teams: schedulerTeams(teams),
+      groupCount,
+      slots,
+      from,
+      fromDayIdx,
+      rules,
+      slotMinutes,
+      matchMinutes,
+      durations,
+    });
+    if (!result.ok) {
+      setReplan(null);
+      return setStatus(result.error);
+    }
 
-  const mapG = playedCountByGroup.get(gChosen);
-  if (mapG) {
-    mapG.set(chosen.a, (mapG.get(chosen.a) ?? 0) + 1);
-    mapG.set(chosen.b, (mapG.get(chosen.b) ?? 0) + 1);
+    setReplan(result);
+    setStatus(
+      `Replanification à partir de ${multiDay ? `${dayLabel(days[fromDayIdx - 1], fromDayIdx)} ` : ""}${from}: ${result.frozenCount} match(s) figé(s), ${result.replannedCount} à replacer, ${result.moves.length} déplacement(s).`
+    );
   }
 
-  fieldUsage.set(slot.fieldIdx, (fieldUsage.get(slot.fieldIdx) ?? 0) + 1);
+  async function applyReschedule() {
+    if (!replan) return;
+    if (replan.unplaced.length > 0) return setStatus("❌ Certains matchs n'ont pas de nouveau créneau: ajoute des créneaux ou des terrains.");
+    if (replan.moves.length === 0) {
+      setReplan(null);
+      return setStatus("Aucun changement.");
+    }
 
-  ptr++;
-}
+    setStatus(`Enregistrement... (${replan.moves.length} modifs)`);
 
-    // Insert par chunk
-    const chunkSize = 200;
-    for (let i = 0; i < scheduled.length; i += chunkSize) {
-      const chunk = scheduled.slice(i, i + chunkSize);
-      const { error } = await supabase.from("matches").insert(chunk);
-      if (error) return setStatus("Erreur insert matches: " + error.message);
+    const chunkSize = 50;
+    for (let i = 0; i < replan.moves.length; i += chunkSize) {
+      const chunk = replan.moves.slice(i, i + chunkSize);
+      const res = await Promise.all(chunk.map((mv) => updateMatch(mv.id, mv.to)));
+      const firstErr = res.find((r) => r.error)?.error;
+      if (firstErr) {
+        setStatus("Erreur enregistrement: " + firstErr.message);
+        await refreshMatches();
+        return;
+      }
     }
 
-    setStatus(`OK ✅ Matchs générés: ${scheduled.length}.`);
+    setReplan(null);
+    setStatus(`✅ Planning replanifié: ${replan.moves.length} match(s) déplacé(s).`);
     await refreshMatches();
   }
 
+  function positionLabel(p: { start_time: string; field_idx: number; day_idx: number }) {
+    return `${multiDay ? `J${p.day_idx} · ` : ""}${p.start_time} · ${fieldNames[p.field_idx - 1] ?? `Terrain ${p.field_idx}`}`;
+  }
+
   if (!t) {
     return (
       <main className="min-h-screen bg-slate-100 p-6">
@@ -775,8 +755,19 @@ for (const slot of allSlots) {
             <h1 className="text-2xl font-bold">Planning: {t.title}</h1>
 
             <p className="text-sm text-gray-500">
-              {t.tournament_date ? `Date: ${t.tournament_date} · ` : ""}
-              {normHHMM(t.start_time)} → {normHHMM(t.end_time)} · Slot = {slotMinutes} min · Terrains {t.num_fields}
+              {multiDay ? (
+                <>
+                  {days.length} jours ·{" "}
+                  {days.map((d, i) => `${dayLabel(d, i + 1)} ${d.start_time} → ${d.end_time} (${d.num_fields} terrains)`).join(" · ")} · Slot ={" "}
+                  {slotMinutes} min{variableDurations ? " (variable selon terrain / catégorie / poule)" : ""}
+                </>
+              ) : (
+                <>
+                  {t.tournament_date ? `Date: ${t.tournament_date} · ` : ""}
+                  {normHHMM(t.start_time)} → {normHHMM(t.end_time)} · Slot = {slotMinutes} min
+                  {variableDurations ? " (variable selon terrain / catégorie / poule)" : ""} · Terrains {t.num_fields}
+                </>
+              )}
             </p>
 
             <p className="text-sm text-gray-500">
@@ -790,6 +781,7 @@ for (const slot of allSlots) {
                   Matchs requis (RR): {neededMatches}
                 </>
               )}{" "}
+              {knockoutEnabled && <> · Phase finale: {knockoutCount} matchs ({knockoutQualifiers} qualifiés)</>}
               · Créneaux jouables: {totalPlayableSlots} · Matchs programmés: {matches.length}
             </p>
 
@@ -853,18 +845,53 @@ for (const slot of allSlots) {
               Liste
             </button>
 
+            {multiDay && (
+              <select
+                className="border rounded-lg px-2 py-2 bg-white text-sm"
+                value={dayIdx}
+                disabled={editMode}
+                onChange={(e) => {
+                  setDayIdx(Number(e.target.value));
+                  setSelectedCell(null);
+                }}
+                title="Jour affiché"
+              >
+                {days.map((d, i) => (
+                  <option key={i} value={i + 1}>
+                    {dayLabel(d, i + 1)}
+                  </option>
+                ))}
+              </select>
+            )}
+
             {viewMode === "grid" && (
               <>
                 {!editMode ? (
                   <button
                     onClick={enterEditMode}
                     className="bg-black text-white px-4 py-2 rounded-lg hover:bg-gray-900 transition"
-                    title="Permet d'échanger/déplacer des matchs dans la grille"
+                    title="Glisser-déposer des matchs dans la grille, verrouiller des matchs"
                   >
                     ✏️ Modifier manuellement
                   </button>
                 ) : (
                   <div className="flex gap-2 flex-wrap">
+                    <button
+                      onClick={undo}
+                      disabled={history.past.length === 0}
+                      className="bg-gray-200 px-3 py-2 rounded-lg hover:bg-gray-300 transition disabled:opacity-50"
+                      title="Annuler la dernière modification (Ctrl+Z)"
+                    >
+                      ↶
+                    </button>
+                    <button
+                      onClick={redo}
+                      disabled={history.future.length === 0}
+                      className="bg-gray-200 px-3 py-2 rounded-lg hover:bg-gray-300 transition disabled:opacity-50"
+                      title="Rétablir (Ctrl+Y)"
+                    >
+                      ↷
+                    </button>
                     <button
                       onClick={saveManualEdits}
                       className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition"
@@ -883,23 +910,142 @@ for (const slot of allSlots) {
             )}
           </div>
 
-          <button
-            onClick={generateMatches}
-            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition"
-          >
-            ⚙️ Générer les matchs
-          </button>
+          <div className="flex items-center gap-2 flex-wrap">
+            <input
+              type="time"
+              className="border rounded-lg px-2 py-2 text-sm"
+              value={replanFrom}
+              onChange={(e) => setReplanFrom(e.target.value)}
+              title="Heure à partir de laquelle replanifier, sur le jour affiché (vide = maintenant)"
+            />
+            <button
+              onClick={previewReschedule}
+              disabled={matches.length === 0}
+              className="bg-amber-500 text-white px-4 py-2 rounded-lg hover:bg-amber-600 transition disabled:opacity-50"
+              title="Garde les matchs commencés / validés / verrouillés et replace les autres sur les créneaux restants"
+            >
+              🔁 Replanifier
+            </button>
+
+            <button
+              onClick={generateMatches}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition"
+            >
+              ⚙️ Générer les matchs
+            </button>
+          </div>
         </div>
 
         {status && <div className="bg-white rounded-xl shadow p-4 text-gray-700">{status}</div>}
 
+        {replan && (
+          <div className="bg-white rounded-xl shadow p-6 space-y-3">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <h2 className="text-lg font-semibold">🔁 Replanification à partir de {replanFrom}</h2>
+              <div className="flex gap-2">
+                <button
+                  onClick={applyReschedule}
+                  disabled={replan.unplaced.length > 0}
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+                >
+                  ✅ Appliquer
+                </button>
+                <button
+                  onClick={() => {
+                    setReplan(null);
+                    setStatus("Annulé.");
+                  }}
+                  className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition"
+                >
+                  Annuler
+                </button>
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-500">
+              {replan.frozenCount} match(s) commencé(s) ou validé(s) conservé(s) · {replan.replannedCount} match(s) replacé(s) ·{" "}
+              {replan.moves.length} déplacement(s)
+            </p>
+
+            {replan.unplaced.length > 0 && (
+              <div className="text-sm text-red-700">
+                ❌ {replan.unplaced.length} match(s) sans nouveau créneau:{" "}
+                {replan.unplaced.map((m) => {
+                  const row = matches.find((x) => x.id === m.id);
+                  return row ? `${sideLabel(row, "home")} vs ${sideLabel(row, "away")}` : "Match";
+                }).join(" · ")}
+                . Ajoute des créneaux ou des terrains.
+              </div>
+            )}
+
+            {replan.moves.length === 0 ? (
+              <div className="text-gray-500 text-sm">Aucun match à déplacer.</div>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {replan.moves.map((mv) => {
+                  const row = matches.find((x) => x.id === mv.id);
+                  return (
+                    <li key={mv.id} className="border rounded-lg px-3 py-2 flex items-center justify-between gap-3 flex-wrap">
+                      <span className="font-semibold">
+                        {row?.phase === "knockout" && <span className="text-amber-700">🏆 {roundShortLabel(row.ko_round)} · </span>}
+                        {row ? `${matchCategoryLabel(row)}${sideLabel(row, "home")} vs ${sideLabel(row, "away")}` : "Match"}
+                      </span>
+                      <span className="text-gray-600">
+                        <span className="line-through text-gray-400">{positionLabel(mv.from)}</span> → <b>{positionLabel(mv.to)}</b>
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {violations.length > 0 && (
+          <div className="bg-white rounded-xl shadow p-6 space-y-3">
+            <h2 className="text-lg font-semibold">⚠️ Contraintes non respectées ({violations.length})</h2>
+
+            {Array.from(violationsByKind.entries()).map(([kind, list]) => (
+              <div key={kind}>
+                <div className="text-sm font-semibold text-gray-800">
+                  {VIOLATION_LABELS[kind]} ({list.length})
+                </div>
+                <ul className="text-sm text-gray-600 list-disc ml-5">
+                  {list.map((v, i) => {
+                    const [vDay, , fieldIdx] = v.matchKey.split("|");
+                    return (
+                      <li key={i}>
+                        {teamName(v.teamId)}
+                        {v.otherTeamId ? ` / ${teamName(v.otherTeamId)}` : ""} · {multiDay ? `J${vDay} · ` : ""}
+                        {matchKeyTime(v.matchKey)} ·{" "}
+                        {fieldNames[Number(fieldIdx) - 1] ?? `Terrain ${fieldIdx}`} · {v.detail}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
         {viewMode === "grid" && (
           <div className="bg-white rounded-xl shadow p-6 overflow-auto">
             {editMode && (
-              <div className="mb-4 text-sm text-gray-600">
-                ✅ Mode édition: clique une cellule (match) puis une autre cellule pour <strong>échanger</strong> ou <strong>déplacer</strong> le match.
-                <br />
-                Les cellules <strong>PAUSE</strong> sont bloquées.
+              <div className="mb-4 text-sm text-gray-600 space-y-1">
+                <div>
+                  ✅ Mode édition: <strong>glisse</strong> un match sur une autre cellule (ou clique une cellule puis une autre) pour{" "}
+                  <strong>échanger</strong> ou <strong>déplacer</strong> le match. ↶ / ↷ (Ctrl+Z / Ctrl+Y) pour annuler / rétablir.
+                </div>
+                <div>
+                  Pendant le glisser, la cellule survolée montre le résultat: vert = OK, orange = contrainte souple, rouge = impossible
+                  ou conflit. Les cellules <strong>PAUSE</strong> sont bloquées. 🔓 / 🔒: un match verrouillé ne bouge plus et est
+                  conservé si le planning est régénéré ou replanifié.
+                </div>
+                <div className="text-xs text-gray-500">
+                  {(["double_booking", "shared_players", "availability", "rest", "consecutive", "back_to_back", "field"] as CellIssue[])
+                    .map(issueLabel)
+                    .join(" · ")}
+                </div>
               </div>
             )}
 
@@ -910,9 +1056,12 @@ for (const slot of allSlots) {
                     <th className="sticky top-0 bg-white z-10 text-left p-3 border-b text-sm text-gray-600 w-28">
                       Heure
                     </th>
-                    {fieldNames.map((fname, idx) => (
+                    {dayFieldNames.map((fname, idx) => (
                       <th key={idx} className="sticky top-0 bg-white z-10 text-left p-3 border-b text-sm text-gray-600">
                         {fname}
+                        {fieldAttributesLabel(fieldSettings[idx]) && (
+                          <div className="text-xs font-normal text-gray-400">{fieldAttributesLabel(fieldSettings[idx])}</div>
+                        )}
                       </th>
                     ))}
                   </tr>
@@ -923,44 +1072,109 @@ for (const slot of allSlots) {
                     <tr key={hhmm} className="align-top">
                       <td className="p-3 border-b text-sm text-gray-700 font-semibold bg-slate-50">{hhmm}</td>
 
-                      {fieldNames.map((_, i) => {
+                      {dayFieldNames.map((_, i) => {
                         const fieldIdx = i + 1;
                         const key = `${hhmm}|${fieldIdx}`;
                         const match = matchMap.get(key);
                         const paused = isPaused(fieldIdx, hhmm);
                         const isSel = selectedCell === key;
 
+                        // pas de début de créneau ici: créneau précédent du terrain encore en cours
+                        if (!match && !isSlotStart(fieldIdx, hhmm)) {
+                          return <td key={key} className="p-2 border-b bg-slate-50" />;
+                        }
+
+                        // Éditeur: contraintes de la cellule (aperçu du dépôt pendant un glisser) + cible autorisée ou non
+                        const issues = editMode
+                          ? Array.from(cellIssues.get(placedMatchKey({ start_time: hhmm, field_idx: fieldIdx, day_idx: dayIdx })) ?? [])
+                          : [];
+                        const hardIssue = issues.some((k) => k !== "back_to_back" && HARD_VIOLATIONS.includes(k));
+                        const blocked = dragFrom && dragFrom !== key ? dropBlocker(matches, dragFrom, key) : null;
+                        const dropClass =
+                          dragFrom && dragOver === key
+                            ? blocked || hardIssue
+                              ? "ring-2 ring-inset ring-red-400"
+                              : issues.length > 0
+                                ? "ring-2 ring-inset ring-amber-400"
+                                : "ring-2 ring-inset ring-green-400"
+                            : blocked
+                              ? "opacity-50"
+                              : "";
+                        const dropProps = editMode
+                          ? { onDragOver: (e: React.DragEvent) => onDragOverCell(e, key), onDrop: (e: React.DragEvent) => onDropCell(e, key) }
+                          : {};
+                        const issuesRow = issues.length > 0 && (
+                          <div className="mt-1 text-sm" title={issues.map(issueLabel).join("\n")}>
+                            {issues.map((k) => ISSUE_ICONS[k]).join(" ")}
+                          </div>
+                        );
+
                         if (match) {
+                          const locked = match.schedule_locked;
                           return (
-                            <td key={key} className="p-2 border-b">
-                              <button
-                                type="button"
-                                onClick={() => onCellClick(hhmm, fieldIdx)}
-                                disabled={!editMode}
-                                className={`w-full text-left rounded-lg border p-3 transition ${
-                                  isSel
-                                    ? "bg-yellow-50 border-yellow-300 ring-2 ring-yellow-300"
-                                    : editMode
-                                      ? "bg-green-50 hover:bg-green-100 border-green-200"
-                                      : "bg-green-50 border-green-200"
-                                }`}
-                              >
-                                <div className="text-xs font-semibold mb-1 text-gray-600">
-                                  {editMode ? "CLIQUE POUR DÉPLACER / ÉCHANGER" : "MATCH"}
+                            <td key={key} className={`p-2 border-b ${dropClass}`} {...dropProps}>
+                              <div className="relative">
+                                <div
+                                  role="button"
+                                  tabIndex={editMode ? 0 : -1}
+                                  draggable={editMode && !locked}
+                                  onDragStart={(e) => onDragStart(e, key)}
+                                  onDragEnd={onDragEnd}
+                                  onClick={() => onCellClick(hhmm, fieldIdx)}
+                                  onKeyDown={(e) => e.key === "Enter" && onCellClick(hhmm, fieldIdx)}
+                                  className={`w-full text-left rounded-lg border p-3 transition ${
+                                    isSel || dragFrom === key
+                                      ? "bg-yellow-50 border-yellow-300 ring-2 ring-yellow-300"
+                                      : hardIssue
+                                        ? "bg-red-50 border-red-300"
+                                        : issues.length > 0
+                                          ? "bg-amber-50 border-amber-300"
+                                          : locked
+                                            ? "bg-slate-100 border-slate-300"
+                                            : editMode
+                                              ? "bg-green-50 hover:bg-green-100 border-green-200 cursor-grab"
+                                              : "bg-green-50 border-green-200"
+                                  }`}
+                                >
+                                  <div className="text-xs font-semibold mb-1 text-gray-600 pr-8">
+                                    {locked && "🔒 "}
+                                    {editMode
+                                      ? locked
+                                        ? "VERROUILLÉ"
+                                        : "GLISSE OU CLIQUE POUR DÉPLACER"
+                                      : match.phase === "knockout"
+                                        ? `🏆 ${matchCategoryLabel(match)}${roundShortLabel(match.ko_round)}`
+                                        : categoryOf(categories, match).name || "MATCH"}
+                                  </div>
+                                  <div className="font-semibold text-gray-900">{sideLabel(match, "home")}</div>
+                                  <div className="text-sm text-gray-700">vs</div>
+                                  <div className="font-semibold text-gray-900">{sideLabel(match, "away")}</div>
+                                  {variableDurations && match.duration_min && (
+                                    <div className="text-xs text-gray-500 mt-1">⏱️ {match.duration_min} min</div>
+                                  )}
+                                  {issuesRow}
                                 </div>
-                                <div className="font-semibold text-gray-900">{match.home?.name ?? "Équipe A"}</div>
-                                <div className="text-sm text-gray-700">vs</div>
-                                <div className="font-semibold text-gray-900">{match.away?.name ?? "Équipe B"}</div>
-                              </button>
+
+                                {editMode && (
+                                  <button
+                                    type="button"
+                                    onClick={() => toggleLock(match.id)}
+                                    className="absolute top-1 right-1 text-xs px-1.5 py-0.5 rounded bg-white border hover:bg-gray-100"
+                                    title={locked ? "Déverrouiller" : "Verrouiller: gardé tel quel si le planning est régénéré ou replanifié"}
+                                  >
+                                    {locked ? "🔒" : "🔓"}
+                                  </button>
+                                )}
+                              </div>
                             </td>
                           );
                         }
 
                         if (paused) {
                           return (
-                            <td key={key} className="p-2 border-b">
+                            <td key={key} className={`p-2 border-b ${dropClass}`} {...dropProps}>
                               <div className="rounded-lg border bg-red-50 p-3">
-                                <div className="text-xs text-red-700 font-semibold">PAUSE</div>
+                                <div className="text-xs text-red-700 font-semibold">{dragFrom ? "⛔ PAUSE" : "PAUSE"}</div>
                                 <div className="text-sm text-red-800">Terrain indisponible</div>
                               </div>
                             </td>
@@ -968,7 +1182,7 @@ for (const slot of allSlots) {
                         }
 
                         return (
-                          <td key={key} className="p-2 border-b">
+                          <td key={key} className={`p-2 border-b ${dropClass}`} {...dropProps}>
                             <button
                               type="button"
                               onClick={() => onCellClick(hhmm, fieldIdx)}
@@ -976,13 +1190,22 @@ for (const slot of allSlots) {
                               className={`w-full rounded-lg border p-3 text-sm transition ${
                                 isSel
                                   ? "bg-yellow-50 border-yellow-300 ring-2 ring-yellow-300"
-                                  : editMode
-                                    ? "bg-gray-50 hover:bg-gray-100"
-                                    : "bg-gray-50"
+                                  : hardIssue
+                                    ? "bg-red-50 border-red-300"
+                                    : issues.length > 0
+                                      ? "bg-amber-50 border-amber-300"
+                                      : editMode
+                                        ? "bg-gray-50 hover:bg-gray-100"
+                                        : "bg-gray-50"
                               }`}
                             >
                               <div className="text-gray-400">—</div>
-                              {editMode && <div className="text-xs text-gray-500 mt-1">Clique pour déplacer ici</div>}
+                              {editMode && (
+                                <div className="text-xs text-gray-500 mt-1">
+                                  {dragFrom && dragOver === key && blocked ? `⛔ ${blocked}` : "Glisse ou clique pour déplacer ici"}
+                                </div>
+                              )}
+                              {issuesRow}
                             </button>
                           </td>
                         );
@@ -1006,11 +1229,15 @@ for (const slot of allSlots) {
                 {matches.map((m) => (
                   <div key={m.id} className="border rounded-lg p-3 flex items-center justify-between gap-3">
                     <div className="text-sm text-gray-600">
+                      {multiDay && <>{dayLabel(days[matchDayIdx(m, days.length) - 1], matchDayIdx(m, days.length))} · </>}
                       <strong>{normHHMM(m.start_time)}</strong> ·{" "}
                       {fieldNames[(m.field_idx ?? 1) - 1] ?? `Terrain ${m.field_idx}`}
                     </div>
                     <div className="font-semibold">
-                      {(m.home?.name ?? "Équipe A")} vs {(m.away?.name ?? "Équipe B")}
+                      {m.schedule_locked && <span title="Verrouillé dans le planning">🔒 </span>}
+                      {m.phase === "knockout" && <span className="text-amber-700">🏆 {roundShortLabel(m.ko_round)} · </span>}
+                      {matchCategoryLabel(m)}
+                      {sideLabel(m, "home")} vs {sideLabel(m, "away")}
                     </div>
                   </div>
                 ))}
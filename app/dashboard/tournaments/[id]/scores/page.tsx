@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { supabase } from "../../../../../lib/supabaseClient";
+import { getMyRole, getTournament, listMatchEvents, listMatches, type MatchWithTeams } from "../../../../../lib/repository";
+import type { Tournament } from "../../../../../lib/domain/models";
+import { ADMIN_ONLY_MESSAGE, canManage, normalizeRole } from "../../../../../lib/domain/roles";
+import {
+  GOAL_EVENT_TYPES,
+  SCORE_ISSUE_LABELS,
+  SCORE_MODE_LABELS,
+  scoreConsistencyReport,
+  scoreModeOf,
+  type ScoreIssue,
+} from "../../../../../lib/domain/scoring";
+import { timeHHMM } from "../../../../../lib/domain/time";
+
+type MatchRow = MatchWithTeams;
+
+export default function ScoresCheckPage() {
+  const router = useRouter();
+  const params = useParams();
+  const tournamentId = String(params.id);
+
+  const [status, setStatus] = useState("Chargement...");
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [matches, setMatches] = useState<MatchRow[]>([]);
+  const [issues, setIssues] = useState<ScoreIssue[]>([]);
+
+  // "Aucun buteur" = souvent un choix (buteurs non saisis), masqué par défaut
+  const [showNoEvents, setShowNoEvents] = useState(false);
+
+  async function refresh() {
+    setStatus("Chargement...");
+
+    const { data: mData, error: mErr } = await listMatches(tournamentId);
+    if (mErr) return setStatus("Erreur matchs: " + mErr.message);
+
+    const { data: eData, error: eErr } = await listMatchEvents({ tournamentId, types: GOAL_EVENT_TYPES });
+    if (eErr) return setStatus("Erreur buts: " + eErr.message);
+
+    const arr = mData ?? [];
+    setMatches(arr);
+    setIssues(scoreConsistencyReport(arr, eData ?? []));
+    setStatus("");
+  }
+
+  useEffect(() => {
+    async function load() {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) return router.push("/login");
+
+      const { data: myRole } = await getMyRole(tournamentId);
+      if (!canManage(normalizeRole(myRole))) return setStatus(ADMIN_ONLY_MESSAGE);
+
+      const { data: tData, error: tErr } = await getTournament(tournamentId);
+      if (tErr) return setStatus("Erreur tournoi: " + tErr.message);
+      setTournament(tData);
+
+      await refresh();
+    }
+
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, tournamentId]);
+
+  const matchById = useMemo(() => new Map(matches.map((m) => [m.id, m])), [matches]);
+
+  const visible = useMemo(
+    () => issues.filter((i) => showNoEvents || i.kind !== "no_events"),
+    [issues, showNoEvents]
+  );
+  const hiddenCount = issues.length - visible.length;
+
+  return (
+    <main className="min-h-screen bg-slate-100 p-6">
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="bg-white rounded-xl shadow p-6 flex items-start justify-between gap-3 flex-wrap">
+          <div>
+            <h1 className="text-2xl font-bold">🧮 Contrôle des scores</h1>
+            <p className="text-sm text-gray-500">
+              {tournament?.title ?? "Tournoi"} · matchs dont le score ne correspond pas aux buts saisis (⚽ et 🥅 CSC).
+            </p>
+            {tournament && <p className="text-xs text-gray-400 mt-1">Score: {SCORE_MODE_LABELS[scoreModeOf(tournament)]}</p>}
+          </div>
+
+          <div className="flex items-center gap-2 flex-wrap">
+            <button
+              onClick={() => router.push(`/dashboard/tournaments/${tournamentId}/matches`)}
+              className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition"
+            >
+              ← Matchs
+            </button>
+            <button onClick={() => refresh()} className="bg-gray-200 px-4 py-2 rounded-lg hover:bg-gray-300 transition" title="Rafraîchir">
+              🔄
+            </button>
+          </div>
+        </div>
+
+        {status && <div className="bg-white rounded-xl shadow p-4 text-gray-700">{status}</div>}
+
+        {!status && (
+          <div className="bg-white rounded-xl shadow p-6 space-y-3">
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={showNoEvents} onChange={(e) => setShowNoEvents(e.target.checked)} />
+              Afficher aussi les matchs sans buteur saisi
+              {hiddenCount > 0 && <span className="text-gray-400">({hiddenCount} masqué{hiddenCount > 1 ? "s" : ""})</span>}
+            </label>
+
+            {visible.length === 0 ? (
+              <p className="text-green-700 font-semibold">✅ Aucun écart: les scores correspondent aux buts saisis.</p>
+            ) : (
+              <div className="space-y-2">
+                {visible.map((i) => {
+                  const m = matchById.get(i.matchId);
+                  if (!m) return null;
+                  return (
+                    <div key={i.matchId} className="border rounded-lg p-3 flex items-center justify-between gap-3 flex-wrap">
+                      <div className="min-w-0">
+                        <div className="text-xs text-gray-500">
+                          ⏱️ {timeHHMM(m.start_time)} · 🟩 {m.field_idx}
+                          {(m.status ?? "").toLowerCase() === "played" ? " · ✅ Validé" : ""}
+                        </div>
+                        <div className="font-semibold truncate">
+                          {m.home?.name ?? "À déterminer"} <span className="text-gray-400">vs</span> {m.away?.name ?? "À déterminer"}
+                        </div>
+                        <div className="text-sm">
+                          Score saisi: <b>{i.score ? `${i.score.home} - ${i.score.away}` : "—"}</b> · Buts saisis:{" "}
+                          <b>
+                            {i.fromEvents.home} - {i.fromEvents.away}
+                          </b>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        <span
+                          className={`text-[11px] font-bold px-2 py-[2px] rounded ${
+                            i.kind === "no_events" ? "bg-gray-100 text-gray-600" : "bg-amber-100 text-amber-800"
+                          }`}
+                        >
+                          ⚠️ {SCORE_ISSUE_LABELS[i.kind]}
+                        </span>
+                        <button
+                          onClick={() => router.push(`/dashboard/tournaments/${tournamentId}/matches/${m.id}`)}
+                          className="bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition text-sm"
+                          title="Corriger les buts sur la feuille de match"
+                        >
+                          🔎
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -3,36 +3,27 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useParams } from "next/navigation";
 import { supabase } from "../../../../../lib/supabaseClient";
-
-type TournamentRow = {
-  id: string;
-  title: string | null;
-  match_duration_min: number | null;
-  rotation_duration_min: number | null;
-  num_fields: number | null;
-  field_names: string[] | null;
-
-  // ✅ Poules
-  format: string | null; // "round_robin" | "groups_round_robin"
-  group_count: number | null; // 1..8
-  group_names: string[] | null;
-};
-
-type MatchRow = {
-  id: string;
-  start_time: string;
-  field_idx: number;
-  status: string; // scheduled | played
-  home_score: number | null;
-  away_score: number | null;
-
-  home_team_id?: string;
-  away_team_id?: string;
-
-  // ✅ join teams => group_idx
-  home: { name: string | null; group_idx: number | null } | null;
-  away: { name: string | null; group_idx: number | null } | null;
-};
+import {
+  getTournament,
+  listMatchEvents,
+  listMatches,
+  type MatchEventWithPeople,
+  type MatchWithTeams,
+} from "../../../../../lib/repository";
+import type { Tournament } from "../../../../../lib/domain/models";
+import { roundLabel, sourceLabel } from "../../../../../lib/domain/knockout";
+import { parseMsLoose, timeHHMM } from "../../../../../lib/domain/time";
+import { groupNamesOf, isGroupFormat, isLiveToday, knockoutGroupNamesOf, matchSlotMs, teamGroupIdx } from "../../../../../lib/domain/tournament";
+import { categoriesOf, categoryOf, categoryPrefix } from "../../../../../lib/domain/categories";
+import { clockLabel, halfMinutesOf, normalizeMatchStatus } from "../../../../../lib/domain/matchClock";
+import { eventIcon, eventSuffix, isScorerEvent } from "../../../../../lib/domain/events";
+import { DISPUTE_BADGE, isDisputed } from "../../../../../lib/domain/disputes";
+import { dayLabel, daysOf, matchDayIdx, todayDayIdx } from "../../../../../lib/domain/days";
+
+type TournamentRow = Tournament;
+
+// ✅ join teams => group_idx
+type MatchRow = MatchWithTeams;
 
 type StatRow = {
   player_id: string;
@@ -41,37 +32,6 @@ type StatRow = {
   team: { name: string | null } | null;
 };
 
-function timeHHMM(v: string | null) {
-  if (!v) return "--:--";
-  const m = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(v.trim());
-  if (m) {
-    const hh = String(Math.min(23, Math.max(0, Number(m[1])))).padStart(2, "0");
-    const mm = String(Math.min(59, Math.max(0, Number(m[2])))).padStart(2, "0");
-    return `${hh}:${mm}`;
-  }
-  const ms = Date.parse(v);
-  if (!Number.isNaN(ms)) {
-    return new Date(ms).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" });
-  }
-  return "--:--";
-}
-
-function parseMsLoose(v: string | null) {
-  if (!v) return NaN;
-  const ms = Date.parse(v);
-  if (!Number.isNaN(ms)) return ms;
-
-  const m = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(v.trim());
-  if (m) {
-    const hh = Math.min(23, Math.max(0, Number(m[1])));
-    const mm = Math.min(59, Math.max(0, Number(m[2])));
-    const d = new Date();
-    d.setHours(hh, mm, 0, 0);
-    return d.getTime();
-  }
-  return NaN;
-}
-
 function playerLabel(p: StatRow["player"]) {
   const fn = (p?.first_name ?? "").trim();
   const ln = (p?.last_name ?? "").trim();
@@ -92,21 +52,6 @@ function oneLineName(raw: string, maxChars = 22) {
   return s.slice(0, cut).replace(/\s+$/g, "") + "…";
 }
 
-function isLive(m: MatchRow, slotMs: number) {
-  if ((m.status ?? "").toLowerCase() === "played") return false;
-  const st = parseMsLoose(m.start_time);
-  if (Number.isNaN(st)) return false;
-  if (slotMs <= 0) return false;
-  const et = st + slotMs;
-  const now = Date.now();
-  return st <= now && now < et;
-}
-
-function clampInt(n: number, min: number, max: number) {
-  if (!Number.isFinite(n)) return min;
-  return Math.max(min, Math.min(max, Math.floor(n)));
-}
-
 export default function ScreenPage() {
   const params = useParams();
   const tournamentId = String(params.id);
@@ -115,23 +60,29 @@ export default function ScreenPage() {
   const [tournament, setTournament] = useState<TournamentRow | null>(null);
   const [matches, setMatches] = useState<MatchRow[]>([]);
   const [topScorers, setTopScorers] = useState<StatRow[]>([]);
+  const [events, setEvents] = useState<MatchEventWithPeople[]>([]);
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [now, setNow] = useState(0);
 
   const refreshTimerRef = useRef<number | null>(null);
 
-  const slotMs = useMemo(() => {
-    const md = Number(tournament?.match_duration_min ?? 0);
-    const rd = Number(tournament?.rotation_duration_min ?? 0);
-    return Math.max(0, md + rd) * 60_000;
-  }, [tournament]);
+
+  // ✅ Tournoi sur plusieurs jours: l'écran affiche le jour du jour (ou celui choisi)
+  const days = useMemo(() => daysOf(tournament), [tournament]);
+  const [pickedDay, setPickedDay] = useState<number | null>(null);
+  const dayIdx = Math.min(pickedDay ?? todayDayIdx(days), days.length);
+  const dayMatches = useMemo(
+    () => (days.length > 1 ? matches.filter((m) => matchDayIdx(m, days.length) === dayIdx) : matches),
+    [matches, days, dayIdx]
+  );
 
   const numFields = useMemo(() => {
-    const n = Number(tournament?.num_fields ?? 0);
+    const n = Number(days[dayIdx - 1]?.num_fields ?? tournament?.num_fields ?? 0);
     if (n > 0) return n;
     let max = 0;
-    for (const m of matches) max = Math.max(max, Number(m.field_idx ?? 0));
+    for (const m of dayMatches) max = Math.max(max, Number(m.field_idx ?? 0));
     return Math.max(1, max);
-  }, [tournament, matches]);
+  }, [tournament, days, dayIdx, dayMatches]);
 
   // ✅ UI compact selon nb terrains (objectif: 5 terrains sans scroll horizontal)
   const ui = useMemo(() => {
@@ -203,44 +154,46 @@ export default function ScreenPage() {
 
   const fieldNameOnly = useMemo(() => {
     const names = (tournament?.field_names ?? []).map((x) => String(x ?? "").trim());
-    return (fieldIdx: number) => {
+    return (fieldIdx: number | null) => {
       const idx = Math.max(1, Number(fieldIdx || 1));
       const custom = names[idx - 1] ?? "";
       return custom || String(idx);
     };
   }, [tournament]);
 
-  const showGroups = useMemo(() => (tournament?.format ?? "") === "groups_round_robin", [tournament]);
+  const categories = useMemo(() => categoriesOf(tournament), [tournament]);
 
-  const groupNames = useMemo(() => {
-    const raw = Array.isArray(tournament?.group_names) ? (tournament?.group_names as any[]) : [];
-    const n = clampInt(Number(tournament?.group_count ?? 1), 1, 8);
-    const out: string[] = [];
-    for (let i = 1; i <= n; i++) {
-      const s = String(raw[i - 1] ?? "").trim();
-      out.push(s || `Poule ${i}`);
-    }
-    return out;
-  }, [tournament]);
+  // Phase finale: équipe pas encore connue => libellé de la source ("1er Poule 1", "Vainqueur DF 2")
+  function sideLabel(m: MatchRow, side: "home" | "away") {
+    const t = side === "home" ? m.home : m.away;
+    if (t || m.phase !== "knockout") return teamLabel(t);
+    return sourceLabel(side === "home" ? m.home_source : m.away_source, knockoutGroupNamesOf(categoryOf(categories, m)));
+  }
 
+  // "U11 · Poule A" / "U11 · Finale" (vide en round robin sans catégorie)
   function groupLabelFromMatch(m: MatchRow) {
-    if (!showGroups) return "";
-    const g = Number(m.home?.group_idx ?? m.away?.group_idx ?? 1);
-    const idx = clampInt(g, 1, Math.max(1, groupNames.length || 1));
-    return groupNames[idx - 1] ?? `Poule ${idx}`;
+    const category = categoryOf(categories, m);
+    if (m.phase === "knockout") return categoryPrefix(category) + roundLabel(m.ko_round);
+    if (!isGroupFormat(category)) return category.name;
+    const groupNames = groupNamesOf(category);
+    const idx = teamGroupIdx({ group_idx: m.home?.group_idx ?? m.away?.group_idx }, groupNames.length);
+    return categoryPrefix(category) + (groupNames[idx - 1] ?? `Poule ${idx}`);
   }
 
   function statusLabel(m: MatchRow) {
     const played = (m.status ?? "").toLowerCase() === "played";
-    const live = isLive(m, slotMs);
-    if (live) return "🔴 En cours";
+    const live = isLiveToday(m, matchSlotMs(tournament, m), days);
+    const clock = clockLabel(m, halfMinutesOf(tournament, m), now || undefined);
+    if (live) return clock ? `🔴 ${clock}` : "🔴 En cours";
+    if (isDisputed(m)) return DISPUTE_BADGE;
     if (played) return "✅ Validé";
+    if (normalizeMatchStatus(m.status) === "finished") return "🏁 Terminé";
     return "⏳ À venir";
   }
 
   const times = useMemo(() => {
     const map = new Map<string, number>();
-    for (const m of matches) {
+    for (const m of dayMatches) {
       const t = timeHHMM(m.start_time);
       const ms = parseMsLoose(m.start_time);
       const val = Number.isNaN(ms) ? Number.MAX_SAFE_INTEGER : ms;
@@ -250,23 +203,35 @@ export default function ScreenPage() {
     return Array.from(map.entries())
       .sort((a, b) => a[1] - b[1])
       .map(([k]) => k);
-  }, [matches]);
+  }, [dayMatches]);
 
   const matchByCell = useMemo(() => {
     const map = new Map<string, MatchRow>();
-    for (const m of matches) {
+    for (const m of dayMatches) {
       const t = timeHHMM(m.start_time);
       const f = Number(m.field_idx);
       map.set(`${t}__${f}`, m);
     }
     return map;
-  }, [matches]);
+  }, [dayMatches]);
 
   const liveMatches = useMemo(() => {
-    return matches
-      .filter((m) => isLive(m, slotMs))
+    return dayMatches
+      .filter((m) => isLiveToday(m, matchSlotMs(tournament, m), days))
       .sort((a, b) => (a.field_idx ?? 0) - (b.field_idx ?? 0));
-  }, [matches, slotMs]);
+  }, [dayMatches, tournament, days]);
+
+  // 4 derniers faits de jeu par match (ordre de saisie)
+  const lastEventsByMatch = useMemo(() => {
+    const map = new Map<string, MatchEventWithPeople[]>();
+    for (const e of events) {
+      const arr = map.get(e.match_id) ?? [];
+      arr.push(e);
+      map.set(e.match_id, arr);
+    }
+    for (const [k, arr] of map) map.set(k, arr.slice(-4).reverse());
+    return map;
+  }, [events]);
 
   const { doneTimes, upcomingTimes } = useMemo(() => {
     const byTime = new Map<string, { allPlayed: boolean; idx: number }>();
@@ -274,7 +239,7 @@ export default function ScreenPage() {
 
     for (const t of times) byTime.set(t, { allPlayed: true, idx: idx.get(t) ?? 0 });
 
-    for (const m of matches) {
+    for (const m of dayMatches) {
       const t = timeHHMM(m.start_time);
       if (!byTime.has(t)) byTime.set(t, { allPlayed: true, idx: idx.get(t) ?? 0 });
       const s = byTime.get(t)!;
@@ -294,59 +259,48 @@ export default function ScreenPage() {
     up.sort(sortBy);
 
     return { doneTimes: done, upcomingTimes: up };
-  }, [matches, times]);
+  }, [dayMatches, times]);
 
   async function loadTournament() {
-    const { data, error } = await supabase
-      .from("tournaments")
-      .select("id,title,match_duration_min,rotation_duration_min,num_fields,field_names,format,group_count,group_names")
-      .eq("id", tournamentId)
-      .single();
+    const { data, error } = await getTournament(tournamentId);
 
     if (error) {
       setStatus("Erreur tournoi: " + error.message);
       return null;
     }
-    setTournament((data ?? null) as any);
-    return data as any as TournamentRow;
+    setTournament(data);
+    return data;
   }
 
   async function loadMatches() {
-    const { data, error } = await supabase
-      .from("matches")
-      .select(
-        "id,start_time,field_idx,status,home_score,away_score,home_team_id,away_team_id,home:home_team_id(name,group_idx),away:away_team_id(name,group_idx)"
-      )
-      .eq("tournament_id", tournamentId)
-      .order("start_time", { ascending: true })
-      .order("field_idx", { ascending: true });
+    const { data, error } = await listMatches(tournamentId);
 
     if (error) {
       setStatus("Erreur matches: " + error.message);
       return null;
     }
-    setMatches((data ?? []) as any);
-    return (data ?? []) as any as MatchRow[];
+    setMatches(data ?? []);
+    return data ?? [];
   }
 
-  async function loadTopScorers() {
-    const { data: eData, error: eErr } = await supabase
-      .from("match_events")
-      .select(
-        "id,player_id,match_id,type,match:match_id(status),player:player_id(first_name,last_name),team:team_id(name)"
-      )
-      .eq("tournament_id", tournamentId)
-      .eq("type", "goal");
+  // Événements (hors MVP): derniers faits de jeu des matchs en cours + top buteurs
+  async function loadEvents(played: MatchRow[]) {
+    const { data: eData, error: eErr } = await listMatchEvents({ tournamentId });
 
     if (eErr) {
+      setEvents([]);
       setTopScorers([]);
       return;
     }
 
-    const goals = (eData ?? []).filter((r: any) => (r?.match?.status ?? "").toLowerCase() === "played");
+    const all = (eData ?? []).filter((r) => r.event_type !== "mvp");
+    setEvents(all);
+
+    const playedIds = new Set(played.filter((m) => (m.status ?? "").toLowerCase() === "played").map((m) => m.id));
+    const goals = all.filter((r) => playedIds.has(r.match_id) && isScorerEvent(r.event_type));
     const byPlayer = new Map<string, StatRow>();
 
-    for (const r of goals as any[]) {
+    for (const r of goals) {
       const pid = String(r.player_id ?? "");
       if (!pid) continue;
       const cur = byPlayer.get(pid);
@@ -372,8 +326,8 @@ export default function ScreenPage() {
   async function loadAll() {
     setStatus("Chargement...");
     await loadTournament();
-    await loadMatches();
-    await loadTopScorers();
+    const all = await loadMatches();
+    await loadEvents(all ?? []);
     setStatus("");
   }
 
@@ -387,6 +341,12 @@ export default function ScreenPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tournamentId]);
 
+  // ✅ Chrono des matchs en cours (minute de jeu)
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 5_000);
+    return () => clearInterval(id);
+  }, []);
+
   useEffect(() => {
     if (!autoRefresh) return;
     const id = setInterval(() => loadMatches(), 10_000);
@@ -438,17 +398,19 @@ export default function ScreenPage() {
 
   function Cell({ m }: { m: MatchRow }) {
     const played = (m.status ?? "").toLowerCase() === "played";
-    const live = isLive(m, slotMs);
+    const live = isLiveToday(m, matchSlotMs(tournament, m), days);
 
     // ✅ contrastes + lisibilité
-    const skin = played
+    const skin = isDisputed(m)
+      ? "bg-orange-50 border-orange-400 text-slate-900"
+      : played
       ? "bg-green-50 border-green-300 text-slate-900"
       : live
       ? "bg-red-50 border-red-300 text-slate-900"
       : "bg-white border-slate-200 text-slate-900";
 
-    const homeName = oneLineName(teamLabel(m.home), ui.nameMax);
-    const awayName = oneLineName(teamLabel(m.away), ui.nameMax);
+    const homeName = oneLineName(sideLabel(m, "home"), ui.nameMax);
+    const awayName = oneLineName(sideLabel(m, "away"), ui.nameMax);
 
     const gLabel = groupLabelFromMatch(m);
     const sLabel = statusLabel(m);
@@ -477,7 +439,7 @@ export default function ScreenPage() {
         {/* Footer : poule bas gauche / statut bas droite */}
         <div className="flex items-end justify-between gap-2">
           <div className={`font-extrabold text-slate-600 ${ui.footerText} truncate`}>
-            {showGroups ? `📍 ${gLabel}` : ""}
+            {m.phase === "knockout" ? `🏆 ${gLabel}` : gLabel ? `📍 ${gLabel}` : ""}
           </div>
           <div className={`font-extrabold ${ui.footerText} whitespace-nowrap text-slate-700`}>{sLabel}</div>
         </div>
@@ -505,18 +467,28 @@ export default function ScreenPage() {
             <div key={m.id} className="bg-black/20 border border-white/10 rounded-2xl p-3">
               <div className="text-xs text-slate-300 flex items-center justify-between">
                 <span>⏱️ {timeHHMM(m.start_time)}</span>
+                {m.kickoff_at && (
+                  <span className="font-extrabold text-red-300 tabular-nums">{clockLabel(m, halfMinutesOf(tournament, m), now || undefined)}</span>
+                )}
                 <span>🏟️ {fieldNameOnly(m.field_idx)}</span>
               </div>
               <div className="mt-1 font-extrabold">
-                {teamLabel(m.home)}{" "}
+                {sideLabel(m, "home")}{" "}
                 <span className="text-slate-400 mx-2">
                   {m.home_score ?? "–"} - {m.away_score ?? "–"}
                 </span>{" "}
-                {teamLabel(m.away)}
+                {sideLabel(m, "away")}
               </div>
-              {showGroups && (
+              {groupLabelFromMatch(m) && (
                 <div className="mt-1 text-xs text-slate-400 font-semibold truncate">📍 {groupLabelFromMatch(m)}</div>
               )}
+              {(lastEventsByMatch.get(m.id) ?? []).map((e) => (
+                <div key={e.id} className="mt-1 text-xs text-slate-200 truncate">
+                  {e.minute != null ? `${e.minute}' ` : ""}
+                  {eventIcon(e.event_type)} {e.player ? playerLabel(e.player) : "Staff"}
+                  {eventSuffix(e.event_type)}
+                </div>
+              ))}
             </div>
           ))}
         </div>
@@ -603,6 +575,21 @@ export default function ScreenPage() {
               🔄 Rafraîchir
             </button>
 
+            {days.length > 1 && (
+              <select
+                value={dayIdx}
+                onChange={(e) => setPickedDay(Number(e.target.value))}
+                className="text-[11px] bg-white/10 hover:bg-white/20 transition px-3 py-2 rounded-xl font-semibold"
+                title="Jour affiché"
+              >
+                {days.map((d, i) => (
+                  <option key={i} value={i + 1} className="text-black">
+                    {dayLabel(d, i + 1)}
+                  </option>
+                ))}
+              </select>
+            )}
+
             <button
               onClick={() => setAutoRefresh((v) => !v)}
               className="text-[11px] bg-white/10 hover:bg-white/20 transition px-3 py-2 rounded-xl font-semibold"
@@ -3,6 +3,35 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { getMyRole, getTournament, updateTournament } from "@/lib/repository";
+import { ADMIN_ONLY_MESSAGE, canManage, normalizeRole } from "@/lib/domain/roles";
+import type { TablesUpdate } from "@/lib/database.types";
+import type { Tournament } from "@/lib/domain/models";
+import {
+  ALL_TIEBREAKERS,
+  DEFAULT_POINTS,
+  normalizeTiebreakers,
+  TIEBREAKERS,
+  type Tiebreaker,
+} from "@/lib/domain/standings";
+import { DEFAULT_FAIR_PLAY_POINTS, normalizeFairPlayPoints, type FairPlayPoints } from "@/lib/domain/fairPlay";
+import { isTime } from "@/lib/domain/time";
+import { clean, toInt } from "@/lib/domain/utils";
+import { DEFAULT_SUSPENSION_RULES, normalizeSuspensionRules, type SuspensionRules } from "@/lib/domain/suspensions";
+import { isValidSlug, publicPath, slugify } from "@/lib/domain/publicPage";
+import { normalizeScoreMode, SCORE_MODE_LABELS, type ScoreMode } from "@/lib/domain/scoring";
+import { daysOf, extraDaysJson, MAX_DAYS } from "@/lib/domain/days";
+import { pauseModelOf } from "@/lib/domain/scheduler";
+import {
+  FIELD_SIZE_LABELS,
+  FIELD_SIZES,
+  FIELD_SURFACE_LABELS,
+  FIELD_SURFACES,
+  fieldSettingsJson,
+  fieldSettingsOf,
+  type FieldSettings,
+} from "@/lib/domain/fields";
+import { categoriesJson, categoriesOf, hasCategories, MAX_CATEGORIES, nextCategoryId, type Category } from "@/lib/domain/categories";
 
 type Pause = { from: string; to: string };
 
@@ -10,42 +39,7 @@ type TournamentPause =
   | { type: "tournament"; from: string; to: string }
   | { type: "tournament_except"; from: string; to: string; exceptFields: number[] };
 
-type TournamentRow = {
-  id: string;
-  title: string | null;
-
-  tournament_date: string | null; // YYYY-MM-DD
-  min_teams: number | null;
-  max_teams: number | null;
-
-  start_time: string | null; // HH:MM
-  end_time: string | null; // HH:MM
-
-  match_duration_min: number | null;
-  rotation_duration_min: number | null;
-
-  num_fields: number | null;
-  field_names: string[] | null;
-
-  min_players_per_team: number | null;
-  max_players_per_team: number | null;
-
-  format: string | null;
-  group_count: number | null;
-  group_names: string[] | null;
-
-  pauses: any | null; // TournamentPause[]
-  field_pauses: any | null; // Record<string, Pause[]>
-};
-
-function clampInt(v: string, fallback: number) {
-  const n = Number(v);
-  return Number.isFinite(n) ? Math.floor(n) : fallback;
-}
-
-function clean(s: string) {
-  return (s ?? "").trim();
-}
+type TournamentRow = Tournament; // pauses: TournamentPause[], field_pauses: Record<string, Pause[]>
 
 function asHHMM(v: string | null, fallback: string) {
   const s = clean(v ?? "");
@@ -61,8 +55,38 @@ function safeRecord(v: any): Record<string, any> {
   return v && typeof v === "object" && !Array.isArray(v) ? (v as Record<string, any>) : {};
 }
 
-function isTime(s: string) {
-  return /^\d{2}:\d{2}$/.test(s);
+// Jour suivant (tournoi sur plusieurs jours): horaires, terrains et pauses propres
+type ExtraDay = { date: string; start: string; end: string; numFields: string; fieldPauses: Record<string, Pause[]> };
+
+type FieldDraft = { size: string; surface: string; indoor: boolean; duration: string }; // duration "" = durée du tournoi
+
+const EMPTY_FIELD_DRAFT: FieldDraft = { size: "", surface: "", indoor: false, duration: "" };
+
+type CategoryDraft = {
+  id: string;
+  name: string;
+  format: string;
+  groupCount: string;
+  groupNames: string[];
+  groupDurations: string[]; // "" = durée de la catégorie
+  knockoutEnabled: boolean;
+  knockoutQualifiers: string;
+  duration: string; // "" = durée du terrain / du tournoi
+};
+
+function categoryDraftOf(c: Category): CategoryDraft {
+  const n = c.format === "groups_round_robin" ? c.group_count : 1;
+  return {
+    id: c.id,
+    name: c.name,
+    format: c.format,
+    groupCount: String(c.group_count),
+    groupNames: Array.from({ length: n }, (_, i) => c.group_names[i] ?? `Poule ${i + 1}`),
+    groupDurations: Array.from({ length: n }, (_, i) => (c.group_match_durations[i] ? String(c.group_match_durations[i]) : "")),
+    knockoutEnabled: c.knockout_enabled,
+    knockoutQualifiers: String(c.knockout_qualifiers),
+    duration: c.match_duration_min ? String(c.match_duration_min) : "",
+  };
 }
 
 function hasAnyPause(fieldPauses: Record<string, Pause[]>) {
@@ -91,9 +115,12 @@ export default function TournamentSettingsPage() {
 
   const [matchDurationMin, setMatchDurationMin] = useState("12");
   const [rotationDurationMin, setRotationDurationMin] = useState("3");
+  const [minRestMin, setMinRestMin] = useState("0");
+  const [maxConsecutive, setMaxConsecutive] = useState("0");
 
   const [numFields, setNumFields] = useState("2");
   const [fieldNames, setFieldNames] = useState<string[]>(["Terrain 1", "Terrain 2"]);
+  const [fieldDrafts, setFieldDrafts] = useState<FieldDraft[]>([EMPTY_FIELD_DRAFT, EMPTY_FIELD_DRAFT]);
 
   const [minPlayers, setMinPlayers] = useState("6");
   const [maxPlayers, setMaxPlayers] = useState("7");
@@ -102,6 +129,39 @@ export default function TournamentSettingsPage() {
   const [format, setFormat] = useState("round_robin"); // round_robin | groups_round_robin
   const [groupCount, setGroupCount] = useState("1");
   const [groupNames, setGroupNames] = useState<string[]>(["Poule 1"]);
+  const [groupDurations, setGroupDurations] = useState<string[]>([""]); // "" = durée du terrain / du tournoi
+
+  // ✅ Phase finale
+  const [knockoutEnabled, setKnockoutEnabled] = useState(false);
+  const [knockoutQualifiers, setKnockoutQualifiers] = useState("2");
+
+  // ✅ Classement: barème + départages (ordre = priorité)
+  const [pointsWin, setPointsWin] = useState(String(DEFAULT_POINTS.win));
+  const [pointsDraw, setPointsDraw] = useState(String(DEFAULT_POINTS.draw));
+  const [pointsLoss, setPointsLoss] = useState(String(DEFAULT_POINTS.loss));
+  const [tiebreakers, setTiebreakers] = useState<Tiebreaker[]>(normalizeTiebreakers(null));
+
+  // ✅ Score: saisi à la main ou calculé depuis les buts
+  const [scoreMode, setScoreMode] = useState<ScoreMode>("manual");
+
+  // ✅ Fair-play: points de pénalité par carton
+  const [fairPlay, setFairPlay] = useState<Record<keyof FairPlayPoints, string>>({
+    yellow: String(DEFAULT_FAIR_PLAY_POINTS.yellow),
+    second_yellow: String(DEFAULT_FAIR_PLAY_POINTS.second_yellow),
+    red: String(DEFAULT_FAIR_PLAY_POINTS.red),
+    staff: String(DEFAULT_FAIR_PLAY_POINTS.staff),
+  });
+
+  // ✅ Suspensions automatiques
+  const [suspensionRules, setSuspensionRules] = useState<Record<keyof SuspensionRules, string>>({
+    red_matches: String(DEFAULT_SUSPENSION_RULES.red_matches),
+    yellow_threshold: String(DEFAULT_SUSPENSION_RULES.yellow_threshold),
+    yellow_matches: String(DEFAULT_SUSPENSION_RULES.yellow_matches),
+  });
+
+  // ✅ Page publique (/t/[slug])
+  const [isPublic, setIsPublic] = useState(false);
+  const [publicSlug, setPublicSlug] = useState("");
 
   // ✅ Pauses: UI simplifiée
   const [pausesEnabled, setPausesEnabled] = useState(false);
@@ -109,8 +169,14 @@ export default function TournamentSettingsPage() {
   // pauses par terrain: { "1": [{from,to}], "2": [...] }
   const [fieldPauses, setFieldPauses] = useState<Record<string, Pause[]>>({});
 
-  const fieldCount = useMemo(() => Math.max(1, clampInt(numFields, 1)), [numFields]);
-  const groupsN = useMemo(() => Math.max(1, Math.min(8, clampInt(groupCount, 1))), [groupCount]);
+  // ✅ Jours suivants (jour 1 = date / horaires / terrains / pauses ci-dessus)
+  const [extraDays, setExtraDays] = useState<ExtraDay[]>([]);
+
+  // ✅ Catégories (vide = format / poules / phase finale du tournoi)
+  const [categories, setCategories] = useState<CategoryDraft[]>([]);
+
+  const fieldCount = useMemo(() => Math.max(1, toInt(numFields, 1)), [numFields]);
+  const groupsN = useMemo(() => Math.max(1, Math.min(8, toInt(groupCount, 1))), [groupCount]);
 
   // Maintenir fieldNames à la bonne taille
   useEffect(() => {
@@ -120,6 +186,7 @@ export default function TournamentSettingsPage() {
       while (next.length > fieldCount) next.pop();
       return next;
     });
+    setFieldDrafts((prev) => Array.from({ length: fieldCount }, (_, i) => prev[i] ?? EMPTY_FIELD_DRAFT));
   }, [fieldCount]);
 
   // Maintenir groupNames à la bonne taille
@@ -130,6 +197,7 @@ export default function TournamentSettingsPage() {
       while (next.length > groupsN) next.pop();
       return next;
     });
+    setGroupDurations((prev) => Array.from({ length: groupsN }, (_, i) => prev[i] ?? ""));
   }, [groupsN]);
 
   // Maintenir fieldPauses à la bonne taille
@@ -152,20 +220,17 @@ export default function TournamentSettingsPage() {
       const { data: userData } = await supabase.auth.getUser();
       if (!userData.user) return router.push("/login");
 
-      const { data, error } = await supabase
-        .from("tournaments")
-        .select(
-          "id,title,tournament_date,min_teams,max_teams,start_time,end_time,match_duration_min,rotation_duration_min,num_fields,field_names,min_players_per_team,max_players_per_team,format,group_count,group_names,pauses,field_pauses"
-        )
-        .eq("id", tournamentId)
-        .single();
+      const { data: myRole } = await getMyRole(tournamentId);
+      if (!canManage(normalizeRole(myRole))) return setStatus(ADMIN_ONLY_MESSAGE);
+
+      const { data, error } = await getTournament(tournamentId);
 
       if (error) {
         setStatus("Erreur chargement: " + error.message);
         return;
       }
 
-      const row = (data ?? null) as any as TournamentRow;
+      const row = data;
       setT(row);
 
       setTitle(row.title ?? "");
@@ -179,9 +244,19 @@ export default function TournamentSettingsPage() {
 
       setMatchDurationMin(String(row.match_duration_min ?? 12));
       setRotationDurationMin(String(row.rotation_duration_min ?? 3));
+      setMinRestMin(String(row.min_rest_min ?? 0));
+      setMaxConsecutive(String(row.max_consecutive ?? 0));
 
       setNumFields(String(row.num_fields ?? 2));
       setFieldNames(row.field_names && row.field_names.length ? row.field_names : ["Terrain 1", "Terrain 2"]);
+      setFieldDrafts(
+        fieldSettingsOf(row, Math.max(1, Number(row.num_fields ?? 2))).map((f) => ({
+          size: f.size ?? "",
+          surface: f.surface ?? "",
+          indoor: f.indoor,
+          duration: f.match_duration_min ? String(f.match_duration_min) : "",
+        }))
+      );
 
       setMinPlayers(String(row.min_players_per_team ?? 6));
       setMaxPlayers(String(row.max_players_per_team ?? 7));
@@ -189,6 +264,39 @@ export default function TournamentSettingsPage() {
       setFormat(row.format ?? "round_robin");
       setGroupCount(String(row.group_count ?? 1));
       setGroupNames(row.group_names && row.group_names.length ? row.group_names : ["Poule 1"]);
+      setGroupDurations(
+        Array.from({ length: Math.max(1, Number(row.group_count ?? 1)) }, (_, i) => {
+          const n = Number(row.group_match_durations?.[i] ?? 0);
+          return n > 0 ? String(n) : "";
+        })
+      );
+
+      setKnockoutEnabled(Boolean(row.knockout_enabled));
+      setKnockoutQualifiers(String(row.knockout_qualifiers ?? 2));
+
+      setPointsWin(String(row.points_win ?? DEFAULT_POINTS.win));
+      setPointsDraw(String(row.points_draw ?? DEFAULT_POINTS.draw));
+      setPointsLoss(String(row.points_loss ?? DEFAULT_POINTS.loss));
+      setTiebreakers(normalizeTiebreakers(row.tiebreakers));
+      setScoreMode(normalizeScoreMode(row.score_mode));
+
+      const fpPoints = normalizeFairPlayPoints(row.fair_play_points);
+      setFairPlay({
+        yellow: String(fpPoints.yellow),
+        second_yellow: String(fpPoints.second_yellow),
+        red: String(fpPoints.red),
+        staff: String(fpPoints.staff),
+      });
+
+      const sr = normalizeSuspensionRules(row.suspension_rules);
+      setSuspensionRules({
+        red_matches: String(sr.red_matches),
+        yellow_threshold: String(sr.yellow_threshold),
+        yellow_matches: String(sr.yellow_matches),
+      });
+
+      setIsPublic(Boolean(row.is_public));
+      setPublicSlug(row.public_slug ?? "");
 
       // ✅ Hydrater pauses par terrain depuis DB
       const fp = safeRecord(row.field_pauses);
@@ -210,6 +318,20 @@ export default function TournamentSettingsPage() {
 
       setPausesEnabled(legacyOn || hasAnyPause(normalized));
 
+      setCategories(hasCategories(row) ? categoriesOf(row).map(categoryDraftOf) : []);
+
+      setExtraDays(
+        daysOf(row)
+          .slice(1)
+          .map((d) => ({
+            date: d.date ?? "",
+            start: d.start_time,
+            end: d.end_time,
+            numFields: String(d.num_fields),
+            fieldPauses: pauseModelOf(d).fieldPauses,
+          }))
+      );
+
       setStatus("");
     }
 
@@ -225,6 +347,23 @@ export default function TournamentSettingsPage() {
     });
   }
 
+  function updateFieldDraft(i: number, patch: Partial<FieldDraft>) {
+    setFieldDrafts((prev) => prev.map((d, k) => (k === i ? { ...d, ...patch } : d)));
+  }
+
+  function updateGroupDuration(i: number, v: string) {
+    setGroupDurations((prev) => prev.map((d, k) => (k === i ? v : d)));
+  }
+
+  function fieldSettingsFromDrafts(): FieldSettings[] {
+    return fieldDrafts.map((d) => ({
+      size: FIELD_SIZES.find((x) => x === d.size) ?? null,
+      surface: FIELD_SURFACES.find((x) => x === d.surface) ?? null,
+      indoor: d.indoor,
+      match_duration_min: toInt(d.duration, 0) > 0 ? toInt(d.duration, 0) : null,
+    }));
+  }
+
   function updateGroupName(i: number, v: string) {
     setGroupNames((prev) => {
       const next = [...prev];
@@ -260,28 +399,228 @@ export default function TournamentSettingsPage() {
     });
   }
 
+  function addExtraDay() {
+    setExtraDays((prev) => {
+      const prevDate = prev.length > 0 ? prev[prev.length - 1].date : tournamentDate;
+      let date = "";
+      if (prevDate) {
+        const d = new Date(`${prevDate}T12:00:00`);
+        d.setDate(d.getDate() + 1);
+        date = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+      }
+      return [...prev, { date, start: startTime, end: endTime, numFields: String(fieldCount), fieldPauses: {} }];
+    });
+  }
+
+  function updateExtraDay(i: number, patch: Partial<ExtraDay>) {
+    setExtraDays((prev) => prev.map((d, j) => (j === i ? { ...d, ...patch } : d)));
+  }
+
+  function removeExtraDay(i: number) {
+    setExtraDays((prev) => prev.filter((_, j) => j !== i));
+  }
+
+  function setExtraDayPauses(i: number, fieldIdx: number, update: (arr: Pause[]) => Pause[]) {
+    setExtraDays((prev) =>
+      prev.map((d, j) => {
+        if (j !== i) return d;
+        const key = String(fieldIdx);
+        return { ...d, fieldPauses: { ...d.fieldPauses, [key]: update([...(d.fieldPauses[key] ?? [])]) } };
+      })
+    );
+  }
+
+  function addCategory() {
+    setCategories((prev) => {
+      if (prev.length >= MAX_CATEGORIES) return prev;
+      // 1re catégorie = réglages actuels du tournoi (les équipes existantes y restent)
+      if (prev.length === 0) {
+        return [
+          {
+            id: nextCategoryId([]),
+            name: "Catégorie 1",
+            format,
+            groupCount: String(groupsN),
+            groupNames: format === "groups_round_robin" ? [...groupNames] : ["Poule 1"],
+            groupDurations: format === "groups_round_robin" ? [...groupDurations] : [""],
+            knockoutEnabled,
+            knockoutQualifiers,
+            duration: "",
+          },
+        ];
+      }
+      return [
+        ...prev,
+        {
+          id: nextCategoryId(prev),
+          name: `Catégorie ${prev.length + 1}`,
+          format: "round_robin",
+          groupCount: "1",
+          groupNames: ["Poule 1"],
+          groupDurations: [""],
+          knockoutEnabled: false,
+          knockoutQualifiers: "2",
+          duration: "",
+        },
+      ];
+    });
+  }
+
+  function updateCategory(i: number, patch: Partial<CategoryDraft>) {
+    setCategories((prev) =>
+      prev.map((c, k) => {
+        if (k !== i) return c;
+        const next = { ...c, ...patch };
+        // poules à la bonne taille
+        const n = next.format === "groups_round_robin" ? Math.max(1, Math.min(8, toInt(next.groupCount, 1))) : 1;
+        next.groupNames = Array.from({ length: n }, (_, g) => next.groupNames[g] ?? `Poule ${g + 1}`);
+        next.groupDurations = Array.from({ length: n }, (_, g) => next.groupDurations[g] ?? "");
+        return next;
+      })
+    );
+  }
+
+  function updateCategoryGroup(i: number, g: number, patch: { name?: string; duration?: string }) {
+    setCategories((prev) =>
+      prev.map((c, k) => {
+        if (k !== i) return c;
+        return {
+          ...c,
+          groupNames: c.groupNames.map((x, j) => (j === g && patch.name !== undefined ? patch.name : x)),
+          groupDurations: c.groupDurations.map((x, j) => (j === g && patch.duration !== undefined ? patch.duration : x)),
+        };
+      })
+    );
+  }
+
+  function removeCategory(i: number) {
+    const c = categories[i];
+    if (!window.confirm(`Supprimer la catégorie "${c?.name}" ? Ses équipes passeront dans la 1re catégorie.`)) return;
+    setCategories((prev) => prev.filter((_, k) => k !== i));
+  }
+
+  function categoriesFromDrafts(): Category[] {
+    return categories.map((c) => {
+      const groups = c.format === "groups_round_robin";
+      return {
+        id: c.id,
+        name: clean(c.name),
+        format: groups ? "groups_round_robin" : "round_robin",
+        group_count: groups ? Math.max(1, Math.min(8, toInt(c.groupCount, 1))) : 1,
+        group_names: c.groupNames.map((x, g) => clean(x) || `Poule ${g + 1}`),
+        knockout_enabled: c.knockoutEnabled,
+        knockout_qualifiers: toInt(c.knockoutQualifiers, 2),
+        match_duration_min: toInt(c.duration, 0) > 0 ? toInt(c.duration, 0) : null,
+        group_match_durations: groups ? c.groupDurations.map((x) => Math.max(0, toInt(x, 0))) : [],
+      };
+    });
+  }
+
+  function moveTiebreaker(idx: number, dir: -1 | 1) {
+    setTiebreakers((prev) => {
+      const j = idx + dir;
+      if (j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[idx], next[j]] = [next[j], next[idx]];
+      return next;
+    });
+  }
+
   function validate() {
     if (!clean(title)) return "Le titre est obligatoire.";
 
-    const minT = clampInt(minTeams, 2);
-    const maxT = clampInt(maxTeams, 24);
+    const minT = toInt(minTeams, 2);
+    const maxT = toInt(maxTeams, 24);
     if (minT < 2) return "min_teams doit être ≥ 2.";
     if (maxT < 2) return "max_teams doit être ≥ 2.";
     if (minT > maxT) return "min_teams ne peut pas être > max_teams.";
 
     if (clean(endTime) <= clean(startTime)) return "end_time doit être après start_time.";
 
-    const md = clampInt(matchDurationMin, 1);
-    const rd = clampInt(rotationDurationMin, 0);
+    const md = toInt(matchDurationMin, 1);
+    const rd = toInt(rotationDurationMin, 0);
     if (md < 1) return "Durée de match invalide.";
     if (rd < 0) return "Durée de rotation invalide.";
+    if (toInt(minRestMin, -1) < 0) return "Repos minimum invalide.";
+    if (toInt(maxConsecutive, -1) < 0) return "Nombre de matchs d'affilée invalide.";
 
-    const minP = clampInt(minPlayers, 1);
-    const maxP = clampInt(maxPlayers, 1);
+    // ✅ durées par terrain / par poule: vide = durée du tournoi
+    for (const [i, d] of fieldDrafts.entries()) {
+      if (d.duration && (toInt(d.duration, 0) < 1 || toInt(d.duration, 0) > 240)) return `Terrain ${i + 1}: durée de match entre 1 et 240 min.`;
+    }
+    const longestSlot = Math.max(...fieldDrafts.map((d) => (toInt(d.duration, 0) || md) + rd));
+    if (format === "groups_round_robin" && categories.length === 0) {
+      for (const [i, v] of groupDurations.entries()) {
+        if (!v) continue;
+        const n = toInt(v, 0);
+        if (n < 1 || n > 240) return `${groupNames[i] || `Poule ${i + 1}`}: durée de match entre 1 et 240 min.`;
+        if (n + rd > longestSlot) return `${groupNames[i] || `Poule ${i + 1}`}: matchs trop longs pour les créneaux de tous les terrains.`;
+      }
+    }
+
+    const minP = toInt(minPlayers, 1);
+    const maxP = toInt(maxPlayers, 1);
     if (minP < 1) return "min joueurs/équipe doit être ≥ 1.";
     if (maxP < 1) return "max joueurs/équipe doit être ≥ 1.";
     if (minP > maxP) return "min joueurs/équipe ne peut pas être > max.";
 
+    // ✅ barème: victoire ≥ nul ≥ défaite
+    const pw = toInt(pointsWin, NaN);
+    const pd = toInt(pointsDraw, NaN);
+    const pl = toInt(pointsLoss, NaN);
+    if ([pw, pd, pl].some((x) => Number.isNaN(x))) return "Barème: points invalides.";
+    if (pw < pd || pd < pl) return "Barème: victoire ≥ nul ≥ défaite.";
+
+    // ✅ fair-play: entiers ≥ 0
+    for (const v of Object.values(fairPlay)) {
+      const n = toInt(v, -1);
+      if (n < 0) return "Fair-play: points invalides (entiers ≥ 0).";
+    }
+
+    // ✅ suspensions: entiers ≥ 0
+    for (const v of Object.values(suspensionRules)) {
+      const n = toInt(v, -1);
+      if (n < 0) return "Suspensions: valeurs invalides (entiers ≥ 0).";
+    }
+
+    // ✅ phase finale: au moins 2 qualifiés au total
+    if (knockoutEnabled && categories.length === 0) {
+      const q = toInt(knockoutQualifiers, 0);
+      if (q < 1 || q > 8) return "Qualifiés par poule: entre 1 et 8.";
+      const total = q * (format === "groups_round_robin" ? groupsN : 1);
+      if (total < 2) return "Phase finale: il faut au moins 2 qualifiés au total.";
+      if (total > maxT) return "Phase finale: plus de qualifiés que d'équipes (max_teams).";
+    }
+
+    // ✅ catégories: noms uniques, poules / phase finale / durées valides
+    const catNames = new Set<string>();
+    for (const c of categories) {
+      const name = clean(c.name);
+      if (!name) return "Catégorie: le nom est obligatoire.";
+      if (catNames.has(name.toLowerCase())) return `Catégorie "${name}": nom déjà utilisé.`;
+      catNames.add(name.toLowerCase());
+
+      const gc = toInt(c.groupCount, 0);
+      if (c.format === "groups_round_robin" && (gc < 1 || gc > 8)) return `${name}: nombre de poules entre 1 et 8.`;
+      const dur = toInt(c.duration, 0);
+      if (c.duration && (dur < 1 || dur > 240)) return `${name}: durée de match entre 1 et 240 min.`;
+      if (dur && dur + rd > longestSlot) return `${name}: matchs trop longs pour les créneaux de tous les terrains.`;
+      for (const v of c.format === "groups_round_robin" ? c.groupDurations : []) {
+        const n = toInt(v, 0);
+        if (v && (n < 1 || n > 240 || n + rd > longestSlot)) return `${name}: durée de poule invalide ou trop longue pour les terrains.`;
+      }
+
+      if (c.knockoutEnabled) {
+        const q = toInt(c.knockoutQualifiers, 0);
+        if (q < 1 || q > 8) return `${name}: qualifiés par poule entre 1 et 8.`;
+        if (q * (c.format === "groups_round_robin" ? gc : 1) < 2) return `${name}: il faut au moins 2 qualifiés pour la phase finale.`;
+      }
+    }
+
+    // ✅ lien public: vide = généré à la sauvegarde
+    const slug = clean(publicSlug).toLowerCase();
+    if (slug && !isValidSlug(slug)) return "Lien public: 3 à 60 caractères (a-z, 0-9, tirets).";
+
     // ✅ pauses: si activées, valider format & cohérence
     if (pausesEnabled) {
       for (const [k, arr] of Object.entries(fieldPauses)) {
@@ -292,6 +631,22 @@ export default function TournamentSettingsPage() {
       }
     }
 
+    // ✅ jours suivants: dates croissantes, horaires et pauses valides
+    let prevDate = tournamentDate;
+    for (const [i, d] of extraDays.entries()) {
+      const label = `Jour ${i + 2}`;
+      if (d.date && prevDate && d.date <= prevDate) return `${label}: la date doit être après celle du jour précédent.`;
+      if (!isTime(d.start) || !isTime(d.end) || d.end <= d.start) return `${label}: horaires invalides.`;
+      const n = toInt(d.numFields, 0);
+      if (n < 1 || n > 24) return `${label}: nombre de terrains entre 1 et 24.`;
+      for (const [k, arr] of Object.entries(d.fieldPauses)) {
+        for (const p of arr) {
+          if (!isTime(p.from) || !isTime(p.to) || p.to <= p.from) return `${label}, pause terrain ${k}: horaires invalides.`;
+        }
+      }
+      prevDate = d.date || prevDate;
+    }
+
     return "";
   }
 
@@ -309,42 +664,81 @@ export default function TournamentSettingsPage() {
     const finalFieldPauses = pausesEnabled ? fieldPauses : {};
     const finalPausesLegacy: TournamentPause[] = []; // on n’utilise plus les pauses legacy
 
-    const payload: any = {
+    // ✅ Publication: le lien est conservé quand on dépublie (même lien si on republie)
+    const slug = clean(publicSlug).toLowerCase() || (isPublic ? slugify(title) : "");
+
+    const payload: TablesUpdate<"tournaments"> = {
       title: clean(title),
 
       tournament_date: tournamentDate || null,
-      min_teams: clampInt(minTeams, 2),
-      max_teams: clampInt(maxTeams, 24),
+      min_teams: toInt(minTeams, 2),
+      max_teams: toInt(maxTeams, 24),
 
       start_time: clean(startTime).slice(0, 5),
       end_time: clean(endTime).slice(0, 5),
 
-      match_duration_min: clampInt(matchDurationMin, 12),
-      rotation_duration_min: clampInt(rotationDurationMin, 3),
+      match_duration_min: toInt(matchDurationMin, 12),
+      rotation_duration_min: toInt(rotationDurationMin, 3),
+      min_rest_min: toInt(minRestMin, 0),
+      max_consecutive: toInt(maxConsecutive, 0),
 
       num_fields: fieldCount,
       field_names: fieldNames.map((x) => clean(x) || "Terrain"),
+      field_settings: fieldSettingsJson(fieldSettingsFromDrafts()),
 
-      min_players_per_team: clampInt(minPlayers, 6),
-      max_players_per_team: clampInt(maxPlayers, 7),
+      min_players_per_team: toInt(minPlayers, 6),
+      max_players_per_team: toInt(maxPlayers, 7),
 
       format: format || "round_robin",
       group_count: groupsN,
       group_names: groupNames.map((x) => clean(x) || "Poule"),
+      group_match_durations: groupDurations.map((x) => Math.max(0, toInt(x, 0))),
+
+      knockout_enabled: knockoutEnabled,
+      knockout_qualifiers: toInt(knockoutQualifiers, 2),
+      categories: categoriesJson(categoriesFromDrafts()),
+
+      points_win: toInt(pointsWin, DEFAULT_POINTS.win),
+      points_draw: toInt(pointsDraw, DEFAULT_POINTS.draw),
+      points_loss: toInt(pointsLoss, DEFAULT_POINTS.loss),
+      tiebreakers,
+      score_mode: scoreMode,
+      fair_play_points: normalizeFairPlayPoints(fairPlay),
+      suspension_rules: normalizeSuspensionRules(suspensionRules),
 
       // ✅ Persist pauses
       pauses: finalPausesLegacy,
       field_pauses: finalFieldPauses,
+      extra_days: extraDaysJson(
+        extraDays.map((d) => {
+          const n = toInt(d.numFields, 1);
+          return {
+            date: d.date || null,
+            start_time: d.start,
+            end_time: d.end,
+            num_fields: n,
+            pauses: null,
+            field_pauses: Object.fromEntries(Object.entries(d.fieldPauses).filter(([k, arr]) => Number(k) <= n && arr.length > 0)),
+          };
+        })
+      ),
+
+      is_public: isPublic,
+      public_slug: slug || null,
     };
 
-    const { error } = await supabase.from("tournaments").update(payload).eq("id", tournamentId);
+    const { error } = await updateTournament(tournamentId, payload);
 
     if (error) {
-      setStatus("Erreur sauvegarde: " + error.message);
+      setStatus(
+        error.code === "23505" ? "Erreur: ce lien public est déjà utilisé par un autre tournoi." : "Erreur sauvegarde: " + error.message
+      );
       setSaving(false);
       return;
     }
 
+    setPublicSlug(slug);
+    setT((prev) => (prev ? { ...prev, is_public: isPublic, public_slug: slug || null } : prev));
     setStatus("✅ Paramètres sauvegardés. Les pages se mettront à jour automatiquement.");
     setSaving(false);
   }
@@ -434,6 +828,16 @@ export default function TournamentSettingsPage() {
               <input className="w-full border rounded-lg p-2" type="number" value={rotationDurationMin} onChange={(e) => setRotationDurationMin(e.target.value)} />
             </div>
 
+            <div>
+              <label className="text-sm text-gray-600">Repos min. entre 2 matchs (min)</label>
+              <input className="w-full border rounded-lg p-2" type="number" min={0} value={minRestMin} onChange={(e) => setMinRestMin(e.target.value)} />
+            </div>
+
+            <div>
+              <label className="text-sm text-gray-600">Matchs d&apos;affilée max (0 = illimité)</label>
+              <input className="w-full border rounded-lg p-2" type="number" min={0} value={maxConsecutive} onChange={(e) => setMaxConsecutive(e.target.value)} />
+            </div>
+
             <div>
               <label className="text-sm text-gray-600">Min joueurs / équipe</label>
               <input className="w-full border rounded-lg p-2" type="number" value={minPlayers} onChange={(e) => setMinPlayers(e.target.value)} />
@@ -455,18 +859,56 @@ export default function TournamentSettingsPage() {
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {fieldNames.map((n, i) => (
-                <div key={i}>
-                  <label className="text-sm text-gray-600">Terrain {i + 1}</label>
-                  <input className="w-full border rounded-lg p-2" value={n} onChange={(e) => updateFieldName(i, e.target.value)} />
-                </div>
-              ))}
+              {fieldNames.map((n, i) => {
+                const d = fieldDrafts[i] ?? EMPTY_FIELD_DRAFT;
+                return (
+                  <div key={i} className="space-y-2">
+                    <label className="text-sm text-gray-600">Terrain {i + 1}</label>
+                    <input className="w-full border rounded-lg p-2" value={n} onChange={(e) => updateFieldName(i, e.target.value)} />
+                    <div className="flex gap-2 flex-wrap items-center text-sm">
+                      <select className="border rounded-lg p-2" value={d.size} onChange={(e) => updateFieldDraft(i, { size: e.target.value })}>
+                        <option value="">Format ?</option>
+                        {FIELD_SIZES.map((s) => (
+                          <option key={s} value={s}>
+                            {FIELD_SIZE_LABELS[s]}
+                          </option>
+                        ))}
+                      </select>
+                      <select className="border rounded-lg p-2" value={d.surface} onChange={(e) => updateFieldDraft(i, { surface: e.target.value })}>
+                        <option value="">Surface ?</option>
+                        {FIELD_SURFACES.map((s) => (
+                          <option key={s} value={s}>
+                            {FIELD_SURFACE_LABELS[s]}
+                          </option>
+                        ))}
+                      </select>
+                      <label className="flex items-center gap-1 text-gray-700">
+                        <input type="checkbox" checked={d.indoor} onChange={(e) => updateFieldDraft(i, { indoor: e.target.checked })} />
+                        Couvert
+                      </label>
+                      <input
+                        className="w-24 border rounded-lg p-2"
+                        type="number"
+                        min={1}
+                        placeholder={matchDurationMin}
+                        value={d.duration}
+                        onChange={(e) => updateFieldDraft(i, { duration: e.target.value })}
+                        title="Durée d'un match sur ce terrain (vide = durée du tournoi)"
+                      />
+                      <span className="text-gray-500">min</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="text-xs text-gray-500">
+              Durée vide = durée du tournoi. Un terrain avec une autre durée a ses propres créneaux (durée + rotation).
             </div>
           </div>
 
           {/* ✅ Pauses simplifiées */}
           <div className="border-t pt-4 space-y-3">
-            <div className="font-semibold">Pauses</div>
+            <div className="font-semibold">Pauses{extraDays.length > 0 ? " (jour 1)" : ""}</div>
 
             {/* Ligne unique */}
             <label className="flex items-center gap-3 border rounded-lg p-4 cursor-pointer select-none">
@@ -563,35 +1005,506 @@ export default function TournamentSettingsPage() {
             )}
           </div>
 
-          {/* Format / Poules */}
+          {/* ✅ Tournoi sur plusieurs jours */}
           <div className="border-t pt-4 space-y-3">
-            <div className="font-semibold">Format</div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
               <div>
-                <label className="text-sm text-gray-600">Format</label>
-                <select className="w-full border rounded-lg p-2" value={format} onChange={(e) => setFormat(e.target.value)}>
-                  <option value="round_robin">Round Robin (tous ensemble)</option>
-                  <option value="groups_round_robin">Poules (round robin)</option>
-                </select>
-                <div className="text-xs text-gray-500 mt-1">
-                  La génération par poules est gérée dans Planning.
+                <div className="font-semibold">Jours suivants</div>
+                <div className="text-xs text-gray-500">
+                  Le jour 1 utilise la date, les horaires, les terrains et les pauses ci-dessus. Le planning répartit les matchs sur tous les jours.
                 </div>
               </div>
+              <button
+                type="button"
+                onClick={addExtraDay}
+                disabled={extraDays.length >= MAX_DAYS - 1}
+                className="bg-gray-100 px-3 py-2 rounded-lg hover:bg-gray-200 transition text-sm disabled:opacity-50"
+              >
+                + Ajouter un jour
+              </button>
+            </div>
+
+            {extraDays.map((d, i) => {
+              const n = Math.max(1, Math.min(24, toInt(d.numFields, 1)));
+              return (
+                <div key={i} className="border rounded-lg p-4 bg-slate-50 space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="font-semibold">Jour {i + 2}</div>
+                    <button
+                      type="button"
+                      onClick={() => removeExtraDay(i)}
+                      className="bg-red-600 text-white px-3 py-1 rounded-lg hover:bg-red-700 transition text-sm"
+                    >
+                      Supprimer
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div>
+                      <label className="text-xs text-gray-600">Date</label>
+                      <input type="date" className="w-full border rounded-lg p-2" value={d.date} onChange={(e) => updateExtraDay(i, { date: e.target.value })} />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-600">Heure début</label>
+                      <input type="time" className="w-full border rounded-lg p-2" value={d.start} onChange={(e) => updateExtraDay(i, { start: e.target.value })} />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-600">Heure fin</label>
+                      <input type="time" className="w-full border rounded-lg p-2" value={d.end} onChange={(e) => updateExtraDay(i, { end: e.target.value })} />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-600">Terrains</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={24}
+                        className="w-full border rounded-lg p-2"
+                        value={d.numFields}
+                        onChange={(e) => updateExtraDay(i, { numFields: e.target.value })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    {Array.from({ length: n }, (_, idx) => {
+                      const fieldIdx = idx + 1;
+                      const pauses = d.fieldPauses[String(fieldIdx)] ?? [];
+                      return (
+                        <div key={fieldIdx} className="flex items-center gap-2 flex-wrap text-sm">
+                          <span className="w-32 truncate text-gray-700">{fieldNames[idx] ?? `Terrain ${fieldIdx}`}</span>
+                          {pauses.map((p, pIdx) => (
+                            <span key={pIdx} className="flex items-center gap-1 bg-white border rounded-lg px-2 py-1">
+                              <input
+                                type="time"
+                                className="border rounded p-1"
+                                value={p.from}
+                                onChange={(e) => setExtraDayPauses(i, fieldIdx, (arr) => arr.map((x, j) => (j === pIdx ? { ...x, from: e.target.value } : x)))}
+                              />
+                              →
+                              <input
+                                type="time"
+                                className="border rounded p-1"
+                                value={p.to}
+                                onChange={(e) => setExtraDayPauses(i, fieldIdx, (arr) => arr.map((x, j) => (j === pIdx ? { ...x, to: e.target.value } : x)))}
+                              />
+                              <button
+                                type="button"
+                                onClick={() => setExtraDayPauses(i, fieldIdx, (arr) => arr.filter((_, j) => j !== pIdx))}
+                                className="text-red-600 px-1"
+                                title="Supprimer la pause"
+                              >
+                                ✖
+                              </button>
+                            </span>
+                          ))}
+                          <button
+                            type="button"
+                            onClick={() => setExtraDayPauses(i, fieldIdx, (arr) => [...arr, { from: "12:00", to: "12:30" }])}
+                            className="bg-gray-100 px-2 py-1 rounded-lg hover:bg-gray-200 transition text-xs"
+                          >
+                            + Pause
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
 
+          {/* ✅ Catégories */}
+          <div className="border-t pt-4 space-y-3">
+            <div className="flex items-center justify-between gap-3">
               <div>
-                <label className="text-sm text-gray-600">Nombre de poules (1 à 8)</label>
-                <input className="w-full border rounded-lg p-2" type="number" min={1} max={8} value={groupCount} onChange={(e) => setGroupCount(e.target.value)} />
+                <div className="font-semibold">🏷️ Catégories</div>
+                <div className="text-xs text-gray-500">
+                  Ex: U9, U11, U13 sur le même site. Chaque catégorie a son format, ses poules, sa phase finale et ses équipes; les
+                  terrains et les horaires sont partagés (jamais deux matchs sur un terrain en même temps).
+                </div>
               </div>
+              <button
+                type="button"
+                onClick={addCategory}
+                disabled={categories.length >= MAX_CATEGORIES}
+                className="bg-gray-200 px-3 py-2 rounded-lg hover:bg-gray-300 transition text-sm disabled:opacity-50 shrink-0"
+              >
+                + Catégorie
+              </button>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {groupNames.map((n, i) => (
-                <div key={i}>
-                  <label className="text-sm text-gray-600">Nom poule {i + 1}</label>
-                  <input className="w-full border rounded-lg p-2" value={n} onChange={(e) => updateGroupName(i, e.target.value)} />
+            {categories.length === 1 && (
+              <div className="text-xs text-amber-700">La 1re catégorie reprend le format actuel et toutes les équipes existantes.</div>
+            )}
+
+            {categories.map((c, i) => (
+              <div key={c.id} className="border rounded-lg p-4 space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                  <div>
+                    <label className="text-sm text-gray-600">Nom</label>
+                    <input className="w-full border rounded-lg p-2" value={c.name} onChange={(e) => updateCategory(i, { name: e.target.value })} />
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-600">Format</label>
+                    <select className="w-full border rounded-lg p-2" value={c.format} onChange={(e) => updateCategory(i, { format: e.target.value })}>
+                      <option value="round_robin">Round Robin (tous ensemble)</option>
+                      <option value="groups_round_robin">Poules (round robin)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-600">Durée d&apos;un match (min)</label>
+                    <input
+                      className="w-full border rounded-lg p-2"
+                      type="number"
+                      min={1}
+                      placeholder="terrain"
+                      value={c.duration}
+                      onChange={(e) => updateCategory(i, { duration: e.target.value })}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeCategory(i)}
+                    className="bg-red-50 text-red-700 px-3 py-2 rounded-lg hover:bg-red-100 transition text-sm"
+                  >
+                    Supprimer
+                  </button>
+                </div>
+
+                {c.format === "groups_round_robin" && (
+                  <div className="space-y-2">
+                    <div className="w-full md:w-1/4">
+                      <label className="text-sm text-gray-600">Nombre de poules (1 à 8)</label>
+                      <input
+                        className="w-full border rounded-lg p-2"
+                        type="number"
+                        min={1}
+                        max={8}
+                        value={c.groupCount}
+                        onChange={(e) => updateCategory(i, { groupCount: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {c.groupNames.map((gName, g) => (
+                        <div key={g} className="flex gap-2 items-center">
+                          <input
+                            className="w-full border rounded-lg p-2"
+                            value={gName}
+                            onChange={(e) => updateCategoryGroup(i, g, { name: e.target.value })}
+                          />
+                          <input
+                            className="w-24 border rounded-lg p-2"
+                            type="number"
+                            min={1}
+                            placeholder="auto"
+                            value={c.groupDurations[g] ?? ""}
+                            onChange={(e) => updateCategoryGroup(i, g, { duration: e.target.value })}
+                            title="Durée d'un match de cette poule (vide = durée de la catégorie)"
+                          />
+                          <span className="text-sm text-gray-500">min</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-3 flex-wrap text-sm">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={c.knockoutEnabled} onChange={(e) => updateCategory(i, { knockoutEnabled: e.target.checked })} />
+                    🏆 Phase finale
+                  </label>
+                  {c.knockoutEnabled && (
+                    <>
+                      <span className="text-gray-600">{c.format === "groups_round_robin" ? "Qualifiés par poule" : "Qualifiés"}</span>
+                      <input
+                        className="w-20 border rounded-lg p-2"
+                        type="number"
+                        min={1}
+                        max={8}
+                        value={c.knockoutQualifiers}
+                        onChange={(e) => updateCategory(i, { knockoutQualifiers: e.target.value })}
+                      />
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Format / Poules */}
+          {categories.length === 0 && (
+            <div className="border-t pt-4 space-y-3">
+              <div className="font-semibold">Format</div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm text-gray-600">Format</label>
+                  <select className="w-full border rounded-lg p-2" value={format} onChange={(e) => setFormat(e.target.value)}>
+                    <option value="round_robin">Round Robin (tous ensemble)</option>
+                    <option value="groups_round_robin">Poules (round robin)</option>
+                  </select>
+                  <div className="text-xs text-gray-500 mt-1">
+                    La génération par poules est gérée dans Planning.
+                  </div>
+                </div>
+
+                <div>
+                  <label className="text-sm text-gray-600">Nombre de poules (1 à 8)</label>
+                  <input className="w-full border rounded-lg p-2" type="number" min={1} max={8} value={groupCount} onChange={(e) => setGroupCount(e.target.value)} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {groupNames.map((n, i) => (
+                  <div key={i}>
+                    <label className="text-sm text-gray-600">Nom poule {i + 1}</label>
+                    <div className="flex gap-2 items-center">
+                      <input className="w-full border rounded-lg p-2" value={n} onChange={(e) => updateGroupName(i, e.target.value)} />
+                      {format === "groups_round_robin" && (
+                        <>
+                          <input
+                            className="w-24 border rounded-lg p-2"
+                            type="number"
+                            min={1}
+                            placeholder="auto"
+                            value={groupDurations[i] ?? ""}
+                            onChange={(e) => updateGroupDuration(i, e.target.value)}
+                            title="Durée d'un match de cette poule (vide = durée du terrain)"
+                          />
+                          <span className="text-sm text-gray-500">min</span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Score */}
+          <div className="border-t pt-4 space-y-3">
+            <div className="font-semibold">Score des matchs</div>
+            <select
+              className="w-full md:w-1/2 border rounded-lg p-2"
+              value={scoreMode}
+              onChange={(e) => setScoreMode(normalizeScoreMode(e.target.value))}
+            >
+              {(Object.keys(SCORE_MODE_LABELS) as ScoreMode[]).map((k) => (
+                <option key={k} value={k}>
+                  {SCORE_MODE_LABELS[k]}
+                </option>
+              ))}
+            </select>
+            <div className="text-xs text-gray-500">
+              {scoreMode === "events"
+                ? "Le score suit les buts (et CSC) saisis sur la feuille de match ou en mode arbitre. Les scores existants sont recalculés à l’enregistrement."
+                : "Le score est saisi sur la page Matchs. Un écart avec les buts saisis est signalé à la validation et dans le contrôle des scores."}
+            </div>
+          </div>
+
+          {/* Classement */}
+          <div className="border-t pt-4 space-y-3">
+            <div className="font-semibold">Classement</div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="text-sm text-gray-600">Points victoire</label>
+                <input className="w-full border rounded-lg p-2" type="number" value={pointsWin} onChange={(e) => setPointsWin(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-sm text-gray-600">Points nul</label>
+                <input className="w-full border rounded-lg p-2" type="number" value={pointsDraw} onChange={(e) => setPointsDraw(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-sm text-gray-600">Points défaite</label>
+                <input className="w-full border rounded-lg p-2" type="number" value={pointsLoss} onChange={(e) => setPointsLoss(e.target.value)} />
+              </div>
+            </div>
+
+            <div>
+              <div className="text-sm text-gray-600 mb-2">Départage en cas d&apos;égalité de points (dans l&apos;ordre)</div>
+              {tiebreakers.length === 0 ? (
+                <div className="text-sm text-gray-500">Aucun critère: ordre alphabétique.</div>
+              ) : (
+                <div className="space-y-2">
+                  {tiebreakers.map((tb, i) => (
+                    <div key={tb} className="flex items-center justify-between gap-2 border rounded-lg px-3 py-2">
+                      <div className="text-sm">
+                        <span className="font-semibold">{i + 1}.</span> {TIEBREAKERS[tb].label}
+                      </div>
+                      <div className="flex gap-1">
+                        <button onClick={() => moveTiebreaker(i, -1)} disabled={i === 0} className="px-2 py-1 bg-gray-100 rounded disabled:opacity-40">
+                          ↑
+                        </button>
+                        <button
+                          onClick={() => moveTiebreaker(i, 1)}
+                          disabled={i === tiebreakers.length - 1}
+                          className="px-2 py-1 bg-gray-100 rounded disabled:opacity-40"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          onClick={() => setTiebreakers((prev) => prev.filter((x) => x !== tb))}
+                          className="px-2 py-1 bg-red-50 text-red-700 rounded"
+                        >
+                          ✖
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {ALL_TIEBREAKERS.some((tb) => !tiebreakers.includes(tb)) && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {ALL_TIEBREAKERS.filter((tb) => !tiebreakers.includes(tb)).map((tb) => (
+                    <button
+                      key={tb}
+                      onClick={() => setTiebreakers((prev) => [...prev, tb])}
+                      className="text-xs px-2 py-1 bg-gray-100 rounded hover:bg-gray-200"
+                    >
+                      + {TIEBREAKERS[tb].label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="text-xs text-gray-500 mt-2">
+                Utilisé partout: classement, phase finale (qualifiés) et exports. Confrontation directe = mini-championnat
+                entre les seules équipes à égalité, recalculé s&apos;il reste des ex-aequo. Dernier recours: ordre alphabétique.
+              </div>
+            </div>
+          </div>
+
+          {/* Fair-play */}
+          <div className="border-t pt-4 space-y-3">
+            <div className="font-semibold">Fair-play (points de pénalité)</div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {(
+                [
+                  ["yellow", "🟡 Jaune"],
+                  ["second_yellow", "🟡🟡 2e jaune (en plus)"],
+                  ["red", "🔴 Rouge direct"],
+                  ["staff", "Carton staff"],
+                ] as [keyof FairPlayPoints, string][]
+              ).map(([k, label]) => (
+                <div key={k}>
+                  <label className="text-sm text-gray-600">{label}</label>
+                  <input
+                    className="w-full border rounded-lg p-2"
+                    type="number"
+                    min={0}
+                    value={fairPlay[k]}
+                    onChange={(e) => setFairPlay((prev) => ({ ...prev, [k]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="text-xs text-gray-500">
+              Sert au prix du fair-play (Stats, PDF) et au critère de départage “Fair-play”. Moins de points = mieux.
+            </div>
+          </div>
+
+          {/* Suspensions */}
+          <div className="border-t pt-4 space-y-3">
+            <div className="font-semibold">Suspensions automatiques</div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {(
+                [
+                  ["red_matches", "🔴 Rouge: matchs de suspension"],
+                  ["yellow_threshold", "🟡 Cumul: nb de jaunes (0 = off)"],
+                  ["yellow_matches", "🟡 Cumul: matchs de suspension"],
+                ] as [keyof SuspensionRules, string][]
+              ).map(([k, label]) => (
+                <div key={k}>
+                  <label className="text-sm text-gray-600">{label}</label>
+                  <input
+                    className="w-full border rounded-lg p-2"
+                    type="number"
+                    min={0}
+                    value={suspensionRules[k]}
+                    onChange={(e) => setSuspensionRules((prev) => ({ ...prev, [k]: e.target.value }))}
+                  />
                 </div>
               ))}
             </div>
+            <div className="text-xs text-gray-500">
+              Les joueurs suspendus sont grisés dans la saisie du match et listés sur la fiche équipe.
+            </div>
+          </div>
+
+          {/* Phase finale */}
+          {categories.length === 0 && (
+            <div className="border-t pt-4 space-y-3">
+              <label className="flex items-center gap-2 font-semibold">
+                <input type="checkbox" checked={knockoutEnabled} onChange={(e) => setKnockoutEnabled(e.target.checked)} />
+                🏆 Phase finale (élimination directe)
+              </label>
+
+              {knockoutEnabled && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm text-gray-600">
+                      {format === "groups_round_robin" ? "Qualifiés par poule" : "Qualifiés (classement général)"}
+                    </label>
+                    <input
+                      className="w-full border rounded-lg p-2"
+                      type="number"
+                      min={1}
+                      max={8}
+                      value={knockoutQualifiers}
+                      onChange={(e) => setKnockoutQualifiers(e.target.value)}
+                    />
+                  </div>
+                  <div className="text-xs text-gray-500 self-end">
+                    Le tableau est généré dans Planning, après les matchs de poule. Les qualifiés sont placés automatiquement
+                    quand tous les matchs de poule sont validés.
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Page publique */}
+          <div className="border-t pt-4 space-y-3">
+            <label className="flex items-center gap-2 font-semibold">
+              <input type="checkbox" checked={isPublic} onChange={(e) => setIsPublic(e.target.checked)} />
+              🌍 Page publique (sans connexion)
+            </label>
+            <div className="text-xs text-gray-500">
+              Programme, résultats en direct, classement et buteurs en lecture seule, pour les parents et les joueurs.
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm text-gray-600">Lien (vide = généré depuis le titre)</label>
+                <input
+                  className="w-full border rounded-lg p-2 font-mono text-sm"
+                  placeholder="tournoi-ete-u11"
+                  value={publicSlug}
+                  onChange={(e) => setPublicSlug(e.target.value.toLowerCase())}
+                />
+              </div>
+
+              {isPublic && t.is_public && t.public_slug && (
+                <div className="self-end flex items-center gap-2">
+                  <a
+                    href={publicPath(t.public_slug)}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-sm text-blue-700 underline font-mono truncate"
+                  >
+                    {publicPath(t.public_slug)}
+                  </a>
+                  <button
+                    type="button"
+                    onClick={() => navigator.clipboard?.writeText(window.location.origin + publicPath(t.public_slug!))}
+                    className="bg-gray-200 px-3 py-1 rounded-lg hover:bg-gray-300 transition text-sm"
+                  >
+                    📋 Copier
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
 
           <div className="flex justify-end">
@@ -3,46 +3,28 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "../../../../../lib/supabaseClient";
-
-type TournamentRow = {
-  id: string;
-  format: string | null; // "round_robin" | "groups_round_robin"
-  group_count: number | null; // 1..8
-  group_names: string[] | null;
-};
-
-type TeamRow = {
-  id: string;
-  name: string;
-  group_idx?: number | null; // ✅ pour séparer par poule
-};
-
-type MatchRow = {
-  id: string;
-  home_team_id: string;
-  away_team_id: string;
-  home_score: number | null;
-  away_score: number | null;
-  status: string;
-};
-
-type StandingRow = {
-  team_id: string;
-  team_name: string;
-  played: number;
-  wins: number;
-  draws: number;
-  losses: number;
-  gf: number;
-  ga: number;
-  gd: number;
-  pts: number;
-};
-
-function clampInt(n: number, min: number, max: number) {
-  if (!Number.isFinite(n)) return min;
-  return Math.max(min, Math.min(max, Math.floor(n)));
-}
+import { getTournament, listMatchEvents, listMatches, listTeams, type MatchWithTeams } from "../../../../../lib/repository";
+import type { Team, Tournament } from "../../../../../lib/domain/models";
+import {
+  computeGroupStandings,
+  computeStandings,
+  standingsOptionsFromTournament,
+  tiebreakExplanation,
+  TIEBREAKERS,
+  type StandingRow,
+} from "../../../../../lib/domain/standings";
+import { CARD_EVENT_TYPES, fairPlayPointsByTeam, normalizeFairPlayPoints, type CardEvent } from "../../../../../lib/domain/fairPlay";
+import { decidedBySuffix, matchOutcome } from "../../../../../lib/domain/penalties";
+import { roundLabel, sourceLabel } from "../../../../../lib/domain/knockout";
+import { groupNamesOf, knockoutGroupNamesOf } from "../../../../../lib/domain/tournament";
+import { categoriesOf, categoryOf, computeCategoryStandings, hasCategories } from "../../../../../lib/domain/categories";
+import { DISPUTE_BADGE, isDisputed } from "../../../../../lib/domain/disputes";
+
+type TournamentRow = Tournament;
+type TeamRow = Team;
+type MatchRow = MatchWithTeams;
+type CardRow = CardEvent & { match_id: string };
+type KnockoutRow = MatchWithTeams;
 
 export default function StandingsPage() {
   const router = useRouter();
@@ -53,9 +35,8 @@ export default function StandingsPage() {
   const [tournament, setTournament] = useState<TournamentRow | null>(null);
   const [teams, setTeams] = useState<TeamRow[]>([]);
   const [matches, setMatches] = useState<MatchRow[]>([]);
-  const [pointsWin, setPointsWin] = useState(3);
-  const [pointsDraw, setPointsDraw] = useState(1);
-  const [pointsLoss, setPointsLoss] = useState(0);
+  const [knockout, setKnockout] = useState<KnockoutRow[]>([]);
+  const [cards, setCards] = useState<CardRow[]>([]);
 
   const refreshTimerRef = useRef<number | null>(null);
   const pollRef = useRef<number | null>(null);
@@ -69,11 +50,7 @@ export default function StandingsPage() {
   }
 
   async function refreshTournament() {
-    const { data, error } = await supabase
-      .from("tournaments")
-      .select("id,format,group_count,group_names")
-      .eq("id", tournamentId)
-      .single();
+    const { data, error } = await getTournament(tournamentId);
 
     if (error) {
       // on ne bloque pas la page si ça rate, mais on garde un status visible
@@ -81,41 +58,58 @@ export default function StandingsPage() {
       return null;
     }
 
-    setTournament((data ?? null) as any);
-    return data as any as TournamentRow;
+    setTournament(data);
+    return data;
   }
 
   async function refreshTeams() {
     // ✅ On récupère group_idx pour séparer par poules
-    const { data: tData, error: tErr } = await supabase
-      .from("teams")
-      .select("id,name,group_idx")
-      .eq("tournament_id", tournamentId)
-      .order("name", { ascending: true });
+    const { data: tData, error: tErr } = await listTeams(tournamentId);
 
     if (tErr) {
       setStatus("Erreur teams: " + tErr.message);
       return null;
     }
 
-    setTeams((tData ?? []) as any);
-    return (tData ?? []) as any as TeamRow[];
+    setTeams(tData ?? []);
+    return tData ?? [];
   }
 
   async function refreshPlayedMatches() {
-    const { data: mData, error: mErr } = await supabase
-      .from("matches")
-      .select("id,home_team_id,away_team_id,home_score,away_score,status")
-      .eq("tournament_id", tournamentId)
-      .eq("status", "played");
+    const { data: mData, error: mErr } = await listMatches(tournamentId, { status: "played" });
 
     if (mErr) {
       setStatus("Erreur matches: " + mErr.message);
       return null;
     }
 
-    setMatches((mData ?? []) as any);
-    return (mData ?? []) as any as MatchRow[];
+    setMatches(mData ?? []);
+    return mData ?? [];
+  }
+
+  // ✅ Cartons => points fair-play (départage)
+  async function refreshCards() {
+    const { data, error } = await listMatchEvents({ tournamentId, types: CARD_EVENT_TYPES });
+
+    if (error) {
+      setStatus("Erreur cartons: " + error.message);
+      return;
+    }
+
+    setCards(data ?? []);
+  }
+
+  async function refreshKnockout() {
+    const { data, error } = await listMatches(tournamentId, { phase: "knockout" });
+
+    if (error) {
+      setStatus("Erreur phase finale: " + error.message);
+      return null;
+    }
+
+    const rows = [...(data ?? [])].sort((a, b) => Number(a.ko_slot ?? 0) - Number(b.ko_slot ?? 0));
+    setKnockout(rows);
+    return rows;
   }
 
   async function refreshAll() {
@@ -123,6 +117,8 @@ export default function StandingsPage() {
     await refreshTournament();
     await refreshTeams();
     await refreshPlayedMatches();
+    await refreshCards();
+    await refreshKnockout();
     setStatus("");
   }
 
@@ -151,6 +147,8 @@ export default function StandingsPage() {
     pollRef.current = window.setInterval(() => {
       // standings dépend des matches played + teams (+ tournoi pour noms de poules)
       refreshPlayedMatches();
+      refreshCards();
+      refreshKnockout();
       refreshTeams();
       refreshTournament();
     }, 12_000);
@@ -182,6 +180,11 @@ export default function StandingsPage() {
         { event: "*", schema: "public", table: "matches", filter: `tournament_id=eq.${tournamentId}` },
         () => scheduleRefresh("matches_changed")
       )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "match_events", filter: `tournament_id=eq.${tournamentId}` },
+        () => scheduleRefresh("events_changed")
+      )
       .on(
         "postgres_changes",
         { event: "*", schema: "public", table: "tournaments", filter: `id=eq.${tournamentId}` },
@@ -195,117 +198,76 @@ export default function StandingsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tournamentId]);
 
-  // ✅ Détection poules + noms
-  const showGroups = useMemo(() => (tournament?.format ?? "") === "groups_round_robin", [tournament]);
-
-  const groupNames = useMemo(() => {
-    const raw = Array.isArray(tournament?.group_names) ? (tournament?.group_names as any[]) : [];
-    const n = clampInt(Number(tournament?.group_count ?? 1), 1, 8);
-    const out: string[] = [];
-    for (let i = 1; i <= n; i++) {
-      const s = String(raw[i - 1] ?? "").trim();
-      out.push(s || `Poule ${i}`);
-    }
-    return out;
-  }, [tournament]);
-
-  function computeStandingsForTeams(teamSubset: TeamRow[]) {
-    const byId = new Map<string, StandingRow>();
-
-    for (const t of teamSubset) {
-      byId.set(t.id, {
-        team_id: t.id,
-        team_name: t.name,
-        played: 0,
-        wins: 0,
-        draws: 0,
-        losses: 0,
-        gf: 0,
-        ga: 0,
-        gd: 0,
-        pts: 0,
-      });
-    }
-
-    for (const m of matches) {
-      if (m.home_score == null || m.away_score == null) continue;
-
-      const home = byId.get(m.home_team_id);
-      const away = byId.get(m.away_team_id);
-
-      // ✅ Important: en mode poules, on ne compte que si les 2 équipes sont dans ce subset
-      if (!home || !away) continue;
-
-      home.played += 1;
-      away.played += 1;
-
-      home.gf += m.home_score;
-      home.ga += m.away_score;
-
-      away.gf += m.away_score;
-      away.ga += m.home_score;
-
-      if (m.home_score > m.away_score) {
-        home.wins += 1;
-        away.losses += 1;
-        home.pts += pointsWin;
-        away.pts += pointsLoss;
-      } else if (m.home_score < m.away_score) {
-        away.wins += 1;
-        home.losses += 1;
-        away.pts += pointsWin;
-        home.pts += pointsLoss;
-      } else {
-        home.draws += 1;
-        away.draws += 1;
-        home.pts += pointsDraw;
-        away.pts += pointsDraw;
-      }
-    }
-
-    const arr = Array.from(byId.values()).map((r) => ({
-      ...r,
-      gd: r.gf - r.ga,
-    }));
-
-    // Tri: points desc, diff buts desc, buts marqués desc, nom asc
-    arr.sort((a, b) => {
-      if (b.pts !== a.pts) return b.pts - a.pts;
-      if (b.gd !== a.gd) return b.gd - a.gd;
-      if (b.gf !== a.gf) return b.gf - a.gf;
-      return a.team_name.localeCompare(b.team_name);
-    });
-
-    return arr;
-  }
+  // ✅ Détection poules + noms (+ catégories: une table par poule de chaque catégorie)
+  const groupNames = useMemo(() => groupNamesOf(tournament), [tournament]);
+  const categories = useMemo(() => categoriesOf(tournament), [tournament]);
+  const withCategories = useMemo(() => hasCategories(tournament), [tournament]);
+
+  // ✅ Barème + départages du tournoi (mêmes règles que les exports et la phase finale)
+  const standingsOptions = useMemo(() => {
+    const groupMatchIds = new Set(matches.filter((m) => (m.phase ?? "group") !== "knockout").map((m) => m.id));
+    return {
+      ...standingsOptionsFromTournament(tournament),
+      fairPlay: fairPlayPointsByTeam(
+        cards.filter((c) => groupMatchIds.has(c.match_id)),
+        normalizeFairPlayPoints(tournament?.fair_play_points)
+      ),
+    };
+  }, [tournament, matches, cards]);
+
+  const rulesLabel = useMemo(() => {
+    const p = standingsOptions.points!;
+    const tb = standingsOptions.tiebreakers ?? [];
+    return {
+      points: `Victoire ${p.win} · Nul ${p.draw} · Défaite ${p.loss}`,
+      order: ["Pts ↓", ...tb.map((t) => TIEBREAKERS[t].short), "Nom ↑"].join(", "),
+    };
+  }, [standingsOptions]);
 
   // ✅ Standings global (mode normal) = inchangé
-  const standings = useMemo<StandingRow[]>(() => {
-    return computeStandingsForTeams(teams);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [teams, matches, pointsWin, pointsDraw, pointsLoss]);
+  const standings = useMemo<StandingRow[]>(
+    () => computeStandings(teams, matches, standingsOptions),
+    [teams, matches, standingsOptions]
+  );
 
-  // ✅ Standings par poule (si poules)
+  // ✅ Standings par poule (si poules) — même découpage que les exports et la phase finale
   const standingsByGroup = useMemo(() => {
-    if (!showGroups) return null;
-
-    const n = clampInt(Number(tournament?.group_count ?? 1), 1, 8);
-    if (n <= 1) return null;
-
-    const groups: { groupIdx: number; label: string; rows: StandingRow[]; teamCount: number }[] = [];
-
-    for (let g = 1; g <= n; g++) {
-      const label = groupNames[g - 1] ?? `Poule ${g}`;
-      const subset = teams.filter((t) => Number(t.group_idx ?? 0) === g);
-      const rows = computeStandingsForTeams(subset);
-      groups.push({ groupIdx: g, label, rows, teamCount: subset.length });
+    if (withCategories) return computeCategoryStandings(teams, matches, categories, standingsOptions);
+    if (groupNames.length <= 1) return null;
+    return computeGroupStandings(teams, matches, groupNames, standingsOptions);
+  }, [withCategories, categories, groupNames, teams, matches, standingsOptions]);
+
+  const playedCount = matches.filter(
+    (m) => m.home_score != null && m.away_score != null && (m.phase ?? "group") !== "knockout"
+  ).length;
+
+  // ✅ Phase finale: tours du plus grand au plus petit (quarts -> finale)
+  const knockoutRounds = useMemo(() => {
+    const byRound = new Map<number, KnockoutRow[]>();
+    for (const m of knockout) {
+      const r = Number(m.ko_round ?? 0);
+      if (!byRound.has(r)) byRound.set(r, []);
+      byRound.get(r)!.push(m);
     }
-
-    return groups;
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [showGroups, tournament, groupNames, teams, matches, pointsWin, pointsDraw, pointsLoss]);
-
-  const playedCount = matches.filter((m) => m.home_score != null && m.away_score != null).length;
+    return Array.from(byRound.entries())
+      .sort((a, b) => b[0] - a[0])
+      .map(([round, rows]) => ({ round, rows }));
+  }, [knockout]);
+
+  const knockoutGroupNames = (m: KnockoutRow) => knockoutGroupNamesOf(categoryOf(categories, m));
+
+  const showFairPlay = (standingsOptions.tiebreakers ?? []).includes("fair_play");
+
+  // ⚠️ Contestations en cours: le classement reste calculé, mais on signale les équipes concernées
+  const disputedMatches = useMemo(() => [...matches, ...knockout].filter((m) => isDisputed(m)), [matches, knockout]);
+  const disputedTeamIds = useMemo(() => {
+    const ids = new Set<string>();
+    for (const m of disputedMatches) {
+      if (m.home_team_id) ids.add(m.home_team_id);
+      if (m.away_team_id) ids.add(m.away_team_id);
+    }
+    return ids;
+  }, [disputedMatches]);
 
   function StandingsTable({ rows }: { rows: StandingRow[] }) {
     return (
@@ -323,13 +285,33 @@ export default function StandingsPage() {
               <th className="py-2 pr-3">BP</th>
               <th className="py-2 pr-3">BC</th>
               <th className="py-2 pr-3">Diff</th>
+              {showFairPlay && (
+                <th className="py-2 pr-3" title="Points fair-play (cartons): plus bas = mieux">
+                  FP
+                </th>
+              )}
             </tr>
           </thead>
           <tbody>
             {rows.map((r, idx) => (
               <tr key={r.team_id} className="border-b last:border-0">
                 <td className="py-2 pr-3 font-semibold">{idx + 1}</td>
-                <td className="py-2 pr-3">{r.team_name}</td>
+                <td className="py-2 pr-3">
+                  {r.team_name}
+                  {disputedTeamIds.has(r.team_id) && (
+                    <span className="ml-1 cursor-help" title="Un match de cette équipe est contesté">
+                      ⚠️
+                    </span>
+                  )}
+                  {r.tiebreak && (
+                    <span
+                      className="ml-2 text-[11px] font-semibold px-2 py-[1px] rounded bg-amber-50 text-amber-800 border border-amber-200 cursor-help whitespace-nowrap"
+                      title={tiebreakExplanation(r)}
+                    >
+                      ⚖️ {r.tiebreak.criterion === "name" ? "Nom" : TIEBREAKERS[r.tiebreak.criterion].short}
+                    </span>
+                  )}
+                </td>
                 <td className="py-2 pr-3 font-bold">{r.pts}</td>
                 <td className="py-2 pr-3">{r.played}</td>
                 <td className="py-2 pr-3">{r.wins}</td>
@@ -338,6 +320,7 @@ export default function StandingsPage() {
                 <td className="py-2 pr-3">{r.gf}</td>
                 <td className="py-2 pr-3">{r.ga}</td>
                 <td className="py-2 pr-3 font-semibold">{r.gd}</td>
+                {showFairPlay && <td className="py-2 pr-3">{r.fair_play}</td>}
               </tr>
             ))}
           </tbody>
@@ -390,56 +373,50 @@ export default function StandingsPage() {
 
         {status && <div className="bg-white rounded-xl shadow p-4 text-gray-700">{status}</div>}
 
+        {disputedMatches.length > 0 && (
+          <div className="bg-orange-50 border border-orange-200 rounded-xl shadow p-4 text-sm text-orange-900">
+            <div className="font-semibold">
+              {DISPUTE_BADGE}: {disputedMatches.length} résultat{disputedMatches.length > 1 ? "s" : ""} en attente de décision
+            </div>
+            <ul className="mt-1 space-y-[2px]">
+              {disputedMatches.map((m) => (
+                <li key={m.id}>
+                  {m.home?.name ?? "À déterminer"} {m.home_score ?? ""} - {m.away_score ?? ""} {m.away?.name ?? "À déterminer"}
+                  {m.dispute_reason ? ` · ${m.dispute_reason}` : ""}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="bg-white rounded-xl shadow p-6">
           <div className="flex items-center justify-between flex-wrap gap-3 mb-4">
-            <h2 className="font-semibold">Paramètres points</h2>
+            <h2 className="font-semibold">Barème</h2>
 
             <div className="flex items-center gap-3 text-sm">
-              <label className="flex items-center gap-2">
-                Victoire
-                <input
-                  type="number"
-                  className="w-16 border rounded px-2 py-1"
-                  value={pointsWin}
-                  onChange={(e) => setPointsWin(Number(e.target.value))}
-                />
-              </label>
-
-              <label className="flex items-center gap-2">
-                Nul
-                <input
-                  type="number"
-                  className="w-16 border rounded px-2 py-1"
-                  value={pointsDraw}
-                  onChange={(e) => setPointsDraw(Number(e.target.value))}
-                />
-              </label>
-
-              <label className="flex items-center gap-2">
-                Défaite
-                <input
-                  type="number"
-                  className="w-16 border rounded px-2 py-1"
-                  value={pointsLoss}
-                  onChange={(e) => setPointsLoss(Number(e.target.value))}
-                />
-              </label>
+              <span className="text-gray-700">{rulesLabel.points}</span>
+              <button
+                onClick={() => router.push(`/dashboard/tournaments/${tournamentId}/settings`)}
+                className="bg-gray-200 px-3 py-1 rounded-lg hover:bg-gray-300 transition"
+              >
+                Modifier
+              </button>
             </div>
           </div>
 
           {/* ✅ SI plusieurs poules : une table par poule (nom personnalisé) */}
           {standingsByGroup ? (
             <div className="space-y-4">
-              {standingsByGroup.map((g) => (
-                <div key={g.groupIdx} className="border rounded-lg p-4">
+              {standingsByGroup.map((g, i) => (
+                <div key={i} className="border rounded-lg p-4">
                   <div className="flex items-center justify-between flex-wrap gap-2 mb-3">
                     <div className="font-extrabold text-lg">📍 {g.label}</div>
                     <div className="text-xs text-gray-500 font-semibold">
-                      Équipes: <strong>{g.teamCount}</strong>
+                      Équipes: <strong>{g.rows.length}</strong>
                     </div>
                   </div>
 
-                  {g.teamCount === 0 ? (
+                  {g.rows.length === 0 ? (
                     <div className="text-sm text-gray-500">Aucune équipe dans cette poule.</div>
                   ) : (
                     <StandingsTable rows={g.rows} />
@@ -453,7 +430,7 @@ export default function StandingsPage() {
               <StandingsTable rows={standings} />
 
               <p className="text-xs text-gray-400 mt-3">
-                Tri automatique: Pts ↓, Diff ↓, BP ↓, Nom ↑. (On ajoutera confrontation directe ensuite si tu veux.)
+                Tri automatique: {rulesLabel.order}. ⚖️ = place décidée par un critère de départage (survoler pour le détail).
               </p>
             </>
           )}
@@ -461,11 +438,73 @@ export default function StandingsPage() {
           {/* Dans le mode poules aussi, on garde la note de tri */}
           {standingsByGroup && (
             <p className="text-xs text-gray-400 mt-3">
-              Tri automatique (par poule): Pts ↓, Diff ↓, BP ↓, Nom ↑. (On ajoutera confrontation directe ensuite si tu veux.)
+              Tri automatique (par poule): {rulesLabel.order}. ⚖️ = place décidée par un critère de départage (survoler pour
+              le détail).
             </p>
           )}
         </div>
 
+        {categories.some((c) => c.knockout_enabled) && (
+          <div className="bg-white rounded-xl shadow p-6">
+            <h2 className="font-semibold mb-1">🏆 Phase finale</h2>
+            <p className="text-xs text-gray-500 mb-4">
+              Les qualifiés sont placés automatiquement quand tous les matchs de poule sont validés, puis les vainqueurs
+              avancent à chaque validation.
+            </p>
+
+            {knockoutRounds.length === 0 ? (
+              <div className="text-sm text-gray-500">Aucun match de phase finale. Génère le planning dans “Planning”.</div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                {knockoutRounds.map(({ round, rows }) => (
+                  <div key={round} className="space-y-2">
+                    <div className="font-extrabold text-sm">{roundLabel(round)}</div>
+                    {rows.map((m) => {
+                      const played = (m.status ?? "").toLowerCase() === "played";
+                      const winner = played ? matchOutcome(m) : null;
+                      const pens = m.decided_by === "penalties" && m.home_penalties != null && m.away_penalties != null;
+                      return (
+                        <div
+                          key={m.id}
+                          className={`border rounded-lg p-2 text-sm ${
+                            isDisputed(m) ? "bg-orange-50 border-orange-300" : played ? "bg-green-50 border-green-200" : "bg-white"
+                          }`}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className={`truncate ${winner === "home" ? "font-bold" : ""}`}>
+                              {m.home?.name ?? sourceLabel(m.home_source, knockoutGroupNames(m))}
+                            </span>
+                            <span className="font-bold tabular-nums">
+                              {played ? m.home_score ?? "" : ""}
+                              {played && pens ? ` (${m.home_penalties})` : ""}
+                            </span>
+                          </div>
+                          <div className="flex items-center justify-between gap-2">
+                            <span className={`truncate ${winner === "away" ? "font-bold" : ""}`}>
+                              {m.away?.name ?? sourceLabel(m.away_source, knockoutGroupNames(m))}
+                            </span>
+                            <span className="font-bold tabular-nums">
+                              {played ? m.away_score ?? "" : ""}
+                              {played && pens ? ` (${m.away_penalties})` : ""}
+                            </span>
+                          </div>
+                          {categoryOf(categories, m).name && (
+                            <div className="text-[11px] text-gray-500">🏷️ {categoryOf(categories, m).name}</div>
+                          )}
+                          {isDisputed(m) && <div className="text-[11px] font-bold text-orange-800">{DISPUTE_BADGE}</div>}
+                          {played && decidedBySuffix(m.decided_by) && (
+                            <div className="text-[11px] text-gray-500 text-right">{decidedBySuffix(m.decided_by)}</div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="flex justify-end">
           <button onClick={() => router.back()} className="px-4 py-2 bg-gray-300 rounded">
             Retour
@@ -3,42 +3,37 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "../../../../../lib/supabaseClient";
-
-type MatchRow = {
-  id: string;
-  status: string;
-};
-
-type TeamRow = {
-  id: string;
-  name: string;
-};
-
-type PlayerRow = {
-  id: string;
-  team_id: string;
-  first_name: string | null;
-  last_name: string | null;
-  jersey_number: number | null;
-  team: { name: string } | null;
-};
-
-type EventRow = {
-  id: string;
-  match_id: string;
-  player_id: string | null;
-  team_id: string | null;
-  event_type: string;
-};
+import {
+  computeFairPlay,
+  DEFAULT_FAIR_PLAY_POINTS,
+  normalizeFairPlayPoints,
+  type FairPlayPoints,
+} from "../../../../../lib/domain/fairPlay";
+import type { Player, Team } from "../../../../../lib/domain/models";
+import { isScorerEvent } from "../../../../../lib/domain/events";
+import {
+  getTournament,
+  listMatchEvents,
+  listMatches,
+  listPlayers,
+  listTeams,
+  type MatchEventWithPeople,
+} from "../../../../../lib/repository";
+
+type TeamRow = Team;
+type PlayerRow = Player;
+type EventRow = MatchEventWithPeople;
 
 type StatRow = {
   player_id: string;
   player_name: string;
   team_name: string;
   jersey_number: number | null;
-  goals: number;
+  goals: number; // penalties marqués inclus
   assists: number;
+  saves: number;
   yellows: number;
+  blues: number;
   reds: number;
   contrib: number; // goals + assists
 };
@@ -60,6 +55,8 @@ export default function StatsPage() {
   const [players, setPlayers] = useState<PlayerRow[]>([]);
   const [events, setEvents] = useState<EventRow[]>([]);
   const [filterTeamId, setFilterTeamId] = useState<string>("ALL");
+  const [fairPlayPoints, setFairPlayPoints] = useState<FairPlayPoints>(DEFAULT_FAIR_PLAY_POINTS);
+  const [playedCount, setPlayedCount] = useState(0);
 
   useEffect(() => {
     async function load() {
@@ -76,45 +73,38 @@ export default function StatsPage() {
   async function refreshAll() {
     setStatus("Chargement...");
 
+    // Barème fair-play (Paramètres)
+    const { data: trData } = await getTournament(tournamentId);
+    setFairPlayPoints(normalizeFairPlayPoints(trData?.fair_play_points));
+
     // Teams
-    const { data: tData, error: tErr } = await supabase
-      .from("teams")
-      .select("id,name")
-      .eq("tournament_id", tournamentId)
-      .order("name", { ascending: true });
+    const { data: tData, error: tErr } = await listTeams(tournamentId);
 
     if (tErr) {
       setStatus("Erreur teams: " + tErr.message);
       return;
     }
-    setTeams((tData ?? []) as any);
+    setTeams(tData ?? []);
 
-    // Players (avec team name)
-    const { data: pData, error: pErr } = await supabase
-      .from("players")
-      .select("id,team_id,first_name,last_name,jersey_number,team:team_id(name)")
-      .eq("tournament_id", tournamentId)
-      .order("team_id", { ascending: true });
+    // Players
+    const { data: pData, error: pErr } = await listPlayers(tournamentId);
 
     if (pErr) {
       setStatus("Erreur players: " + pErr.message);
       return;
     }
-    setPlayers((pData ?? []) as any);
+    setPlayers(pData ?? []);
 
     // Matches played -> ids
-    const { data: mData, error: mErr } = await supabase
-      .from("matches")
-      .select("id,status")
-      .eq("tournament_id", tournamentId)
-      .eq("status", "played");
+    const { data: mData, error: mErr } = await listMatches(tournamentId, { status: "played" });
 
     if (mErr) {
       setStatus("Erreur matches: " + mErr.message);
       return;
     }
 
-    const playedIds = ((mData ?? []) as any as MatchRow[]).map((m) => m.id);
+    const playedIds = (mData ?? []).map((m) => m.id);
+    setPlayedCount(playedIds.length);
     if (playedIds.length === 0) {
       setEvents([]);
       setStatus("");
@@ -122,33 +112,33 @@ export default function StatsPage() {
     }
 
     // Events sur les matchs validés uniquement (MVP inclus en DB, mais on l’ignore dans le calcul)
-    const { data: eData, error: eErr } = await supabase
-      .from("match_events")
-      .select("id,match_id,player_id,team_id,event_type")
-      .in("match_id", playedIds);
+    const { data: eData, error: eErr } = await listMatchEvents({ matchIds: playedIds });
 
     if (eErr) {
       setStatus("Erreur events: " + eErr.message);
       return;
     }
 
-    setEvents((eData ?? []) as any);
+    setEvents(eData ?? []);
     setStatus("");
   }
 
   const stats = useMemo<StatRow[]>(() => {
     const byPlayer = new Map<string, StatRow>();
+    const teamName = new Map(teams.map((t) => [t.id, t.name ?? "Équipe"]));
 
     // init: tous les joueurs (même ceux à 0)
     for (const p of players) {
       byPlayer.set(p.id, {
         player_id: p.id,
         player_name: formatPlayerName(p),
-        team_name: p.team?.name ?? "Équipe",
+        team_name: teamName.get(p.team_id) ?? "Équipe",
         jersey_number: p.jersey_number,
         goals: 0,
         assists: 0,
+        saves: 0,
         yellows: 0,
+        blues: 0,
         reds: 0,
         contrib: 0,
       });
@@ -163,9 +153,11 @@ export default function StatsPage() {
       const row = byPlayer.get(e.player_id);
       if (!row) continue;
 
-      if (type === "goal") row.goals += 1;
+      if (isScorerEvent(type)) row.goals += 1;
       else if (type === "assist") row.assists += 1;
+      else if (type === "save") row.saves += 1;
       else if (type === "yellow") row.yellows += 1;
+      else if (type === "blue_card") row.blues += 1;
       else if (type === "red") row.reds += 1;
     }
 
@@ -184,7 +176,7 @@ export default function StatsPage() {
 
     // on affiche surtout ceux qui ont au moins une stat,
     // mais tu peux commenter cette ligne si tu veux afficher tout le monde
-    const nonZero = filtered.filter((r) => r.contrib + r.yellows + r.reds > 0);
+    const nonZero = filtered.filter((r) => r.contrib + r.saves + r.yellows + r.blues + r.reds > 0);
 
     // tri: buts desc, passes desc, contrib desc, jaunes asc, rouges asc, nom asc
     nonZero.sort((a, b) => {
@@ -197,7 +189,16 @@ export default function StatsPage() {
     });
 
     return nonZero;
-  }, [events, players, filterTeamId]);
+  }, [events, players, teams, filterTeamId]);
+
+  // ✅ Fair-play par équipe (cartons joueurs + staff)
+  const fairPlay = useMemo(() => computeFairPlay(teams, events, fairPlayPoints), [teams, events, fairPlayPoints]);
+
+  const fairPlayWinners = useMemo(() => {
+    if (playedCount === 0 || fairPlay.length === 0) return [];
+    const best = fairPlay[0].points;
+    return fairPlay.filter((r) => r.points === best).map((r) => r.team_name);
+  }, [fairPlay, playedCount]);
 
   function jerseyText(n: number | null) {
     return n == null ? "" : `#${n}`;
@@ -287,7 +288,9 @@ export default function StatsPage() {
                     <th className="py-2 pr-3">Équipe</th>
                     <th className="py-2 pr-3">⚽️</th>
                     <th className="py-2 pr-3">🎯</th>
+                    <th className="py-2 pr-3">🧤</th>
                     <th className="py-2 pr-3">🟡</th>
+                    <th className="py-2 pr-3">🔵</th>
                     <th className="py-2 pr-3">🔴</th>
                     <th className="py-2 pr-3">Contrib.</th>
                   </tr>
@@ -303,7 +306,9 @@ export default function StatsPage() {
                       <td className="py-2 pr-3 text-gray-700">{r.team_name}</td>
                       <td className="py-2 pr-3 font-bold">{r.goals}</td>
                       <td className="py-2 pr-3 font-bold">{r.assists}</td>
+                      <td className="py-2 pr-3">{r.saves}</td>
                       <td className="py-2 pr-3">{r.yellows}</td>
+                      <td className="py-2 pr-3">{r.blues}</td>
                       <td className="py-2 pr-3">{r.reds}</td>
                       <td className="py-2 pr-3 font-semibold">{r.contrib}</td>
                     </tr>
@@ -318,6 +323,53 @@ export default function StatsPage() {
           </p>
         </div>
 
+        <div className="bg-white rounded-xl shadow p-6 space-y-4">
+          <div className="flex items-center justify-between flex-wrap gap-3">
+            <h2 className="font-semibold">🤝 Fair-play</h2>
+            {fairPlayWinners.length > 0 && (
+              <div className="text-sm font-bold text-green-700">🏅 Prix du fair-play: {fairPlayWinners.join(", ")}</div>
+            )}
+          </div>
+
+          {fairPlay.length === 0 ? (
+            <div className="text-gray-600">Aucune équipe.</div>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-3">#</th>
+                    <th className="py-2 pr-3">Équipe</th>
+                    <th className="py-2 pr-3">🟡</th>
+                    <th className="py-2 pr-3">🟡🟡</th>
+                    <th className="py-2 pr-3">🔴</th>
+                    <th className="py-2 pr-3">Staff</th>
+                    <th className="py-2 pr-3">Pts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fairPlay.map((r, idx) => (
+                    <tr key={r.team_id} className="border-b last:border-0">
+                      <td className="py-2 pr-3 font-semibold">{idx + 1}</td>
+                      <td className="py-2 pr-3">{r.team_name}</td>
+                      <td className="py-2 pr-3">{r.yellows}</td>
+                      <td className="py-2 pr-3">{r.second_yellows}</td>
+                      <td className="py-2 pr-3">{r.reds}</td>
+                      <td className="py-2 pr-3">{r.staff_cards}</td>
+                      <td className="py-2 pr-3 font-bold">{r.points}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-400">
+            Barème: 🟡 {fairPlayPoints.yellow} · 2e 🟡 +{fairPlayPoints.second_yellow} · 🔴 direct {fairPlayPoints.red} · carton
+            staff {fairPlayPoints.staff}. Moins de points = meilleur fair-play.
+          </p>
+        </div>
+
         <div className="flex justify-end">
           <button onClick={() => router.back()} className="px-4 py-2 bg-gray-300 rounded">
             Retour
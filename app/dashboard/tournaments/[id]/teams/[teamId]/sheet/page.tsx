@@ -3,37 +3,36 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import type { TablesInsert } from "@/lib/database.types";
+import {
+  getMyRole,
+  getTeam,
+  getTournament,
+  insertPlayers,
+  listMatchEvents,
+  listMatches,
+  listPlayers,
+  updateTeam,
+  upsertPlayers,
+  type MatchWithTeams,
+} from "@/lib/repository";
+import { ADMIN_ONLY_MESSAGE, canManage, normalizeRole } from "@/lib/domain/roles";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
-
-type TournamentRow = {
-  id: string;
-  title: string | null;
-  created_at: string | null;
-  date?: string | null;
-  max_players_per_team: number | null;
-};
-
-type TeamRow = {
-  id: string;
-  name: string | null;
-  email: string | null;
-  colors: string[] | null;
-  logo_svg: string | null;
-  jersey_style: number | null;
-  jersey_svg: string | null;
-  staff: any[] | null;
-};
-
-type PlayerRow = {
-  id: string;
-  team_id: string;
-  first_name: string | null;
-  last_name: string | null;
-  jersey_number: number | null;
-  license_number: string | null;
-  birth_date?: string | null; // en base: plutôt YYYY-MM-DD
-};
+import {
+  computeSuspensions,
+  normalizeSuspensionRules,
+  suspensionReasonLabel,
+  type Suspension,
+} from "@/lib/domain/suspensions";
+import type { Player, Team, Tournament } from "@/lib/domain/models";
+import { timeHHMM } from "@/lib/domain/time";
+import { clean } from "@/lib/domain/utils";
+
+type TournamentRow = Tournament;
+type TeamRow = Team;
+type PlayerRow = Player; // birth_date en base: plutôt YYYY-MM-DD
+type MatchRow = MatchWithTeams;
 
 type StaffRow = {
   first_name: string;
@@ -54,8 +53,11 @@ type PlayerForm = {
   birth_date: string; // UI: JJ/MM/AAAA (ou YYYY-MM-DD accepté)
 };
 
-function clean(s: string) {
-  return (s ?? "").trim();
+/** Base sans la colonne players.birth_date (ancien schéma): même ligne, sans la date. */
+function withoutBirthDate(p: TablesInsert<"players">) {
+  const rest = { ...p };
+  delete rest.birth_date;
+  return rest;
 }
 
 function safeParseDate(iso: string | null | undefined) {
@@ -237,6 +239,10 @@ export default function TeamSheetPage() {
   const [busySavePlayers, setBusySavePlayers] = useState(false);
   const [busyPdf, setBusyPdf] = useState(false);
 
+  // ✅ Suspensions (matchs à venir de l'équipe)
+  const [matches, setMatches] = useState<MatchRow[]>([]);
+  const [suspensions, setSuspensions] = useState<Suspension[]>([]);
+
   const maxPlayers = useMemo(() => {
     const v = tournament?.max_players_per_team;
     if (typeof v === "number" && v > 0) return v;
@@ -246,7 +252,7 @@ export default function TeamSheetPage() {
   const [c1, c2, c3] = useMemo(() => chooseColors(team?.colors ?? null), [team?.colors]);
 
   const tournamentDate = useMemo(() => {
-    const d = safeParseDate((tournament as any)?.date ?? tournament?.created_at ?? null);
+    const d = safeParseDate(tournament?.tournament_date ?? tournament?.created_at ?? null);
     return prettyDateFR(d);
   }, [tournament]);
 
@@ -268,26 +274,13 @@ export default function TeamSheetPage() {
       const { data: userData } = await supabase.auth.getUser();
       if (!userData.user) return router.push("/login");
 
+      const { data: myRole } = await getMyRole(tournamentId);
+      if (!canManage(normalizeRole(myRole))) return setStatus(ADMIN_ONLY_MESSAGE);
+
       setStatus("Chargement...");
 
       // tournoi
-      let tRes = await supabase
-        .from("tournaments")
-        .select("id,title,created_at,date,max_players_per_team")
-        .eq("id", tournamentId)
-        .single();
-
-      if (
-        tRes.error &&
-        String(tRes.error.message).includes("column") &&
-        String(tRes.error.message).includes("date")
-      ) {
-        tRes = await supabase
-          .from("tournaments")
-          .select("id,title,created_at,max_players_per_team")
-          .eq("id", tournamentId)
-          .single();
-      }
+      const tRes = await getTournament(tournamentId);
 
       if (tRes.error) {
         setStatus("Erreur tournoi: " + tRes.error.message);
@@ -295,11 +288,7 @@ export default function TeamSheetPage() {
       }
 
       // équipe
-      const teamRes = await supabase
-        .from("teams")
-        .select("id,name,email,colors,logo_svg,jersey_style,jersey_svg,staff")
-        .eq("id", teamId)
-        .single();
+      const teamRes = await getTeam(teamId);
 
       if (teamRes.error) {
         setStatus("Erreur équipe: " + teamRes.error.message);
@@ -307,38 +296,16 @@ export default function TeamSheetPage() {
       }
 
       // joueurs
-      // ✅ FIX BUILD: pRes typé en any pour autoriser fallback sans birth_date (sinon TS bloque en build)
-      let pRes: any = await supabase
-        .from("players")
-        .select("id,team_id,first_name,last_name,jersey_number,license_number,birth_date")
-        .eq("tournament_id", tournamentId)
-        .eq("team_id", teamId)
-        .order("jersey_number", { ascending: true });
-
-      if (
-        pRes.error &&
-        String(pRes.error.message).includes("column") &&
-        String(pRes.error.message).toLowerCase().includes("birth")
-      ) {
-        setSupportsBirthDate(false);
-        pRes = await supabase
-          .from("players")
-          .select("id,team_id,first_name,last_name,jersey_number,license_number")
-          .eq("tournament_id", tournamentId)
-          .eq("team_id", teamId)
-          .order("jersey_number", { ascending: true });
-      } else {
-        setSupportsBirthDate(true);
-      }
+      const pRes = await listPlayers(tournamentId, teamId);
 
       if (pRes.error) {
         setStatus("Erreur joueurs: " + pRes.error.message);
         return;
       }
 
-      const tRow = (tRes.data ?? null) as any as TournamentRow;
-      const teamRow = (teamRes.data ?? null) as any as TeamRow;
-      const pRows = ((pRes.data ?? []) as any) as PlayerRow[];
+      const tRow = tRes.data;
+      const teamRow = teamRes.data;
+      const pRows = pRes.data ?? [];
 
       setTournament(tRow);
       setTeam(teamRow);
@@ -351,7 +318,7 @@ export default function TeamSheetPage() {
         first_name: p.first_name ?? "",
         license_number: p.license_number ?? "",
         no_license: !clean(p.license_number ?? ""),
-        birth_date: displayBirthDate((p as any)?.birth_date ?? ""),
+        birth_date: displayBirthDate(p.birth_date ?? ""),
       }));
 
       setPlayerForms(
@@ -362,7 +329,7 @@ export default function TeamSheetPage() {
       );
 
       // staff
-      const sArr = (teamRes.data as any)?.staff;
+      const sArr = teamRow.staff as Partial<StaffRow>[] | null;
       if (Array.isArray(sArr)) {
         const next = Array.from({ length: 5 }).map((_, i) => {
           const x = sArr[i] || {};
@@ -378,6 +345,8 @@ export default function TeamSheetPage() {
         setStaff(next);
       }
 
+      await loadSuspensions();
+
       setStatus("");
     }
 
@@ -385,12 +354,68 @@ export default function TeamSheetPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [router, tournamentId, teamId]);
 
+  async function loadSuspensions() {
+    const { data: tData, error: tErr } = await getTournament(tournamentId);
+
+    if (tErr) {
+      setStatus("Erreur règles suspensions: " + tErr.message);
+      return;
+    }
+
+    const { data: mData, error: mErr } = await listMatches(tournamentId);
+
+    if (mErr) {
+      setStatus("Erreur matchs: " + mErr.message);
+      return;
+    }
+
+    const { data: cards, error: cErr } = await listMatchEvents({ tournamentId, types: ["yellow", "red"] });
+
+    if (cErr) {
+      setStatus("Erreur cartons: " + cErr.message);
+      return;
+    }
+
+    const rows = mData ?? [];
+    setMatches(rows);
+    setSuspensions(
+      computeSuspensions(rows, cards ?? [], normalizeSuspensionRules(tData?.suspension_rules)).filter(
+        (s) => s.team_id === teamId
+      )
+    );
+  }
+
+  // suspensions pas encore (entièrement) purgées: au moins un match à venir
+  const pendingSuspensions = useMemo(() => {
+    const matchById = new Map(matches.map((m) => [m.id, m]));
+    return suspensions
+      .map((s) => ({
+        ...s,
+        upcoming: s.match_ids
+          .map((id) => matchById.get(id))
+          .filter((m): m is MatchRow => m != null && (m.status ?? "").toLowerCase() !== "played"),
+      }))
+      .filter((s) => s.upcoming.length > 0);
+  }, [suspensions, matches]);
+
+  function playerLabel(playerId: string) {
+    const p = playersFromDb.find((x) => x.id === playerId);
+    if (!p) return "Joueur";
+    return `#${p.jersey_number ?? "-"} ${clean(p.first_name ?? "")} ${clean(p.last_name ?? "")}`.trim();
+  }
+
+  function opponentLabel(m: MatchRow) {
+    const opp = m.home_team_id === teamId ? m.away?.name : m.home?.name;
+    const t = timeHHMM(m.start_time, "");
+    return `vs ${opp ?? "À déterminer"}${t ? ` (${t})` : ""}`;
+  }
+
   useEffect(() => {
     setPlayerForms((prev) => ensureFormsLength(prev, maxPlayers));
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [maxPlayers]);
 
-  function setStaffField(i: number, k: keyof StaffRow, v: any) {
+  function setStaffField<K extends keyof StaffRow>(i: number, k: K, v: StaffRow[K]) {
     setStaff((prev) => {
       const next = [...prev];
       next[i] = { ...next[i], [k]: v };
@@ -399,11 +424,11 @@ export default function TeamSheetPage() {
     });
   }
 
-  function setPlayerField(i: number, k: keyof PlayerForm, v: any) {
+  function setPlayerField<K extends keyof PlayerForm>(i: number, k: K, v: PlayerForm[K]) {
     setPlayerForms((prev) => {
       const next = [...prev];
       const row = { ...next[i] };
-      (row as any)[k] = v;
+      row[k] = v;
       if (k === "no_license" && v === true) row.license_number = "";
       next[i] = row;
       return next;
@@ -411,36 +436,14 @@ export default function TeamSheetPage() {
   }
 
   async function reloadPlayers() {
-    // ✅ FIX BUILD: any pour permettre fallback
-    let pRes: any = await supabase
-      .from("players")
-      .select("id,team_id,first_name,last_name,jersey_number,license_number,birth_date")
-      .eq("tournament_id", tournamentId)
-      .eq("team_id", teamId)
-      .order("jersey_number", { ascending: true });
-
-    if (
-      pRes.error &&
-      String(pRes.error.message).includes("column") &&
-      String(pRes.error.message).toLowerCase().includes("birth")
-    ) {
-      setSupportsBirthDate(false);
-      pRes = await supabase
-        .from("players")
-        .select("id,team_id,first_name,last_name,jersey_number,license_number")
-        .eq("tournament_id", tournamentId)
-        .eq("team_id", teamId)
-        .order("jersey_number", { ascending: true });
-    } else {
-      setSupportsBirthDate(true);
-    }
+    const pRes = await listPlayers(tournamentId, teamId);
 
     if (pRes.error) {
       setStatus("Erreur reload joueurs: " + pRes.error.message);
       return;
     }
 
-    const pRows = ((pRes.data ?? []) as any) as PlayerRow[];
+    const pRows = pRes.data ?? [];
     setPlayersFromDb(pRows);
 
     const forms: PlayerForm[] = pRows.map((p) => ({
@@ -450,7 +453,7 @@ export default function TeamSheetPage() {
       first_name: p.first_name ?? "",
       license_number: p.license_number ?? "",
       no_license: !clean(p.license_number ?? ""),
-      birth_date: displayBirthDate((p as any)?.birth_date ?? ""),
+      birth_date: displayBirthDate(p.birth_date ?? ""),
     }));
 
     setPlayerForms((prev) => (prev.some(hasAnyPlayerData) ? prev : ensureFormsLength(forms, maxPlayers)));
@@ -470,7 +473,7 @@ export default function TeamSheetPage() {
       phone: clean(s.phone),
     }));
 
-    const { error } = await supabase.from("teams").update({ staff: payload }).eq("id", teamId);
+    const { error } = await updateTeam(teamId, { staff: payload });
 
     if (error) {
       setStatus("Erreur sauvegarde encadrement: " + error.message);
@@ -487,8 +490,8 @@ export default function TeamSheetPage() {
     setBusySavePlayers(true);
     setStatus("");
 
-    const updates: any[] = [];
-    const inserts: any[] = [];
+    const updates: TablesInsert<"players">[] = [];
+    const inserts: TablesInsert<"players">[] = [];
 
     // Validation + conversion date
     for (let idx = 0; idx < playerForms.length; idx++) {
@@ -499,10 +502,10 @@ export default function TeamSheetPage() {
 
       const jerseyNum = clean(row.jersey_number) ? Number(row.jersey_number) : null;
 
-      const payloadBase: any = {
+      const payloadBase: TablesInsert<"players"> = {
         tournament_id: tournamentId,
         team_id: teamId,
-        jersey_number: Number.isFinite(jerseyNum as any) ? jerseyNum : null,
+        jersey_number: jerseyNum != null && Number.isFinite(jerseyNum) ? jerseyNum : null,
         last_name: clean(row.last_name) || null,
         first_name: clean(row.first_name) || null,
         license_number: row.no_license ? null : clean(row.license_number) || null,
@@ -523,13 +526,13 @@ export default function TeamSheetPage() {
     }
 
     if (updates.length > 0) {
-      const { error: upErr } = await supabase.from("players").upsert(updates, { onConflict: "id" });
+      const { error: upErr } = await upsertPlayers(updates);
       if (upErr) {
         const msg = String(upErr.message || "");
         if (msg.includes("column") && msg.toLowerCase().includes("birth")) {
           setSupportsBirthDate(false);
-          const stripped = updates.map(({ birth_date, ...rest }) => rest);
-          const { error: upErr2 } = await supabase.from("players").upsert(stripped, { onConflict: "id" });
+          const stripped = updates.map(withoutBirthDate);
+          const { error: upErr2 } = await upsertPlayers(stripped);
           if (upErr2) {
             setStatus("Erreur sauvegarde joueurs: " + upErr2.message);
             setBusySavePlayers(false);
@@ -544,13 +547,13 @@ export default function TeamSheetPage() {
     }
 
     if (inserts.length > 0) {
-      const { error: inErr } = await supabase.from("players").insert(inserts);
+      const { error: inErr } = await insertPlayers(inserts);
       if (inErr) {
         const msg = String(inErr.message || "");
         if (msg.includes("column") && msg.toLowerCase().includes("birth")) {
           setSupportsBirthDate(false);
-          const stripped = inserts.map(({ birth_date, ...rest }: any) => rest);
-          const { error: inErr2 } = await supabase.from("players").insert(stripped);
+          const stripped = inserts.map(withoutBirthDate);
+          const { error: inErr2 } = await insertPlayers(stripped);
           if (inErr2) {
             setStatus("Erreur insert joueurs: " + inErr2.message);
             setBusySavePlayers(false);
@@ -625,7 +628,7 @@ export default function TeamSheetPage() {
       alternateRowStyles: { fillColor: [245, 245, 245] },
     });
 
-    const afterPlayersY = (doc as any).lastAutoTable?.finalY ?? 162;
+    const afterPlayersY = (doc as unknown as { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? 162;
 
     doc.setFont("helvetica", "bold");
     doc.setFontSize(12);
@@ -688,6 +691,21 @@ export default function TeamSheetPage() {
           </div>
         </div>
 
+        {/* SUSPENSIONS */}
+        {pendingSuspensions.length > 0 && (
+          <div className="bg-white rounded-xl shadow p-6 space-y-2 border-l-4 border-red-600">
+            <h2 className="font-semibold">⛔ Joueurs suspendus</h2>
+            {pendingSuspensions.map((s, i) => (
+              <div key={`${s.player_id}-${i}`} className="text-sm flex items-center justify-between gap-3 flex-wrap">
+                <span className="font-semibold">{playerLabel(s.player_id)}</span>
+                <span className="text-gray-600">
+                  {suspensionReasonLabel(s)} · {s.upcoming.map(opponentLabel).join(", ")}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* JOUEURS */}
         <div className="bg-white rounded-xl shadow p-6 space-y-3">
           <div className="flex items-center justify-between flex-wrap gap-2">
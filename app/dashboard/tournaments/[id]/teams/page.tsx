@@ -3,31 +3,20 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { deleteTeam, getMyRole, getTournament, insertTeam, listTeams, updateTeam } from "@/lib/repository";
+import { ADMIN_ONLY_MESSAGE, canManage, normalizeRole } from "@/lib/domain/roles";
+import type { TablesInsert } from "@/lib/database.types";
+import type { Team, Tournament } from "@/lib/domain/models";
+import { fieldNamesOf, groupCountOf, groupNamesOf, isGroupFormat, teamGroupIdx } from "@/lib/domain/tournament";
+import { categoriesOf, categoryIdOrNull, categoryOf, categoryPrefix, hasCategories, inCategory } from "@/lib/domain/categories";
+import { normHHMM } from "@/lib/domain/time";
+import { clampInt, clean } from "@/lib/domain/utils";
 
-type TournamentRow = {
-  id: string;
-  title: string | null;
-  max_teams: number | null;
+type TournamentRow = Tournament;
+type TeamRow = Team; // group_idx: 1..group_count, group_manual: false => "restante"
 
-  format: string | null; // "round_robin" | "groups_round_robin"
-  group_count: number | null; // 1..8
-  group_names: string[] | null;
-};
-
-type TeamRow = {
-  id: string;
-  name: string | null;
-  email: string | null;
-  colors: string[] | null;
-  jersey_style: number | null;
-  logo_svg: string | null;
-  jersey_svg: string | null;
-
-  group_idx: number | null; // 1..group_count
-  group_manual: boolean | null; // false => "restante"
-
-  created_at?: string | null;
-};
+// Contraintes de planning d'une équipe (édition)
+type ConstraintsDraft = { from: string; until: string; fields: number[]; sharesWith: string };
 
 const COLOR_PALETTE: { key: string; label: string; hex: string }[] = [
   { key: "red", label: "Rouge", hex: "#EF4444" },
@@ -48,10 +37,6 @@ const COLOR_PALETTE: { key: string; label: string; hex: string }[] = [
   { key: "violet", label: "Violet", hex: "#8B5CF6" },
 ];
 
-function clean(s: string) {
-  return (s ?? "").trim();
-}
-
 function chooseColors(selectedHex: string[]) {
   const base = selectedHex.filter(Boolean).slice(0, 3);
   if (base.length === 0) return ["#2563EB", "#EF4444", "#FFFFFF"];
@@ -127,11 +112,6 @@ function genJerseySvg(style: number, colorsHex: string[]) {
   return base.replace("<!-- BODY_DECOR -->", decor);
 }
 
-function clampInt(n: number, min: number, max: number) {
-  if (!Number.isFinite(n)) return min;
-  return Math.max(min, Math.min(max, Math.floor(n)));
-}
-
 function shuffleInPlace<T>(arr: T[]) {
   for (let i = arr.length - 1; i > 0; i--) {
     const j = Math.floor(Math.random() * (i + 1));
@@ -154,35 +134,38 @@ export default function TeamsPage() {
   const [selectedColors, setSelectedColors] = useState<string[]>([]);
   const [jerseyStyle, setJerseyStyle] = useState<number>(1);
   const [logoSvg, setLogoSvg] = useState<string>("");
+  const [categoryId, setCategoryId] = useState("");
 
   const [busy, setBusy] = useState(false);
   const [busyAuto, setBusyAuto] = useState(false);
   const [busyTeam, setBusyTeam] = useState<Record<string, boolean>>({});
 
+  // ✅ contraintes de planning (présence, terrains préférés, joueurs partagés)
+  const [constraintsTeamId, setConstraintsTeamId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ConstraintsDraft>({ from: "", until: "", fields: [], sharesWith: "" });
+
   const maxTeams = useMemo(() => {
     const v = tournament?.max_teams;
     if (typeof v === "number" && v > 0) return v;
     return 24;
   }, [tournament]);
 
-  const showGroups = useMemo(() => (tournament?.format ?? "") === "groups_round_robin", [tournament]);
+  // ✅ catégories (U9, U11...): poules propres à chaque catégorie
+  const categories = useMemo(() => categoriesOf(tournament), [tournament]);
+  const withCategories = useMemo(() => hasCategories(tournament), [tournament]);
 
-  const groupCount = useMemo(() => {
-    const n = Number(tournament?.group_count ?? 1);
-    return clampInt(n, 1, 8);
-  }, [tournament]);
+  const showGroups = useMemo(() => categories.some((c) => isGroupFormat(c)), [categories]);
+  const groupCount = useMemo(
+    () => categories.filter((c) => isGroupFormat(c)).reduce((n, c) => n + groupCountOf(c), 0),
+    [categories]
+  );
 
-  const groupNames = useMemo(() => {
-    const raw = tournament?.group_names ?? [];
-    const out: string[] = [];
-    for (let i = 1; i <= groupCount; i++) {
-      const nm = String(raw[i - 1] ?? "").trim();
-      out.push(nm || `Poule ${i}`);
-    }
-    return out;
-  }, [tournament, groupCount]);
+  const fieldNames = useMemo(() => (tournament ? fieldNamesOf(tournament) : []), [tournament]);
 
-  const remainingCount = useMemo(() => teams.filter((t) => !(t.group_manual ?? false)).length, [teams]);
+  const remainingCount = useMemo(
+    () => teams.filter((t) => !(t.group_manual ?? false) && isGroupFormat(categoryOf(categories, t))).length,
+    [teams, categories]
+  );
 
   const previewLogo = useMemo(() => {
     const t = clean(name) || "Équipe";
@@ -196,18 +179,17 @@ export default function TeamsPage() {
       const { data: userData } = await supabase.auth.getUser();
       if (!userData.user) return router.push("/login");
 
-      const { data: tData, error: tErr } = await supabase
-        .from("tournaments")
-        .select("id,title,max_teams,format,group_count,group_names")
-        .eq("id", tournamentId)
-        .single();
+      const { data: myRole } = await getMyRole(tournamentId);
+      if (!canManage(normalizeRole(myRole))) return setStatus(ADMIN_ONLY_MESSAGE);
+
+      const { data: tData, error: tErr } = await getTournament(tournamentId);
 
       if (tErr) {
         setStatus("Erreur tournoi: " + tErr.message);
         return;
       }
 
-      setTournament((tData ?? null) as any);
+      setTournament(tData);
       await refreshTeams();
       setStatus("");
     }
@@ -217,18 +199,15 @@ export default function TeamsPage() {
   }, [router, tournamentId]);
 
   async function refreshTeams() {
-    const { data, error } = await supabase
-      .from("teams")
-      .select("id,name,email,colors,logo_svg,jersey_style,jersey_svg,group_idx,group_manual,created_at")
-      .eq("tournament_id", tournamentId)
-      .order("created_at", { ascending: true });
+    const { data, error } = await listTeams(tournamentId);
 
     if (error) {
       setStatus("Erreur chargement équipes: " + error.message);
       return;
     }
 
-    setTeams((data ?? []) as any);
+    // ordre d'inscription
+    setTeams([...(data ?? [])].sort((a, b) => String(a.created_at ?? "").localeCompare(String(b.created_at ?? ""))));
   }
 
   function toggleColor(hex: string) {
@@ -262,7 +241,7 @@ export default function TeamsPage() {
     const finalLogo = logoSvg || genLogoSvg(n, selectedColors);
     const finalJersey = genJerseySvg(jerseyStyle, selectedColors);
 
-    const payload: any = {
+    const payload: TablesInsert<"teams"> = {
       tournament_id: tournamentId,
       name: n,
       email: e || null,
@@ -272,12 +251,15 @@ export default function TeamsPage() {
       jersey_svg: finalJersey,
     };
 
-    if (showGroups) {
+    const category = categories.find((c) => c.id === categoryId) ?? categories[0];
+    if (withCategories) payload.category_id = categoryIdOrNull(category);
+
+    if (isGroupFormat(category)) {
       payload.group_idx = 1;
       payload.group_manual = false;
     }
 
-    const { error } = await supabase.from("teams").insert(payload);
+    const { error } = await insertTeam(payload);
 
     if (error) {
       setStatus("Erreur ajout équipe: " + error.message);
@@ -295,14 +277,14 @@ export default function TeamsPage() {
     setBusy(false);
   }
 
-  async function deleteTeam(teamId: string) {
+  async function removeTeam(teamId: string) {
     const ok = window.confirm("Supprimer cette équipe ?");
     if (!ok) return;
 
     setBusy(true);
     setStatus("");
 
-    const { error } = await supabase.from("teams").delete().eq("id", teamId);
+    const { error } = await deleteTeam(teamId);
 
     if (error) {
       setStatus("Erreur suppression équipe: " + error.message);
@@ -314,13 +296,14 @@ export default function TeamsPage() {
     setBusy(false);
   }
 
-  async function setTeamGroup(teamId: string, groupIdx: number) {
-    const idx = clampInt(Number(groupIdx), 1, groupCount);
+  async function setTeamGroup(team: TeamRow, groupIdx: number) {
+    const teamId = team.id;
+    const idx = clampInt(Number(groupIdx), 1, groupCountOf(categoryOf(categories, team)));
 
     setBusyTeam((p) => ({ ...p, [teamId]: true }));
     setStatus("");
 
-    const { error } = await supabase.from("teams").update({ group_idx: idx, group_manual: true }).eq("id", teamId);
+    const { error } = await updateTeam(teamId, { group_idx: idx, group_manual: true });
 
     if (error) {
       setStatus("Erreur attribution poule: " + error.message);
@@ -332,30 +315,101 @@ export default function TeamsPage() {
     setBusyTeam((p) => ({ ...p, [teamId]: false }));
   }
 
+  // Changer de catégorie => la poule redevient "restante"
+  async function setTeamCategory(teamId: string, nextCategoryId: string) {
+    const category = categories.find((c) => c.id === nextCategoryId) ?? categories[0];
+    const patch = { category_id: categoryIdOrNull(category), group_idx: 1, group_manual: false };
+
+    setBusyTeam((p) => ({ ...p, [teamId]: true }));
+    setStatus("");
+
+    const { error } = await updateTeam(teamId, patch);
+
+    setBusyTeam((p) => ({ ...p, [teamId]: false }));
+    if (error) return setStatus("Erreur catégorie équipe: " + error.message);
+
+    setTeams((prev) => prev.map((t) => (t.id === teamId ? { ...t, ...patch } : t)));
+  }
+
+  function toggleConstraints(team: TeamRow) {
+    if (constraintsTeamId === team.id) return setConstraintsTeamId(null);
+
+    setConstraintsTeamId(team.id);
+    setDraft({
+      from: team.available_from ? normHHMM(team.available_from) : "",
+      until: team.available_until ? normHHMM(team.available_until) : "",
+      fields: team.preferred_fields ?? [],
+      sharesWith: team.shares_players_with ?? "",
+    });
+  }
+
+  function toggleDraftField(fieldIdx: number) {
+    setDraft((d) => ({
+      ...d,
+      fields: d.fields.includes(fieldIdx) ? d.fields.filter((f) => f !== fieldIdx) : [...d.fields, fieldIdx].sort((a, b) => a - b),
+    }));
+  }
+
+  async function saveConstraints(teamId: string) {
+    if (draft.from && draft.until && draft.until <= draft.from) {
+      return setStatus("⚠️ L'heure de départ doit être après l'heure d'arrivée.");
+    }
+
+    const patch = {
+      available_from: draft.from || null,
+      available_until: draft.until || null,
+      preferred_fields: draft.fields,
+      shares_players_with: draft.sharesWith || null,
+    };
+
+    setBusyTeam((p) => ({ ...p, [teamId]: true }));
+    setStatus("");
+
+    const { error } = await updateTeam(teamId, patch);
+
+    setBusyTeam((p) => ({ ...p, [teamId]: false }));
+    if (error) return setStatus("Erreur contraintes équipe: " + error.message);
+
+    setTeams((prev) => prev.map((t) => (t.id === teamId ? { ...t, ...patch } : t)));
+    setConstraintsTeamId(null);
+    setStatus("✅ Contraintes enregistrées (appliquées à la prochaine génération du planning).");
+  }
+
+  function constraintsSummary(team: TeamRow) {
+    const parts: string[] = [];
+    if (team.available_from || team.available_until) {
+      parts.push(`🕐 ${team.available_from ? normHHMM(team.available_from) : "…"} → ${team.available_until ? normHHMM(team.available_until) : "…"}`);
+    }
+    if ((team.preferred_fields ?? []).length > 0) {
+      parts.push(`🏟️ ${(team.preferred_fields ?? []).map((f) => fieldNames[f - 1] ?? `Terrain ${f}`).join(", ")}`);
+    }
+    if (team.shares_players_with) {
+      parts.push(`🔗 ${teams.find((x) => x.id === team.shares_players_with)?.name ?? "Équipe"}`);
+    }
+    return parts.join(" · ");
+  }
+
   // ✅ FIX: plus d'UPSERT => batch d'UPDATE (comme le select manuel)
   async function autoAssignRemaining() {
     if (!showGroups) return setStatus("⚠️ Le tournoi n’est pas en mode poules.");
 
-    const remaining = teams.filter((t) => !(t.group_manual ?? false));
+    const remaining = teams.filter((t) => !(t.group_manual ?? false) && isGroupFormat(categoryOf(categories, t)));
     if (remaining.length === 0) return setStatus("Aucune équipe restante à répartir.");
 
     setBusyAuto(true);
     setStatus("");
 
-    const list = shuffleInPlace([...remaining]);
-
-    // Répartition équilibrée 1..groupCount
-    const plan = list.map((t, i) => ({
-      id: t.id,
-      group_idx: (i % groupCount) + 1,
-    }));
+    // Répartition équilibrée 1..groupCount, catégorie par catégorie
+    const plan = categories.flatMap((c) =>
+      shuffleInPlace(inCategory(remaining, categories, c)).map((t, i) => ({
+        id: t.id,
+        group_idx: (i % groupCountOf(c)) + 1,
+      }))
+    );
 
     // Batch d'updates
     for (const u of plan) {
-      const { error } = await supabase
-        .from("teams")
-        .update({ group_idx: u.group_idx, group_manual: true })
-        .eq("id", u.id);
+      const { error } = await updateTeam(u.id, { group_idx: u.group_idx, group_manual: true });
 
       if (error) {
         setStatus("Erreur répartition auto: " + error.message);
@@ -370,8 +424,17 @@ export default function TeamsPage() {
   }
 
   function groupLabel(team: TeamRow) {
-    const idx = clampInt(Number(team.group_idx ?? 1), 1, groupCount);
-    return groupNames[idx - 1] ?? `Poule ${idx}`;
+    const category = categoryOf(categories, team);
+    const idx = teamGroupIdx(team, groupCountOf(category));
+    return categoryPrefix(category) + (groupNamesOf(category)[idx - 1] ?? `Poule ${idx}`);
+  }
+
+  if (!tournament) {
+    return (
+      <main className="min-h-screen bg-slate-100 p-6">
+        <div className="max-w-3xl mx-auto bg-white rounded-xl shadow p-6">{status}</div>
+      </main>
+    );
   }
 
   return (
@@ -444,6 +507,21 @@ export default function TeamsPage() {
                 onChange={(e) => setEmail(e.target.value)}
               />
 
+              {withCategories && (
+                <select
+                  className="border rounded-lg px-3 py-2 w-full bg-white"
+                  value={categoryId || categories[0].id}
+                  onChange={(e) => setCategoryId(e.target.value)}
+                  title="Catégorie de l’équipe"
+                >
+                  {categories.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      🏷️ {c.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+
               <div>
                 <div className="text-sm font-semibold mb-2">Couleurs (1 à 3)</div>
                 <div className="grid grid-cols-4 gap-2">
@@ -581,71 +659,173 @@ export default function TeamsPage() {
                 <div className="space-y-2">
                   {teams.map((t, idx) => {
                     const manual = Boolean(t.group_manual);
-                    const gIdx = clampInt(Number(t.group_idx ?? 1), 1, groupCount);
+                    const category = categoryOf(categories, t);
+                    const teamGroups = isGroupFormat(category);
+                    const gIdx = teamGroupIdx(t, groupCountOf(category));
+                    const summary = constraintsSummary(t);
 
                     return (
-                      <div key={t.id} className="border rounded-lg px-3 py-2 flex items-center justify-between gap-3">
-                        <div className="flex items-center gap-3 min-w-0">
-                          <div
-                            className="w-10 h-10 rounded-lg overflow-hidden bg-white border flex items-center justify-center shrink-0"
-                            dangerouslySetInnerHTML={{ __html: t.logo_svg || genLogoSvg(t.name ?? "Équipe", t.colors ?? []) }}
-                          />
-                          <div className="min-w-0">
-                            <div className="font-semibold truncate">
-                              {idx + 1}. {t.name ?? "Équipe"}
-                            </div>
-                            <div className="text-xs text-gray-500 truncate">{t.email ?? "—"}</div>
-
-                            {showGroups && (
-                              <div className="mt-1 flex items-center gap-2 flex-wrap">
-                                <span
-                                  className={`text-xs font-semibold px-2 py-0.5 rounded ${
-                                    manual ? "bg-green-100 text-green-700" : "bg-amber-100 text-amber-700"
-                                  }`}
-                                  title={manual ? "Attribuée manuellement" : "Restante (auto possible)"}
-                                >
-                                  {manual ? "✅ Attribuée" : "⏳ Restante"}
-                                </span>
-                                <span className="text-xs text-gray-600">{groupLabel(t)}</span>
+                      <div key={t.id} className="border rounded-lg px-3 py-2">
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="flex items-center gap-3 min-w-0">
+                            <div
+                              className="w-10 h-10 rounded-lg overflow-hidden bg-white border flex items-center justify-center shrink-0"
+                              dangerouslySetInnerHTML={{ __html: t.logo_svg || genLogoSvg(t.name ?? "Équipe", t.colors ?? []) }}
+                            />
+                            <div className="min-w-0">
+                              <div className="font-semibold truncate">
+                                {idx + 1}. {t.name ?? "Équipe"}
                               </div>
-                            )}
+                              <div className="text-xs text-gray-500 truncate">{t.email ?? "—"}</div>
+                              {summary && <div className="text-xs text-gray-600 truncate">{summary}</div>}
+
+                              {teamGroups && (
+                                <div className="mt-1 flex items-center gap-2 flex-wrap">
+                                  <span
+                                    className={`text-xs font-semibold px-2 py-0.5 rounded ${
+                                      manual ? "bg-green-100 text-green-700" : "bg-amber-100 text-amber-700"
+                                    }`}
+                                    title={manual ? "Attribuée manuellement" : "Restante (auto possible)"}
+                                  >
+                                    {manual ? "✅ Attribuée" : "⏳ Restante"}
+                                  </span>
+                                  <span className="text-xs text-gray-600">{groupLabel(t)}</span>
+                                </div>
+                              )}
+                            </div>
                           </div>
-                        </div>
 
-                        <div className="flex gap-2 shrink-0 items-center flex-wrap justify-end">
-                          {showGroups && (
-                            <select
-                              className="border rounded-lg px-2 py-2 bg-white text-sm"
-                              value={gIdx}
-                              disabled={Boolean(busyTeam[t.id])}
-                              onChange={(e) => setTeamGroup(t.id, Number(e.target.value))}
-                              title="Attribuer une poule (manuelle)"
+                          <div className="flex gap-2 shrink-0 items-center flex-wrap justify-end">
+                            {withCategories && (
+                              <select
+                                className="border rounded-lg px-2 py-2 bg-white text-sm"
+                                value={category.id}
+                                disabled={Boolean(busyTeam[t.id])}
+                                onChange={(e) => setTeamCategory(t.id, e.target.value)}
+                                title="Catégorie"
+                              >
+                                {categories.map((c) => (
+                                  <option key={c.id} value={c.id}>
+                                    {c.name}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+
+                            {teamGroups && (
+                              <select
+                                className="border rounded-lg px-2 py-2 bg-white text-sm"
+                                value={gIdx}
+                                disabled={Boolean(busyTeam[t.id])}
+                                onChange={(e) => setTeamGroup(t, Number(e.target.value))}
+                                title="Attribuer une poule (manuelle)"
+                              >
+                                {Array.from({ length: groupCountOf(category) }, (_, i) => (
+                                  <option key={i + 1} value={i + 1}>
+                                    {groupNamesOf(category)[i] ?? `Poule ${i + 1}`}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+
+                            <button
+                              onClick={() => router.push(`/dashboard/tournaments/${tournamentId}/teams/${t.id}/sheet`)}
+                              className="bg-gray-200 px-3 py-2 rounded-lg hover:bg-gray-300 transition text-sm"
+                              title="Feuille de présence"
+                            >
+                              🧾
+                            </button>
+
+                            <button
+                              onClick={() => toggleConstraints(t)}
+                              className={`px-3 py-2 rounded-lg transition text-sm ${
+                                constraintsTeamId === t.id ? "bg-blue-600 text-white" : "bg-gray-200 hover:bg-gray-300"
+                              }`}
+                              title="Contraintes de planning"
                             >
-                              {Array.from({ length: groupCount }, (_, i) => (
-                                <option key={i + 1} value={i + 1}>
-                                  {groupNames[i] ?? `Poule ${i + 1}`}
-                                </option>
-                              ))}
-                            </select>
-                          )}
-
-                          <button
-                            onClick={() => router.push(`/dashboard/tournaments/${tournamentId}/teams/${t.id}/sheet`)}
-                            className="bg-gray-200 px-3 py-2 rounded-lg hover:bg-gray-300 transition text-sm"
-                            title="Feuille de présence"
-                          >
-                            🧾
-                          </button>
-
-                          <button
-                            onClick={() => deleteTeam(t.id)}
-                            disabled={busy}
-                            className="bg-red-600 text-white px-3 py-2 rounded-lg hover:bg-red-700 transition text-sm disabled:opacity-50"
-                            title="Supprimer"
-                          >
-                            🗑️
-                          </button>
+                              ⏱️
+                            </button>
+
+                            <button
+                              onClick={() => removeTeam(t.id)}
+                              disabled={busy}
+                              className="bg-red-600 text-white px-3 py-2 rounded-lg hover:bg-red-700 transition text-sm disabled:opacity-50"
+                              title="Supprimer"
+                            >
+                              🗑️
+                            </button>
+                          </div>
                         </div>
+
+                        {constraintsTeamId === t.id && (
+                          <div className="mt-3 border-t pt-3 grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+                            <div>
+                              <label className="text-xs text-gray-600">Arrivée (vide = début du tournoi)</label>
+                              <input
+                                type="time"
+                                className="w-full border rounded-lg p-2"
+                                value={draft.from}
+                                onChange={(e) => setDraft((d) => ({ ...d, from: e.target.value }))}
+                              />
+                            </div>
+
+                            <div>
+                              <label className="text-xs text-gray-600">Départ (vide = fin du tournoi)</label>
+                              <input
+                                type="time"
+                                className="w-full border rounded-lg p-2"
+                                value={draft.until}
+                                onChange={(e) => setDraft((d) => ({ ...d, until: e.target.value }))}
+                              />
+                            </div>
+
+                            <div>
+                              <label className="text-xs text-gray-600">Partage des joueurs avec</label>
+                              <select
+                                className="w-full border rounded-lg p-2 bg-white"
+                                value={draft.sharesWith}
+                                onChange={(e) => setDraft((d) => ({ ...d, sharesWith: e.target.value }))}
+                              >
+                                <option value="">— Aucune —</option>
+                                {teams
+                                  .filter((x) => x.id !== t.id)
+                                  .map((x) => (
+                                    <option key={x.id} value={x.id}>
+                                      {x.name ?? "Équipe"}
+                                    </option>
+                                  ))}
+                              </select>
+                            </div>
+
+                            <div className="md:col-span-3">
+                              <div className="text-xs text-gray-600 mb-1">Terrains préférés (aucun = indifférent)</div>
+                              <div className="flex gap-3 flex-wrap">
+                                {fieldNames.map((fname, i) => (
+                                  <label key={i} className="flex items-center gap-1">
+                                    <input type="checkbox" checked={draft.fields.includes(i + 1)} onChange={() => toggleDraftField(i + 1)} />
+                                    {fname}
+                                  </label>
+                                ))}
+                              </div>
+                            </div>
+
+                            <div className="md:col-span-3 flex gap-2 justify-end">
+                              <button
+                                onClick={() => setConstraintsTeamId(null)}
+                                className="bg-gray-200 px-3 py-2 rounded-lg hover:bg-gray-300 transition"
+                              >
+                                Annuler
+                              </button>
+                              <button
+                                onClick={() => saveConstraints(t.id)}
+                                disabled={Boolean(busyTeam[t.id])}
+                                className="bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                              >
+                                💾 Enregistrer
+                              </button>
+                            </div>
+                          </div>
+                        )}
                       </div>
                     );
                   })}
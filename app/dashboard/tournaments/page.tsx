@@ -3,17 +3,12 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { normHHMM } from "@/lib/domain/time";
+import { listTournaments, trashTournament } from "@/lib/repository";
+import { TRASH_RETENTION_DAYS } from "@/lib/domain/tournament";
+import type { Tournament } from "@/lib/domain/models";
 
-type TournamentRow = {
-  id: string;
-  title: string | null;
-  tournament_date: string | null;
-  start_time: string | null;
-  end_time: string | null;
-  created_at: string | null;
-  max_teams: number | null;
-  num_fields: number | null;
-};
+type TournamentRow = Tournament;
 
 function prettyDate(d: string | null) {
   if (!d) return "—";
@@ -26,11 +21,6 @@ function prettyDate(d: string | null) {
   }
 }
 
-function hhmm(v: string | null) {
-  if (!v) return "—";
-  return String(v).slice(0, 5);
-}
-
 export default function TournamentsPage() {
   const router = useRouter();
 
@@ -38,6 +28,7 @@ export default function TournamentsPage() {
   const [busyId, setBusyId] = useState<string>("");
   const [tournaments, setTournaments] = useState<TournamentRow[]>([]);
   const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
 
   const count = useMemo(() => tournaments.length, [tournaments]);
 
@@ -48,6 +39,7 @@ export default function TournamentsPage() {
         router.push("/login");
         return;
       }
+      setUserId(userData.user.id);
       await refresh();
     }
     boot();
@@ -58,10 +50,7 @@ export default function TournamentsPage() {
     setLoading(true);
     setStatus("");
 
-    const { data, error } = await supabase
-      .from("tournaments")
-      .select("id,title,tournament_date,start_time,end_time,created_at,max_teams,num_fields")
-      .order("created_at", { ascending: false });
+    const { data, error } = await listTournaments();
 
     if (error) {
       setStatus("Erreur chargement tournois: " + error.message);
@@ -70,84 +59,23 @@ export default function TournamentsPage() {
       return;
     }
 
-    setTournaments((data ?? []) as any);
+    setTournaments(data ?? []);
     setLoading(false);
   }
 
-  async function deleteTournamentCascade(tournamentId: string, title: string | null) {
+  async function deleteTournament(tournamentId: string, title: string | null) {
     const ok = window.confirm(
-      `Supprimer définitivement le tournoi "${title ?? "Sans titre"}" ?\n\n⚠️ Cela supprimera aussi: équipes, joueurs, matchs, événements.`
+      `Mettre le tournoi "${title ?? "Sans titre"}" à la corbeille ?\n\nRestauration possible depuis le Dashboard pendant ${TRASH_RETENTION_DAYS} jours.`
     );
     if (!ok) return;
 
     setBusyId(tournamentId);
     setStatus("");
 
-    // 1) récupérer IDs des matchs
-    const { data: mData, error: mErr } = await supabase
-      .from("matches")
-      .select("id")
-      .eq("tournament_id", tournamentId);
-
-    if (mErr) {
-      setStatus("Erreur lecture matches: " + mErr.message);
-      setBusyId("");
-      return;
-    }
-
-    const matchIds = (mData ?? []).map((m: any) => m.id);
-
-    // 2) delete events liés aux matchs
-    if (matchIds.length > 0) {
-      const { error: eErr } = await supabase.from("match_events").delete().in("match_id", matchIds);
-      if (eErr) {
-        setStatus("Erreur suppression événements: " + eErr.message);
-        setBusyId("");
-        return;
-      }
-    }
-
-    // 3) delete matches
-    const { error: delMatchesErr } = await supabase
-      .from("matches")
-      .delete()
-      .eq("tournament_id", tournamentId);
-
-    if (delMatchesErr) {
-      setStatus("Erreur suppression matches: " + delMatchesErr.message);
-      setBusyId("");
-      return;
-    }
+    const { error } = await trashTournament(tournamentId);
 
-    // 4) delete players
-    const { error: delPlayersErr } = await supabase
-      .from("players")
-      .delete()
-      .eq("tournament_id", tournamentId);
-
-    if (delPlayersErr) {
-      setStatus("Erreur suppression joueurs: " + delPlayersErr.message);
-      setBusyId("");
-      return;
-    }
-
-    // 5) delete teams
-    const { error: delTeamsErr } = await supabase
-      .from("teams")
-      .delete()
-      .eq("tournament_id", tournamentId);
-
-    if (delTeamsErr) {
-      setStatus("Erreur suppression équipes: " + delTeamsErr.message);
-      setBusyId("");
-      return;
-    }
-
-    // 6) delete tournament
-    const { error: delTournamentErr } = await supabase.from("tournaments").delete().eq("id", tournamentId);
-
-    if (delTournamentErr) {
-      setStatus("Erreur suppression tournoi: " + delTournamentErr.message);
+    if (error) {
+      setStatus("Erreur suppression tournoi: " + error.message);
       setBusyId("");
       return;
     }
@@ -206,7 +134,7 @@ export default function TournamentsPage() {
                   <div className="min-w-[260px]">
                     <div className="font-bold text-lg">{t.title ?? "Tournoi"}</div>
                     <div className="text-sm text-gray-600 mt-1">
-                      📅 {prettyDate(t.tournament_date)} · ⏱️ {hhmm(t.start_time)} → {hhmm(t.end_time)}
+                      📅 {prettyDate(t.tournament_date)} · ⏱️ {normHHMM(t.start_time) || "—"} → {normHHMM(t.end_time) || "—"}
                     </div>
                     <div className="text-xs text-gray-400 mt-1">
                       🧩 Terrains: {t.num_fields ?? "—"} · 👥 Max équipes: {t.max_teams ?? 24}
@@ -231,14 +159,16 @@ export default function TournamentsPage() {
                       ⚙️
                     </button>
 
-                    <button
-                      onClick={() => deleteTournamentCascade(t.id, t.title)}
-                      disabled={busyId === t.id}
-                      className="bg-red-600 text-white px-3 py-2 rounded-lg hover:bg-red-700 transition disabled:opacity-50"
-                      title="Supprimer"
-                    >
-                      {busyId === t.id ? "..." : "🗑️"}
-                    </button>
+                    {t.user_id === userId && (
+                      <button
+                        onClick={() => deleteTournament(t.id, t.title)}
+                        disabled={busyId === t.id}
+                        className="bg-red-600 text-white px-3 py-2 rounded-lg hover:bg-red-700 transition disabled:opacity-50"
+                        title="Supprimer"
+                      >
+                        {busyId === t.id ? "..." : "🗑️"}
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
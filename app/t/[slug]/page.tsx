@@ -0,0 +1,447 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import { supabase } from "../../../lib/supabaseClient";
+import { flagMatchDispute, getPublicTournament } from "../../../lib/repository";
+import {
+  parsePublicSnapshot,
+  topScorers,
+  type PublicMatch,
+  type PublicSnapshot,
+} from "../../../lib/domain/publicPage";
+import { standingsOptionsFromTournament, type StandingRow } from "../../../lib/domain/standings";
+import { categoriesOf, categoryOf, categoryPrefix, computeCategoryStandings } from "../../../lib/domain/categories";
+import { CARD_EVENT_TYPES, fairPlayPointsByTeam, normalizeFairPlayPoints } from "../../../lib/domain/fairPlay";
+import { decidedBySuffix } from "../../../lib/domain/penalties";
+import { roundLabel, sourceLabel } from "../../../lib/domain/knockout";
+import { parseMsLoose, timeHHMM } from "../../../lib/domain/time";
+import { dayLabel, daysOf, matchDayIdx } from "../../../lib/domain/days";
+import { eventSuffix } from "../../../lib/domain/events";
+import { GOAL_EVENT_TYPES } from "../../../lib/domain/scoring";
+import { DISPUTE_BADGE } from "../../../lib/domain/disputes";
+import { clean } from "../../../lib/domain/utils";
+import {
+  fieldNamesOf,
+  groupNamesOf,
+  isGroupFormat,
+  isLiveToday,
+  isPlayed,
+  knockoutGroupNamesOf,
+  matchSlotMs,
+  teamGroupIdx,
+} from "../../../lib/domain/tournament";
+
+type Tab = "schedule" | "results" | "standings" | "scorers";
+
+const TABS: { key: Tab; label: string }[] = [
+  { key: "schedule", label: "🗓️ Programme" },
+  { key: "results", label: "🧾 Résultats" },
+  { key: "standings", label: "🏆 Classement" },
+  { key: "scorers", label: "⚽️ Buteurs" },
+];
+
+const POLL_MS = 20_000;
+
+function prettyDate(d: string | null) {
+  if (!d) return "";
+  try {
+    return new Date(d + "T00:00:00").toLocaleDateString("fr-FR", { weekday: "long", day: "numeric", month: "long" });
+  } catch {
+    return d;
+  }
+}
+
+/** Ordre du programme: jour, heure, terrain. */
+function bySchedule(a: PublicMatch, b: PublicMatch) {
+  const byDay = (a.day_idx ?? 1) - (b.day_idx ?? 1);
+  if (byDay !== 0) return byDay;
+  const ta = parseMsLoose(a.start_time);
+  const tb = parseMsLoose(b.start_time);
+  return (Number.isNaN(ta) ? Infinity : ta) - (Number.isNaN(tb) ? Infinity : tb) || (a.field_idx ?? 0) - (b.field_idx ?? 0);
+}
+
+export default function PublicTournamentPage() {
+  const params = useParams();
+  const slug = String(params.slug).toLowerCase();
+
+  const [status, setStatus] = useState("Chargement...");
+  const [snap, setSnap] = useState<PublicSnapshot | null>(null);
+  const [tab, setTab] = useState<Tab>("schedule");
+  const [now, setNow] = useState(0);
+  const [lastSync, setLastSync] = useState("");
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // ✅ Capitaine connecté (email de la fiche équipe): peut contester un résultat validé
+  const [signedIn, setSignedIn] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setSignedIn(Boolean(data.user)));
+  }, []);
+
+  // ✅ Pas de connexion: lecture via public_tournament() + polling (pas de realtime en anonyme)
+  useEffect(() => {
+    let alive = true;
+
+    async function load() {
+      const { data, error } = await getPublicTournament(slug);
+      if (!alive) return;
+
+      if (error) {
+        setStatus("Erreur chargement: " + error.message);
+        return;
+      }
+
+      const parsed = parsePublicSnapshot(data);
+      if (!parsed) {
+        setSnap(null);
+        setStatus("Tournoi introuvable ou non publié.");
+        return;
+      }
+
+      setSnap(parsed);
+      setNow(Date.now());
+      setLastSync(new Date().toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" }));
+      setStatus("");
+    }
+
+    load();
+
+    const id = window.setInterval(load, POLL_MS);
+    const onVis = () => {
+      if (document.visibilityState === "visible") load();
+    };
+    document.addEventListener("visibilitychange", onVis);
+
+    return () => {
+      alive = false;
+      window.clearInterval(id);
+      document.removeEventListener("visibilitychange", onVis);
+    };
+  }, [slug, reloadKey]);
+
+  const t = snap?.tournament ?? null;
+  const teams = useMemo(() => snap?.teams ?? [], [snap]);
+  const matches = useMemo(() => [...(snap?.matches ?? [])].sort(bySchedule), [snap]);
+  const events = useMemo(() => snap?.events ?? [], [snap]);
+
+  const days = useMemo(() => daysOf(t), [t]);
+  const fieldNames = useMemo(() => fieldNamesOf(t), [t]);
+  const categories = useMemo(() => categoriesOf(t), [t]);
+
+  const teamById = useMemo(() => new Map(teams.map((x) => [x.id, x])), [teams]);
+
+  function sideName(m: PublicMatch, side: "home" | "away") {
+    const id = side === "home" ? m.home_team_id : m.away_team_id;
+    const name = id ? teamById.get(id)?.name : null;
+    if (name) return name;
+    if (m.phase === "knockout") {
+      return sourceLabel(side === "home" ? m.home_source : m.away_source, knockoutGroupNamesOf(categoryOf(categories, m)));
+    }
+    return "Équipe";
+  }
+
+  function phaseLabel(m: PublicMatch) {
+    const category = categoryOf(categories, m);
+    if (m.phase === "knockout") return categoryPrefix(category) + roundLabel(m.ko_round);
+    if (!isGroupFormat(category)) return category.name;
+    const groupNames = groupNamesOf(category);
+    const team = teamById.get(m.home_team_id ?? "") ?? teamById.get(m.away_team_id ?? "");
+    const idx = teamGroupIdx({ group_idx: team?.group_idx }, groupNames.length);
+    return categoryPrefix(category) + (groupNames[idx - 1] ?? `Poule ${idx}`);
+  }
+
+  function dayPrefix(m: PublicMatch) {
+    if (days.length <= 1) return "";
+    const idx = matchDayIdx(m, days.length);
+    return `${dayLabel(days[idx - 1], idx)} · `;
+  }
+
+  function fieldLabel(idx: number | null) {
+    const i = Math.max(1, Number(idx ?? 1));
+    return fieldNames[i - 1] ?? `Terrain ${i}`;
+  }
+
+  const liveMatches = useMemo(
+    () => matches.filter((m) => isLiveToday(m, matchSlotMs(t, m), days, now)),
+    [matches, t, days, now]
+  );
+  const upcoming = useMemo(
+    () => matches.filter((m) => !isPlayed(m) && !isLiveToday(m, matchSlotMs(t, m), days, now)),
+    [matches, t, days, now]
+  );
+  const played = useMemo(() => matches.filter(isPlayed).reverse(), [matches]);
+
+  const goalsByMatch = useMemo(() => {
+    const map = new Map<string, string[]>();
+    for (const e of events) {
+      if (!GOAL_EVENT_TYPES.includes(e.event_type)) continue;
+      const name = `${(e.first_name ?? "").trim()} ${(e.last_name ?? "").trim().slice(0, 1)}`.trim() || "Joueur";
+      const arr = map.get(e.match_id) ?? [];
+      arr.push(`${e.last_name ? `${name}.` : name}${eventSuffix(e.event_type)}`);
+      map.set(e.match_id, arr);
+    }
+    return map;
+  }, [events]);
+
+  // ✅ Mêmes règles que la page Classement: matchs de poule validés, fair-play sur leurs cartons
+  const standingsByGroup = useMemo(() => {
+    if (!t) return [];
+    const groupPlayed = matches.filter((m) => isPlayed(m) && m.phase !== "knockout");
+    const ids = new Set(groupPlayed.map((m) => m.id));
+    const cards = events.filter((e) => CARD_EVENT_TYPES.includes(e.event_type) && ids.has(e.match_id));
+    const options = {
+      ...standingsOptionsFromTournament(t),
+      fairPlay: fairPlayPointsByTeam(cards, normalizeFairPlayPoints(t.fair_play_points)),
+    };
+    return computeCategoryStandings(teams, groupPlayed, categories, options);
+  }, [t, teams, matches, events, categories]);
+
+  const knockoutRounds = useMemo(() => {
+    const byRound = new Map<number, PublicMatch[]>();
+    for (const m of matches) {
+      if (m.phase !== "knockout") continue;
+      const r = Number(m.ko_round ?? 0);
+      if (!byRound.has(r)) byRound.set(r, []);
+      byRound.get(r)!.push(m);
+    }
+    return Array.from(byRound.entries())
+      .sort((a, b) => b[0] - a[0])
+      .map(([round, rows]) => ({ round, rows: rows.sort((a, b) => Number(a.ko_slot ?? 0) - Number(b.ko_slot ?? 0)) }));
+  }, [matches]);
+
+  const scorers = useMemo(() => topScorers(events, new Set(played.map((m) => m.id))), [events, played]);
+
+  async function dispute(m: PublicMatch) {
+    const reason = clean(
+      window.prompt(`Contester ${sideName(m, "home")} ${m.home_score ?? 0} - ${m.away_score ?? 0} ${sideName(m, "away")}\nMotif:`) ?? ""
+    );
+    if (!reason) return;
+
+    const { error } = await flagMatchDispute(m.id, reason);
+    if (error) return alert("Erreur contestation: " + error.message);
+    setReloadKey((k) => k + 1);
+  }
+
+  if (!t) {
+    return (
+      <main className="min-h-screen bg-slate-100 p-4">
+        <div className="max-w-2xl mx-auto bg-white rounded-xl shadow p-6 text-gray-700">{status}</div>
+      </main>
+    );
+  }
+
+  function MatchCard({ m }: { m: PublicMatch }) {
+    const live = isLiveToday(m, matchSlotMs(t, m), days, now);
+    const done = isPlayed(m);
+    const suffix = decidedBySuffix(m.decided_by);
+    const pens = m.decided_by === "penalties" && m.home_penalties != null && m.away_penalties != null;
+    const goals = goalsByMatch.get(m.id) ?? [];
+
+    return (
+      <div
+        className={`border rounded-lg p-3 ${
+          m.disputed ? "border-orange-300 bg-orange-50" : live ? "border-red-300 bg-red-50" : done ? "bg-white" : "bg-slate-50"
+        }`}
+      >
+        <div className="flex items-center justify-between text-xs text-gray-500 gap-2">
+          <span>
+            {dayPrefix(m)}
+            {timeHHMM(m.start_time)} · {fieldLabel(m.field_idx)}
+          </span>
+          <span className="truncate">{phaseLabel(m)}</span>
+        </div>
+
+        <div className="mt-2 grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+          <div className="font-semibold truncate">{sideName(m, "home")}</div>
+          <div className="font-extrabold text-lg tabular-nums text-center">
+            {done || live ? `${m.home_score ?? 0} - ${m.away_score ?? 0}` : "vs"}
+          </div>
+          <div className="font-semibold truncate text-right">{sideName(m, "away")}</div>
+        </div>
+
+        {(live || suffix) && (
+          <div className="mt-1 text-xs text-center">
+            {live && <span className="font-bold text-red-700">🔴 En cours</span>}
+            {suffix && (
+              <span className="text-purple-700 font-semibold">
+                {" "}
+                {suffix}
+                {pens ? ` ${m.home_penalties}-${m.away_penalties}` : ""}
+              </span>
+            )}
+          </div>
+        )}
+
+        {(done || live) && goals.length > 0 && <div className="mt-1 text-[11px] text-gray-500">⚽️ {goals.join(", ")}</div>}
+
+        {m.disputed ? (
+          <div className="mt-1 text-xs text-center font-bold text-orange-800">{DISPUTE_BADGE} · en attente de décision</div>
+        ) : (
+          done &&
+          signedIn && (
+            <div className="mt-1 text-right">
+              <button onClick={() => dispute(m)} className="text-[11px] text-orange-700 hover:underline">
+                ⚠️ Contester
+              </button>
+            </div>
+          )
+        )}
+      </div>
+    );
+  }
+
+  function StandingsTable({ rows }: { rows: StandingRow[] }) {
+    return (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 border-b">
+            <th className="py-2 pr-2">#</th>
+            <th className="py-2 pr-2">Équipe</th>
+            <th className="py-2 pr-2 text-right">Pts</th>
+            <th className="py-2 pr-2 text-right">J</th>
+            <th className="py-2 text-right">Diff</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r, idx) => (
+            <tr key={r.team_id} className="border-b last:border-0">
+              <td className="py-2 pr-2 font-semibold">{idx + 1}</td>
+              <td className="py-2 pr-2 truncate max-w-[160px]">{r.team_name}</td>
+              <td className="py-2 pr-2 text-right font-bold">{r.pts}</td>
+              <td className="py-2 pr-2 text-right">{r.played}</td>
+              <td className="py-2 text-right">{r.gd > 0 ? `+${r.gd}` : r.gd}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-100 p-4">
+      <div className="max-w-2xl mx-auto space-y-3">
+        <div className="bg-white rounded-xl shadow p-5">
+          <h1 className="text-2xl font-bold">{t.title ?? "Tournoi"}</h1>
+          <p className="text-sm text-gray-500">
+            {prettyDate(t.tournament_date)}
+            {t.start_time ? ` · ${timeHHMM(t.start_time)} → ${timeHHMM(t.end_time)}` : ""}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">
+            Mise à jour automatique{lastSync ? ` · dernière: ${lastSync}` : ""}
+            {status ? ` · ${status}` : ""}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-4 gap-1 bg-white rounded-xl shadow p-1 sticky top-2 z-10">
+          {TABS.map((x) => (
+            <button
+              key={x.key}
+              onClick={() => setTab(x.key)}
+              className={`px-2 py-2 rounded-lg text-xs sm:text-sm font-semibold transition ${
+                tab === x.key ? "bg-blue-600 text-white" : "hover:bg-slate-100"
+              }`}
+            >
+              {x.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === "schedule" && (
+          <div className="space-y-3">
+            {liveMatches.length > 0 && (
+              <div className="bg-white rounded-xl shadow p-4 space-y-2">
+                <h2 className="font-semibold text-red-700">🔴 En direct</h2>
+                {liveMatches.map((m) => (
+                  <MatchCard key={m.id} m={m} />
+                ))}
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow p-4 space-y-2">
+              <h2 className="font-semibold">⏳ À venir</h2>
+              {upcoming.length === 0 ? (
+                <p className="text-sm text-gray-500">Aucun match à venir.</p>
+              ) : (
+                upcoming.map((m) => <MatchCard key={m.id} m={m} />)
+              )}
+            </div>
+          </div>
+        )}
+
+        {tab === "results" && (
+          <div className="bg-white rounded-xl shadow p-4 space-y-2">
+            <h2 className="font-semibold">✅ Matchs validés</h2>
+            {!signedIn && played.length > 0 && (
+              <p className="text-xs text-gray-500">
+                Capitaine ? <a href="/login" className="underline">Connecte-toi</a> avec l&apos;email de ton équipe pour contester un
+                résultat.
+              </p>
+            )}
+            {played.length === 0 ? (
+              <p className="text-sm text-gray-500">Aucun résultat pour le moment.</p>
+            ) : (
+              played.map((m) => <MatchCard key={m.id} m={m} />)
+            )}
+          </div>
+        )}
+
+        {tab === "standings" && (
+          <div className="space-y-3">
+            {standingsByGroup.map((g, i) => (
+              <div key={i} className="bg-white rounded-xl shadow p-4">
+                {standingsByGroup.length > 1 && <h2 className="font-semibold mb-2">📍 {g.label}</h2>}
+                {g.rows.length === 0 ? (
+                  <p className="text-sm text-gray-500">Aucune équipe.</p>
+                ) : (
+                  <StandingsTable rows={g.rows} />
+                )}
+              </div>
+            ))}
+
+            {categories.some((c) => c.knockout_enabled) && knockoutRounds.length > 0 && (
+              <div className="bg-white rounded-xl shadow p-4 space-y-3">
+                <h2 className="font-semibold">🏆 Phase finale</h2>
+                {knockoutRounds.map(({ round, rows }) => (
+                  <div key={round} className="space-y-2">
+                    <div className="text-sm font-extrabold">{roundLabel(round)}</div>
+                    {rows.map((m) => (
+                      <MatchCard key={m.id} m={m} />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {tab === "scorers" && (
+          <div className="bg-white rounded-xl shadow p-4">
+            <h2 className="font-semibold mb-2">⚽️ Meilleurs buteurs</h2>
+            {scorers.length === 0 ? (
+              <p className="text-sm text-gray-500">Aucun but sur les matchs validés.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {scorers.map((s, idx) => (
+                    <tr key={s.player_id} className="border-b last:border-0">
+                      <td className="py-2 pr-2 font-semibold w-8">{idx + 1}</td>
+                      <td className="py-2 pr-2">
+                        <div className="font-medium">
+                          {s.jersey_number != null ? `#${s.jersey_number} ` : ""}
+                          {s.name}
+                        </div>
+                        <div className="text-xs text-gray-500">{teamById.get(s.team_id ?? "")?.name ?? "Équipe"}</div>
+                      </td>
+                      <td className="py-2 text-right font-extrabold">{s.goals}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,651 @@
+// Types des tables Supabase (format `supabase gen types typescript`).
+// À régénérer après chaque migration: npm run db:types
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      tournaments: {
+        Row: {
+          id: string;
+          user_id: string;
+          created_at: string | null;
+          title: string | null;
+          tournament_date: string | null;
+          start_time: string | null;
+          end_time: string | null;
+          match_duration_min: number | null;
+          rotation_duration_min: number | null;
+          min_teams: number | null;
+          max_teams: number | null;
+          min_players_per_team: number | null;
+          max_players_per_team: number | null;
+          num_fields: number | null;
+          field_names: string[] | null;
+          pauses: Json | null;
+          field_pauses: Json | null;
+          format: string | null;
+          group_count: number | null;
+          group_names: string[] | null;
+          knockout_enabled: boolean;
+          knockout_qualifiers: number;
+          points_win: number;
+          points_draw: number;
+          points_loss: number;
+          tiebreakers: string[];
+          fair_play_points: Json;
+          suspension_rules: Json;
+          deleted_at: string | null;
+          is_public: boolean;
+          public_slug: string | null;
+          score_mode: string;
+          min_rest_min: number;
+          max_consecutive: number;
+          extra_days: Json;
+          field_settings: Json;
+          group_match_durations: number[];
+          categories: Json;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          created_at?: string | null;
+          title?: string | null;
+          tournament_date?: string | null;
+          start_time?: string | null;
+          end_time?: string | null;
+          match_duration_min?: number | null;
+          rotation_duration_min?: number | null;
+          min_teams?: number | null;
+          max_teams?: number | null;
+          min_players_per_team?: number | null;
+          max_players_per_team?: number | null;
+          num_fields?: number | null;
+          field_names?: string[] | null;
+          pauses?: Json | null;
+          field_pauses?: Json | null;
+          format?: string | null;
+          group_count?: number | null;
+          group_names?: string[] | null;
+          knockout_enabled?: boolean;
+          knockout_qualifiers?: number;
+          points_win?: number;
+          points_draw?: number;
+          points_loss?: number;
+          tiebreakers?: string[];
+          fair_play_points?: Json;
+          suspension_rules?: Json;
+          deleted_at?: string | null;
+          is_public?: boolean;
+          public_slug?: string | null;
+          score_mode?: string;
+          min_rest_min?: number;
+          max_consecutive?: number;
+          extra_days?: Json;
+          field_settings?: Json;
+          group_match_durations?: number[];
+          categories?: Json;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          created_at?: string | null;
+          title?: string | null;
+          tournament_date?: string | null;
+          start_time?: string | null;
+          end_time?: string | null;
+          match_duration_min?: number | null;
+          rotation_duration_min?: number | null;
+          min_teams?: number | null;
+          max_teams?: number | null;
+          min_players_per_team?: number | null;
+          max_players_per_team?: number | null;
+          num_fields?: number | null;
+          field_names?: string[] | null;
+          pauses?: Json | null;
+          field_pauses?: Json | null;
+          format?: string | null;
+          group_count?: number | null;
+          group_names?: string[] | null;
+          knockout_enabled?: boolean;
+          knockout_qualifiers?: number;
+          points_win?: number;
+          points_draw?: number;
+          points_loss?: number;
+          tiebreakers?: string[];
+          fair_play_points?: Json;
+          suspension_rules?: Json;
+          deleted_at?: string | null;
+          is_public?: boolean;
+          public_slug?: string | null;
+          score_mode?: string;
+          min_rest_min?: number;
+          max_consecutive?: number;
+          extra_days?: Json;
+          field_settings?: Json;
+          group_match_durations?: number[];
+          categories?: Json;
+        };
+        Relationships: [];
+      };
+      teams: {
+        Row: {
+          id: string;
+          tournament_id: string;
+          created_at: string | null;
+          name: string | null;
+          email: string | null;
+          colors: string[] | null;
+          logo_svg: string | null;
+          jersey_style: number | null;
+          jersey_svg: string | null;
+          staff: Json | null;
+          group_idx: number | null;
+          group_manual: boolean | null;
+          available_from: string | null;
+          available_until: string | null;
+          preferred_fields: number[];
+          shares_players_with: string | null;
+          category_id: string | null;
+        };
+        Insert: {
+          id?: string;
+          tournament_id: string;
+          created_at?: string | null;
+          name?: string | null;
+          email?: string | null;
+          colors?: string[] | null;
+          logo_svg?: string | null;
+          jersey_style?: number | null;
+          jersey_svg?: string | null;
+          staff?: Json | null;
+          group_idx?: number | null;
+          group_manual?: boolean | null;
+          available_from?: string | null;
+          available_until?: string | null;
+          preferred_fields?: number[];
+          shares_players_with?: string | null;
+          category_id?: string | null;
+        };
+        Update: {
+          id?: string;
+          tournament_id?: string;
+          created_at?: string | null;
+          name?: string | null;
+          email?: string | null;
+          colors?: string[] | null;
+          logo_svg?: string | null;
+          jersey_style?: number | null;
+          jersey_svg?: string | null;
+          staff?: Json | null;
+          group_idx?: number | null;
+          group_manual?: boolean | null;
+          available_from?: string | null;
+          available_until?: string | null;
+          preferred_fields?: number[];
+          shares_players_with?: string | null;
+          category_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "teams_tournament_id_fkey";
+            columns: ["tournament_id"];
+            isOneToOne: false;
+            referencedRelation: "tournaments";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "teams_shares_players_with_fkey";
+            columns: ["shares_players_with"];
+            isOneToOne: false;
+            referencedRelation: "teams";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      players: {
+        Row: {
+          id: string;
+          tournament_id: string;
+          team_id: string;
+          created_at: string | null;
+          first_name: string | null;
+          last_name: string | null;
+          jersey_number: number | null;
+          license_number: string | null;
+          birth_date: string | null;
+        };
+        Insert: {
+          id?: string;
+          tournament_id: string;
+          team_id: string;
+          created_at?: string | null;
+          first_name?: string | null;
+          last_name?: string | null;
+          jersey_number?: number | null;
+          license_number?: string | null;
+          birth_date?: string | null;
+        };
+        Update: {
+          id?: string;
+          tournament_id?: string;
+          team_id?: string;
+          created_at?: string | null;
+          first_name?: string | null;
+          last_name?: string | null;
+          jersey_number?: number | null;
+          license_number?: string | null;
+          birth_date?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "players_team_id_fkey";
+            columns: ["team_id"];
+            isOneToOne: false;
+            referencedRelation: "teams";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "players_tournament_id_fkey";
+            columns: ["tournament_id"];
+            isOneToOne: false;
+            referencedRelation: "tournaments";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      matches: {
+        Row: {
+          id: string;
+          tournament_id: string;
+          created_at: string | null;
+          start_time: string | null;
+          field_idx: number | null;
+          status: string | null;
+          home_team_id: string | null;
+          away_team_id: string | null;
+          home_score: number | null;
+          away_score: number | null;
+          phase: string;
+          ko_round: number | null;
+          ko_slot: number | null;
+          day_idx: number;
+          duration_min: number | null;
+          category_id: string | null;
+          schedule_locked: boolean;
+          home_source: string | null;
+          away_source: string | null;
+          decided_by: string;
+          home_penalties: number | null;
+          away_penalties: number | null;
+          penalty_kicks: Json;
+          kickoff_at: string | null;
+          half_time_at: string | null;
+          second_half_at: string | null;
+          finished_at: string | null;
+          reopen_reason: string | null;
+          disputed_at: string | null;
+          dispute_team_id: string | null;
+          dispute_reason: string | null;
+          disputed_by_email: string | null;
+          dispute_resolved_at: string | null;
+          dispute_resolution: string | null;
+        };
+        Insert: {
+          id?: string;
+          tournament_id: string;
+          created_at?: string | null;
+          start_time?: string | null;
+          field_idx?: number | null;
+          status?: string | null;
+          home_team_id?: string | null;
+          away_team_id?: string | null;
+          home_score?: number | null;
+          away_score?: number | null;
+          phase?: string;
+          ko_round?: number | null;
+          ko_slot?: number | null;
+          day_idx?: number;
+          duration_min?: number | null;
+          category_id?: string | null;
+          schedule_locked?: boolean;
+          home_source?: string | null;
+          away_source?: string | null;
+          decided_by?: string;
+          home_penalties?: number | null;
+          away_penalties?: number | null;
+          penalty_kicks?: Json;
+          kickoff_at?: string | null;
+          half_time_at?: string | null;
+          second_half_at?: string | null;
+          finished_at?: string | null;
+          reopen_reason?: string | null;
+          disputed_at?: string | null;
+          dispute_team_id?: string | null;
+          dispute_reason?: string | null;
+          disputed_by_email?: string | null;
+          dispute_resolved_at?: string | null;
+          dispute_resolution?: string | null;
+        };
+        Update: {
+          id?: string;
+          tournament_id?: string;
+          created_at?: string | null;
+          start_time?: string | null;
+          field_idx?: number | null;
+          status?: string | null;
+          home_team_id?: string | null;
+          away_team_id?: string | null;
+          home_score?: number | null;
+          away_score?: number | null;
+          phase?: string;
+          ko_round?: number | null;
+          ko_slot?: number | null;
+          day_idx?: number;
+          duration_min?: number | null;
+          category_id?: string | null;
+          schedule_locked?: boolean;
+          home_source?: string | null;
+          away_source?: string | null;
+          decided_by?: string;
+          home_penalties?: number | null;
+          away_penalties?: number | null;
+          penalty_kicks?: Json;
+          kickoff_at?: string | null;
+          half_time_at?: string | null;
+          second_half_at?: string | null;
+          finished_at?: string | null;
+          reopen_reason?: string | null;
+          disputed_at?: string | null;
+          dispute_team_id?: string | null;
+          dispute_reason?: string | null;
+          disputed_by_email?: string | null;
+          dispute_resolved_at?: string | null;
+          dispute_resolution?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "matches_dispute_team_id_fkey";
+            columns: ["dispute_team_id"];
+            isOneToOne: false;
+            referencedRelation: "teams";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "matches_away_team_id_fkey";
+            columns: ["away_team_id"];
+            isOneToOne: false;
+            referencedRelation: "teams";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "matches_home_team_id_fkey";
+            columns: ["home_team_id"];
+            isOneToOne: false;
+            referencedRelation: "teams";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "matches_tournament_id_fkey";
+            columns: ["tournament_id"];
+            isOneToOne: false;
+            referencedRelation: "tournaments";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      tournament_templates: {
+        Row: {
+          id: string;
+          user_id: string;
+          created_at: string;
+          name: string;
+          settings: Json;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          created_at?: string;
+          name: string;
+          settings?: Json;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          created_at?: string;
+          name?: string;
+          settings?: Json;
+        };
+        Relationships: [];
+      };
+      tournament_members: {
+        Row: {
+          id: string;
+          tournament_id: string;
+          email: string;
+          user_id: string | null;
+          role: string;
+          invited_by: string | null;
+          created_at: string;
+          accepted_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          tournament_id: string;
+          email: string;
+          user_id?: string | null;
+          role?: string;
+          invited_by?: string | null;
+          created_at?: string;
+          accepted_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          tournament_id?: string;
+          email?: string;
+          user_id?: string | null;
+          role?: string;
+          invited_by?: string | null;
+          created_at?: string;
+          accepted_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "tournament_members_tournament_id_fkey";
+            columns: ["tournament_id"];
+            isOneToOne: false;
+            referencedRelation: "tournaments";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      match_events: {
+        Row: {
+          id: string;
+          tournament_id: string;
+          match_id: string;
+          team_id: string | null;
+          player_id: string | null;
+          event_type: string;
+          minute: number | null;
+          created_at: string | null;
+          client_id: string | null;
+        };
+        Insert: {
+          id?: string;
+          tournament_id: string;
+          match_id: string;
+          team_id?: string | null;
+          player_id?: string | null;
+          event_type: string;
+          minute?: number | null;
+          created_at?: string | null;
+          client_id?: string | null;
+        };
+        Update: {
+          id?: string;
+          tournament_id?: string;
+          match_id?: string;
+          team_id?: string | null;
+          player_id?: string | null;
+          event_type?: string;
+          minute?: number | null;
+          created_at?: string | null;
+          client_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "match_events_match_id_fkey";
+            columns: ["match_id"];
+            isOneToOne: false;
+            referencedRelation: "matches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "match_events_player_id_fkey";
+            columns: ["player_id"];
+            isOneToOne: false;
+            referencedRelation: "players";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "match_events_team_id_fkey";
+            columns: ["team_id"];
+            isOneToOne: false;
+            referencedRelation: "teams";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "match_events_tournament_id_fkey";
+            columns: ["tournament_id"];
+            isOneToOne: false;
+            referencedRelation: "tournaments";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      audit_log: {
+        Row: {
+          id: string;
+          tournament_id: string;
+          table_name: string;
+          row_id: string;
+          match_id: string | null;
+          action: string;
+          actor_id: string | null;
+          actor_email: string | null;
+          old_row: Json | null;
+          new_row: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tournament_id: string;
+          table_name: string;
+          row_id: string;
+          match_id?: string | null;
+          action: string;
+          actor_id?: string | null;
+          actor_email?: string | null;
+          old_row?: Json | null;
+          new_row?: Json | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          tournament_id?: string;
+          table_name?: string;
+          row_id?: string;
+          match_id?: string | null;
+          action?: string;
+          actor_id?: string | null;
+          actor_email?: string | null;
+          old_row?: Json | null;
+          new_row?: Json | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_tournament_id_fkey";
+            columns: ["tournament_id"];
+            isOneToOne: false;
+            referencedRelation: "tournaments";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      accept_tournament_invitations: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      delete_tournament_cascade: {
+        Args: { p_tournament_id: string };
+        Returns: undefined;
+      };
+      duplicate_tournament: {
+        Args: {
+          p_tournament_id: string;
+          p_title: string;
+          p_tournament_date: string | null;
+          p_with_teams?: boolean;
+          p_with_players?: boolean;
+        };
+        Returns: string;
+      };
+      flag_match_dispute: {
+        Args: { p_match_id: string; p_reason: string; p_team_id?: string | null };
+        Returns: undefined;
+      };
+      public_tournament: {
+        Args: { p_slug: string };
+        Returns: Json;
+      };
+      purge_trashed_tournaments: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      recompute_match_score: {
+        Args: { p_match_id: string };
+        Returns: undefined;
+      };
+      reopen_match: {
+        Args: { p_match_id: string; p_reason: string };
+        Returns: undefined;
+      };
+      restore_tournament: {
+        Args: { p_tournament_id: string };
+        Returns: undefined;
+      };
+      set_knockout_teams: {
+        Args: { p_match_id: string; p_home_team_id: string | null; p_away_team_id: string | null };
+        Returns: undefined;
+      };
+      tournament_role: {
+        Args: { p_tournament_id: string };
+        Returns: string | null;
+      };
+      trash_tournament: {
+        Args: { p_tournament_id: string };
+        Returns: undefined;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database["public"];
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"];
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"];
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"];
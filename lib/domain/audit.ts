@@ -0,0 +1,168 @@
+import type { Json } from "../database.types";
+import type { AuditEntry } from "./models";
+import { eventIcon, eventLabel } from "./events";
+import { MATCH_STATUS_LABELS, normalizeMatchStatus } from "./matchClock";
+import { timeHHMM } from "./time";
+
+/**
+ * Journal des modifications (table audit_log, écrite par triggers): mise en forme lisible.
+ * old_row / new_row = lignes complètes avant / après (null pour un ajout / une suppression).
+ */
+
+export type AuditTable = "matches" | "match_events" | "teams" | "players";
+
+export const AUDIT_TABLES: AuditTable[] = ["matches", "match_events", "teams", "players"];
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  matches: "Matchs",
+  match_events: "Événements",
+  teams: "Équipes",
+  players: "Joueurs",
+};
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  insert: "➕ Ajout",
+  update: "✏️ Modification",
+  delete: "🗑️ Suppression",
+};
+
+/** Noms pour remplacer les identifiants (équipes, joueurs). */
+export type AuditNames = { teams: Map<string, string>; players: Map<string, string> };
+
+export type AuditChange = { field: string; label: string; before: string; after: string };
+
+// Colonnes techniques ou trop volumineuses pour être lisibles
+const HIDDEN_FIELDS = new Set(["id", "tournament_id", "match_id", "created_at", "client_id", "logo_svg", "jersey_svg"]);
+
+const FIELD_LABELS: Record<string, string> = {
+  status: "Statut",
+  home_score: "Score dom.",
+  away_score: "Score ext.",
+  decided_by: "Issue",
+  home_penalties: "TAB dom.",
+  away_penalties: "TAB ext.",
+  penalty_kicks: "Tirs au but",
+  start_time: "Horaire",
+  field_idx: "Terrain",
+  home_team_id: "Équipe dom.",
+  away_team_id: "Équipe ext.",
+  kickoff_at: "Coup d'envoi",
+  half_time_at: "Mi-temps",
+  second_half_at: "2e période",
+  finished_at: "Fin",
+  event_type: "Type",
+  player_id: "Joueur",
+  team_id: "Équipe",
+  minute: "Minute",
+  name: "Nom",
+  first_name: "Prénom",
+  last_name: "Nom",
+  jersey_number: "Numéro",
+  license_number: "Licence",
+  birth_date: "Naissance",
+  group_idx: "Poule",
+  reopen_reason: "Motif de réouverture",
+  disputed_at: "Contesté le",
+  dispute_team_id: "Contesté par",
+  dispute_reason: "Motif de contestation",
+  disputed_by_email: "Contestation saisie par",
+  dispute_resolved_at: "Contestation close le",
+  dispute_resolution: "Décision",
+};
+
+function asRecord(v: Json | null): Record<string, Json | undefined> {
+  return v && typeof v === "object" && !Array.isArray(v) ? v : {};
+}
+
+function str(v: Json | undefined) {
+  return typeof v === "string" ? v : "";
+}
+
+function display(field: string, v: Json | undefined, names: AuditNames): string {
+  if (v == null || v === "") return "—";
+  if (field === "status") return MATCH_STATUS_LABELS[normalizeMatchStatus(str(v))];
+  if (field === "event_type") return `${eventIcon(str(v))} ${eventLabel(str(v))}`;
+  if (field.endsWith("team_id")) return names.teams.get(str(v)) ?? "Équipe supprimée";
+  if (field === "player_id") return names.players.get(str(v)) ?? "Joueur supprimé";
+  if (field === "start_time" || field.endsWith("_at")) return timeHHMM(str(v), str(v));
+  if (typeof v === "boolean") return v ? "oui" : "non";
+  if (typeof v === "object") return Array.isArray(v) ? `${v.length} élément(s)` : "…";
+  return String(v);
+}
+
+function playerName(p: { first_name: string | null; last_name: string | null }) {
+  return `${p.first_name ?? ""} ${p.last_name ?? ""}`.trim() || "Joueur";
+}
+
+/** Noms actuels, complétés par ceux trouvés dans le journal (équipes / joueurs supprimés depuis). */
+export function auditNames(
+  teams: { id: string; name: string | null }[],
+  players: { id: string; first_name: string | null; last_name: string | null }[],
+  entries: AuditEntry[]
+): AuditNames {
+  const names: AuditNames = {
+    teams: new Map(teams.map((t) => [t.id, t.name ?? "Équipe"])),
+    players: new Map(players.map((p) => [p.id, playerName(p)])),
+  };
+
+  for (const e of entries) {
+    const row = asRecord(e.old_row ?? e.new_row);
+    if (e.table_name === "teams" && !names.teams.has(e.row_id)) names.teams.set(e.row_id, str(row.name) || "Équipe");
+    if (e.table_name === "players" && !names.players.has(e.row_id)) {
+      names.players.set(e.row_id, playerName({ first_name: str(row.first_name), last_name: str(row.last_name) }));
+    }
+  }
+  return names;
+}
+
+/** Champs modifiés (modification), ou renseignés (ajout / suppression). */
+export function auditChanges(e: AuditEntry, names: AuditNames): AuditChange[] {
+  const before = asRecord(e.old_row);
+  const after = asRecord(e.new_row);
+  const fields = Object.keys(e.action === "delete" ? before : after).filter((f) => !HIDDEN_FIELDS.has(f));
+
+  const out: AuditChange[] = [];
+  for (const field of fields) {
+    const b = before[field];
+    const a = after[field];
+    if (e.action === "update" && JSON.stringify(b ?? null) === JSON.stringify(a ?? null)) continue;
+    if (e.action !== "update" && (e.action === "delete" ? b : a) == null) continue;
+    out.push({
+      field,
+      label: FIELD_LABELS[field] ?? field,
+      before: e.action === "insert" ? "" : display(field, b, names),
+      after: e.action === "delete" ? "" : display(field, a, names),
+    });
+  }
+  return out;
+}
+
+/** Objet concerné: "Match A vs B", "⚽️ But · Dupont", "Équipe X", "Joueur Y". */
+export function auditSubject(e: AuditEntry, names: AuditNames) {
+  const row = asRecord(e.new_row ?? e.old_row);
+  const team = (k: string) => names.teams.get(str(row[k])) ?? "À déterminer";
+
+  switch (e.table_name) {
+    case "matches":
+      return `Match ${team("home_team_id")} vs ${team("away_team_id")}`;
+    case "match_events": {
+      const who = row.player_id ? display("player_id", row.player_id, names) : team("team_id");
+      return `${display("event_type", row.event_type, names)} · ${who}`;
+    }
+    case "teams":
+      return `Équipe ${str(row.name) || "?"}`;
+    case "players":
+      return `Joueur ${`${str(row.first_name)} ${str(row.last_name)}`.trim() || "?"}`;
+    default:
+      return e.table_name;
+  }
+}
+
+export function auditActor(e: AuditEntry) {
+  return e.actor_email ?? (e.actor_id ? "Utilisateur" : "Système");
+}
+
+export function auditDateTime(e: AuditEntry) {
+  const d = new Date(e.created_at);
+  return Number.isNaN(d.getTime()) ? e.created_at : d.toLocaleString("fr-FR");
+}
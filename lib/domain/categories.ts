@@ -0,0 +1,183 @@
+import type { Json } from "../database.types";
+import type { Match, Team, Tournament } from "./models";
+import { groupCountOf, groupNamesOf, isGroupFormat, MAX_GROUPS, teamGroupIdx } from "./tournament";
+import type { DurationModel } from "./fields";
+import {
+  computeGroupStandings,
+  type GroupStandings,
+  type StandingMatch,
+  type StandingsOptions,
+  type StandingTeam,
+} from "./standings";
+import { clampInt } from "./utils";
+
+/**
+ * Catégories (U9, U11, U13...) dans un même tournoi: format, poules, phase finale, durées et équipes propres,
+ * mais terrains et créneaux partagés (le planning les place ensemble, jamais deux matchs sur un terrain à la fois).
+ * Sans catégorie (tournaments.categories vide): une catégorie implicite (id "") = réglages du tournoi.
+ */
+
+export const MAX_CATEGORIES = 12;
+
+export type Category = {
+  id: string; // "" = catégorie implicite
+  name: string;
+  format: string;
+  group_count: number;
+  group_names: string[];
+  knockout_enabled: boolean;
+  knockout_qualifiers: number;
+  match_duration_min: number | null; // null = durée du terrain / du tournoi
+  group_match_durations: number[]; // 0 = durée de la catégorie
+};
+
+type CategoriesTournament = Pick<
+  Tournament,
+  "categories" | "format" | "group_count" | "group_names" | "knockout_enabled" | "knockout_qualifiers"
+> &
+  Partial<Pick<Tournament, "group_match_durations">>;
+
+function positive(v: unknown) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? clampInt(n, 1, 240) : null;
+}
+
+function asCategory(v: Json, i: number): Category | null {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return null;
+  if (typeof v.id !== "string" || !v.id) return null;
+
+  return {
+    id: v.id,
+    name: (typeof v.name === "string" ? v.name.trim() : "") || `Catégorie ${i + 1}`,
+    format: v.format === "groups_round_robin" ? "groups_round_robin" : "round_robin",
+    group_count: clampInt(Number(v.group_count ?? 1), 1, MAX_GROUPS),
+    group_names: Array.isArray(v.group_names) ? v.group_names.map((x) => String(x ?? "")) : [],
+    knockout_enabled: v.knockout_enabled === true,
+    knockout_qualifiers: clampInt(Number(v.knockout_qualifiers ?? 2), 1, 8),
+    match_duration_min: positive(v.match_duration_min),
+    group_match_durations: Array.isArray(v.group_match_durations) ? v.group_match_durations.map((x) => positive(x) ?? 0) : [],
+  };
+}
+
+/** Catégories du tournoi (au moins 1). */
+export function categoriesOf(t: CategoriesTournament | null | undefined): Category[] {
+  const raw = Array.isArray(t?.categories) ? t.categories : [];
+  const list = raw
+    .map(asCategory)
+    .filter((c): c is Category => c !== null)
+    .slice(0, MAX_CATEGORIES);
+  if (list.length > 0) return list;
+
+  return [
+    {
+      id: "",
+      name: "",
+      format: t?.format === "groups_round_robin" ? "groups_round_robin" : "round_robin",
+      group_count: clampInt(Number(t?.group_count ?? 1), 1, MAX_GROUPS),
+      group_names: (t?.group_names ?? []).map(String),
+      knockout_enabled: Boolean(t?.knockout_enabled),
+      knockout_qualifiers: clampInt(Number(t?.knockout_qualifiers ?? 2), 1, 8),
+      match_duration_min: null,
+      group_match_durations: (t?.group_match_durations ?? []).map((n) => positive(n) ?? 0),
+    },
+  ];
+}
+
+export function hasCategories(t: Pick<Tournament, "categories"> | null | undefined) {
+  return Array.isArray(t?.categories) && t.categories.length > 0;
+}
+
+/** Catégories => tournaments.categories. */
+export function categoriesJson(list: Category[]): Json {
+  return list.map((c) => ({
+    id: c.id,
+    name: c.name,
+    format: c.format,
+    group_count: c.group_count,
+    group_names: c.group_names,
+    knockout_enabled: c.knockout_enabled,
+    knockout_qualifiers: c.knockout_qualifiers,
+    match_duration_min: c.match_duration_min,
+    group_match_durations: c.group_match_durations,
+  }));
+}
+
+/** Identifiant libre pour une nouvelle catégorie ("c1", "c2"...). */
+export function nextCategoryId(list: Pick<Category, "id">[]) {
+  const used = new Set(list.map((c) => c.id));
+  let n = list.length + 1;
+  while (used.has(`c${n}`)) n++;
+  return `c${n}`;
+}
+
+/** Catégorie d'une équipe ou d'un match (inconnue / vide => la 1re). */
+export function categoryOf(categories: Category[], row: { category_id?: string | null }) {
+  return categories.find((c) => c.id === (row.category_id ?? "")) ?? categories[0];
+}
+
+/** Lignes (équipes, matchs) de cette catégorie. */
+export function inCategory<T extends { category_id?: string | null }>(rows: T[], categories: Category[], category: Category) {
+  return rows.filter((r) => categoryOf(categories, r).id === category.id);
+}
+
+/** "U11 · " devant un libellé, rien sans catégorie. */
+export function categoryPrefix(category: Pick<Category, "name">) {
+  return category.name ? `${category.name} · ` : "";
+}
+
+/** Classement par poule, catégorie après catégorie ("U11 · Poule A", "U13"). */
+export function computeCategoryStandings(
+  teams: (StandingTeam & { category_id?: string | null })[],
+  matches: (StandingMatch & { category_id?: string | null })[],
+  categories: Category[],
+  options: StandingsOptions = {}
+): GroupStandings[] {
+  return categories.flatMap((c) =>
+    computeGroupStandings(
+      inCategory(teams, categories, c),
+      inCategory(matches, categories, c),
+      isGroupFormat(c) ? groupNamesOf(c).map((n) => categoryPrefix(c) + n) : [c.name || "Classement"],
+      options
+    )
+  );
+}
+
+// --------- PLANNING ---------
+
+/** Poules de toutes les catégories à la suite (1..total): le moteur de planning ne voit que des poules. */
+export function categoryGroupOffsets(categories: Category[]) {
+  const offsets = new Map<string, number>();
+  let total = 0;
+  for (const c of categories) {
+    offsets.set(c.id, total);
+    total += groupCountOf(c);
+  }
+  return { offsets, total: Math.max(1, total) };
+}
+
+/** Poule "globale" d'une équipe (cf. categoryGroupOffsets). */
+export function globalGroupIdx(categories: Category[], team: Pick<Team, "group_idx" | "category_id">) {
+  const c = categoryOf(categories, team);
+  return (categoryGroupOffsets(categories).offsets.get(c.id) ?? 0) + teamGroupIdx(team, groupCountOf(c));
+}
+
+/** Durées des catégories reportées sur le modèle: poule globale > catégorie > terrain. */
+export function withCategoryDurations(model: DurationModel, categories: Category[]): DurationModel {
+  const groupMinutes: (number | null)[] = [];
+  const categoryMinutes: Record<string, number> = {};
+
+  for (const c of categories) {
+    if (c.match_duration_min) categoryMinutes[c.id] = c.match_duration_min;
+    for (let g = 1; g <= groupCountOf(c); g++) {
+      const own = isGroupFormat(c) ? c.group_match_durations[g - 1] : 0;
+      groupMinutes.push(own || c.match_duration_min || null);
+    }
+  }
+
+  return { ...model, groupMinutes, categoryMinutes };
+}
+
+/** Catégorie d'un match pour le moteur (null = catégorie implicite). */
+export function categoryIdOrNull(category: Pick<Category, "id">): Match["category_id"] {
+  return category.id || null;
+}
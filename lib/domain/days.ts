@@ -0,0 +1,98 @@
+import type { Json } from "../database.types";
+import type { Match, Tournament } from "./models";
+import { isTime, normHHMM, timeToMin } from "./time";
+import { clampInt } from "./utils";
+
+/**
+ * Tournoi sur plusieurs jours.
+ * Jour 1 = colonnes du tournoi (tournament_date, start_time, end_time, num_fields, pauses, field_pauses),
+ * jours suivants = tournaments.extra_days. Chaque jour a ses horaires, son nb de terrains et ses pauses.
+ */
+
+export const MAX_DAYS = 7;
+
+export type TournamentDay = {
+  date: string | null; // "YYYY-MM-DD"
+  start_time: string; // "HH:MM"
+  end_time: string;
+  num_fields: number;
+  pauses: Json | null; // ancien format (jour 1 uniquement)
+  field_pauses: Json | null; // { "1": [{ from, to }], ... }
+};
+
+type DaysTournament = Pick<Tournament, "tournament_date" | "start_time" | "end_time" | "num_fields" | "extra_days"> &
+  Partial<Pick<Tournament, "pauses" | "field_pauses">>; // pas de pauses dans l'instantané public
+
+function asDay(v: Json, fallback: TournamentDay): TournamentDay | null {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return null;
+
+  const start = normHHMM(typeof v.start_time === "string" ? v.start_time : "");
+  const end = normHHMM(typeof v.end_time === "string" ? v.end_time : "");
+  const fp = v.field_pauses;
+
+  return {
+    date: typeof v.date === "string" && v.date ? v.date : null,
+    start_time: isTime(start) ? start : fallback.start_time,
+    end_time: isTime(end) ? end : fallback.end_time,
+    num_fields: clampInt(Number(v.num_fields ?? fallback.num_fields), 1, 24),
+    pauses: null,
+    field_pauses: fp && typeof fp === "object" && !Array.isArray(fp) ? fp : {},
+  };
+}
+
+/** Jours du tournoi (au moins 1). */
+export function daysOf(t: DaysTournament | null | undefined): TournamentDay[] {
+  const first: TournamentDay = {
+    date: t?.tournament_date ?? null,
+    start_time: normHHMM(t?.start_time) || "09:00",
+    end_time: normHHMM(t?.end_time) || "18:00",
+    num_fields: clampInt(Number(t?.num_fields ?? 1), 1, 24),
+    pauses: t?.pauses ?? null,
+    field_pauses: t?.field_pauses ?? null,
+  };
+
+  const extra = Array.isArray(t?.extra_days) ? t.extra_days : [];
+  const rest = extra
+    .map((d) => asDay(d, first))
+    .filter((d): d is TournamentDay => d !== null)
+    .slice(0, MAX_DAYS - 1);
+
+  return [first, ...rest];
+}
+
+/** Jours suivants (sans le jour 1) => tournaments.extra_days. */
+export function extraDaysJson(extra: TournamentDay[]): Json {
+  return extra.map((d) => ({
+    date: d.date,
+    start_time: d.start_time,
+    end_time: d.end_time,
+    num_fields: d.num_fields,
+    field_pauses: d.field_pauses ?? {},
+  }));
+}
+
+/** Jour d'un match (1..dayCount). */
+export function matchDayIdx(m: Pick<Match, "day_idx">, dayCount: number) {
+  return clampInt(Number(m.day_idx ?? 1), 1, Math.max(1, dayCount));
+}
+
+/** Minutes depuis minuit du jour 1 (comparaisons d'horaires entre jours). */
+export function absoluteMin(dayIdx: number | null | undefined, hhmm: string) {
+  return (Math.max(1, dayIdx ?? 1) - 1) * 24 * 60 + timeToMin(hhmm);
+}
+
+/** "Jour 2 · sam. 12 oct." */
+export function dayLabel(day: Pick<TournamentDay, "date">, dayIdx: number) {
+  if (!day.date) return `Jour ${dayIdx}`;
+  const d = new Date(`${day.date}T12:00:00`);
+  if (Number.isNaN(d.getTime())) return `Jour ${dayIdx}`;
+  return `Jour ${dayIdx} · ${d.toLocaleDateString("fr-FR", { weekday: "short", day: "numeric", month: "short" })}`;
+}
+
+/** Jour correspondant à la date du jour (écran, saisie), sinon le 1er. */
+export function todayDayIdx(days: TournamentDay[], now = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const today = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  const idx = days.findIndex((d) => d.date === today);
+  return idx === -1 ? 1 : idx + 1;
+}
@@ -0,0 +1,17 @@
+import type { Match } from "./models";
+
+/**
+ * Matchs validés verrouillés + contestations (triggers matches_lock_guard / match_events_lock_guard).
+ * Réouverture: admin + motif (RPC reopen_match). Contestation: capitaine (email de l'équipe) ou admin (RPC flag_match_dispute).
+ */
+
+export const LOCKED_MESSAGE = "🔒 Match validé: un admin doit le rouvrir (avec un motif) pour le modifier.";
+
+export const DISPUTE_BADGE = "⚠️ Contesté";
+
+export type DisputeMatch = Pick<Match, "disputed_at" | "dispute_resolved_at">;
+
+/** Contestation en cours (signalée et pas encore close). */
+export function isDisputed(m: DisputeMatch | null | undefined) {
+  return Boolean(m?.disputed_at) && !m?.dispute_resolved_at;
+}
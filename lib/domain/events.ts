@@ -0,0 +1,70 @@
+import type { MatchEventType } from "./models";
+
+/**
+ * Types d'événements de match: icône + libellé, partagés par les pages (détails, arbitre, résultats, écran, exports).
+ * - penalty_goal: but sur penalty (compté comme un but du joueur)
+ * - own_goal: but contre son camp (compté pour l'adversaire, pas pour le buteur)
+ * - blue_card: exclusion temporaire (pas de suspension, pas de fair-play)
+ */
+
+export const EVENT_ICONS: Record<MatchEventType, string> = {
+  goal: "⚽️",
+  penalty_goal: "🅿️",
+  own_goal: "🥅",
+  penalty_missed: "❌",
+  assist: "🎯",
+  save: "🧤",
+  yellow: "🟡",
+  blue_card: "🔵",
+  red: "🔴",
+  mvp: "⭐",
+  staff_yellow: "🟡",
+  staff_red: "🔴",
+};
+
+export const EVENT_LABELS: Record<MatchEventType, string> = {
+  goal: "But",
+  penalty_goal: "But sur penalty",
+  own_goal: "But contre son camp",
+  penalty_missed: "Penalty manqué",
+  assist: "Passe décisive",
+  save: "Arrêt",
+  yellow: "Carton jaune",
+  blue_card: "Carton bleu (exclusion temporaire)",
+  red: "Carton rouge",
+  mvp: "MVP",
+  staff_yellow: "Carton jaune staff",
+  staff_red: "Carton rouge staff",
+};
+
+/** Buts crédités au joueur (classement des buteurs). */
+export const SCORER_EVENT_TYPES: MatchEventType[] = ["goal", "penalty_goal"];
+
+function known(type: string | null | undefined): MatchEventType | null {
+  const t = (type ?? "").toLowerCase();
+  return t in EVENT_ICONS ? (t as MatchEventType) : null;
+}
+
+export function eventIcon(type: string | null | undefined) {
+  const t = known(type);
+  return t ? EVENT_ICONS[t] : "•";
+}
+
+export function eventLabel(type: string | null | undefined) {
+  const t = known(type);
+  return t ? EVENT_LABELS[t] : (type ?? "");
+}
+
+/** Précision affichée après le nom du joueur ("Dupont CSC", "Martin (pen.)"). */
+export function eventSuffix(type: string | null | undefined) {
+  const t = known(type);
+  if (t === "own_goal") return " CSC";
+  if (t === "penalty_goal") return " (pen.)";
+  if (t === "penalty_missed") return " (pen. manqué)";
+  return "";
+}
+
+export function isScorerEvent(type: string | null | undefined) {
+  const t = known(type);
+  return t != null && SCORER_EVENT_TYPES.includes(t);
+}
@@ -0,0 +1,127 @@
+/**
+ * Fair-play (points de pénalité): plus c'est bas, mieux c'est.
+ * Calculé à partir des cartons des matchs validés.
+ *
+ * Par joueur et par match:
+ * - 1 jaune                => yellow
+ * - 2 jaunes (+ rouge auto) => yellow + second_yellow (le rouge automatique n'est pas recompté)
+ * - rouge direct           => red (+ yellow si un jaune avant)
+ * Cartons staff (joueur vide): staff par carton.
+ */
+
+export type FairPlayPoints = {
+  yellow: number;
+  second_yellow: number;
+  red: number;
+  staff: number;
+};
+
+export const DEFAULT_FAIR_PLAY_POINTS: FairPlayPoints = { yellow: 1, second_yellow: 3, red: 4, staff: 2 };
+
+export const STAFF_CARD_TYPES = ["staff_yellow", "staff_red"];
+
+export const CARD_EVENT_TYPES = ["yellow", "red", ...STAFF_CARD_TYPES];
+
+export type CardEvent = {
+  match_id?: string | null;
+  team_id: string | null;
+  player_id?: string | null;
+  event_type: string | null;
+};
+
+export type FairPlayRow = {
+  team_id: string;
+  team_name: string;
+  yellows: number;
+  second_yellows: number;
+  reds: number; // rouges directs
+  staff_cards: number;
+  points: number;
+};
+
+export function normalizeFairPlayPoints(v: unknown): FairPlayPoints {
+  const o = v && typeof v === "object" ? (v as Record<string, unknown>) : {};
+  const num = (k: keyof FairPlayPoints) => {
+    const n = Number(o[k]);
+    return Number.isFinite(n) && n >= 0 ? Math.floor(n) : DEFAULT_FAIR_PLAY_POINTS[k];
+  };
+  return { yellow: num("yellow"), second_yellow: num("second_yellow"), red: num("red"), staff: num("staff") };
+}
+
+export function isStaffCard(type: string | null | undefined) {
+  return STAFF_CARD_TYPES.includes((type ?? "").toLowerCase());
+}
+
+function emptyRow(teamId: string, name: string): FairPlayRow {
+  return { team_id: teamId, team_name: name, yellows: 0, second_yellows: 0, reds: 0, staff_cards: 0, points: 0 };
+}
+
+/** Tableau fair-play par équipe (tri: points ↑, puis nom). */
+export function computeFairPlay(
+  teams: { id: string; name: string | null }[],
+  events: CardEvent[],
+  points: FairPlayPoints = DEFAULT_FAIR_PLAY_POINTS
+): FairPlayRow[] {
+  const byTeam = new Map<string, FairPlayRow>();
+  for (const t of teams) byTeam.set(t.id, emptyRow(t.id, (t.name ?? "").trim() || "Équipe"));
+
+  // cartons joueurs regroupés par match + joueur (2e jaune vs rouge direct)
+  const perPlayer = new Map<string, { teamId: string; yellows: number; reds: number }>();
+
+  for (const e of events) {
+    const teamId = e.team_id ?? "";
+    const row = byTeam.get(teamId);
+    if (!row) continue;
+
+    const type = (e.event_type ?? "").toLowerCase();
+
+    if (isStaffCard(type)) {
+      row.staff_cards += 1;
+      row.points += points.staff;
+      continue;
+    }
+
+    if (type !== "yellow" && type !== "red") continue;
+
+    const key = `${e.match_id ?? ""}|${e.player_id ?? ""}`;
+    const cur = perPlayer.get(key) ?? { teamId, yellows: 0, reds: 0 };
+    if (type === "yellow") cur.yellows += 1;
+    else cur.reds += 1;
+    perPlayer.set(key, cur);
+  }
+
+  for (const c of perPlayer.values()) {
+    const row = byTeam.get(c.teamId)!;
+
+    if (c.yellows >= 2) {
+      row.yellows += 1;
+      row.second_yellows += 1;
+      row.points += points.yellow + points.second_yellow;
+    } else {
+      row.yellows += c.yellows;
+      row.points += c.yellows * points.yellow;
+      if (c.reds > 0) {
+        row.reds += 1;
+        row.points += points.red;
+      }
+    }
+  }
+
+  const arr = Array.from(byTeam.values());
+  arr.sort((a, b) => {
+    if (a.points !== b.points) return a.points - b.points;
+    return a.team_name.localeCompare(b.team_name);
+  });
+  return arr;
+}
+
+/** team_id -> points fair-play (pour le départage du classement). */
+export function fairPlayPointsByTeam(events: CardEvent[], points: FairPlayPoints = DEFAULT_FAIR_PLAY_POINTS) {
+  const teamIds = Array.from(new Set(events.map((e) => e.team_id ?? "").filter(Boolean)));
+  const rows = computeFairPlay(
+    teamIds.map((id) => ({ id, name: id })),
+    events,
+    points
+  );
+  return new Map(rows.map((r) => [r.team_id, r.points]));
+}
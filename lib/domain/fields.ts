@@ -0,0 +1,121 @@
+import type { Json } from "../database.types";
+import type { Match, Tournament } from "./models";
+import { clampInt } from "./utils";
+
+/**
+ * Terrains: format (5 / 7 / 8 / 11), surface, couvert ou non, durée de match propre.
+ * Durée d'un match: poule (si définie) > catégorie (si définie) > terrain (si définie) > durée du tournoi.
+ * Un créneau = durée de match du terrain + rotation: les grilles des terrains ne sont pas forcément alignées.
+ */
+
+export const FIELD_SIZES = ["5", "7", "8", "11"] as const;
+export type FieldSize = (typeof FIELD_SIZES)[number];
+
+export const FIELD_SIZE_LABELS: Record<FieldSize, string> = {
+  "5": "5 contre 5",
+  "7": "7 contre 7",
+  "8": "8 contre 8",
+  "11": "11 contre 11",
+};
+
+export const FIELD_SURFACES = ["grass", "synthetic", "indoor_floor", "stabilized"] as const;
+export type FieldSurface = (typeof FIELD_SURFACES)[number];
+
+export const FIELD_SURFACE_LABELS: Record<FieldSurface, string> = {
+  grass: "Herbe",
+  synthetic: "Synthétique",
+  indoor_floor: "Parquet / salle",
+  stabilized: "Stabilisé",
+};
+
+export type FieldSettings = {
+  size: FieldSize | null;
+  surface: FieldSurface | null;
+  indoor: boolean;
+  match_duration_min: number | null; // null = durée du tournoi
+};
+
+export const EMPTY_FIELD_SETTINGS: FieldSettings = { size: null, surface: null, indoor: false, match_duration_min: null };
+
+function asFieldSettings(v: Json | undefined): FieldSettings {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return EMPTY_FIELD_SETTINGS;
+  const size = FIELD_SIZES.find((s) => s === String(v.size ?? ""));
+  const surface = FIELD_SURFACES.find((s) => s === v.surface);
+  const md = Number(v.match_duration_min);
+  return {
+    size: size ?? null,
+    surface: surface ?? null,
+    indoor: v.indoor === true,
+    match_duration_min: Number.isFinite(md) && md > 0 ? clampInt(md, 1, 240) : null,
+  };
+}
+
+/** Réglages des terrains 1..fieldCount (tournaments.field_settings, complété par défaut). */
+export function fieldSettingsOf(t: Pick<Tournament, "field_settings"> | null | undefined, fieldCount: number) {
+  const raw = Array.isArray(t?.field_settings) ? t.field_settings : [];
+  return Array.from({ length: Math.max(1, fieldCount) }, (_, i) => asFieldSettings(raw[i]));
+}
+
+/** Réglages des terrains => tournaments.field_settings. */
+export function fieldSettingsJson(list: FieldSettings[]): Json {
+  return list.map((f) => ({ size: f.size, surface: f.surface, indoor: f.indoor, match_duration_min: f.match_duration_min }));
+}
+
+/** "7c7 · Synthétique · couvert" (vide si rien n'est renseigné). */
+export function fieldAttributesLabel(f: FieldSettings) {
+  const parts: string[] = [];
+  if (f.size) parts.push(`${f.size}c${f.size}`);
+  if (f.surface) parts.push(FIELD_SURFACE_LABELS[f.surface]);
+  if (f.indoor) parts.push("couvert");
+  if (f.match_duration_min) parts.push(`${f.match_duration_min} min`);
+  return parts.join(" · ");
+}
+
+// --------- DURÉES ---------
+
+export type DurationModel = {
+  defaultMinutes: number; // tournaments.match_duration_min
+  rotationMinutes: number;
+  fieldMinutes: (number | null)[]; // index = terrain - 1
+  groupMinutes: (number | null)[]; // index = poule - 1
+  categoryMinutes: Record<string, number>; // id de catégorie => durée (cf. withCategoryDurations)
+};
+
+export function durationModelOf(
+  t: Pick<Tournament, "match_duration_min" | "rotation_duration_min" | "field_settings" | "group_match_durations"> | null | undefined,
+  fieldCount: number
+): DurationModel {
+  return {
+    defaultMinutes: Math.max(1, Number(t?.match_duration_min ?? 12)),
+    rotationMinutes: Math.max(0, Number(t?.rotation_duration_min ?? 0)),
+    fieldMinutes: fieldSettingsOf(t, fieldCount).map((f) => f.match_duration_min),
+    groupMinutes: (t?.group_match_durations ?? []).map((n) => (Number(n) > 0 ? Number(n) : null)),
+    categoryMinutes: {},
+  };
+}
+
+/** Durée de match d'un terrain (sans rotation). */
+export function fieldMatchMinutes(model: DurationModel, fieldIdx: number) {
+  return model.fieldMinutes[fieldIdx - 1] ?? model.defaultMinutes;
+}
+
+/** Longueur d'un créneau sur ce terrain (match + rotation). */
+export function fieldSlotMinutes(model: DurationModel, fieldIdx: number) {
+  return Math.max(1, fieldMatchMinutes(model, fieldIdx) + model.rotationMinutes);
+}
+
+/** Durée d'un match de cette poule sur ce terrain (groupIdx null = phase finale de la catégorie). */
+export function matchMinutesFor(model: DurationModel, fieldIdx: number, groupIdx: number | null, categoryId?: string | null) {
+  const g = groupIdx == null ? null : model.groupMinutes[groupIdx - 1];
+  return g ?? model.categoryMinutes[categoryId ?? ""] ?? fieldMatchMinutes(model, fieldIdx);
+}
+
+/** Le match tient dans le créneau du terrain (rotation comprise). */
+export function fitsField(model: DurationModel, fieldIdx: number, groupIdx: number | null, categoryId?: string | null) {
+  return matchMinutesFor(model, fieldIdx, groupIdx, categoryId) + model.rotationMinutes <= fieldSlotMinutes(model, fieldIdx);
+}
+
+/** Durée réelle d'un match enregistré (matches.duration_min, sinon durée du tournoi). */
+export function matchDurationOf(t: Pick<Tournament, "match_duration_min"> | null | undefined, m: Pick<Match, "duration_min"> | null | undefined) {
+  return Math.max(1, Number(m?.duration_min ?? t?.match_duration_min ?? 12));
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { buildKnockoutBracket, seedToGroupRank, type BracketMatch } from "./knockout";
+
+const seedOf = (source: string) => {
+  const m = /^seed:(\d+)$/.exec(source);
+  return m ? Number(m[1]) : null;
+};
+
+/** Moitié du tableau (0 = haut, 1 = bas) de chaque tête de série, exempts compris. */
+function halves(bracket: BracketMatch[]) {
+  const out = new Map<number, number>();
+  for (const bm of bracket) {
+    for (const source of [bm.home_source, bm.away_source]) {
+      const seed = seedOf(source);
+      if (seed != null && bm.round > 2) out.set(seed, bm.slot <= bm.round / 4 ? 0 : 1);
+    }
+  }
+  return out;
+}
+
+describe("buildKnockoutBracket", () => {
+  it("classement unique: ordre standard des têtes de série", () => {
+    expect(buildKnockoutBracket(4).map((bm) => [bm.home_source, bm.away_source])).toEqual([
+      ["seed:1", "seed:4"],
+      ["seed:2", "seed:3"],
+      ["winner:4:1", "winner:4:2"],
+    ]);
+  });
+
+  it("poules: 2 qualifiés par poule croisés (1er A - 2e B, 1er B - 2e A)", () => {
+    const first = buildKnockoutBracket(4, 2).filter((bm) => bm.round === 4);
+    const labels = first.map((bm) =>
+      [bm.home_source, bm.away_source].map((s) => {
+        const { groupIdx, rank } = seedToGroupRank(seedOf(s)!, 2);
+        return `${rank}${"AB"[groupIdx - 1]}`;
+      })
+    );
+    expect(labels).toEqual([
+      ["1A", "2B"],
+      ["1B", "2A"],
+    ]);
+  });
+
+  for (let groupCount = 2; groupCount <= 8; groupCount++) {
+    it(`${groupCount} poules x 2 qualifiés: pas de revanche au 1er match, 2e et 1er d'une poule dans des moitiés opposées`, () => {
+      const bracket = buildKnockoutBracket(groupCount * 2, groupCount);
+      const group = (source: string) => seedToGroupRank(seedOf(source)!, groupCount).groupIdx;
+
+      for (const bm of bracket) {
+        if (seedOf(bm.home_source) == null || seedOf(bm.away_source) == null) continue;
+        expect(group(bm.home_source)).not.toBe(group(bm.away_source));
+      }
+
+      const half = halves(bracket);
+      for (let g = 1; g <= groupCount; g++) expect(half.get(g)).not.toBe(half.get(groupCount + g));
+    });
+  }
+
+  it("garde toutes les têtes de série une seule fois", () => {
+    const seeds = buildKnockoutBracket(6, 3)
+      .flatMap((bm) => [bm.home_source, bm.away_source])
+      .map(seedOf)
+      .filter((s): s is number => s != null)
+      .sort((a, b) => a - b);
+    expect(seeds).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
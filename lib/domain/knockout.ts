@@ -0,0 +1,260 @@
+import { matchOutcome } from "./penalties";
+import { isPlayed } from "./tournament";
+import { computeGroupStandings, type StandingMatch, type StandingsOptions } from "./standings";
+
+/**
+ * Phase finale (élimination directe).
+ *
+ * Chaque côté d'un match de phase finale a une "source":
+ * - "seed:3"     => 3e tête de série (issue du classement des poules)
+ * - "winner:8:2" => vainqueur du match n°2 du tour à 8 (quart de finale)
+ *
+ * Les têtes de série sont ordonnées par rang puis par poule:
+ * 1er poule 1, 1er poule 2, ..., 2e poule 1, 2e poule 2, ...
+ */
+
+export type BracketMatch = {
+  round: number; // nb d'équipes dans le tour: 16, 8 (quarts), 4 (demies), 2 (finale)
+  slot: number; // 1..round/2
+  home_source: string;
+  away_source: string;
+};
+
+export type KnockoutMatch = StandingMatch & {
+  id: string;
+  status: string | null;
+  ko_round: number | null;
+  ko_slot: number | null;
+  home_source: string | null;
+  away_source: string | null;
+  decided_by?: string | null;
+  home_penalties?: number | null;
+  away_penalties?: number | null;
+};
+
+export type KnockoutTeam = {
+  id: string;
+  name: string | null;
+  group_idx?: number | null;
+};
+
+const BYE = "__BYE__";
+
+export function bracketSize(qualifiers: number) {
+  let size = 2;
+  while (size < qualifiers) size *= 2;
+  return size;
+}
+
+/** Ordre standard des têtes de série: 1 vs N, puis 1 et 2 dans des moitiés opposées. */
+function seedOrder(size: number) {
+  let order = [1, 2];
+  while (order.length < size) {
+    const n = order.length * 2;
+    const next: number[] = [];
+    for (const s of order) next.push(s, n + 1 - s);
+    order = next;
+  }
+  return order;
+}
+
+/**
+ * Places des 2es de poule: chacun dans l'autre moitié du tableau que le 1er de sa poule,
+ * et jamais face à une équipe de sa poule au premier match (sinon C1 - C2 avec 3 poules x 2 qualifiés).
+ * Les autres têtes de série gardent l'ordre standard.
+ */
+function groupAwareOrder(qualifiers: number, groupCount: number) {
+  const order = seedOrder(bracketSize(qualifiers));
+  const g = Math.max(1, groupCount);
+  if (g === 1 || qualifiers <= g) return order;
+
+  const half = (pos: number) => (pos < order.length / 2 ? 0 : 1);
+  const groupOf = (seed: number) => (seed <= qualifiers ? seedToGroupRank(seed, g).groupIdx : null);
+  const isRunnerUp = (seed: number) => seed > g && seed <= Math.min(2 * g, qualifiers);
+  const winnerHalf = new Map(order.flatMap((seed, pos) => (seed <= g ? [[seed, half(pos)] as const] : [])));
+
+  const positions = order
+    .map((seed, pos) => ({ seed, pos }))
+    .filter((x) => isRunnerUp(x.seed))
+    .sort((a, b) => a.seed - b.seed)
+    .map((x) => x.pos);
+  const remaining = positions.map((pos) => order[pos]).sort((a, b) => a - b);
+  const placed = new Set<number>(); // positions déjà attribuées (les autres 2es sont encore libres)
+
+  const out = [...order];
+  for (const pos of positions) {
+    const opponentPos = pos ^ 1;
+    const opponentSeed = isRunnerUp(order[opponentPos]) && !placed.has(opponentPos) ? null : out[opponentPos];
+    const opponentGroup = opponentSeed == null ? null : groupOf(opponentSeed);
+
+    const score = (seed: number) => {
+      const groupIdx = groupOf(seed)!;
+      return (winnerHalf.get(groupIdx) === half(pos) ? 2 : 0) + (groupIdx === opponentGroup ? 1 : 0);
+    };
+    const best = remaining.reduce((a, b) => (score(b) < score(a) ? b : a));
+
+    out[pos] = best;
+    placed.add(pos);
+    remaining.splice(remaining.indexOf(best), 1);
+  }
+  return out;
+}
+
+/**
+ * Construit tous les matchs du tableau. Les exempts (byes) passent directement au tour suivant.
+ * `groupCount`: nb de poules d'où viennent les qualifiés (cf. groupAwareOrder), 1 = classement unique.
+ */
+export function buildKnockoutBracket(qualifiers: number, groupCount = 1): BracketMatch[] {
+  if (qualifiers < 2) return [];
+
+  const size = bracketSize(qualifiers);
+  let entrants = groupAwareOrder(qualifiers, groupCount).map((s) => (s <= qualifiers ? `seed:${s}` : BYE));
+  const out: BracketMatch[] = [];
+
+  for (let round = size; round >= 2; round /= 2) {
+    const next: string[] = [];
+    for (let j = 0; j < round / 2; j++) {
+      const a = entrants[2 * j];
+      const b = entrants[2 * j + 1];
+      if (a === BYE) next.push(b);
+      else if (b === BYE) next.push(a);
+      else {
+        out.push({ round, slot: j + 1, home_source: a, away_source: b });
+        next.push(`winner:${round}:${j + 1}`);
+      }
+    }
+    entrants = next;
+  }
+
+  return out;
+}
+
+export function roundLabel(round: number | null | undefined) {
+  const r = Number(round ?? 0);
+  if (r === 2) return "Finale";
+  if (r === 4) return "Demi-finale";
+  if (r === 8) return "Quart de finale";
+  if (r > 8) return `${r / 2}e de finale`;
+  return "Phase finale";
+}
+
+export function roundShortLabel(round: number | null | undefined) {
+  const r = Number(round ?? 0);
+  if (r === 2) return "F";
+  if (r === 4) return "DF";
+  if (r === 8) return "QF";
+  if (r > 8) return `${r / 2}e`;
+  return "PF";
+}
+
+export function seedToGroupRank(seed: number, groupCount: number) {
+  const g = Math.max(1, groupCount);
+  return {
+    groupIdx: ((seed - 1) % g) + 1,
+    rank: Math.ceil(seed / g),
+  };
+}
+
+function ordinal(rank: number) {
+  return rank === 1 ? "1er" : `${rank}e`;
+}
+
+/** Libellé lisible d'une source ("1er Poule A", "Vainqueur QF 2"). */
+export function sourceLabel(source: string | null | undefined, groupNames: string[]) {
+  const s = (source ?? "").trim();
+
+  const seed = /^seed:(\d+)$/.exec(s);
+  if (seed) {
+    const groupCount = Math.max(1, groupNames.length);
+    const { groupIdx, rank } = seedToGroupRank(Number(seed[1]), groupCount);
+    if (groupCount === 1) return `${ordinal(rank)} du classement`;
+    return `${ordinal(rank)} ${groupNames[groupIdx - 1] ?? `Poule ${groupIdx}`}`;
+  }
+
+  const winner = /^winner:(\d+):(\d+)$/.exec(s);
+  if (winner) return `Vainqueur ${roundShortLabel(Number(winner[1]))} ${winner[2]}`;
+
+  return "À déterminer";
+}
+
+/** Vainqueur d'un match validé, tirs au but compris (null si nul ou non validé). */
+export function matchWinnerId(m: KnockoutMatch) {
+  if (!isPlayed(m)) return null;
+  const outcome = matchOutcome(m);
+  if (outcome === "home") return m.home_team_id ?? null;
+  if (outcome === "away") return m.away_team_id ?? null;
+  return null;
+}
+
+/**
+ * Calcule les équipes attendues sur chaque match de phase finale:
+ * - têtes de série: remplies quand tous les matchs de poule sont validés
+ * - vainqueurs: remplis quand le match source est validé
+ * Renvoie uniquement les matchs (non validés) dont les équipes doivent changer.
+ */
+export function planKnockoutAssignments(input: {
+  teams: KnockoutTeam[];
+  matches: KnockoutMatch[];
+  groupCount: number; // 1 si format round robin global
+  qualifiersPerGroup: number;
+  standings?: StandingsOptions; // points + départages du tournoi
+}) {
+  const { teams, matches, qualifiersPerGroup, standings } = input;
+  const groupCount = Math.max(1, input.groupCount);
+
+  const groupMatches = matches.filter((m) => (m.phase ?? "group") !== "knockout");
+  const koMatches = matches.filter((m) => m.phase === "knockout");
+
+  const groupStageDone =
+    groupMatches.length > 0 && groupMatches.every(isPlayed);
+
+  // Qualifiés par poule (ordre du classement)
+  const qualified = new Map<number, string[]>();
+  if (groupStageDone) {
+    const played = groupMatches.filter(isPlayed);
+    const names = Array.from({ length: groupCount }, (_, i) => `Poule ${i + 1}`);
+    for (const g of computeGroupStandings(teams, played, names, standings)) {
+      qualified.set(
+        g.groupIdx,
+        g.rows.slice(0, qualifiersPerGroup).map((r) => r.team_id)
+      );
+    }
+  }
+
+  const byRoundSlot = new Map<string, KnockoutMatch>();
+  for (const m of koMatches) byRoundSlot.set(`${m.ko_round}:${m.ko_slot}`, m);
+
+  function resolve(source: string | null): string | null {
+    const s = (source ?? "").trim();
+
+    const seed = /^seed:(\d+)$/.exec(s);
+    if (seed) {
+      if (!groupStageDone) return null;
+      const { groupIdx, rank } = seedToGroupRank(Number(seed[1]), groupCount);
+      return qualified.get(groupIdx)?.[rank - 1] ?? null;
+    }
+
+    const winner = /^winner:(\d+):(\d+)$/.exec(s);
+    if (winner) {
+      const src = byRoundSlot.get(`${winner[1]}:${winner[2]}`);
+      return src ? matchWinnerId(src) : null;
+    }
+
+    return null;
+  }
+
+  const updates: Array<{ id: string; home_team_id: string | null; away_team_id: string | null }> = [];
+
+  for (const m of koMatches) {
+    if (isPlayed(m)) continue;
+
+    const home = resolve(m.home_source);
+    const away = resolve(m.away_source);
+
+    if (home !== (m.home_team_id ?? null) || away !== (m.away_team_id ?? null)) {
+      updates.push({ id: m.id, home_team_id: home, away_team_id: away });
+    }
+  }
+
+  return updates;
+}
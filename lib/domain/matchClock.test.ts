@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { clockLabel, clockTransitions, halfMinutesOf, matchMinute, type ClockMatch } from "./matchClock";
+
+const KICKOFF = Date.UTC(2026, 4, 2, 10, 0);
+const iso = (min: number) => new Date(KICKOFF + min * 60_000).toISOString();
+const clock = (patch: Partial<ClockMatch>): ClockMatch => ({
+  status: "in_progress",
+  kickoff_at: iso(0),
+  half_time_at: null,
+  second_half_at: null,
+  finished_at: null,
+  ...patch,
+});
+
+describe("halfMinutesOf", () => {
+  it("moitié de la durée propre du match, sinon de celle du tournoi", () => {
+    expect(halfMinutesOf({ match_duration_min: 20 }, { duration_min: 30 })).toBe(15);
+    expect(halfMinutesOf({ match_duration_min: 20 }, { duration_min: null })).toBe(10);
+    expect(halfMinutesOf(null)).toBe(6);
+  });
+});
+
+describe("matchMinute", () => {
+  const half = halfMinutesOf({ match_duration_min: 20 });
+
+  it("1re période: minute depuis le coup d'envoi, figée à la mi-temps", () => {
+    expect(matchMinute(clock({}), half, KICKOFF + 4.5 * 60_000)).toBe(5);
+    expect(matchMinute(clock({ status: "half_time", half_time_at: iso(10) }), half, KICKOFF + 14 * 60_000)).toBe(11);
+  });
+
+  it("2e période: repart de la durée d'une période", () => {
+    const m = clock({ half_time_at: iso(10), second_half_at: iso(13) });
+    expect(matchMinute(m, half, KICKOFF + 13 * 60_000)).toBe(11);
+    expect(matchMinute(m, half, KICKOFF + 18 * 60_000)).toBe(16);
+  });
+
+  it("sans mi-temps, la minute court jusqu'au coup de sifflet final", () => {
+    const m = clock({ status: "finished", finished_at: iso(20) });
+    expect(matchMinute(m, half, KICKOFF + 30 * 60_000)).toBe(21);
+  });
+
+  it("null avant le coup d'envoi", () => {
+    expect(matchMinute(clock({ status: "scheduled", kickoff_at: null }), half)).toBeNull();
+  });
+});
+
+describe("clockTransitions", () => {
+  const targets = (m: ClockMatch) => clockTransitions(m).map((tr) => tr.to);
+
+  it("mi-temps facultative en 1re période, fin seule en 2e période", () => {
+    expect(targets(clock({}))).toEqual(["half_time", "finished"]);
+    expect(targets(clock({ half_time_at: iso(10), second_half_at: iso(13) }))).toEqual(["finished"]);
+  });
+
+  it("depuis la mi-temps: 2e période ou fin du match", () => {
+    expect(targets(clock({ status: "half_time", half_time_at: iso(10) }))).toEqual(["in_progress", "finished"]);
+  });
+});
+
+describe("clockLabel", () => {
+  it("MT à la mi-temps, Fin une fois terminé, rien avant le coup d'envoi", () => {
+    expect(clockLabel(clock({ status: "half_time", half_time_at: iso(10) }), 10)).toBe("MT");
+    expect(clockLabel(clock({ status: "finished", finished_at: iso(20) }), 10)).toBe("Fin");
+    expect(clockLabel(clock({ status: "scheduled", kickoff_at: null }), 10)).toBe("");
+  });
+
+  it("affiche la minute de la 2e période", () => {
+    expect(clockLabel(clock({ half_time_at: iso(10), second_half_at: iso(13) }), 10, KICKOFF + 15 * 60_000)).toBe("13'");
+  });
+});
@@ -0,0 +1,109 @@
+import type { TablesUpdate } from "../database.types";
+import type { Match, MatchStatus, Tournament } from "./models";
+import { parseMsLoose } from "./time";
+import { matchDurationOf } from "./fields";
+
+/**
+ * Chrono de match: machine à états + minute de jeu à partir des horodatages réels.
+ *   scheduled -> in_progress -> half_time -> in_progress (2e période) -> finished -> played (validé, page Matchs)
+ * La mi-temps est facultative (tournois en une seule période).
+ */
+
+export type ClockMatch = Pick<Match, "status" | "kickoff_at" | "half_time_at" | "second_half_at" | "finished_at">;
+
+export const MATCH_STATUS_LABELS: Record<MatchStatus, string> = {
+  scheduled: "⏳ À jouer",
+  in_progress: "🔴 En cours",
+  half_time: "☕ Mi-temps",
+  finished: "🏁 Terminé",
+  played: "✅ Validé",
+};
+
+export function normalizeMatchStatus(v: string | null | undefined): MatchStatus {
+  const s = (v ?? "").toLowerCase();
+  return s === "in_progress" || s === "half_time" || s === "finished" || s === "played" ? s : "scheduled";
+}
+
+export type ClockTransition = { to: MatchStatus; label: string };
+
+/** Actions possibles depuis l'état courant (la validation reste sur la page Matchs). */
+export function clockTransitions(m: ClockMatch): ClockTransition[] {
+  switch (normalizeMatchStatus(m.status)) {
+    case "scheduled":
+      return [{ to: "in_progress", label: "▶️ Coup d'envoi" }];
+    case "in_progress":
+      return m.second_half_at
+        ? [{ to: "finished", label: "🏁 Fin du match" }]
+        : [
+            { to: "half_time", label: "☕ Mi-temps" },
+            { to: "finished", label: "🏁 Fin du match" },
+          ];
+    case "half_time":
+      return [
+        { to: "in_progress", label: "▶️ 2e période" },
+        { to: "finished", label: "🏁 Fin du match" },
+      ];
+    case "finished":
+      return [{ to: "in_progress", label: "↩️ Reprendre" }];
+    default:
+      return [];
+  }
+}
+
+/** Colonnes à écrire pour passer à `to` (horodatage = maintenant). */
+export function clockPatch(m: ClockMatch, to: MatchStatus, nowIso = new Date().toISOString()): TablesUpdate<"matches"> {
+  const from = normalizeMatchStatus(m.status);
+
+  if (to === "scheduled") {
+    return { status: "scheduled", kickoff_at: null, half_time_at: null, second_half_at: null, finished_at: null };
+  }
+  if (to === "in_progress") {
+    if (from === "scheduled") return { status: "in_progress", kickoff_at: nowIso };
+    if (from === "half_time") return { status: "in_progress", second_half_at: nowIso };
+    return { status: "in_progress", finished_at: null }; // reprise après une fin sifflée par erreur
+  }
+  if (to === "half_time") return { status: "half_time", half_time_at: nowIso };
+  if (to === "finished") return { status: "finished", finished_at: nowIso };
+  return { status: to };
+}
+
+/**
+ * Durée d'une période: la moitié du match (durée propre du match si connue).
+ * Ne sert qu'à numéroter la 2e période: sans mi-temps sifflée, la minute court depuis le coup d'envoi.
+ */
+export function halfMinutesOf(
+  t: Pick<Tournament, "match_duration_min"> | null | undefined,
+  m?: Pick<Match, "duration_min"> | null
+) {
+  return matchDurationOf(t, m) / 2;
+}
+
+/**
+ * Minute de jeu (1re minute = 1), null si le coup d'envoi n'a pas été donné.
+ * 2e période: repart de la durée d'une période, comme au football (46e, 47e...).
+ */
+export function matchMinute(m: ClockMatch, halfMinutes: number, now = Date.now()) {
+  const kickoff = parseMsLoose(m.kickoff_at);
+  if (Number.isNaN(kickoff)) return null;
+
+  const end = parseMsLoose(m.finished_at);
+  const second = parseMsLoose(m.second_half_at);
+
+  if (!Number.isNaN(second)) {
+    const stop = Number.isNaN(end) ? now : end;
+    return Math.floor(halfMinutes) + Math.floor(Math.max(0, stop - second) / 60_000) + 1;
+  }
+
+  const half = parseMsLoose(m.half_time_at);
+  const stop = !Number.isNaN(half) ? half : !Number.isNaN(end) ? end : now;
+  return Math.floor(Math.max(0, stop - kickoff) / 60_000) + 1;
+}
+
+/** Affichage du chrono: "12'", "MT", "Fin", "" si pas commencé. */
+export function clockLabel(m: ClockMatch, halfMinutes: number, now = Date.now()) {
+  const s = normalizeMatchStatus(m.status);
+  if (s === "half_time") return "MT";
+  if (s === "finished" || s === "played") return m.kickoff_at ? "Fin" : "";
+  const min = matchMinute(m, halfMinutes, now);
+  return min == null ? "" : `${min}'`;
+}
@@ -0,0 +1,34 @@
+import type { Tables } from "../database.types";
+
+/**
+ * Modèles du tournoi (une ligne de table Supabase = un type), dérivés de `database.types.ts`.
+ * Les pages sélectionnent rarement toutes les colonnes: utiliser `Pick<Match, ...>`.
+ */
+
+export type TournamentFormat = "round_robin" | "groups_round_robin";
+
+export type Tournament = Tables<"tournaments">;
+export type TournamentTemplate = Tables<"tournament_templates">;
+export type TournamentMember = Tables<"tournament_members">;
+export type AuditEntry = Tables<"audit_log">;
+export type Team = Tables<"teams">;
+export type Player = Tables<"players">;
+
+/** scheduled -> in_progress <-> half_time -> finished -> played (validé). */
+export type MatchStatus = "scheduled" | "in_progress" | "half_time" | "finished" | "played";
+export type Match = Tables<"matches">;
+
+export type MatchEventType =
+  | "goal"
+  | "penalty_goal"
+  | "own_goal"
+  | "penalty_missed"
+  | "assist"
+  | "save"
+  | "yellow"
+  | "blue_card"
+  | "red"
+  | "mvp"
+  | "staff_yellow"
+  | "staff_red";
+export type MatchEvent = Tables<"match_events">;
@@ -0,0 +1,98 @@
+import type { TablesInsert } from "../database.types";
+
+/**
+ * Saisie arbitre hors ligne: file d'attente locale (localStorage, une par match) des événements
+ * à envoyer, rejouée dans l'ordre au retour du réseau.
+ * Chaque ajout porte un `client_id` (unique en base): renvoyer un événement déjà reçu est sans effet.
+ */
+
+export type QueuedInsert = {
+  op: "insert";
+  client_id: string;
+  queued_at: string;
+  row: TablesInsert<"match_events"> & { client_id: string; event_type: string };
+};
+
+export type QueuedDelete = {
+  op: "delete";
+  client_id: string;
+  queued_at: string;
+  event_id: string;
+};
+
+export type QueuedOp = QueuedInsert | QueuedDelete;
+
+/** Opération refusée par le serveur (ou devenue incohérente): gardée pour que l'arbitre la voie. */
+export type QueueConflict = { op: QueuedOp; reason: string };
+
+/** État serveur utile pour rejouer la file: statut du match + événements déjà enregistrés. */
+export type ServerMatchState = {
+  status: string | null;
+  events: { id: string; player_id: string | null; event_type: string; client_id?: string | null }[];
+};
+
+const QUEUE_PREFIX = "doppietta:referee-queue:";
+const CONFLICTS_PREFIX = "doppietta:referee-conflicts:";
+
+function readJson<T>(key: string): T[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const v = JSON.parse(window.localStorage.getItem(key) ?? "[]");
+    return Array.isArray(v) ? (v as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeJson(key: string, v: unknown[]) {
+  if (typeof window === "undefined") return;
+  if (v.length === 0) window.localStorage.removeItem(key);
+  else window.localStorage.setItem(key, JSON.stringify(v));
+}
+
+export function loadQueue(matchId: string) {
+  return readJson<QueuedOp>(QUEUE_PREFIX + matchId);
+}
+
+export function saveQueue(matchId: string, queue: QueuedOp[]) {
+  writeJson(QUEUE_PREFIX + matchId, queue);
+}
+
+export function loadConflicts(matchId: string) {
+  return readJson<QueueConflict>(CONFLICTS_PREFIX + matchId);
+}
+
+export function saveConflicts(matchId: string, conflicts: QueueConflict[]) {
+  writeJson(CONFLICTS_PREFIX + matchId, conflicts);
+}
+
+export function newClientId() {
+  return crypto.randomUUID();
+}
+
+/** Erreur PostgREST sans code SQL = la requête n'est pas arrivée (réseau): on réessaiera. */
+export function isNetworkError(error: { code?: string | null } | null) {
+  return Boolean(error) && !error?.code;
+}
+
+/** Code SQL "unique_violation": l'événement (même client_id) est déjà en base. */
+export const ALREADY_SYNCED_CODE = "23505";
+
+/**
+ * Rejoue un ajout contre l'état serveur (mêmes règles que la saisie en ligne).
+ * null = à envoyer, "synced" = déjà en base, sinon raison du conflit.
+ */
+export function checkQueuedInsert(item: QueuedInsert, server: ServerMatchState): string | "synced" | null {
+  if (server.events.some((e) => e.client_id === item.client_id)) return "synced";
+  if ((server.status ?? "").toLowerCase() === "played") return "Match validé entre-temps";
+
+  const playerId = item.row.player_id ?? null;
+  if (!playerId) return null;
+
+  const mine = server.events.filter((e) => e.player_id === playerId);
+  if (item.row.event_type === "red" && mine.some((e) => e.event_type === "red")) return "Rouge déjà saisi pour ce joueur";
+  if (item.row.event_type === "yellow" && mine.filter((e) => e.event_type === "yellow").length >= 2) {
+    return "Déjà 2 jaunes pour ce joueur";
+  }
+  return null;
+}
@@ -0,0 +1,119 @@
+/**
+ * Issue d'un match: temps réglementaire, prolongation ou tirs au but.
+ *
+ * - "regular"    => home_score / away_score font foi
+ * - "extra_time" => idem (score après prolongation), affiché "a.p."
+ * - "penalties"  => score nul + séance de tirs au but (home_penalties / away_penalties), affiché "t.a.b."
+ *
+ * Pour le classement des poules, un match décidé aux tirs au but reste un match nul (seul le score compte).
+ */
+
+export type DecidedBy = "regular" | "extra_time" | "penalties";
+
+export type PenaltyKick = {
+  team: "home" | "away";
+  scored: boolean;
+  player_id?: string | null;
+};
+
+export type OutcomeMatch = {
+  home_score: number | null;
+  away_score: number | null;
+  decided_by?: string | null;
+  home_penalties?: number | null;
+  away_penalties?: number | null;
+};
+
+export const DECIDED_BY_LABELS: Record<DecidedBy, string> = {
+  regular: "Temps réglementaire",
+  extra_time: "Prolongation",
+  penalties: "Tirs au but",
+};
+
+export function normalizeDecidedBy(v: string | null | undefined): DecidedBy {
+  if (v === "extra_time" || v === "penalties") return v;
+  return "regular";
+}
+
+export function decidedBySuffix(v: string | null | undefined) {
+  const d = normalizeDecidedBy(v);
+  if (d === "extra_time") return "a.p.";
+  if (d === "penalties") return "t.a.b.";
+  return "";
+}
+
+/** Vainqueur d'après le score, puis les tirs au but si le match est nul ("draw" si pas départagé). */
+export function matchOutcome(m: OutcomeMatch): "home" | "away" | "draw" | null {
+  if (m.home_score == null || m.away_score == null) return null;
+  if (m.home_score > m.away_score) return "home";
+  if (m.home_score < m.away_score) return "away";
+
+  if (normalizeDecidedBy(m.decided_by) !== "penalties") return "draw";
+  if (m.home_penalties == null || m.away_penalties == null) return "draw";
+  if (m.home_penalties > m.away_penalties) return "home";
+  if (m.home_penalties < m.away_penalties) return "away";
+  return "draw";
+}
+
+/** "2 - 2 (4-3 t.a.b.)", "3 - 2 a.p.", "1 - 0" */
+export function formatScoreline(m: OutcomeMatch, empty = "") {
+  const hs = m.home_score ?? empty;
+  const as = m.away_score ?? empty;
+  const base = `${hs} - ${as}`;
+
+  const d = normalizeDecidedBy(m.decided_by);
+  if (d === "extra_time") return `${base} a.p.`;
+  if (d === "penalties" && m.home_penalties != null && m.away_penalties != null) {
+    return `${base} (${m.home_penalties}-${m.away_penalties} t.a.b.)`;
+  }
+  return base;
+}
+
+export function safePenaltyKicks(v: unknown): PenaltyKick[] {
+  if (!Array.isArray(v)) return [];
+  return v
+    .filter((k) => k && (k.team === "home" || k.team === "away"))
+    .map((k) => ({ team: k.team, scored: Boolean(k.scored), player_id: k.player_id ?? null }));
+}
+
+export function tallyPenalties(kicks: PenaltyKick[]) {
+  const out = { home: 0, away: 0, homeTaken: 0, awayTaken: 0 };
+  for (const k of kicks) {
+    if (k.team === "home") {
+      out.homeTaken += 1;
+      if (k.scored) out.home += 1;
+    } else {
+      out.awayTaken += 1;
+      if (k.scored) out.away += 1;
+    }
+  }
+  return out;
+}
+
+/** Alternance classique: domicile tire en premier. */
+export function nextKicker(kicks: PenaltyKick[]): "home" | "away" {
+  const t = tallyPenalties(kicks);
+  return t.homeTaken <= t.awayTaken ? "home" : "away";
+}
+
+/**
+ * Séance terminée ?
+ * - pendant les `rounds` premiers tirs: dès qu'une équipe ne peut plus rattraper l'autre
+ * - ensuite (mort subite): après chaque paire de tirs si les scores diffèrent
+ */
+export function shootoutWinner(kicks: PenaltyKick[], rounds = 5): "home" | "away" | null {
+  const t = tallyPenalties(kicks);
+
+  if (t.homeTaken <= rounds && t.awayTaken <= rounds) {
+    const homeLeft = rounds - t.homeTaken;
+    const awayLeft = rounds - t.awayTaken;
+    if (t.home > t.away + awayLeft) return "home";
+    if (t.away > t.home + homeLeft) return "away";
+    return null;
+  }
+
+  if (t.homeTaken !== t.awayTaken) return null;
+  if (t.home > t.away) return "home";
+  if (t.away > t.home) return "away";
+  return null;
+}
@@ -0,0 +1,145 @@
+import type { Json } from "../database.types";
+import type { Match, MatchEvent, Player, Team, Tournament } from "./models";
+import { clean } from "./utils";
+import { isScorerEvent } from "./events";
+
+/**
+ * Page publique d'un tournoi (/t/[slug]): instantané renvoyé par la fonction SQL `public_tournament`.
+ * Uniquement les colonnes utiles au programme, aux résultats, au classement et aux buteurs.
+ */
+
+export type PublicTournament = Pick<
+  Tournament,
+  | "id"
+  | "title"
+  | "tournament_date"
+  | "start_time"
+  | "end_time"
+  | "match_duration_min"
+  | "rotation_duration_min"
+  | "num_fields"
+  | "field_names"
+  | "format"
+  | "group_count"
+  | "group_names"
+  | "knockout_enabled"
+  | "knockout_qualifiers"
+  | "points_win"
+  | "points_draw"
+  | "points_loss"
+  | "tiebreakers"
+  | "fair_play_points"
+  | "categories"
+  | "extra_days"
+  | "field_settings"
+  | "group_match_durations"
+>;
+
+export type PublicTeam = Pick<Team, "id" | "name" | "colors" | "group_idx" | "category_id">;
+
+export type PublicMatch = Pick<
+  Match,
+  | "id"
+  | "day_idx"
+  | "start_time"
+  | "field_idx"
+  | "duration_min"
+  | "status"
+  | "phase"
+  | "ko_round"
+  | "ko_slot"
+  | "home_team_id"
+  | "away_team_id"
+  | "home_source"
+  | "away_source"
+  | "home_score"
+  | "away_score"
+  | "decided_by"
+  | "home_penalties"
+  | "away_penalties"
+  | "category_id"
+> & { disputed?: boolean }; // contestation en cours
+
+export type PublicEvent = Pick<MatchEvent, "match_id" | "team_id" | "player_id" | "event_type"> &
+  Pick<Player, "first_name" | "last_name" | "jersey_number">;
+
+export type PublicSnapshot = {
+  tournament: PublicTournament;
+  teams: PublicTeam[];
+  matches: PublicMatch[];
+  events: PublicEvent[];
+};
+
+/** null = tournoi inconnu, non publié ou à la corbeille. */
+export function parsePublicSnapshot(v: Json | null | undefined): PublicSnapshot | null {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return null;
+  if (!v.tournament || typeof v.tournament !== "object") return null;
+
+  return {
+    tournament: v.tournament as unknown as PublicTournament,
+    teams: (Array.isArray(v.teams) ? v.teams : []) as unknown as PublicTeam[],
+    matches: (Array.isArray(v.matches) ? v.matches : []) as unknown as PublicMatch[],
+    events: (Array.isArray(v.events) ? v.events : []) as unknown as PublicEvent[],
+  };
+}
+
+// --------- LIEN PUBLIC ---------
+
+/** Même règle que la contrainte SQL `tournaments_public_slug_check`. */
+const SLUG_RE = /^[a-z0-9][a-z0-9-]{2,59}$/;
+
+export function isValidSlug(s: string) {
+  return SLUG_RE.test(s);
+}
+
+/** "Tournoi d'été U11" => "tournoi-d-ete-u11-k3f9" (suffixe aléatoire: deux tournois peuvent porter le même nom). */
+export function slugify(title: string | null | undefined) {
+  const base = clean(title)
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40)
+    .replace(/-+$/g, "");
+
+  const suffix = Math.random().toString(36).slice(2, 6).padEnd(4, "0");
+  return `${base || "tournoi"}-${suffix}`;
+}
+
+export function publicPath(slug: string) {
+  return `/t/${slug}`;
+}
+
+// --------- BUTEURS ---------
+
+export type PublicScorer = {
+  player_id: string;
+  name: string;
+  jersey_number: number | null;
+  team_id: string | null;
+  goals: number;
+};
+
+/** Buteurs sur les matchs donnés (validés en pratique), du meilleur au moins bon puis par nom. */
+export function topScorers(events: PublicEvent[], matchIds: Set<string>, limit = 20): PublicScorer[] {
+  const byPlayer = new Map<string, PublicScorer>();
+
+  for (const e of events) {
+    if (!isScorerEvent(e.event_type) || !e.player_id || !matchIds.has(e.match_id)) continue;
+
+    const row = byPlayer.get(e.player_id) ?? {
+      player_id: e.player_id,
+      name: `${clean(e.first_name)} ${clean(e.last_name)}`.trim() || "Joueur",
+      jersey_number: e.jersey_number,
+      team_id: e.team_id,
+      goals: 0,
+    };
+    row.goals += 1;
+    byPlayer.set(e.player_id, row);
+  }
+
+  return Array.from(byPlayer.values())
+    .sort((a, b) => b.goals - a.goals || a.name.localeCompare(b.name, "fr"))
+    .slice(0, limit);
+}
@@ -0,0 +1,45 @@
+/**
+ * Rôles par tournoi (cf. migration tournament_members).
+ * owner = créateur (tournaments.user_id); les autres rôles viennent d'une invitation par email.
+ */
+
+export type TournamentRole = "owner" | "admin" | "scorer" | "viewer";
+
+/** Rôles attribuables par invitation (owner exclu). */
+export const INVITABLE_ROLES = ["admin", "scorer", "viewer"] as const satisfies readonly TournamentRole[];
+export type InvitableRole = (typeof INVITABLE_ROLES)[number];
+
+export const ROLE_LABELS: Record<TournamentRole, string> = {
+  owner: "Propriétaire",
+  admin: "Co-organisateur",
+  scorer: "Arbitre / marqueur",
+  viewer: "Lecture seule",
+};
+
+export const ROLE_HINTS: Record<TournamentRole, string> = {
+  owner: "Tous les droits, y compris la suppression du tournoi.",
+  admin: "Paramètres, équipes, planning, saisie et invitations.",
+  scorer: "Saisie des événements et validation des scores uniquement.",
+  viewer: "Consultation uniquement.",
+};
+
+export function normalizeRole(v: unknown): TournamentRole | null {
+  return v === "owner" || v === "admin" || v === "scorer" || v === "viewer" ? v : null;
+}
+
+/** Paramètres, équipes, planning, invitations. */
+export function canManage(role: TournamentRole | null) {
+  return role === "owner" || role === "admin";
+}
+
+/** Événements de match + validation des scores. */
+export function canScore(role: TournamentRole | null) {
+  return canManage(role) || role === "scorer";
+}
+
+export function isOwner(role: TournamentRole | null) {
+  return role === "owner";
+}
+
+export const ADMIN_ONLY_MESSAGE = "⛔ Accès réservé au propriétaire et aux co-organisateurs de ce tournoi.";
+export const READ_ONLY_MESSAGE = "⛔ Lecture seule: la saisie est réservée aux arbitres et aux organisateurs.";
@@ -0,0 +1,239 @@
+import type { Team, Tournament } from "./models";
+import { minToTime, normHHMM, overlaps, timeToMin } from "./time";
+import { clampInt } from "./utils";
+import { absoluteMin } from "./days";
+
+/**
+ * Contraintes de planning.
+ * Dures (jamais violées par le générateur): équipe sur deux matchs à la fois, équipes qui partagent des joueurs
+ * au même moment, match hors des horaires de présence d'une équipe.
+ * Souples (pénalisées, listées dans le rapport): repos minimum, matchs d'affilée, terrains préférés.
+ */
+
+export type ScheduleRules = {
+  minRestMin: number; // 0 = pas de minimum (le générateur préfère quand même un créneau de repos)
+  maxConsecutive: number; // 0 = pas de limite
+  availability: Map<string, { from: number | null; until: number | null }>; // minutes depuis minuit
+  preferredFields: Map<string, number[]>;
+  linked: Map<string, Set<string>>; // partage de joueurs (symétrique)
+};
+
+export type RulesTeam = Pick<Team, "id" | "available_from" | "available_until" | "preferred_fields" | "shares_players_with">;
+
+function optMin(v: string | null | undefined) {
+  const hhmm = normHHMM(v);
+  return /^\d{2}:\d{2}$/.test(hhmm) ? timeToMin(hhmm) : null;
+}
+
+export function scheduleRulesOf(
+  t: Pick<Tournament, "min_rest_min" | "max_consecutive"> | null | undefined,
+  teams: RulesTeam[]
+): ScheduleRules {
+  const rules: ScheduleRules = {
+    minRestMin: clampInt(Number(t?.min_rest_min ?? 0), 0, 600),
+    maxConsecutive: clampInt(Number(t?.max_consecutive ?? 0), 0, 50),
+    availability: new Map(),
+    preferredFields: new Map(),
+    linked: new Map(),
+  };
+
+  const link = (a: string, b: string) => {
+    if (!rules.linked.has(a)) rules.linked.set(a, new Set());
+    rules.linked.get(a)!.add(b);
+  };
+
+  for (const tm of teams) {
+    const from = optMin(tm.available_from);
+    const until = optMin(tm.available_until);
+    if (from != null || until != null) rules.availability.set(tm.id, { from, until });
+
+    const fields = (tm.preferred_fields ?? []).filter((f) => Number.isFinite(f) && f > 0);
+    if (fields.length > 0) rules.preferredFields.set(tm.id, fields);
+
+    if (tm.shares_players_with && tm.shares_players_with !== tm.id) {
+      link(tm.id, tm.shares_players_with);
+      link(tm.shares_players_with, tm.id);
+    }
+  }
+
+  return rules;
+}
+
+export function emptyScheduleRules(): ScheduleRules {
+  return scheduleRulesOf(null, []);
+}
+
+/** Équipe présente sur tout le match [start, start + matchMinutes]. */
+export function isTeamAvailable(rules: ScheduleRules, teamId: string, startMin: number, matchMinutes: number) {
+  const a = rules.availability.get(teamId);
+  if (!a) return true;
+  if (a.from != null && startMin < a.from) return false;
+  if (a.until != null && startMin + matchMinutes > a.until) return false;
+  return true;
+}
+
+export function prefersField(rules: ScheduleRules, teamId: string, fieldIdx: number) {
+  const prefs = rules.preferredFields.get(teamId);
+  return !prefs || prefs.includes(fieldIdx);
+}
+
+// --------- CONTRÔLE D'UN PLANNING ---------
+
+export type ViolationKind = "double_booking" | "shared_players" | "availability" | "rest" | "consecutive" | "field";
+
+export const HARD_VIOLATIONS: ViolationKind[] = ["double_booking", "shared_players", "availability"];
+
+export const VIOLATION_LABELS: Record<ViolationKind, string> = {
+  double_booking: "👥 Équipe sur deux matchs en même temps",
+  shared_players: "🔗 Équipes qui partagent des joueurs en même temps",
+  availability: "🕐 Hors des horaires de présence",
+  rest: "😮‍💨 Repos insuffisant",
+  consecutive: "🔁 Trop de matchs d'affilée",
+  field: "🏟️ Terrain non préféré",
+};
+
+// Poids des contraintes souples (coût d'un planning = somme des poids)
+const SOFT_WEIGHTS: Record<ViolationKind, number> = {
+  double_booking: 0,
+  shared_players: 0,
+  availability: 0,
+  rest: 10,
+  consecutive: 8,
+  field: 2,
+};
+
+export type ScheduleViolation = {
+  kind: ViolationKind;
+  teamId: string;
+  otherTeamId?: string;
+  matchKey: string; // "jour|HH:MM|terrain"
+  detail: string;
+};
+
+export type PlacedMatch = {
+  home_team_id: string | null;
+  away_team_id: string | null;
+  start_time: string | null;
+  field_idx: number | null;
+  day_idx?: number | null; // 1 par défaut
+  duration_min?: number | null; // null = opts.matchMinutes
+};
+
+export type CheckOptions = { slotMinutes: number; matchMinutes: number };
+
+export function placedMatchKey(m: Pick<PlacedMatch, "start_time" | "field_idx" | "day_idx">) {
+  return `${m.day_idx ?? 1}|${normHHMM(m.start_time)}|${m.field_idx ?? 1}`;
+}
+
+/** "jour|HH:MM|terrain" => heure "HH:MM". */
+export function matchKeyTime(key: string) {
+  return key.split("|")[1] ?? "";
+}
+
+export function isHardViolation(v: ScheduleViolation) {
+  return HARD_VIOLATIONS.includes(v.kind);
+}
+
+export function softCost(violations: ScheduleViolation[]) {
+  return violations.reduce((sum, v) => sum + SOFT_WEIGHTS[v.kind], 0);
+}
+
+/** Toutes les violations d'un planning (matchs sans équipes connues ignorés). */
+export function checkSchedule(matches: PlacedMatch[], rules: ScheduleRules, opts: CheckOptions): ScheduleViolation[] {
+  const out: ScheduleViolation[] = [];
+  const byTeam = new Map<string, Array<{ start: number; end: number; key: string }>>();
+
+  for (const m of matches) {
+    if (!m.start_time) continue;
+    const start = absoluteMin(m.day_idx, m.start_time); // jours suivants: +24 h
+    const minutes = m.duration_min ?? opts.matchMinutes;
+    const end = start + minutes;
+    const key = placedMatchKey(m);
+
+    for (const teamId of [m.home_team_id, m.away_team_id]) {
+      if (!teamId) continue;
+      if (!byTeam.has(teamId)) byTeam.set(teamId, []);
+      byTeam.get(teamId)!.push({ start, end, key });
+
+      if (!isTeamAvailable(rules, teamId, timeToMin(m.start_time), minutes)) {
+        const a = rules.availability.get(teamId);
+        const window = `${a?.from != null ? minToTime(a.from) : "…"} → ${a?.until != null ? minToTime(a.until) : "…"}`;
+        out.push({ kind: "availability", teamId, matchKey: key, detail: `présence ${window}` });
+      }
+
+      if (m.field_idx != null && !prefersField(rules, teamId, m.field_idx)) {
+        out.push({ kind: "field", teamId, matchKey: key, detail: `terrain ${m.field_idx}` });
+      }
+    }
+  }
+
+  for (const [teamId, list] of byTeam) {
+    list.sort((a, b) => a.start - b.start);
+
+    let run = 1;
+    for (let i = 1; i < list.length; i++) {
+      const prev = list[i - 1];
+      const cur = list[i];
+
+      if (overlaps(prev.start, prev.end, cur.start, cur.end)) {
+        out.push({ kind: "double_booking", teamId, matchKey: cur.key, detail: `${matchKeyTime(prev.key)} et ${matchKeyTime(cur.key)}` });
+        continue;
+      }
+
+      const rest = cur.start - prev.end;
+      if (rules.minRestMin > 0 && rest < rules.minRestMin) {
+        out.push({ kind: "rest", teamId, matchKey: cur.key, detail: `${rest} min (minimum ${rules.minRestMin})` });
+      }
+
+      // d'affilée: moins d'un créneau de base entre la fin du précédent et le début du suivant
+      run = rest < opts.slotMinutes ? run + 1 : 1;
+      if (rules.maxConsecutive > 0 && run > rules.maxConsecutive) {
+        out.push({ kind: "consecutive", teamId, matchKey: cur.key, detail: `${run} d'affilée (maximum ${rules.maxConsecutive})` });
+      }
+    }
+  }
+
+  // Partage de joueurs: chaque paire une seule fois (a < b)
+  for (const [a, partners] of rules.linked) {
+    for (const b of partners) {
+      if (a >= b) continue;
+      for (const ma of byTeam.get(a) ?? []) {
+        // même match (a contre b): rien à éviter
+        const clash = (byTeam.get(b) ?? []).find(
+          (mb) => mb.key !== ma.key && overlaps(ma.start, ma.end, mb.start, mb.end)
+        );
+        if (clash) out.push({ kind: "shared_players", teamId: a, otherTeamId: b, matchKey: ma.key, detail: matchKeyTime(ma.key) });
+      }
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Matchs enchaînés sans pause par une équipe (moins d'un créneau de base entre les deux),
+ * signalés dans l'éditeur même sans limite d'enchaînements: clés des deux matchs concernés.
+ */
+export function backToBackKeys(matches: PlacedMatch[], opts: CheckOptions) {
+  const byTeam = new Map<string, Array<{ start: number; end: number; key: string }>>();
+  for (const m of matches) {
+    if (!m.start_time) continue;
+    const start = absoluteMin(m.day_idx, m.start_time);
+    const end = start + (m.duration_min ?? opts.matchMinutes);
+    for (const teamId of [m.home_team_id, m.away_team_id]) {
+      if (!teamId) continue;
+      if (!byTeam.has(teamId)) byTeam.set(teamId, []);
+      byTeam.get(teamId)!.push({ start, end, key: placedMatchKey(m) });
+    }
+  }
+
+  const keys = new Set<string>();
+  for (const list of byTeam.values()) {
+    list.sort((a, b) => a.start - b.start);
+    for (let i = 1; i < list.length; i++) {
+      const rest = list[i].start - list[i - 1].end;
+      if (rest >= 0 && rest < opts.slotMinutes) keys.add(list[i - 1].key).add(list[i].key);
+    }
+  }
+  return keys;
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import { absoluteMin } from "./days";
+import { buildKnockoutBracket } from "./knockout";
+import {
+  generateKeepingLocked,
+  generateSchedule,
+  pauseModelOf,
+  playableSlots,
+  rescheduleFrom,
+  scheduleTimeline,
+  type ExistingMatch,
+  type ScheduledMatch,
+  type SchedulerTeam,
+} from "./scheduler";
+import { normHHMM } from "./time";
+
+// Gros tournoi: 24 équipes, 8 poules de 3, 6 terrains, créneaux de 20 min, quarts à partir des 1ers de poule
+const SLOT = 20;
+const GROUPS = 8;
+const FIELDS = 6;
+const TEAMS: SchedulerTeam[] = Array.from({ length: 24 }, (_, i) => ({ id: `t${i + 1}`, groupIdx: (i % GROUPS) + 1 }));
+const SLOTS = playableSlots({
+  timeline: scheduleTimeline({ start_time: "09:00", end_time: "18:00" }, SLOT),
+  fieldCount: FIELDS,
+  slotMinutes: SLOT,
+  pauses: pauseModelOf(null),
+});
+const KNOCKOUT = buildKnockoutBracket(GROUPS);
+
+function generate(seed: number) {
+  const res = generateSchedule({ teams: TEAMS, groupCount: GROUPS, slots: SLOTS, knockout: KNOCKOUT, slotMinutes: SLOT, seed });
+  if (!res.ok) throw new Error(res.error);
+  return res;
+}
+
+const startOf = (m: Pick<ScheduledMatch, "day_idx" | "start_time">) => absoluteMin(m.day_idx, m.start_time);
+
+/** Équipes présentes sur deux terrains au même moment. */
+function doubleBookings(matches: Array<Pick<ScheduledMatch, "home_team_id" | "away_team_id" | "day_idx" | "start_time">>) {
+  const seen = new Set<string>();
+  const clashes: string[] = [];
+  for (const m of matches) {
+    for (const id of [m.home_team_id, m.away_team_id]) {
+      if (!id) continue;
+      const k = `${id}@${startOf(m)}`;
+      if (seen.has(k)) clashes.push(k);
+      seen.add(k);
+    }
+  }
+  return clashes;
+}
+
+/** Plus grand écart de matchs joués entre deux équipes d'une même poule, mesuré après chaque créneau. */
+function maxEquitySpread(matches: ScheduledMatch[]) {
+  const played = new Map(TEAMS.map((tm) => [tm.id, 0]));
+  const groupMatches = matches.filter((m) => m.phase === "group").sort((a, b) => startOf(a) - startOf(b));
+  const starts = Array.from(new Set(groupMatches.map(startOf)));
+  let spread = 0;
+  for (const start of starts) {
+    for (const m of groupMatches.filter((x) => startOf(x) === start)) {
+      played.set(m.home_team_id!, played.get(m.home_team_id!)! + 1);
+      played.set(m.away_team_id!, played.get(m.away_team_id!)! + 1);
+    }
+    for (let g = 1; g <= GROUPS; g++) {
+      const counts = TEAMS.filter((tm) => tm.groupIdx === g).map((tm) => played.get(tm.id)!);
+      spread = Math.max(spread, Math.max(...counts) - Math.min(...counts));
+    }
+  }
+  return spread;
+}
+
+function asExisting(matches: ScheduledMatch[]): ExistingMatch[] {
+  return matches.map((m, i) => ({
+    id: `m${i + 1}`,
+    status: "scheduled",
+    phase: m.phase,
+    start_time: `${m.start_time}:00`,
+    field_idx: m.field_idx,
+    home_team_id: m.home_team_id,
+    away_team_id: m.away_team_id,
+    ko_round: m.ko_round ?? null,
+    ko_slot: m.ko_slot ?? null,
+    home_source: m.home_source ?? null,
+    away_source: m.away_source ?? null,
+    day_idx: m.day_idx,
+    duration_min: m.duration_min,
+    category_id: m.category_id,
+    schedule_locked: false,
+  }));
+}
+
+describe("generateSchedule (24 équipes, 8 poules, 6 terrains)", () => {
+  it("place tous les matchs de poule et la phase finale", () => {
+    const res = generate(7);
+    expect(res.matches.filter((m) => m.phase === "group")).toHaveLength(GROUPS * 3);
+    expect(res.matches.filter((m) => m.phase === "knockout")).toHaveLength(KNOCKOUT.length);
+    expect(res.diagnostics.unplaced).toEqual([]);
+  });
+
+  it("est déterministe pour une graine donnée", () => {
+    expect(generate(42).matches).toEqual(generate(42).matches);
+    expect(generate(42).matches).not.toEqual(generate(43).matches);
+  });
+
+  it("ne fait jamais jouer une équipe deux fois en même temps", () => {
+    for (const seed of [1, 2, 3]) expect(doubleBookings(generate(seed).matches)).toEqual([]);
+  });
+
+  it("garde un écart de matchs joués <= 1 dans chaque poule, à tout moment", () => {
+    for (const seed of [1, 2, 3]) {
+      const { matches, diagnostics } = generate(seed);
+      expect(maxEquitySpread(matches)).toBeLessThanOrEqual(1);
+      expect(diagnostics.playedMax - diagnostics.playedMin).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("place la phase finale après le dernier match de poule, tour après tour", () => {
+    const { matches } = generate(5);
+    const lastGroupEnd = Math.max(...matches.filter((m) => m.phase === "group").map((m) => startOf(m) + m.duration_min));
+    const ko = matches.filter((m) => m.phase === "knockout");
+    for (const m of ko) expect(startOf(m)).toBeGreaterThanOrEqual(lastGroupEnd);
+
+    const roundEnd = (round: number) => Math.max(...ko.filter((m) => m.ko_round === round).map((m) => startOf(m) + m.duration_min));
+    const roundStart = (round: number) => Math.min(...ko.filter((m) => m.ko_round === round).map(startOf));
+    expect(roundStart(4)).toBeGreaterThanOrEqual(roundEnd(8));
+    expect(roundStart(2)).toBeGreaterThanOrEqual(roundEnd(4));
+  });
+});
+
+describe("rescheduleFrom", () => {
+  it("ne déplace ni les matchs joués ni les matchs verrouillés, et rien avant l'heure de reprise", () => {
+    const existing = asExisting(generate(11).matches);
+    const groupIds = existing.filter((m) => m.phase === "group").map((m) => m.id);
+    const played = new Set(groupIds.slice(0, 6));
+    const locked = new Set(groupIds.slice(-2));
+    const matches = existing.map((m) => ({
+      ...m,
+      status: played.has(m.id) ? "played" : m.status,
+      schedule_locked: locked.has(m.id),
+    }));
+
+    // Retard: plus aucun créneau avant 10:00 et le terrain 6 est fermé
+    const slots = SLOTS.filter((s) => s.fieldIdx !== 6);
+    const res = rescheduleFrom({ teams: TEAMS, groupCount: GROUPS, slots, slotMinutes: SLOT, matches, from: "10:00" });
+    if (!res.ok) throw new Error(res.error);
+
+    expect(res.frozenCount).toBe(played.size + locked.size);
+    expect(res.unplaced).toEqual([]);
+    for (const mv of res.moves) {
+      expect(played.has(mv.id) || locked.has(mv.id)).toBe(false);
+      expect(absoluteMin(mv.to.day_idx, mv.to.start_time)).toBeGreaterThanOrEqual(absoluteMin(1, "10:00"));
+      expect(mv.to.field_idx).not.toBe(6);
+    }
+
+    const byId = new Map(res.moves.map((mv) => [mv.id, mv.to]));
+    const after = matches.map((m) => {
+      const to = byId.get(m.id);
+      return { ...m, start_time: to ? to.start_time : normHHMM(m.start_time), day_idx: to ? to.day_idx : m.day_idx! };
+    });
+    expect(doubleBookings(after)).toEqual([]);
+  });
+});
+
+describe("generateKeepingLocked", () => {
+  it("sans verrou, donne le même planning que generateSchedule", () => {
+    const res = generateKeepingLocked({ teams: TEAMS, groupCount: GROUPS, slots: SLOTS, knockout: KNOCKOUT, slotMinutes: SLOT, seed: 3, locked: [] });
+    expect(res).toEqual(generate(3));
+  });
+
+  it("garde les matchs verrouillés et génère le reste autour", () => {
+    const existing = asExisting(generate(9).matches);
+    const locked = [
+      ...existing.filter((m) => m.phase === "group").slice(2, 5),
+      existing.find((m) => m.phase === "knockout" && m.ko_round === 2)!,
+    ].map((m) => ({ ...m, schedule_locked: true }));
+
+    const res = generateKeepingLocked({ teams: TEAMS, groupCount: GROUPS, slots: SLOTS, knockout: KNOCKOUT, slotMinutes: SLOT, seed: 21, locked });
+    if (!res.ok) throw new Error(res.error);
+
+    const pair = (m: { home_team_id: string | null; away_team_id: string | null }) => [m.home_team_id, m.away_team_id].sort().join("|");
+    const lockedPairs = new Set(locked.filter((m) => m.phase === "group").map(pair));
+    const lockedCells = new Set(locked.map((m) => `${m.day_idx}|${normHHMM(m.start_time)}|${m.field_idx}`));
+
+    const group = res.matches.filter((m) => m.phase === "group");
+    expect(group).toHaveLength(GROUPS * 3 - 3);
+    expect(group.filter((m) => lockedPairs.has(pair(m)))).toEqual([]);
+    expect(res.matches.filter((m) => m.phase === "knockout" && m.ko_round === 2)).toEqual([]);
+    expect(res.matches.filter((m) => lockedCells.has(`${m.day_idx}|${m.start_time}|${m.field_idx}`))).toEqual([]);
+
+    const all = [...res.matches, ...locked.map((m) => ({ ...m, start_time: normHHMM(m.start_time), day_idx: m.day_idx! }))];
+    expect(doubleBookings(all)).toEqual([]);
+  });
+});
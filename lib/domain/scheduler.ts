@@ -0,0 +1,950 @@
+import type { Json } from "../database.types";
+import type { Match, Tournament } from "./models";
+import { roundShortLabel, type BracketMatch } from "./knockout";
+import { minToTime, normHHMM, overlaps, timeToMin } from "./time";
+import { clampInt } from "./utils";
+import { normalizeMatchStatus } from "./matchClock";
+import { absoluteMin, type TournamentDay } from "./days";
+import { fieldSlotMinutes, matchMinutesFor, type DurationModel } from "./fields";
+import {
+  checkSchedule,
+  emptyScheduleRules,
+  isHardViolation,
+  isTeamAvailable,
+  prefersField,
+  softCost,
+  type ScheduleRules,
+  type ScheduleViolation,
+} from "./scheduleConstraints";
+
+/**
+ * Moteur de planning (pur, déterministe): paires round robin par poule + placement sur les créneaux jouables.
+ * Entrée: équipes (ordre = têtes de série), poules, créneaux, contraintes. Sortie: affectations + diagnostics.
+ * Aucune écriture en base: la page Planning insère le résultat.
+ */
+
+// --------- CRÉNEAUX / PAUSES ---------
+
+export type Pause = { from: string; to: string };
+
+/** tournaments.pauses (jsonb, ancien format): pause globale + pause "sauf terrains". */
+export type TournamentPause = { type?: string; from?: string; to?: string; exceptFields?: number[] };
+
+export type PauseModel = {
+  globalPauses: Pause[];
+  exceptPause: { from: string; to: string; exceptFields: number[] } | null;
+  fieldPauses: Record<string, Pause[]>; // clé = n° de terrain (1..N)
+};
+
+function asPauses(v: Json | undefined): Pause[] {
+  if (!Array.isArray(v)) return [];
+  const out: Pause[] = [];
+  for (const x of v) {
+    if (!x || typeof x !== "object" || Array.isArray(x)) continue;
+    if (typeof x.from === "string" && typeof x.to === "string" && x.from && x.to) out.push({ from: x.from, to: x.to });
+  }
+  return out;
+}
+
+export function pauseModelOf(t: Pick<Tournament, "pauses" | "field_pauses"> | null | undefined): PauseModel {
+  const pausesArr = (Array.isArray(t?.pauses) ? t.pauses : []) as TournamentPause[];
+  const pTournament = pausesArr.find((p) => p?.type === "tournament");
+  const pExcept = pausesArr.find((p) => p?.type === "tournament_except");
+
+  const globalPauses: Pause[] = [];
+  if (pTournament?.from && pTournament?.to) globalPauses.push({ from: pTournament.from, to: pTournament.to });
+
+  const exceptPause =
+    pExcept?.from && pExcept?.to
+      ? { from: pExcept.from, to: pExcept.to, exceptFields: Array.isArray(pExcept.exceptFields) ? pExcept.exceptFields : [] }
+      : null;
+
+  const rawFp = t?.field_pauses && typeof t.field_pauses === "object" && !Array.isArray(t.field_pauses) ? t.field_pauses : {};
+  const fieldPauses: Record<string, Pause[]> = {};
+  for (const k of Object.keys(rawFp)) fieldPauses[k] = asPauses(rawFp[k]);
+
+  return { globalPauses, exceptPause, fieldPauses };
+}
+
+/** Créneau [start, start + slotMinutes[ indisponible sur ce terrain. */
+export function isSlotPaused(model: PauseModel, fieldIdx: number, startHHMM: string, slotMinutes: number) {
+  const start = timeToMin(startHHMM);
+  const end = start + slotMinutes;
+  const hits = (p: Pause) => overlaps(start, end, timeToMin(p.from), timeToMin(p.to));
+
+  if (model.globalPauses.some(hits)) return true;
+  if (model.exceptPause && hits(model.exceptPause) && !model.exceptPause.exceptFields.includes(fieldIdx)) return true;
+  return (model.fieldPauses[String(fieldIdx)] ?? []).some(hits);
+}
+
+/** Débuts de créneaux "HH:MM" entre l'heure de début et l'heure de fin du tournoi. */
+export function scheduleTimeline(t: Pick<Tournament, "start_time" | "end_time"> | null | undefined, slotMinutes: number) {
+  if (!t) return [];
+  const start = timeToMin(t.start_time || "09:00");
+  const end = timeToMin(t.end_time || "18:00");
+  const step = Math.max(1, slotMinutes);
+
+  const times: string[] = [];
+  for (let cur = start; cur + step <= end; cur += step) times.push(minToTime(cur));
+  return times;
+}
+
+export type ScheduleSlot = { start: string; fieldIdx: number; timeIndex: number; dayIdx: number; minutes: number };
+
+export function slotKey(s: Pick<ScheduleSlot, "start" | "fieldIdx" | "dayIdx">) {
+  return `${s.dayIdx}|${s.start}|${s.fieldIdx}`;
+}
+
+/** Créneaux jouables: tous les terrains à chaque heure, sauf pauses. Ordre = heure puis terrain. */
+export function playableSlots(input: {
+  timeline: string[];
+  fieldCount: number;
+  slotMinutes: number;
+  pauses: PauseModel;
+  dayIdx?: number;
+  timeIndexOffset?: number;
+}) {
+  const out: ScheduleSlot[] = [];
+  const dayIdx = input.dayIdx ?? 1;
+  const offset = input.timeIndexOffset ?? 0;
+  input.timeline.forEach((start, i) => {
+    for (let f = 1; f <= input.fieldCount; f++) {
+      if (!isSlotPaused(input.pauses, f, start, input.slotMinutes)) {
+        out.push({ start, fieldIdx: f, timeIndex: offset + i, dayIdx, minutes: input.slotMinutes });
+      }
+    }
+  });
+  return out;
+}
+
+/**
+ * Créneaux jouables de tous les jours (horaires, terrains et pauses propres à chaque jour).
+ * Durées par terrain (`durations`): chaque terrain a sa propre grille, la ligne de temps du jour est l'union des débuts.
+ * timeIndex = rang dans cette union, avec un trou entre deux jours: jamais "d'affilée" d'un jour à l'autre.
+ */
+export function tournamentSlots(days: TournamentDay[], slotMinutes: number, durations?: DurationModel) {
+  const timelines: string[][] = [];
+  const fieldTimelines: string[][][] = []; // [jour][terrain - 1] => débuts de créneaux
+  const slots: ScheduleSlot[] = [];
+  let offset = 0;
+
+  days.forEach((day, i) => {
+    const pauses = pauseModelOf(day);
+    const perField = Array.from({ length: day.num_fields }, (_, f) =>
+      scheduleTimeline(day, durations ? fieldSlotMinutes(durations, f + 1) : slotMinutes)
+    );
+    const timeline = Array.from(new Set(perField.flat())).sort((a, b) => timeToMin(a) - timeToMin(b));
+    const indexOf = new Map(timeline.map((start, k) => [start, k]));
+
+    const daySlots: ScheduleSlot[] = [];
+    perField.forEach((starts, f) => {
+      const minutes = durations ? fieldSlotMinutes(durations, f + 1) : slotMinutes;
+      for (const start of starts) {
+        if (isSlotPaused(pauses, f + 1, start, minutes)) continue;
+        daySlots.push({ start, fieldIdx: f + 1, timeIndex: offset + indexOf.get(start)!, dayIdx: i + 1, minutes });
+      }
+    });
+    daySlots.sort((a, b) => a.timeIndex - b.timeIndex || a.fieldIdx - b.fieldIdx);
+
+    timelines.push(timeline);
+    fieldTimelines.push(perField);
+    slots.push(...daySlots);
+    offset += timeline.length + 1;
+  });
+
+  return { timelines, fieldTimelines, slots };
+}
+
+// --------- PAIRES ---------
+
+export type Pairing = { a: string; b: string; groupIdx: number };
+
+const BYE = "__BYE__";
+
+/** Round Robin (méthode du cercle) */
+export function roundRobinPairs(teamIds: string[]) {
+  const ids = [...teamIds];
+  if (ids.length % 2 === 1) ids.push(BYE);
+
+  const n = ids.length;
+  const half = n / 2;
+
+  const pairs: Array<{ a: string; b: string; round: number }> = [];
+  let arr = [...ids];
+
+  for (let r = 0; r < n - 1; r++) {
+    for (let i = 0; i < half; i++) {
+      const a = arr[i];
+      const b = arr[n - 1 - i];
+      if (a !== BYE && b !== BYE) pairs.push({ a, b, round: r + 1 });
+    }
+    const rest = arr.slice(1);
+    rest.unshift(rest.pop() as string);
+    arr = [arr[0], ...rest];
+  }
+
+  return pairs;
+}
+
+/** Mélange alterné des poules: A1,B1,C1,A2,B2,C2,... */
+export function interleaveByGroups(groups: { groupIdx: number; pairs: Array<{ a: string; b: string }> }[]) {
+  const queues = [...groups].sort((x, y) => x.groupIdx - y.groupIdx).map((g) => ({ groupIdx: g.groupIdx, q: [...g.pairs] }));
+  const out: Pairing[] = [];
+
+  let madeProgress = true;
+  while (madeProgress) {
+    madeProgress = false;
+    for (const g of queues) {
+      const item = g.q.shift();
+      if (item) {
+        out.push({ a: item.a, b: item.b, groupIdx: g.groupIdx });
+        madeProgress = true;
+      }
+    }
+  }
+
+  return out;
+}
+
+/** Générateur pseudo-aléatoire reproductible (mulberry32): même graine => même planning. */
+export function seededRandom(seed: number) {
+  let s = seed >>> 0;
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let x = Math.imul(s ^ (s >>> 15), 1 | s);
+    x = (x + Math.imul(x ^ (x >>> 7), 61 | x)) ^ x;
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffled<T>(arr: T[], rand: () => number) {
+  const out = [...arr];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// --------- PLACEMENT ---------
+
+export type SchedulerTeam = { id: string; groupIdx: number; categoryId?: string | null };
+
+/** Match de phase finale à placer (catégorie: cf. categories.ts, null = catégorie unique). */
+export type KnockoutToPlace = BracketMatch & { category_id?: string | null };
+
+export type SchedulerConstraints = {
+  restGap: number; // écart minimal (en créneaux) entre deux matchs d'une équipe: 2 = un créneau de repos
+  maxSpread: number; // équité: écart max de matchs joués entre équipes (global et par poule)
+  window: number; // nb de paires candidates examinées par créneau
+  iterations: number; // recherche locale après placement (0 = désactivée)
+};
+
+export const DEFAULT_SCHEDULER_CONSTRAINTS: SchedulerConstraints = { restGap: 2, maxSpread: 1, window: 180, iterations: 2000 };
+
+export type SchedulerInput = {
+  teams: SchedulerTeam[]; // ordre d'inscription = têtes de série du round robin
+  groupCount: number; // 1 si round robin global (catégories: total des poules, numérotées à la suite)
+  slots: ScheduleSlot[]; // créneaux jouables (cf. playableSlots)
+  knockout?: KnockoutToPlace[]; // phase finale (toutes catégories), placée après les poules
+  constraints?: Partial<SchedulerConstraints>;
+  rules?: ScheduleRules; // présence, repos, enchaînements, terrains préférés, partage de joueurs
+  slotMinutes?: number; // durée d'un créneau (match + rotation)
+  matchMinutes?: number; // durée d'un match (défaut: le créneau)
+  durations?: DurationModel; // durées par terrain / par poule (sinon matchMinutes partout)
+  seed?: number; // mélange l'ordre des équipes de chaque poule (sinon ordre d'inscription)
+  pairings?: Pairing[]; // paires imposées (replanification), sinon round robin des poules
+  frozen?: FrozenMatch[]; // matchs conservés tels quels (hors `slots`): repos, enchaînements et équité en tiennent compte
+};
+
+export type FrozenMatch = {
+  home_team_id: string | null;
+  away_team_id: string | null;
+  start_time: string;
+  field_idx: number;
+  day_idx: number;
+  timeIndex: number;
+  duration_min?: number | null;
+  phase: "group" | "knockout";
+};
+
+export type ScheduledMatch = {
+  home_team_id: string | null;
+  away_team_id: string | null;
+  field_idx: number;
+  start_time: string;
+  day_idx: number;
+  duration_min: number;
+  category_id: string | null;
+  phase: "group" | "knockout";
+  ko_round?: number;
+  ko_slot?: number;
+  home_source?: string;
+  away_source?: string;
+};
+
+export type ScheduleDiagnostics = {
+  capacity: number; // créneaux jouables
+  required: number; // matchs de poule + phase finale
+  placedGroupMatches: number;
+  unplaced: Pairing[]; // paires restées sans créneau (contraintes trop serrées)
+  restViolations: number; // matchs placés sans créneau de repos (passe relâchée)
+  equityRelaxed: number; // matchs placés hors équité stricte (poules impaires: une équipe attend toujours)
+  playedMin: number;
+  playedMax: number;
+  fieldUsage: Record<number, number>; // matchs de poule par terrain
+  lastGroupTimeIndex: number;
+  violations: ScheduleViolation[]; // contraintes souples non respectées (planning final)
+};
+
+export type ScheduleResult =
+  | { ok: true; matches: ScheduledMatch[]; diagnostics: ScheduleDiagnostics }
+  | { ok: false; error: string; diagnostics: ScheduleDiagnostics | null };
+
+/** Paires de poule dans l'ordre de placement préféré (poules alternées). */
+export function groupPairings(teams: SchedulerTeam[], groupCount: number, seed?: number) {
+  const rand = seed == null ? null : seededRandom(seed);
+  const byGroup = new Map<number, string[]>();
+  for (const tm of teams) {
+    const g = clampInt(tm.groupIdx, 1, Math.max(1, groupCount));
+    if (!byGroup.has(g)) byGroup.set(g, []);
+    byGroup.get(g)!.push(tm.id);
+  }
+
+  const list: { groupIdx: number; pairs: Array<{ a: string; b: string }> }[] = [];
+  for (let g = 1; g <= Math.max(1, groupCount); g++) {
+    const ids = byGroup.get(g) ?? [];
+    if (ids.length < 2) continue; // poule vide ou 1 équipe -> aucun match
+    list.push({ groupIdx: g, pairs: roundRobinPairs(rand ? shuffled(ids, rand) : ids) });
+  }
+  return interleaveByGroups(list);
+}
+
+/**
+ * Placement glouton créneau par créneau:
+ * - un match n'est placé que sur un créneau assez long (durée de sa poule / du terrain + rotation)
+ * - repos strict (restGap), puis passe relâchée si aucun candidat
+ * - équité stricte catégorie + poule (max - min <= maxSpread); en dernier recours,
+ *   toute paire qui fait jouer une équipe en retard dans sa poule (sinon blocage avec des poules impaires)
+ * - contraintes dures (présence, partage de joueurs) toujours respectées: sinon la paire reste non placée
+ * - score: usage du terrain, ordre de la séquence, moins de matchs joués d'abord, terrains préférés
+ * Puis recherche locale (échanges / déplacements) pour réduire les contraintes souples violées.
+ * Phase finale: chaque tour après la fin du précédent (1 créneau de repos si possible).
+ * Les durées pouvant différer d'un terrain à l'autre, occupation, repos et enchaînements se comptent en minutes.
+ */
+export function generateSchedule(input: SchedulerInput): ScheduleResult {
+  const c = { ...DEFAULT_SCHEDULER_CONSTRAINTS, ...input.constraints };
+  const groupCount = Math.max(1, input.groupCount);
+  const slots = input.slots;
+  const bracket = input.knockout ?? [];
+  const rules = input.rules ?? emptyScheduleRules();
+  const slotMinutes = Math.max(1, input.slotMinutes ?? 15);
+  const matchMinutes = Math.max(1, input.matchMinutes ?? slotMinutes);
+  const rotationMinutes = input.durations ? input.durations.rotationMinutes : Math.max(0, slotMinutes - matchMinutes);
+  const check = { slotMinutes, matchMinutes };
+  // repos "restGap créneaux" exprimé en minutes entre la fin d'un match et le début du suivant
+  const restGapMin = c.restGap * slotMinutes - matchMinutes;
+
+  const minutesAt = (fieldIdx: number, groupIdx: number | null, categoryId: string | null) =>
+    input.durations ? matchMinutesFor(input.durations, fieldIdx, groupIdx, categoryId) : matchMinutes;
+  const fits = (slot: ScheduleSlot, groupIdx: number | null, categoryId: string | null) =>
+    minutesAt(slot.fieldIdx, groupIdx, categoryId) + rotationMinutes <= slot.minutes;
+  const categoryOf = new Map(input.teams.map((tm) => [tm.id, tm.categoryId ?? null]));
+
+  const sequence = input.pairings ? [...input.pairings] : groupPairings(input.teams, groupCount, input.seed);
+  const required = sequence.length + bracket.length;
+
+  if (required > slots.length) {
+    return {
+      ok: false,
+      error: `Planning impossible: ${required} matchs requis, mais seulement ${slots.length} créneaux jouables (horaires/pauses/terrains).`,
+      diagnostics: null,
+    };
+  }
+
+  const lastEndMin = new Map<string, number>(); // fin du dernier match (minutes absolues)
+  const runLength = new Map<string, number>(); // matchs d'affilée en cours
+  const busy = new Map<string, Array<[number, number]>>(); // équipe => [début, fin[ (joueurs partagés inclus)
+  const fieldUsage = new Map<number, number>();
+  const playedCount = new Map<string, number>();
+  const playedCountByGroup = new Map<number, Map<string, number>>();
+  const playedCountByCategory = new Map<string, Map<string, number>>(); // équité entre équipes d'une même catégorie
+
+  for (const tm of input.teams) {
+    const g = clampInt(tm.groupIdx, 1, groupCount);
+    const cat = tm.categoryId ?? "";
+    playedCount.set(tm.id, 0);
+    if (!playedCountByGroup.has(g)) playedCountByGroup.set(g, new Map());
+    playedCountByGroup.get(g)!.set(tm.id, 0);
+    if (!playedCountByCategory.has(cat)) playedCountByCategory.set(cat, new Map());
+    playedCountByCategory.get(cat)!.set(tm.id, 0);
+  }
+
+  function countPlayed(teamId: string, groupIdx: number) {
+    playedCount.set(teamId, (playedCount.get(teamId) ?? 0) + 1);
+    for (const counts of [playedCountByGroup.get(groupIdx), playedCountByCategory.get(categoryOf.get(teamId) ?? "")]) {
+      if (counts?.has(teamId)) counts.set(teamId, counts.get(teamId)! + 1);
+    }
+  }
+
+  function spreadAfter(counts: Map<string, number> | undefined, a: string, b: string) {
+    if (!counts || counts.size === 0) return 0;
+    const values = Array.from(counts.values());
+    const maxV = Math.max(...values, (counts.get(a) ?? 0) + 1, (counts.get(b) ?? 0) + 1);
+    return maxV - Math.min(...values);
+  }
+
+  function isLagging(groupIdx: number, teamId: string) {
+    const counts = playedCountByGroup.get(groupIdx);
+    if (!counts || counts.size === 0) return true;
+    return (counts.get(teamId) ?? 0) === Math.min(...counts.values());
+  }
+
+  function isBusy(teamId: string, start: number, end: number) {
+    return (busy.get(teamId) ?? []).some(([s, e]) => overlaps(start, end, s, e));
+  }
+
+  function occupy(teamId: string, start: number, end: number) {
+    for (const id of [teamId, ...(rules.linked.get(teamId) ?? [])]) {
+      if (!busy.has(id)) busy.set(id, []);
+      busy.get(id)!.push([start, end]); // joueurs partagés: pas en même temps
+    }
+  }
+
+  function rested(teamId: string, slot: ScheduleSlot) {
+    const last = lastEndMin.get(teamId);
+    if (last == null) return true;
+    const rest = absoluteMin(slot.dayIdx, slot.start) - last;
+    return rest >= (rules.minRestMin > 0 ? rules.minRestMin : restGapMin);
+  }
+
+  // d'affilée: moins d'un créneau de base entre la fin du dernier match et ce début
+  function runAfter(teamId: string, startMin: number) {
+    const last = lastEndMin.get(teamId);
+    return last != null && startMin - last < slotMinutes ? (runLength.get(teamId) ?? 0) + 1 : 1;
+  }
+
+  function play(teamId: string, startMin: number, endMin: number) {
+    occupy(teamId, startMin, endMin);
+    runLength.set(teamId, runAfter(teamId, startMin));
+    lastEndMin.set(teamId, Math.max(lastEndMin.get(teamId) ?? endMin, endMin));
+  }
+
+  // repos + enchaînements: préférés, relâchés si aucun candidat
+  function comfortable(teamId: string, slot: ScheduleSlot) {
+    return (
+      rested(teamId, slot) &&
+      (rules.maxConsecutive <= 0 || runAfter(teamId, absoluteMin(slot.dayIdx, slot.start)) <= rules.maxConsecutive)
+    );
+  }
+
+  function available(teamId: string, slot: ScheduleSlot, minutes: number) {
+    return isTeamAvailable(rules, teamId, timeToMin(slot.start), minutes);
+  }
+
+  let lastGroupTimeIndex = -1;
+  let lastGroupEndMin = Number.NEGATIVE_INFINITY;
+  let lastFrozenEndMin = Number.NEGATIVE_INFINITY;
+
+  // Matchs figés: équipes occupées, dernier match, matchs déjà joués
+  const frozen = [...(input.frozen ?? [])].sort(
+    (a, b) => absoluteMin(a.day_idx, a.start_time) - absoluteMin(b.day_idx, b.start_time)
+  );
+  const groupOf = new Map(input.teams.map((tm) => [tm.id, clampInt(tm.groupIdx, 1, groupCount)]));
+  for (const f of frozen) {
+    const startMin = absoluteMin(f.day_idx, f.start_time);
+    const endMin = startMin + (f.duration_min ?? matchMinutes);
+
+    for (const id of [f.home_team_id, f.away_team_id]) {
+      if (!id) continue;
+      play(id, startMin, endMin);
+
+      if (f.phase === "group" && playedCount.has(id)) countPlayed(id, groupOf.get(id) ?? 1);
+    }
+
+    if (f.phase === "group") {
+      lastGroupTimeIndex = Math.max(lastGroupTimeIndex, f.timeIndex);
+      lastGroupEndMin = Math.max(lastGroupEndMin, endMin);
+    }
+    lastFrozenEndMin = Math.max(lastFrozenEndMin, endMin);
+  }
+
+  const matches: ScheduledMatch[] = [];
+  const matchGroup = new Map<ScheduledMatch, number>();
+  const usedSlots = new Set<string>();
+  let restViolations = 0;
+  let equityRelaxed = 0;
+  let ptr = 0;
+  const dayQuota = cumulativeDayQuotas(slots, sequence.length, bracket.length);
+
+  for (const slot of slots) {
+    if (ptr >= sequence.length) break;
+    if (ptr >= (dayQuota.get(slot.dayIdx) ?? sequence.length)) continue; // quota du jour atteint
+    const slotStartMin = absoluteMin(slot.dayIdx, slot.start);
+
+    let chosenIndex = -1;
+    let relaxed = false;
+    let unfair = false;
+
+    const passes = [
+      { strictRest: true, strictEquity: true },
+      { strictRest: false, strictEquity: true },
+      { strictRest: true, strictEquity: false },
+      { strictRest: false, strictEquity: false },
+    ];
+
+    for (const { strictRest, strictEquity } of passes) {
+      let bestIndex = -1;
+      let bestScore = Number.POSITIVE_INFINITY;
+      const endPtr = Math.min(sequence.length, ptr + c.window);
+
+      for (let i = ptr; i < endPtr; i++) {
+        const { a, b, groupIdx } = sequence[i];
+        const categoryId = categoryOf.get(a) ?? null;
+        if (!fits(slot, groupIdx, categoryId)) continue;
+
+        const minutes = minutesAt(slot.fieldIdx, groupIdx, categoryId);
+        if (isBusy(a, slotStartMin, slotStartMin + minutes) || isBusy(b, slotStartMin, slotStartMin + minutes)) continue;
+        if (!available(a, slot, minutes) || !available(b, slot, minutes)) continue;
+
+        const restOk = comfortable(a, slot) && comfortable(b, slot);
+        if (strictRest && !restOk) continue;
+
+        const fair =
+          spreadAfter(playedCountByCategory.get(categoryId ?? ""), a, b) <= c.maxSpread &&
+          spreadAfter(playedCountByGroup.get(groupIdx), a, b) <= c.maxSpread;
+        if (strictEquity ? !fair : !isLagging(groupIdx, a) && !isLagging(groupIdx, b)) continue;
+
+        const fieldPenalty = (fieldUsage.get(slot.fieldIdx) ?? 0) * 2;
+        const orderPenalty = (i - ptr) * 1.2;
+        const relaxPenalty = restOk ? 0 : 80;
+        const lowPlayedBonus = ((playedCount.get(a) ?? 0) + (playedCount.get(b) ?? 0)) * 0.5;
+        const prefPenalty = (prefersField(rules, a, slot.fieldIdx) ? 0 : 6) + (prefersField(rules, b, slot.fieldIdx) ? 0 : 6);
+
+        const score = fieldPenalty + orderPenalty + relaxPenalty + lowPlayedBonus + prefPenalty;
+        if (score < bestScore) {
+          bestScore = score;
+          bestIndex = i;
+        }
+      }
+
+      if (bestIndex !== -1) {
+        chosenIndex = bestIndex;
+        relaxed = !strictRest;
+        unfair = !strictEquity;
+        break;
+      }
+    }
+
+    if (chosenIndex === -1) continue;
+
+    [sequence[ptr], sequence[chosenIndex]] = [sequence[chosenIndex], sequence[ptr]];
+    const chosen = sequence[ptr];
+
+    if (relaxed && !(comfortable(chosen.a, slot) && comfortable(chosen.b, slot))) restViolations++;
+    if (unfair) equityRelaxed++;
+
+    const categoryId = categoryOf.get(chosen.a) ?? null;
+    const minutes = minutesAt(slot.fieldIdx, chosen.groupIdx, categoryId);
+    const placed: ScheduledMatch = {
+      home_team_id: chosen.a,
+      away_team_id: chosen.b,
+      field_idx: slot.fieldIdx,
+      start_time: slot.start,
+      day_idx: slot.dayIdx,
+      duration_min: minutes,
+      category_id: categoryId,
+      phase: "group",
+    };
+    matches.push(placed);
+    matchGroup.set(placed, chosen.groupIdx);
+    usedSlots.add(slotKey(slot));
+    lastGroupTimeIndex = Math.max(lastGroupTimeIndex, slot.timeIndex);
+
+    for (const id of [chosen.a, chosen.b]) {
+      play(id, slotStartMin, slotStartMin + minutes);
+      countPlayed(id, chosen.groupIdx);
+    }
+
+    fieldUsage.set(slot.fieldIdx, (fieldUsage.get(slot.fieldIdx) ?? 0) + 1);
+    ptr++;
+  }
+
+  improveSchedule({
+    matches,
+    fixed: frozen,
+    slots,
+    usedSlots,
+    lastGroupTimeIndex,
+    rules,
+    check,
+    durationAt: (m, slot) => {
+      const groupIdx = matchGroup.get(m) ?? null;
+      return fits(slot, groupIdx, m.category_id) ? minutesAt(slot.fieldIdx, groupIdx, m.category_id) : null;
+    },
+    iterations: c.iterations,
+    seed: input.seed ?? 1,
+  });
+  for (const m of matches) lastGroupEndMin = Math.max(lastGroupEndMin, absoluteMin(m.day_idx, m.start_time) + m.duration_min);
+
+  const played = Array.from(playedCount.values());
+  const diagnostics: ScheduleDiagnostics = {
+    capacity: slots.length,
+    required,
+    placedGroupMatches: ptr,
+    unplaced: sequence.slice(ptr),
+    restViolations,
+    equityRelaxed,
+    playedMin: played.length ? Math.min(...played) : 0,
+    playedMax: played.length ? Math.max(...played) : 0,
+    fieldUsage: Object.fromEntries(fieldUsage),
+    lastGroupTimeIndex,
+    violations: checkSchedule([...frozen, ...matches], rules, check).filter((v) => !isHardViolation(v)),
+  };
+
+  // Phase finale: tours du plus grand au plus petit (toutes catégories ensemble), après la fin du dernier match de poule
+  let prevEnd = Math.max(lastGroupEndMin, lastFrozenEndMin);
+  const rounds = Array.from(new Set(bracket.map((b) => b.round))).sort((a, b) => b - a);
+
+  for (const round of rounds) {
+    const roundMatches = bracket.filter((b) => b.round === round);
+    const roundEnd = prevEnd;
+
+    // 1er créneau libre où tient chaque match (durée de sa catégorie), repos d'un créneau si possible
+    let picked: ScheduleSlot[] = [];
+    for (const rest of [slotMinutes, 0]) {
+      const taken = new Set<string>();
+      picked = [];
+      for (const bm of roundMatches) {
+        const slot = slots.find(
+          (s) =>
+            absoluteMin(s.dayIdx, s.start) >= roundEnd + rest &&
+            !usedSlots.has(slotKey(s)) &&
+            !taken.has(slotKey(s)) &&
+            fits(s, null, bm.category_id ?? null)
+        );
+        if (!slot) break;
+        taken.add(slotKey(slot));
+        picked.push(slot);
+      }
+      if (picked.length === roundMatches.length) break;
+    }
+
+    if (picked.length < roundMatches.length) {
+      return { ok: false, error: `Planning impossible: pas assez de créneaux après les poules pour la phase finale (${roundShortLabel(round)}).`, diagnostics };
+    }
+
+    roundMatches.forEach((bm, i) => {
+      const slot = picked[i];
+      const categoryId = bm.category_id ?? null;
+      const minutes = minutesAt(slot.fieldIdx, null, categoryId);
+      usedSlots.add(slotKey(slot));
+      prevEnd = Math.max(prevEnd, absoluteMin(slot.dayIdx, slot.start) + minutes);
+      matches.push({
+        home_team_id: null,
+        away_team_id: null,
+        field_idx: slot.fieldIdx,
+        start_time: slot.start,
+        day_idx: slot.dayIdx,
+        duration_min: minutes,
+        category_id: categoryId,
+        phase: "knockout",
+        ko_round: bm.round,
+        ko_slot: bm.slot,
+        home_source: bm.home_source,
+        away_source: bm.away_source,
+      });
+    });
+  }
+
+  return { ok: true, matches, diagnostics };
+}
+
+/**
+ * Plusieurs jours: nb max de matchs de poule placés à la fin de chaque jour, au prorata des créneaux
+ * (phase finale réservée sur le dernier jour). Cumulé: un jour qui n'a pas tout placé reporte sur le suivant.
+ */
+function cumulativeDayQuotas(slots: ScheduleSlot[], groupMatches: number, knockoutMatches: number) {
+  const capacity = new Map<number, number>();
+  for (const s of slots) capacity.set(s.dayIdx, (capacity.get(s.dayIdx) ?? 0) + 1);
+
+  const days = Array.from(capacity.keys()).sort((a, b) => a - b);
+  const last = days[days.length - 1];
+  if (last != null) capacity.set(last, Math.max(0, capacity.get(last)! - knockoutMatches * 2)); // tours + repos entre tours
+
+  const total = Array.from(capacity.values()).reduce((sum, n) => sum + n, 0);
+  const out = new Map<number, number>();
+  let cumulated = 0;
+  for (const d of days) {
+    cumulated += capacity.get(d)!;
+    out.set(d, d === last || total === 0 ? groupMatches : Math.ceil((groupMatches * cumulated) / total));
+  }
+  return out;
+}
+
+// --------- REPLANIFICATION ---------
+
+export type ExistingMatch = Pick<
+  Match,
+  | "id"
+  | "status"
+  | "phase"
+  | "start_time"
+  | "field_idx"
+  | "home_team_id"
+  | "away_team_id"
+  | "ko_round"
+  | "ko_slot"
+  | "home_source"
+  | "away_source"
+  | "day_idx"
+  | "duration_min"
+  | "category_id"
+  | "schedule_locked"
+>;
+
+/** Match commencé, terminé ou validé: jamais déplacé par une replanification. */
+export function isFrozenMatch(m: Pick<Match, "status">) {
+  return normalizeMatchStatus(m.status) !== "scheduled";
+}
+
+function frozenOf(m: ExistingMatch, timeIndexOf: Map<string, number>): FrozenMatch {
+  const start = normHHMM(m.start_time);
+  return {
+    home_team_id: m.home_team_id,
+    away_team_id: m.away_team_id,
+    start_time: start,
+    field_idx: m.field_idx ?? 1,
+    day_idx: m.day_idx ?? 1,
+    timeIndex: timeIndexOf.get(`${m.day_idx ?? 1}|${start}`) ?? -1,
+    duration_min: m.duration_min,
+    phase: m.phase === "knockout" ? "knockout" : "group",
+  };
+}
+
+const timeIndexMap = (slots: ScheduleSlot[]) => new Map(slots.map((s) => [`${s.dayIdx}|${s.start}`, s.timeIndex]));
+const frozenSlotKey = (f: FrozenMatch) => slotKey({ start: f.start_time, fieldIdx: f.field_idx, dayIdx: f.day_idx });
+
+// Correspondance match généré <-> match existant: paire d'équipes, ou catégorie/tour/position en phase finale
+const pairKey = (a: string | null, b: string | null) => [a ?? "", b ?? ""].sort().join("|");
+const koKey = (m: { category_id?: string | null; ko_round?: number | null; ko_slot?: number | null }) =>
+  `${m.category_id ?? ""}|${m.ko_round}|${m.ko_slot}`;
+
+/**
+ * Régénération qui conserve les matchs verrouillés (matches.schedule_locked): ils gardent équipes, heure et terrain,
+ * leurs paires (ou leur place dans le tableau final) ne sont pas reprogrammées, le reste est généré autour.
+ * La phase finale restante est placée après le dernier match conservé.
+ */
+export function generateKeepingLocked(input: Omit<SchedulerInput, "pairings" | "frozen"> & { locked: ExistingMatch[] }): ScheduleResult {
+  const timeIndexOf = timeIndexMap(input.slots);
+  const locked = input.locked.filter((m) => m.start_time);
+  const frozen = locked.map((m) => frozenOf(m, timeIndexOf));
+  const taken = new Set(frozen.map(frozenSlotKey));
+
+  const lockedPairs = new Map<string, number>();
+  for (const m of locked) {
+    if (m.phase === "knockout" || !m.home_team_id || !m.away_team_id) continue;
+    const k = pairKey(m.home_team_id, m.away_team_id);
+    lockedPairs.set(k, (lockedPairs.get(k) ?? 0) + 1);
+  }
+  const pairings = groupPairings(input.teams, input.groupCount, input.seed).filter((p) => {
+    const left = lockedPairs.get(pairKey(p.a, p.b)) ?? 0;
+    if (left > 0) lockedPairs.set(pairKey(p.a, p.b), left - 1);
+    return left === 0;
+  });
+
+  const lockedKo = new Set(locked.filter((m) => m.phase === "knockout").map(koKey));
+  const knockout = (input.knockout ?? []).filter(
+    (bm) => !lockedKo.has(koKey({ category_id: bm.category_id, ko_round: bm.round, ko_slot: bm.slot }))
+  );
+
+  return generateSchedule({ ...input, slots: input.slots.filter((s) => !taken.has(slotKey(s))), pairings, frozen, knockout });
+}
+
+export type RescheduleMove = {
+  id: string;
+  from: { start_time: string; field_idx: number; day_idx: number };
+  to: { start_time: string; field_idx: number; day_idx: number; duration_min: number };
+};
+
+export type RescheduleInput = Omit<SchedulerInput, "slots" | "knockout" | "pairings" | "frozen"> & {
+  matches: ExistingMatch[];
+  slots: ScheduleSlot[]; // créneaux jouables de tous les jours (cf. tournamentSlots)
+  from: string; // "HH:MM": rien n'est replacé avant
+  fromDayIdx?: number; // jour de `from` (1 par défaut)
+};
+
+export type RescheduleResult =
+  | {
+      ok: true;
+      moves: RescheduleMove[]; // uniquement les matchs qui changent d'heure, de terrain ou de durée
+      frozenCount: number;
+      replannedCount: number;
+      unplaced: ExistingMatch[]; // matchs de poule sans nouveau créneau (planning inchangé pour eux)
+      diagnostics: ScheduleDiagnostics;
+    }
+  | { ok: false; error: string };
+
+/**
+ * Replanifie à partir de `from`: les matchs figés (cf. isFrozenMatch) et verrouillés gardent leur place,
+ * les autres sont replacés sur les créneaux jouables restants (>= from, non occupés).
+ * Les matchs de poule sans équipe (équipe retirée) ne sont pas replacés.
+ */
+export function rescheduleFrom(input: RescheduleInput): RescheduleResult {
+  const fromMin = absoluteMin(input.fromDayIdx, input.from);
+  const groupCount = Math.max(1, input.groupCount);
+  const groupOf = new Map(input.teams.map((tm) => [tm.id, clampInt(tm.groupIdx, 1, groupCount)]));
+  const timeIndexOf = timeIndexMap(input.slots);
+
+  const frozen: FrozenMatch[] = [];
+  const remaining: ExistingMatch[] = [];
+  for (const m of input.matches) {
+    if (!m.start_time) continue;
+    if (isFrozenMatch(m) || m.schedule_locked) frozen.push(frozenOf(m, timeIndexOf));
+    else remaining.push(m);
+  }
+
+  const taken = new Set(frozen.map(frozenSlotKey));
+  const slots = input.slots.filter((s) => absoluteMin(s.dayIdx, s.start) >= fromMin && !taken.has(slotKey(s)));
+
+  // Paires de poule restantes (ordre actuel du planning) et tours de phase finale restants
+  const groupRemaining = remaining
+    .filter((m) => m.phase !== "knockout" && m.home_team_id && m.away_team_id)
+    .sort(
+      (a, b) =>
+        (a.day_idx ?? 1) - (b.day_idx ?? 1) ||
+        String(a.start_time).localeCompare(String(b.start_time)) ||
+        (a.field_idx ?? 1) - (b.field_idx ?? 1)
+    );
+  const pairings: Pairing[] = groupRemaining.map((m) => ({
+    a: m.home_team_id!,
+    b: m.away_team_id!,
+    groupIdx: groupOf.get(m.home_team_id!) ?? 1,
+  }));
+  const koRemaining = remaining.filter((m) => m.phase === "knockout" && m.ko_round != null && m.ko_slot != null);
+  const knockout: KnockoutToPlace[] = koRemaining.map((m) => ({
+    round: m.ko_round!,
+    slot: m.ko_slot!,
+    home_source: m.home_source ?? "",
+    away_source: m.away_source ?? "",
+    category_id: m.category_id,
+  }));
+
+  const result = generateSchedule({ ...input, slots, pairings, frozen, knockout });
+  if (!result.ok) return { ok: false, error: result.error };
+
+  // Correspondance nouveau placement -> match existant (paire ou catégorie/tour/position)
+  const queue = new Map<string, ExistingMatch[]>();
+  for (const m of groupRemaining) {
+    const k = pairKey(m.home_team_id, m.away_team_id);
+    queue.set(k, [...(queue.get(k) ?? []), m]);
+  }
+  const koByPos = new Map(koRemaining.map((m) => [koKey(m), m]));
+
+  const moves: RescheduleMove[] = [];
+  for (const sm of result.matches) {
+    const m = sm.phase === "knockout" ? koByPos.get(koKey(sm)) : queue.get(pairKey(sm.home_team_id, sm.away_team_id))?.shift();
+    if (!m) continue;
+
+    const from = { start_time: normHHMM(m.start_time), field_idx: m.field_idx ?? 1, day_idx: m.day_idx ?? 1 };
+    const to = { start_time: sm.start_time, field_idx: sm.field_idx, day_idx: sm.day_idx, duration_min: sm.duration_min };
+    const same = from.start_time === to.start_time && from.field_idx === to.field_idx && from.day_idx === to.day_idx;
+    if (same && m.duration_min === to.duration_min) continue;
+    moves.push({ id: m.id, from, to });
+  }
+
+  return {
+    ok: true,
+    moves,
+    frozenCount: frozen.length,
+    replannedCount: groupRemaining.length + koRemaining.length,
+    unplaced: Array.from(queue.values()).flat(),
+    diagnostics: result.diagnostics,
+  };
+}
+
+/**
+ * Recherche locale (matchs de poule uniquement): échange deux matchs ou déplace un match sur un créneau libre
+ * avant la phase finale. Un mouvement est gardé s'il ne crée aucune violation dure et réduit le coût souple.
+ * `durationAt`: durée du match sur ce créneau, null s'il n'y tient pas (mouvement refusé).
+ */
+function improveSchedule(input: {
+  matches: ScheduledMatch[];
+  fixed: FrozenMatch[];
+  slots: ScheduleSlot[];
+  usedSlots: Set<string>;
+  lastGroupTimeIndex: number;
+  rules: ScheduleRules;
+  check: { slotMinutes: number; matchMinutes: number };
+  durationAt: (m: ScheduledMatch, slot: ScheduleSlot) => number | null;
+  iterations: number;
+  seed: number;
+}) {
+  const { matches, usedSlots, rules, check, durationAt } = input;
+  if (matches.length < 2 || input.iterations <= 0) return;
+
+  const evaluate = () => {
+    const v = checkSchedule([...input.fixed, ...matches], rules, check);
+    return v.some(isHardViolation) ? Number.POSITIVE_INFINITY : softCost(v);
+  };
+
+  let cost = evaluate();
+  if (cost === 0 || !Number.isFinite(cost)) return;
+
+  const rand = seededRandom(input.seed);
+  const slotByKey = new Map(input.slots.map((s) => [slotKey(s), s]));
+  const slotOf = (m: ScheduledMatch) => slotByKey.get(slotKey({ start: m.start_time, fieldIdx: m.field_idx, dayIdx: m.day_idx }));
+  const freeSlots = input.slots.filter(
+    (s) => s.timeIndex <= input.lastGroupTimeIndex && !usedSlots.has(slotKey(s))
+  );
+
+  for (let it = 0; it < input.iterations && cost > 0; it++) {
+    const i = Math.floor(rand() * matches.length);
+    const m = matches[i];
+    const before = { start_time: m.start_time, field_idx: m.field_idx, day_idx: m.day_idx, duration_min: m.duration_min };
+
+    if (freeSlots.length > 0 && rand() < 0.3) {
+      // déplacement vers un créneau libre
+      const k = Math.floor(rand() * freeSlots.length);
+      const target = freeSlots[k];
+      const minutes = durationAt(m, target);
+      if (minutes == null) continue;
+      Object.assign(m, { start_time: target.start, field_idx: target.fieldIdx, day_idx: target.dayIdx, duration_min: minutes });
+
+      const next = evaluate();
+      const prev = slotByKey.get(slotKey({ start: before.start_time, fieldIdx: before.field_idx, dayIdx: before.day_idx }));
+      if (next < cost && prev) {
+        cost = next;
+        usedSlots.delete(slotKey(prev));
+        usedSlots.add(slotKey(target));
+        freeSlots[k] = prev;
+      } else {
+        Object.assign(m, before);
+      }
+      continue;
+    }
+
+    // échange de deux matchs
+    const j = Math.floor(rand() * matches.length);
+    if (i === j) continue;
+    const o = matches[j];
+    const slotM = slotOf(m);
+    const slotO = slotOf(o);
+    if (!slotM || !slotO) continue;
+    const minutesM = durationAt(m, slotO);
+    const minutesO = durationAt(o, slotM);
+    if (minutesM == null || minutesO == null) continue;
+
+    const beforeO = { start_time: o.start_time, field_idx: o.field_idx, day_idx: o.day_idx, duration_min: o.duration_min };
+    Object.assign(m, { ...beforeO, duration_min: minutesM });
+    Object.assign(o, { ...before, duration_min: minutesO });
+
+    const next = evaluate();
+    if (next < cost) {
+      cost = next;
+    } else {
+      Object.assign(o, beforeO);
+      Object.assign(m, before);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import type { Match, Tournament } from "./models";
+import { isScorerEvent, SCORER_EVENT_TYPES } from "./events";
+
+/**
+ * Score d'un match et buts saisis: calcul depuis les événements et contrôle de cohérence.
+ * - goal / penalty_goal: but pour l'équipe `team_id`
+ * - own_goal: but contre son camp, joueur de `team_id`, compté pour l'adversaire
+ * En mode "events", la base recalcule le score à chaque but (trigger match_events_score_sync).
+ */
+
+export type ScoreMode = "manual" | "events";
+
+export const SCORE_MODE_LABELS: Record<ScoreMode, string> = {
+  manual: "Saisie manuelle (page Matchs)",
+  events: "Calculé depuis les buts saisis",
+};
+
+export const GOAL_EVENT_TYPES: string[] = [...SCORER_EVENT_TYPES, "own_goal"];
+
+export function normalizeScoreMode(v: string | null | undefined): ScoreMode {
+  return v === "events" ? "events" : "manual";
+}
+
+export function scoreModeOf(t: Pick<Tournament, "score_mode"> | null | undefined) {
+  return normalizeScoreMode(t?.score_mode);
+}
+
+type GoalEvent = { match_id?: string | null; team_id: string | null; event_type: string | null };
+type ScoredMatch = Pick<Match, "id" | "home_team_id" | "away_team_id" | "home_score" | "away_score">;
+
+export type Score = { home: number; away: number };
+
+/** Score d'après les buts (les événements d'autres matchs sont ignorés si `match_id` est renseigné). */
+export function scoreFromEvents(m: Omit<ScoredMatch, "home_score" | "away_score">, events: GoalEvent[]): Score {
+  const out: Score = { home: 0, away: 0 };
+  for (const e of events) {
+    if (e.match_id && e.match_id !== m.id) continue;
+    if (!e.team_id) continue;
+
+    const scored = isScorerEvent(e.event_type);
+    const forHome =
+      (scored && e.team_id === m.home_team_id) || (e.event_type === "own_goal" && e.team_id === m.away_team_id);
+    const forAway =
+      (scored && e.team_id === m.away_team_id) || (e.event_type === "own_goal" && e.team_id === m.home_team_id);
+
+    if (forHome) out.home++;
+    else if (forAway) out.away++;
+  }
+  return out;
+}
+
+/**
+ * - mismatch: score saisi différent des buts saisis
+ * - no_events: score saisi (au moins un but) mais aucun buteur
+ * - missing_score: buts saisis mais pas de score
+ */
+export type ScoreIssueKind = "mismatch" | "no_events" | "missing_score";
+
+export const SCORE_ISSUE_LABELS: Record<ScoreIssueKind, string> = {
+  mismatch: "Score ≠ buts saisis",
+  no_events: "Aucun buteur saisi",
+  missing_score: "Buts saisis, score vide",
+};
+
+export type ScoreIssue = { matchId: string; kind: ScoreIssueKind; score: Score | null; fromEvents: Score };
+
+export function checkScore(m: ScoredMatch, events: GoalEvent[]): ScoreIssue | null {
+  const fromEvents = scoreFromEvents(m, events);
+  const goals = fromEvents.home + fromEvents.away;
+
+  if (m.home_score == null || m.away_score == null) {
+    return goals > 0 ? { matchId: m.id, kind: "missing_score", score: null, fromEvents } : null;
+  }
+
+  const score = { home: m.home_score, away: m.away_score };
+  if (score.home === fromEvents.home && score.away === fromEvents.away) return null;
+
+  return { matchId: m.id, kind: goals === 0 ? "no_events" : "mismatch", score, fromEvents };
+}
+
+/** Contrôle de tout le tournoi, dans l'ordre des matchs donnés. */
+export function scoreConsistencyReport(matches: ScoredMatch[], events: GoalEvent[]): ScoreIssue[] {
+  const byMatch = new Map<string, GoalEvent[]>();
+  for (const e of events) {
+    if (!e.match_id) continue;
+    const arr = byMatch.get(e.match_id) ?? [];
+    arr.push(e);
+    byMatch.set(e.match_id, arr);
+  }
+
+  const out: ScoreIssue[] = [];
+  for (const m of matches) {
+    const issue = checkScore(m, byMatch.get(m.id) ?? []);
+    if (issue) out.push(issue);
+  }
+  return out;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { computeStandings, type StandingMatch, type StandingTeam } from "./standings";
+
+const team = (id: string): StandingTeam => ({ id, name: id });
+const played = (home: string, away: string, hs: number, as: number): StandingMatch => ({
+  home_team_id: home,
+  away_team_id: away,
+  home_score: hs,
+  away_score: as,
+  phase: "group",
+});
+
+const order = (rows: { team_id: string }[]) => rows.map((r) => r.team_id);
+
+describe("computeStandings", () => {
+  it("compte points, buts et différence, sans les matchs non joués ni la phase finale", () => {
+    const rows = computeStandings(
+      [team("A"), team("B"), team("C")],
+      [
+        played("A", "B", 2, 0),
+        played("B", "C", 1, 1),
+        { home_team_id: "A", away_team_id: "C", home_score: null, away_score: null, phase: "group" },
+        { ...played("C", "A", 5, 0), phase: "knockout" },
+      ]
+    );
+    expect(order(rows)).toEqual(["A", "C", "B"]);
+    expect(rows[0]).toMatchObject({ played: 1, wins: 1, gf: 2, ga: 0, gd: 2, pts: 3, tiebreak: null });
+    expect(rows[2]).toMatchObject({ played: 2, draws: 1, losses: 1, gd: -2, pts: 1 });
+  });
+
+  it("applique le barème de points du tournoi", () => {
+    const rows = computeStandings([team("A"), team("B")], [played("A", "B", 0, 0)], {
+      points: { win: 2, draw: 1, loss: 0 },
+    });
+    expect(rows.map((r) => r.pts)).toEqual([1, 1]);
+  });
+
+  it("recalcule la confrontation directe entre les seules équipes encore à égalité", () => {
+    // A, B, C, D à 8 points. Mini-championnat à 4: A 6 pts, B et C 4 pts, D 2 pts.
+    // Entre B et C seuls, C a gagné: C passe devant B malgré une moins bonne différence de buts générale.
+    const teams = ["A", "B", "C", "D", "E", "F"].map(team);
+    const matches = [
+      played("A", "B", 0, 1),
+      played("A", "C", 1, 0),
+      played("A", "D", 1, 0),
+      played("B", "C", 0, 1),
+      played("B", "D", 0, 0),
+      played("C", "D", 0, 0),
+      played("A", "E", 0, 0),
+      played("A", "F", 0, 0),
+      played("B", "E", 5, 0),
+      played("B", "F", 0, 0),
+      played("C", "E", 1, 0),
+      played("C", "F", 0, 0),
+      played("D", "E", 1, 0),
+      played("D", "F", 1, 0),
+    ];
+    const rows = computeStandings(teams, matches, { tiebreakers: ["h2h_points", "goal_diff"] });
+
+    expect(rows.slice(0, 4).map((r) => r.pts)).toEqual([8, 8, 8, 8]);
+    expect(order(rows)).toEqual(["A", "C", "B", "D", "F", "E"]);
+    expect(rows[0].tiebreak).toEqual({ criterion: "h2h_points", value: 6, tiedWith: 4 });
+    expect(rows[1].tiebreak).toEqual({ criterion: "h2h_points", value: 3, tiedWith: 2 });
+    expect(rows[3].tiebreak).toEqual({ criterion: "h2h_points", value: 2, tiedWith: 4 });
+  });
+
+  it("passe au critère suivant quand un critère ne départage personne", () => {
+    const rows = computeStandings(
+      [team("A"), team("B"), team("X")],
+      [played("A", "B", 1, 1), played("A", "X", 1, 0), played("B", "X", 3, 0)],
+      { tiebreakers: ["h2h_points", "goal_diff"] }
+    );
+    expect(order(rows)).toEqual(["B", "A", "X"]);
+    expect(rows[0].tiebreak).toEqual({ criterion: "goal_diff", value: 3, tiedWith: 2 });
+  });
+
+  it("départage au fair-play (moins de points de pénalité devant)", () => {
+    const rows = computeStandings([team("A"), team("B")], [played("A", "B", 2, 2)], {
+      tiebreakers: ["fair_play"],
+      fairPlay: new Map([["A", 4], ["B", 1]]),
+    });
+    expect(order(rows)).toEqual(["B", "A"]);
+    expect(rows[0].tiebreak).toEqual({ criterion: "fair_play", value: 1, tiedWith: 2 });
+  });
+
+  it("tirage au sort reproductible pour un même tournoi", () => {
+    const teams = [team("A"), team("B")];
+    const matches = [played("A", "B", 1, 1)];
+    const draw = (lotsSeed: string) => order(computeStandings(teams, matches, { tiebreakers: ["lots"], lotsSeed }));
+
+    expect(draw("t1")).toEqual(draw("t1"));
+    const outcomes = new Set(["t1", "t2", "t3", "t4", "t5", "t6", "t7", "t8"].map((s) => draw(s).join(",")));
+    expect(outcomes).toEqual(new Set(["A,B", "B,A"]));
+
+    const rows = computeStandings(teams, matches, { tiebreakers: ["lots"], lotsSeed: "t1" });
+    expect(rows[0].tiebreak).toEqual({ criterion: "lots", value: null, tiedWith: 2 });
+  });
+
+  it("finit par l'ordre alphabétique quand aucun critère ne sépare les équipes", () => {
+    const rows = computeStandings(
+      [{ id: "2", name: "Zèbres" }, { id: "1", name: "Aigles" }],
+      [played("2", "1", 0, 0)],
+      { tiebreakers: ["goal_diff", "h2h_points"] }
+    );
+    expect(rows.map((r) => r.team_name)).toEqual(["Aigles", "Zèbres"]);
+    expect(rows.every((r) => r.tiebreak?.criterion === "name")).toBe(true);
+  });
+});
@@ -0,0 +1,334 @@
+import { teamGroupIdx } from "./tournament";
+
+export type StandingTeam = {
+  id: string;
+  name: string | null;
+  group_idx?: number | null;
+};
+
+export type StandingMatch = {
+  home_team_id?: string | null;
+  away_team_id?: string | null;
+  home_score: number | null;
+  away_score: number | null;
+  phase?: string | null; // "group" | "knockout"
+};
+
+export type StandingRow = {
+  team_id: string;
+  team_name: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  gf: number;
+  ga: number;
+  gd: number;
+  pts: number;
+  fair_play: number; // points de pénalité (cartons), plus bas = mieux
+  tiebreak: TiebreakNote | null; // null = place décidée aux points
+};
+
+/** Pourquoi une équipe est à sa place alors qu'elle était à égalité de points. */
+export type TiebreakNote = {
+  criterion: Tiebreaker | "name";
+  value: number | null; // valeur du critère pour l'équipe (null: tirage / nom)
+  tiedWith: number; // nb d'équipes encore à égalité quand le critère a tranché
+};
+
+export type PointsConfig = {
+  win: number;
+  draw: number;
+  loss: number;
+};
+
+export const DEFAULT_POINTS: PointsConfig = { win: 3, draw: 1, loss: 0 };
+
+/** Critères de départage, appliqués dans l'ordre après les points. */
+export type Tiebreaker = "goal_diff" | "goals_for" | "h2h_points" | "h2h_goal_diff" | "fair_play" | "lots";
+
+export const TIEBREAKERS: Record<Tiebreaker, { label: string; short: string }> = {
+  goal_diff: { label: "Différence de buts", short: "Diff" },
+  goals_for: { label: "Buts marqués", short: "BP" },
+  h2h_points: { label: "Confrontation directe (points)", short: "Conf. pts" },
+  h2h_goal_diff: { label: "Confrontation directe (diff. de buts)", short: "Conf. diff" },
+  fair_play: { label: "Fair-play (cartons)", short: "Fair-play" },
+  lots: { label: "Tirage au sort", short: "Tirage" },
+};
+
+export const ALL_TIEBREAKERS = Object.keys(TIEBREAKERS) as Tiebreaker[];
+
+export const DEFAULT_TIEBREAKERS: Tiebreaker[] = ["goal_diff", "goals_for"];
+
+export function normalizeTiebreakers(v: unknown): Tiebreaker[] {
+  if (!Array.isArray(v)) return [...DEFAULT_TIEBREAKERS];
+  const out: Tiebreaker[] = [];
+  for (const x of v) {
+    const t = String(x ?? "").trim() as Tiebreaker;
+    if (t in TIEBREAKERS && !out.includes(t)) out.push(t);
+  }
+  return out;
+}
+
+export type StandingsOptions = {
+  points?: PointsConfig;
+  tiebreakers?: Tiebreaker[];
+  fairPlay?: Map<string, number>; // team_id -> points de pénalité
+  lotsSeed?: string; // tirage au sort reproductible (ex: id du tournoi)
+};
+
+/** Réglages de classement enregistrés sur le tournoi. */
+export function standingsOptionsFromTournament(
+  t: {
+    id?: string | null;
+    points_win?: number | null;
+    points_draw?: number | null;
+    points_loss?: number | null;
+    tiebreakers?: string[] | null;
+  } | null
+): StandingsOptions {
+  return {
+    points: {
+      win: Number(t?.points_win ?? DEFAULT_POINTS.win),
+      draw: Number(t?.points_draw ?? DEFAULT_POINTS.draw),
+      loss: Number(t?.points_loss ?? DEFAULT_POINTS.loss),
+    },
+    tiebreakers: normalizeTiebreakers(t?.tiebreakers),
+    lotsSeed: t?.id ?? "",
+  };
+}
+
+function emptyRow(id: string, name: string | null): StandingRow {
+  return {
+    team_id: id,
+    team_name: (name ?? "").trim() || "Équipe",
+    played: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    gf: 0,
+    ga: 0,
+    gd: 0,
+    pts: 0,
+    fair_play: 0,
+    tiebreak: null,
+  };
+}
+
+function isCounted(m: StandingMatch) {
+  if ((m.phase ?? "group") === "knockout") return false;
+  if (m.home_score == null || m.away_score == null) return false;
+  return Boolean(m.home_team_id && m.away_team_id);
+}
+
+/** Stats (J, G, N, P, BP, BC, Pts) des équipes, sur les matchs joués entre elles uniquement. */
+function tally(teams: StandingTeam[], matches: StandingMatch[], points: PointsConfig) {
+  const byId = new Map<string, StandingRow>();
+  for (const t of teams) byId.set(t.id, emptyRow(t.id, t.name));
+
+  for (const m of matches) {
+    if (!isCounted(m)) continue;
+
+    const home = byId.get(m.home_team_id!);
+    const away = byId.get(m.away_team_id!);
+    if (!home || !away) continue;
+
+    const hs = m.home_score!;
+    const as = m.away_score!;
+
+    home.played += 1;
+    away.played += 1;
+
+    home.gf += hs;
+    home.ga += as;
+
+    away.gf += as;
+    away.ga += hs;
+
+    if (hs > as) {
+      home.wins += 1;
+      away.losses += 1;
+      home.pts += points.win;
+      away.pts += points.loss;
+    } else if (hs < as) {
+      away.wins += 1;
+      home.losses += 1;
+      away.pts += points.win;
+      home.pts += points.loss;
+    } else {
+      home.draws += 1;
+      away.draws += 1;
+      home.pts += points.draw;
+      away.pts += points.draw;
+    }
+  }
+
+  for (const r of byId.values()) r.gd = r.gf - r.ga;
+  return byId;
+}
+
+/** Hash FNV-1a: tirage au sort stable d'un affichage à l'autre. */
+function lotsValue(seed: string, teamId: string) {
+  let h = 0x811c9dc5;
+  const s = `${seed}:${teamId}`;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+type RankContext = {
+  matches: StandingMatch[];
+  points: PointsConfig;
+  tiebreakers: Tiebreaker[];
+  lotsSeed: string;
+};
+
+/** Valeur d'un critère pour chaque équipe d'un groupe d'ex-aequo (plus haut = mieux). */
+function criterionValues(c: Tiebreaker, block: StandingRow[], ctx: RankContext) {
+  const out = new Map<string, number>();
+
+  if (c === "h2h_points" || c === "h2h_goal_diff") {
+    const mini = tally(
+      block.map((r) => ({ id: r.team_id, name: r.team_name })),
+      ctx.matches,
+      ctx.points
+    );
+    for (const r of block) {
+      const h = mini.get(r.team_id)!;
+      out.set(r.team_id, c === "h2h_points" ? h.pts : h.gd);
+    }
+    return out;
+  }
+
+  for (const r of block) {
+    if (c === "goal_diff") out.set(r.team_id, r.gd);
+    else if (c === "goals_for") out.set(r.team_id, r.gf);
+    else if (c === "fair_play") out.set(r.team_id, -r.fair_play);
+    else out.set(r.team_id, lotsValue(ctx.lotsSeed, r.team_id));
+  }
+  return out;
+}
+
+/** Découpe un bloc en sous-blocs d'ex-aequo, par valeur décroissante. */
+function splitBy(block: StandingRow[], values: Map<string, number>) {
+  const groups = new Map<number, StandingRow[]>();
+  for (const r of block) {
+    const v = values.get(r.team_id) ?? 0;
+    if (!groups.has(v)) groups.set(v, []);
+    groups.get(v)!.push(r);
+  }
+  return Array.from(groups.entries())
+    .sort((a, b) => b[0] - a[0])
+    .map(([, rows]) => rows);
+}
+
+function isHeadToHead(c: Tiebreaker) {
+  return c === "h2h_points" || c === "h2h_goal_diff";
+}
+
+function displayValue(c: Tiebreaker, row: StandingRow, values: Map<string, number>) {
+  if (c === "lots") return null;
+  if (c === "fair_play") return row.fair_play;
+  return values.get(row.team_id) ?? null;
+}
+
+/**
+ * Départage d'un bloc d'équipes à égalité.
+ * Quand une confrontation directe laisse encore plusieurs équipes à égalité, le mini-championnat
+ * est recalculé entre ces seules équipes en repartant du 1er critère (règle UEFA).
+ */
+function rankBlock(block: StandingRow[], criteria: Tiebreaker[], ctx: RankContext): StandingRow[] {
+  if (block.length <= 1) return block;
+
+  if (criteria.length === 0) {
+    for (const r of block) r.tiebreak = { criterion: "name", value: null, tiedWith: block.length };
+    return [...block].sort((a, b) => a.team_name.localeCompare(b.team_name));
+  }
+
+  const [c, ...rest] = criteria;
+  const values = criterionValues(c, block, ctx);
+  const subs = splitBy(block, values);
+
+  if (subs.length === 1) return rankBlock(block, rest, ctx);
+
+  return subs.flatMap((sub) => {
+    if (sub.length === 1) {
+      sub[0].tiebreak = { criterion: c, value: displayValue(c, sub[0], values), tiedWith: block.length };
+      return sub;
+    }
+    return rankBlock(sub, isHeadToHead(c) ? ctx.tiebreakers : rest, ctx);
+  });
+}
+
+/** Explication lisible d'une place ("À égalité avec 2 équipes: départagé par ..."). */
+export function tiebreakExplanation(row: StandingRow) {
+  const tb = row.tiebreak;
+  if (!tb) return "Place décidée aux points.";
+
+  const others = tb.tiedWith - 1;
+  const prefix = `À égalité de points avec ${others} équipe${others > 1 ? "s" : ""}`;
+
+  if (tb.criterion === "name") return `${prefix}: aucun critère ne les sépare, ordre alphabétique.`;
+
+  const label = TIEBREAKERS[tb.criterion].label;
+  const scope = isHeadToHead(tb.criterion) ? ` (mini-championnat entre ${tb.tiedWith} équipes)` : "";
+  const value = tb.value != null ? `: ${tb.value}` : "";
+  return `${prefix}: départagé par ${label}${scope}${value}.`;
+}
+
+/**
+ * Classement d'un ensemble d'équipes.
+ * - seuls les matchs dont les 2 équipes sont dans le subset comptent (mode poules)
+ * - les matchs de phase finale sont ignorés
+ * - un match décidé aux tirs au but compte comme un nul (seul le score est pris en compte)
+ * - tri: points, puis les critères de départage dans l'ordre, puis nom
+ * - chaque ligne indique le critère qui a décidé de sa place (`tiebreak`)
+ */
+export function computeStandings(
+  teams: StandingTeam[],
+  matches: StandingMatch[],
+  options: StandingsOptions = {}
+): StandingRow[] {
+  const points = options.points ?? DEFAULT_POINTS;
+  const tiebreakers = options.tiebreakers ?? DEFAULT_TIEBREAKERS;
+
+  const byId = tally(teams, matches, points);
+  const rows = Array.from(byId.values());
+  for (const r of rows) r.fair_play = options.fairPlay?.get(r.team_id) ?? 0;
+
+  const ctx: RankContext = {
+    matches: matches.filter(isCounted),
+    points,
+    tiebreakers,
+    lotsSeed: options.lotsSeed ?? "",
+  };
+  const byPoints = splitBy(rows, new Map(rows.map((r) => [r.team_id, r.pts])));
+
+  return byPoints.flatMap((block) => rankBlock(block, tiebreakers, ctx));
+}
+
+export type GroupStandings = {
+  groupIdx: number; // 1..n
+  label: string;
+  rows: StandingRow[];
+};
+
+/**
+ * Classement par poule (une seule entrée si `groupNames` n'a qu'un nom).
+ * Utilisé par la page Classement, les exports et la qualification en phase finale.
+ */
+export function computeGroupStandings(
+  teams: StandingTeam[],
+  matches: StandingMatch[],
+  groupNames: string[],
+  options: StandingsOptions = {}
+): GroupStandings[] {
+  const n = Math.max(1, groupNames.length);
+  return Array.from({ length: n }, (_, i) => {
+    const g = i + 1;
+    const subset = n === 1 ? teams : teams.filter((t) => teamGroupIdx(t, n) === g);
+    return { groupIdx: g, label: groupNames[i] ?? `Poule ${g}`, rows: computeStandings(subset, matches, options) };
+  });
+}
@@ -0,0 +1,134 @@
+/**
+ * Suspensions automatiques (calculées à partir des cartons, rien n'est stocké).
+ *
+ * - rouge (direct ou sur 2e jaune) => `red_matches` match(s) de suspension
+ * - tous les `yellow_threshold` jaunes sur le tournoi => `yellow_matches` match(s)
+ *   (les jaunes d'un match terminé par une expulsion ne comptent pas dans le cumul)
+ *
+ * Une suspension se purge sur les matchs suivants de l'équipe, dans l'ordre du planning.
+ */
+
+import type { CardEvent } from "./fairPlay";
+
+export type SuspensionRules = {
+  red_matches: number;
+  yellow_threshold: number; // 0 = pas de cumul
+  yellow_matches: number;
+};
+
+export const DEFAULT_SUSPENSION_RULES: SuspensionRules = { red_matches: 1, yellow_threshold: 3, yellow_matches: 1 };
+
+export type SuspensionMatch = {
+  id: string;
+  home_team_id?: string | null;
+  away_team_id?: string | null;
+};
+
+export type Suspension = {
+  player_id: string;
+  team_id: string;
+  reason: "red" | "yellows";
+  source_match_id: string; // match du carton
+  match_ids: string[]; // matchs à purger (peut être plus court que prévu en fin de tournoi)
+};
+
+export function normalizeSuspensionRules(v: unknown): SuspensionRules {
+  const o = v && typeof v === "object" ? (v as Record<string, unknown>) : {};
+  const num = (k: keyof SuspensionRules) => {
+    const n = Number(o[k]);
+    return Number.isFinite(n) && n >= 0 ? Math.floor(n) : DEFAULT_SUSPENSION_RULES[k];
+  };
+  return { red_matches: num("red_matches"), yellow_threshold: num("yellow_threshold"), yellow_matches: num("yellow_matches") };
+}
+
+export function suspensionReasonLabel(s: Suspension) {
+  return s.reason === "red" ? "🔴 Carton rouge" : "🟡 Cumul de jaunes";
+}
+
+/**
+ * Toutes les suspensions du tournoi.
+ * `matches` doit être dans l'ordre du planning (start_time, terrain).
+ */
+export function computeSuspensions(
+  matches: SuspensionMatch[],
+  events: CardEvent[],
+  rules: SuspensionRules = DEFAULT_SUSPENSION_RULES
+): Suspension[] {
+  // matchs de chaque équipe, dans l'ordre
+  const teamMatches = new Map<string, string[]>();
+  for (const m of matches) {
+    for (const t of [m.home_team_id, m.away_team_id]) {
+      if (!t) continue;
+      if (!teamMatches.has(t)) teamMatches.set(t, []);
+      teamMatches.get(t)!.push(m.id);
+    }
+  }
+
+  // cartons par match + joueur
+  const cards = new Map<string, { yellows: number; reds: number }>();
+  for (const e of events) {
+    const type = (e.event_type ?? "").toLowerCase();
+    if (type !== "yellow" && type !== "red") continue;
+    if (!e.player_id || !e.team_id || !e.match_id) continue;
+
+    const key = `${e.match_id}|${e.team_id}|${e.player_id}`;
+    const cur = cards.get(key) ?? { yellows: 0, reds: 0 };
+    if (type === "yellow") cur.yellows += 1;
+    else cur.reds += 1;
+    cards.set(key, cur);
+  }
+
+  const playersByTeam = new Map<string, Set<string>>();
+  for (const key of cards.keys()) {
+    const [, teamId, playerId] = key.split("|");
+    if (!playersByTeam.has(teamId)) playersByTeam.set(teamId, new Set());
+    playersByTeam.get(teamId)!.add(playerId);
+  }
+
+  const out: Suspension[] = [];
+
+  for (const [teamId, players] of playersByTeam) {
+    const order = teamMatches.get(teamId) ?? [];
+
+    for (const playerId of players) {
+      let yellowCount = 0;
+
+      order.forEach((matchId, idx) => {
+        const c = cards.get(`${matchId}|${teamId}|${playerId}`);
+        if (!c) return;
+
+        const push = (reason: Suspension["reason"], n: number) => {
+          if (n <= 0) return;
+          out.push({
+            player_id: playerId,
+            team_id: teamId,
+            reason,
+            source_match_id: matchId,
+            match_ids: order.slice(idx + 1, idx + 1 + n),
+          });
+        };
+
+        if (c.reds > 0 || c.yellows >= 2) {
+          push("red", rules.red_matches);
+          return;
+        }
+
+        if (c.yellows === 1 && rules.yellow_threshold > 0) {
+          yellowCount += 1;
+          if (yellowCount % rules.yellow_threshold === 0) push("yellows", rules.yellow_matches);
+        }
+      });
+    }
+  }
+
+  return out;
+}
+
+/** player_id -> suspension à purger sur ce match. */
+export function suspendedForMatch(suspensions: Suspension[], matchId: string) {
+  const map = new Map<string, Suspension>();
+  for (const s of suspensions) {
+    if (s.match_ids.includes(matchId)) map.set(s.player_id, s);
+  }
+  return map;
+}
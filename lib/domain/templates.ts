@@ -0,0 +1,59 @@
+import type { Json, TablesInsert } from "../database.types";
+import type { Tournament } from "./models";
+
+/**
+ * Modèles de tournoi: les réglages copiés d'un tournoi à l'autre (terrains, horaires, poules, règles).
+ * Jamais le titre, la date, les équipes ni les matchs.
+ */
+
+export const TEMPLATE_SETTING_KEYS = [
+  "start_time",
+  "end_time",
+  "match_duration_min",
+  "rotation_duration_min",
+  "min_teams",
+  "max_teams",
+  "min_players_per_team",
+  "max_players_per_team",
+  "num_fields",
+  "field_names",
+  "pauses",
+  "field_pauses",
+  "field_settings",
+  "format",
+  "group_count",
+  "group_names",
+  "group_match_durations",
+  "categories",
+  "knockout_enabled",
+  "knockout_qualifiers",
+  "points_win",
+  "points_draw",
+  "points_loss",
+  "tiebreakers",
+  "fair_play_points",
+  "suspension_rules",
+  "score_mode",
+  "min_rest_min",
+  "max_consecutive",
+] as const;
+
+export type TemplateSettingKey = (typeof TEMPLATE_SETTING_KEYS)[number];
+export type TournamentSettings = Pick<TablesInsert<"tournaments">, TemplateSettingKey>;
+
+/** Réglages d'un tournoi existant (pour "Enregistrer comme modèle"). */
+export function settingsOf(t: Tournament): TournamentSettings {
+  const out: Record<string, unknown> = {};
+  for (const k of TEMPLATE_SETTING_KEYS) out[k] = t[k];
+  return out as TournamentSettings;
+}
+
+/** Lecture tolérante du jsonb `tournament_templates.settings`: clés inconnues ignorées. */
+export function normalizeTemplateSettings(v: Json | null | undefined): TournamentSettings {
+  const raw = v && typeof v === "object" && !Array.isArray(v) ? v : {};
+  const out: Record<string, unknown> = {};
+  for (const k of TEMPLATE_SETTING_KEYS) {
+    if (raw[k] !== undefined) out[k] = raw[k];
+  }
+  return out as TournamentSettings;
+}
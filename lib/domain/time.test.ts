@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { parseMsLoose, timeHHMM } from "./time";
+import { clampInt } from "./utils";
+
+const todayAt = (hh: number, mm: number) => {
+  const d = new Date();
+  d.setHours(hh, mm, 0, 0);
+  return d.getTime();
+};
+
+describe("parseMsLoose", () => {
+  it("lit un ISO complet", () => {
+    expect(parseMsLoose("2026-05-02T08:30:00Z")).toBe(Date.UTC(2026, 4, 2, 8, 30));
+  });
+
+  it("lit \"HH:MM\" et \"HH:MM:SS\" comme aujourd'hui à cette heure", () => {
+    expect(parseMsLoose("9:05")).toBe(todayAt(9, 5));
+    expect(parseMsLoose("14:30:00")).toBe(todayAt(14, 30));
+  });
+
+  it("borne les heures hors plage", () => {
+    expect(parseMsLoose("27:75")).toBe(todayAt(23, 59));
+  });
+
+  it("renvoie NaN si illisible", () => {
+    expect(parseMsLoose(null)).toBeNaN();
+    expect(parseMsLoose("")).toBeNaN();
+    expect(parseMsLoose("midi")).toBeNaN();
+  });
+});
+
+describe("timeHHMM", () => {
+  it("normalise les heures Postgres", () => {
+    expect(timeHHMM("9:05:00")).toBe("09:05");
+    expect(timeHHMM("18:40")).toBe("18:40");
+  });
+
+  it("affiche un ISO en heure locale", () => {
+    const iso = "2026-05-02T08:30:00Z";
+    const d = new Date(iso);
+    expect(timeHHMM(iso)).toBe(`${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`);
+  });
+
+  it("renvoie le texte vide si absent ou illisible", () => {
+    expect(timeHHMM(null)).toBe("--:--");
+    expect(timeHHMM("midi")).toBe("--:--");
+    expect(timeHHMM(undefined, "")).toBe("");
+  });
+});
+
+describe("clampInt", () => {
+  it("tronque et borne", () => {
+    expect(clampInt(3.7, 1, 8)).toBe(3);
+    expect(clampInt(-2, 1, 8)).toBe(1);
+    expect(clampInt(12, 1, 8)).toBe(8);
+  });
+
+  it("renvoie le minimum pour NaN et Infinity", () => {
+    expect(clampInt(Number.NaN, 1, 8)).toBe(1);
+    expect(clampInt(Number.POSITIVE_INFINITY, 1, 8)).toBe(1);
+  });
+});
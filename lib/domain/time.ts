@@ -0,0 +1,70 @@
+/**
+ * Heures des matchs: `start_time` est soit un ISO complet, soit "HH:MM" / "HH:MM:SS".
+ */
+
+const HHMM_RE = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+/** Timestamp (ms). "HH:MM" => aujourd'hui à cette heure. NaN si illisible. */
+export function parseMsLoose(v: string | null | undefined) {
+  if (!v) return NaN;
+
+  const ms = Date.parse(v);
+  if (!Number.isNaN(ms)) return ms;
+
+  const m = HHMM_RE.exec(String(v).trim());
+  if (m) {
+    const hh = Math.min(23, Math.max(0, Number(m[1])));
+    const mm = Math.min(59, Math.max(0, Number(m[2])));
+    const d = new Date();
+    d.setHours(hh, mm, 0, 0);
+    return d.getTime();
+  }
+
+  return NaN;
+}
+
+/** "9:05:00" / ISO => "09:05" (heure locale pour un ISO). */
+export function timeHHMM(v: string | null | undefined, empty = "--:--") {
+  if (!v) return empty;
+
+  const m = HHMM_RE.exec(String(v).trim());
+  if (m) {
+    const hh = Math.min(23, Math.max(0, Number(m[1])));
+    const mm = Math.min(59, Math.max(0, Number(m[2])));
+    return `${pad2(hh)}:${pad2(mm)}`;
+  }
+
+  const ms = Date.parse(v);
+  if (!Number.isNaN(ms)) {
+    return new Date(ms).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" });
+  }
+
+  return empty;
+}
+
+/** "HH:MM:SS" => "HH:MM" (colonnes `time` de Postgres). */
+export function normHHMM(t: string | null | undefined) {
+  return (t ?? "").slice(0, 5);
+}
+
+export function isTime(s: string | null | undefined) {
+  return /^\d{2}:\d{2}$/.test(s ?? "");
+}
+
+export function timeToMin(t: string) {
+  const [h, m] = normHHMM(t).split(":").map(Number);
+  return h * 60 + m;
+}
+
+export function minToTime(min: number) {
+  return `${pad2(Math.floor(min / 60))}:${pad2(min % 60)}`;
+}
+
+/** Intervalles [début, fin[ en minutes. */
+export function overlaps(aStart: number, aEnd: number, bStart: number, bEnd: number) {
+  return aStart < bEnd && bStart < aEnd;
+}
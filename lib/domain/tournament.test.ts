@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { TournamentDay } from "./days";
+import { isLive, isLiveToday } from "./tournament";
+
+const SLOT_MS = 25 * 60_000;
+const at = (hh: number, mm: number) => {
+  const d = new Date();
+  d.setHours(hh, mm, 0, 0);
+  return d.getTime();
+};
+
+describe("isLive", () => {
+  it("suit le chrono: en cours et mi-temps sont LIVE, quelle que soit l'heure", () => {
+    expect(isLive({ status: "in_progress", start_time: "08:00" }, SLOT_MS, at(18, 0))).toBe(true);
+    expect(isLive({ status: "half_time", start_time: null }, SLOT_MS, at(18, 0))).toBe(true);
+  });
+
+  it("un match terminé ou validé n'est jamais LIVE", () => {
+    expect(isLive({ status: "finished", start_time: "10:00" }, SLOT_MS, at(10, 5))).toBe(false);
+    expect(isLive({ status: "played", start_time: "10:00" }, SLOT_MS, at(10, 5))).toBe(false);
+  });
+
+  it("sans chrono, LIVE pendant [début, début + créneau[", () => {
+    const m = { status: "scheduled", start_time: "10:00:00" };
+    expect(isLive(m, SLOT_MS, at(9, 59))).toBe(false);
+    expect(isLive(m, SLOT_MS, at(10, 0))).toBe(true);
+    expect(isLive(m, SLOT_MS, at(10, 24))).toBe(true);
+    expect(isLive(m, SLOT_MS, at(10, 25))).toBe(false);
+  });
+
+  it("jamais LIVE sans heure lisible ou sans durée de créneau", () => {
+    expect(isLive({ status: "scheduled", start_time: null }, SLOT_MS, at(10, 0))).toBe(false);
+    expect(isLive({ status: "scheduled", start_time: "10:00" }, 0, at(10, 5))).toBe(false);
+  });
+});
+
+describe("isLiveToday", () => {
+  const iso = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+  const day = (date: string): TournamentDay => ({
+    date,
+    start_time: "09:00",
+    end_time: "18:00",
+    num_fields: 2,
+    pauses: null,
+    field_pauses: null,
+  });
+  const today = new Date(at(10, 5));
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+  const days = [day(iso(today)), day(iso(tomorrow))];
+
+  it("seuls les matchs du jour en cours sont LIVE à leur heure", () => {
+    expect(isLiveToday({ status: "scheduled", start_time: "10:00", day_idx: 1 }, SLOT_MS, days, at(10, 5))).toBe(true);
+    expect(isLiveToday({ status: "scheduled", start_time: "10:00", day_idx: 2 }, SLOT_MS, days, at(10, 5))).toBe(false);
+  });
+
+  it("un autre jour, LIVE seulement si le chrono est lancé", () => {
+    expect(isLiveToday({ status: "in_progress", start_time: "10:00", day_idx: 2 }, SLOT_MS, days, at(10, 5))).toBe(true);
+  });
+
+  it("sur un seul jour, même règle que isLive", () => {
+    const m = { status: "scheduled", start_time: "10:00", day_idx: 1 };
+    expect(isLiveToday(m, SLOT_MS, [day("2000-01-01")], at(10, 5))).toBe(isLive(m, SLOT_MS, at(10, 5)));
+  });
+});
@@ -0,0 +1,112 @@
+import type { Match, Tournament } from "./models";
+import { parseMsLoose } from "./time";
+import { clampInt } from "./utils";
+import { matchDurationOf } from "./fields";
+import { matchDayIdx, todayDayIdx, type TournamentDay } from "./days";
+
+/**
+ * Réglages dérivés d'un tournoi (poules, terrains, créneaux) et état des matchs.
+ * Une seule définition pour toutes les pages: planning, saisie, écran, classement, exports.
+ */
+
+export const MAX_GROUPS = 8;
+
+export function isGroupFormat(t: Pick<Tournament, "format"> | null | undefined) {
+  return (t?.format ?? "") === "groups_round_robin";
+}
+
+/** Nb de poules (1 si format round robin global). */
+export function groupCountOf(t: Pick<Tournament, "format" | "group_count"> | null | undefined) {
+  if (!isGroupFormat(t)) return 1;
+  return clampInt(Number(t?.group_count ?? 1), 1, MAX_GROUPS);
+}
+
+/** Noms des poules, complétés par "Poule N". */
+export function groupNamesOf(t: Pick<Tournament, "format" | "group_count" | "group_names"> | null | undefined) {
+  const raw = Array.isArray(t?.group_names) ? t.group_names : [];
+  return Array.from({ length: groupCountOf(t) }, (_, i) => String(raw[i] ?? "").trim() || `Poule ${i + 1}`);
+}
+
+/** Noms utilisés pour les sources de phase finale ("1er Poule A" / "1er du classement"). */
+export function knockoutGroupNamesOf(t: Pick<Tournament, "format" | "group_count" | "group_names"> | null | undefined) {
+  return isGroupFormat(t) ? groupNamesOf(t) : ["Classement"];
+}
+
+/** Poule d'une équipe (1..groupCount), 1 par défaut. */
+export function teamGroupIdx(team: { group_idx?: number | null }, groupCount: number) {
+  return clampInt(Number(team.group_idx ?? 1), 1, Math.max(1, groupCount));
+}
+
+export function fieldCountOf(t: Pick<Tournament, "num_fields"> | null | undefined) {
+  return clampInt(Number(t?.num_fields ?? 1), 1, 24);
+}
+
+/** Noms des terrains, complétés par "Terrain N". */
+export function fieldNamesOf(t: Pick<Tournament, "num_fields" | "field_names"> | null | undefined) {
+  const raw = Array.isArray(t?.field_names) ? t.field_names : [];
+  return Array.from({ length: fieldCountOf(t) }, (_, i) => String(raw[i] ?? "").trim() || `Terrain ${i + 1}`);
+}
+
+/** Durée d'un créneau (match + rotation), en minutes. */
+export function slotMinutesOf(t: Pick<Tournament, "match_duration_min" | "rotation_duration_min"> | null | undefined) {
+  const md = Number(t?.match_duration_min ?? 0);
+  const rd = Number(t?.rotation_duration_min ?? 0);
+  return Math.max(0, md + rd);
+}
+
+export function slotMsOf(t: Pick<Tournament, "match_duration_min" | "rotation_duration_min"> | null | undefined) {
+  return slotMinutesOf(t) * 60_000;
+}
+
+/** Créneau d'un match précis (sa durée propre + rotation), pour isLive. */
+export function matchSlotMs(
+  t: Pick<Tournament, "match_duration_min" | "rotation_duration_min"> | null | undefined,
+  m: Pick<Match, "duration_min">
+) {
+  return (matchDurationOf(t, m) + Math.max(0, Number(t?.rotation_duration_min ?? 0))) * 60_000;
+}
+
+/** Durée de conservation dans la corbeille (cf. migration tournament_trash). */
+export const TRASH_RETENTION_DAYS = 30;
+
+/** Jours restants avant suppression définitive (0 = purge imminente). */
+export function trashDaysLeft(t: Pick<Tournament, "deleted_at">, now = Date.now()) {
+  const deletedMs = parseMsLoose(t.deleted_at);
+  if (Number.isNaN(deletedMs)) return TRASH_RETENTION_DAYS;
+  const elapsedDays = (now - deletedMs) / 86_400_000;
+  return clampInt(Math.ceil(TRASH_RETENTION_DAYS - elapsedDays), 0, TRASH_RETENTION_DAYS);
+}
+
+export function isPlayed(m: Pick<Match, "status">) {
+  return (m.status ?? "").toLowerCase() === "played";
+}
+
+/**
+ * LIVE = chrono lancé (en cours / mi-temps), sinon, si le chrono n'est pas utilisé,
+ * non validé et maintenant dans [start_time, start_time + créneau[.
+ */
+export function isLive(m: Pick<Match, "status" | "start_time">, slotMs: number, now = Date.now()) {
+  const s = (m.status ?? "").toLowerCase();
+  if (s === "in_progress" || s === "half_time") return true;
+  if (s === "finished" || isPlayed(m)) return false;
+  if (slotMs <= 0) return false;
+
+  const st = parseMsLoose(m.start_time);
+  if (Number.isNaN(st)) return false;
+
+  return st <= now && now < st + slotMs;
+}
+
+/**
+ * isLive sur plusieurs jours: l'heure "HH:MM" ne vaut que pour le jour en cours (cf. todayDayIdx).
+ * Un match d'un autre jour n'est LIVE que si son chrono est lancé.
+ */
+export function isLiveToday(
+  m: Pick<Match, "status" | "start_time" | "day_idx">,
+  slotMs: number,
+  days: TournamentDay[],
+  now = Date.now()
+) {
+  const today = days.length <= 1 || matchDayIdx(m, days.length) === todayDayIdx(days, new Date(now));
+  return isLive(m, today ? slotMs : 0, now);
+}
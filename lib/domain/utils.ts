@@ -0,0 +1,15 @@
+/** Entier borné (NaN / Infinity => min). */
+export function clampInt(n: number, min: number, max: number) {
+  if (!Number.isFinite(n)) return min;
+  return Math.max(min, Math.min(max, Math.floor(n)));
+}
+
+/** Saisie texte => entier ("" => 0, fallback si invalide). */
+export function toInt(v: string, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.floor(n) : fallback;
+}
+
+export function clean(s: string | null | undefined) {
+  return (s ?? "").trim();
+}
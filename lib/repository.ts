@@ -0,0 +1,246 @@
+import { supabase } from "./supabaseClient";
+import type { TablesInsert, TablesUpdate } from "./database.types";
+
+/**
+ * Accès aux données typé (tables: tournaments, tournament_templates, tournament_members, teams, players, matches, match_events).
+ * Les chaînes `select` sont typées par le client: une colonne renommée casse la compilation.
+ * Chaque fonction renvoie la réponse Supabase telle quelle ({ data, error }).
+ */
+
+// --------- SELECTS ---------
+
+const MATCH_WITH_TEAMS = "*, home:teams!home_team_id(id,name,group_idx), away:teams!away_team_id(id,name,group_idx)";
+
+const EVENT_WITH_PEOPLE =
+  "*, player:player_id(first_name,last_name,jersey_number), team:team_id(name)";
+
+// --------- TOURNAMENTS ---------
+
+export function listTournaments() {
+  return supabase.from("tournaments").select("*").is("deleted_at", null).order("created_at", { ascending: false });
+}
+
+/** Corbeille du propriétaire: tournois supprimés depuis moins de TRASH_RETENTION_DAYS (les plus récents d'abord). */
+export function listTrashedTournaments(userId: string) {
+  return supabase
+    .from("tournaments")
+    .select("*")
+    .eq("user_id", userId)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+}
+
+export function getTournament(id: string) {
+  return supabase.from("tournaments").select("*").eq("id", id).single();
+}
+
+export function insertTournament(row: TablesInsert<"tournaments">) {
+  return supabase.from("tournaments").insert(row).select("id").single();
+}
+
+export function updateTournament(id: string, patch: TablesUpdate<"tournaments">) {
+  return supabase.from("tournaments").update(patch).eq("id", id);
+}
+
+/** Mise à la corbeille (restaurable 30 jours). */
+export function trashTournament(id: string) {
+  return supabase.rpc("trash_tournament", { p_tournament_id: id });
+}
+
+export function restoreTournament(id: string) {
+  return supabase.rpc("restore_tournament", { p_tournament_id: id });
+}
+
+/** Suppression définitive (événements, matchs, joueurs, équipes, tournoi) en une transaction. */
+export function deleteTournamentCascade(id: string) {
+  return supabase.rpc("delete_tournament_cascade", { p_tournament_id: id });
+}
+
+/** Supprime définitivement les tournois en corbeille depuis plus de 30 jours. */
+export function purgeTrashedTournaments() {
+  return supabase.rpc("purge_trashed_tournaments");
+}
+
+/** Copie des réglages (+ équipes, + joueurs) vers un nouveau tournoi; renvoie le nouvel id. */
+export function duplicateTournament(
+  id: string,
+  opts: { title: string; tournamentDate: string | null; withTeams: boolean; withPlayers: boolean }
+) {
+  return supabase.rpc("duplicate_tournament", {
+    p_tournament_id: id,
+    p_title: opts.title,
+    p_tournament_date: opts.tournamentDate,
+    p_with_teams: opts.withTeams,
+    p_with_players: opts.withTeams && opts.withPlayers,
+  });
+}
+
+/** Instantané public d'un tournoi publié (accessible sans connexion); data = null si non publié. */
+export function getPublicTournament(slug: string) {
+  return supabase.rpc("public_tournament", { p_slug: slug });
+}
+
+// --------- MEMBERS ---------
+
+/** Rôle de l'utilisateur connecté (owner / admin / scorer / viewer, null = aucun accès). */
+export function getMyRole(tournamentId: string) {
+  return supabase.rpc("tournament_role", { p_tournament_id: tournamentId });
+}
+
+/** Rattache au compte connecté les invitations reçues sur son email. */
+export function acceptInvitations() {
+  return supabase.rpc("accept_tournament_invitations");
+}
+
+export function listMembers(tournamentId: string) {
+  return supabase
+    .from("tournament_members")
+    .select("*")
+    .eq("tournament_id", tournamentId)
+    .order("created_at", { ascending: true });
+}
+
+export function insertMember(row: TablesInsert<"tournament_members">) {
+  return supabase.from("tournament_members").insert(row);
+}
+
+export function updateMember(id: string, patch: TablesUpdate<"tournament_members">) {
+  return supabase.from("tournament_members").update(patch).eq("id", id);
+}
+
+export function deleteMember(id: string) {
+  return supabase.from("tournament_members").delete().eq("id", id);
+}
+
+// --------- TEMPLATES ---------
+
+export function listTemplates() {
+  return supabase.from("tournament_templates").select("*").order("name", { ascending: true });
+}
+
+export function insertTemplate(row: TablesInsert<"tournament_templates">) {
+  return supabase.from("tournament_templates").insert(row);
+}
+
+export function deleteTemplate(id: string) {
+  return supabase.from("tournament_templates").delete().eq("id", id);
+}
+
+// --------- TEAMS ---------
+
+export function listTeams(tournamentId: string) {
+  return supabase.from("teams").select("*").eq("tournament_id", tournamentId).order("name", { ascending: true });
+}
+
+export function getTeam(id: string) {
+  return supabase.from("teams").select("*").eq("id", id).single();
+}
+
+export function insertTeam(row: TablesInsert<"teams">) {
+  return supabase.from("teams").insert(row);
+}
+
+export function updateTeam(id: string, patch: TablesUpdate<"teams">) {
+  return supabase.from("teams").update(patch).eq("id", id);
+}
+
+export function deleteTeam(id: string) {
+  return supabase.from("teams").delete().eq("id", id);
+}
+
+// --------- PLAYERS ---------
+
+export function listPlayers(tournamentId: string, teamId?: string) {
+  let q = supabase.from("players").select("*").eq("tournament_id", tournamentId);
+  if (teamId) q = q.eq("team_id", teamId);
+  return q.order("jersey_number", { ascending: true });
+}
+
+export function insertPlayers(rows: TablesInsert<"players">[]) {
+  return supabase.from("players").insert(rows);
+}
+
+/** Mise à jour des joueurs existants (lignes avec id). */
+export function upsertPlayers(rows: TablesInsert<"players">[]) {
+  return supabase.from("players").upsert(rows, { onConflict: "id" });
+}
+
+// --------- MATCHES ---------
+
+export function listMatches(tournamentId: string, opts: { status?: "played"; phase?: "group" | "knockout" } = {}) {
+  let q = supabase.from("matches").select(MATCH_WITH_TEAMS).eq("tournament_id", tournamentId);
+  if (opts.status) q = q.eq("status", opts.status);
+  if (opts.phase) q = q.eq("phase", opts.phase);
+  return q
+    .order("day_idx", { ascending: true })
+    .order("start_time", { ascending: true })
+    .order("field_idx", { ascending: true });
+}
+
+export function getMatch(id: string) {
+  return supabase.from("matches").select(MATCH_WITH_TEAMS).eq("id", id).single();
+}
+
+export function insertMatches(rows: TablesInsert<"matches">[]) {
+  return supabase.from("matches").insert(rows);
+}
+
+export function updateMatch(id: string, patch: TablesUpdate<"matches">) {
+  return supabase.from("matches").update(patch).eq("id", id);
+}
+
+/** Régénération du planning: les matchs verrouillés (schedule_locked) sont conservés. */
+export function deleteUnlockedMatches(tournamentId: string) {
+  return supabase.from("matches").delete().eq("tournament_id", tournamentId).eq("schedule_locked", false);
+}
+
+// Match validé => rouvert (admin, motif obligatoire); la contestation en cours est close
+export function reopenMatch(id: string, reason: string) {
+  return supabase.rpc("reopen_match", { p_match_id: id, p_reason: reason });
+}
+
+// Phase finale: équipes issues des poules ou des matchs précédents (ouvert aux scorers, sources vérifiées en base)
+export function setKnockoutTeams(id: string, homeTeamId: string | null, awayTeamId: string | null) {
+  return supabase.rpc("set_knockout_teams", { p_match_id: id, p_home_team_id: homeTeamId, p_away_team_id: awayTeamId });
+}
+
+// Sans teamId: équipe du capitaine connecté (email de la fiche équipe)
+export function flagMatchDispute(id: string, reason: string, teamId?: string) {
+  return supabase.rpc("flag_match_dispute", { p_match_id: id, p_reason: reason, p_team_id: teamId ?? null });
+}
+
+// --------- MATCH EVENTS ---------
+
+export function listMatchEvents(filter: { tournamentId?: string; matchId?: string; matchIds?: string[]; types?: string[] }) {
+  let q = supabase.from("match_events").select(EVENT_WITH_PEOPLE);
+  if (filter.tournamentId) q = q.eq("tournament_id", filter.tournamentId);
+  if (filter.matchId) q = q.eq("match_id", filter.matchId);
+  if (filter.matchIds) q = q.in("match_id", filter.matchIds);
+  if (filter.types) q = q.in("event_type", filter.types);
+  return q.order("created_at", { ascending: true });
+}
+
+export function insertMatchEvent(row: TablesInsert<"match_events">) {
+  return supabase.from("match_events").insert(row);
+}
+
+export function deleteMatchEvent(id: string) {
+  return supabase.from("match_events").delete().eq("id", id);
+}
+
+// --------- AUDIT ---------
+
+// Journal append-only (écrit par triggers), du plus récent au plus ancien
+export function listAuditLog(filter: { tournamentId: string; matchId?: string; tables?: string[]; limit?: number }) {
+  let q = supabase.from("audit_log").select("*").eq("tournament_id", filter.tournamentId);
+  if (filter.matchId) q = q.eq("match_id", filter.matchId);
+  if (filter.tables) q = q.in("table_name", filter.tables);
+  return q.order("created_at", { ascending: false }).limit(filter.limit ?? 200);
+}
+
+// --------- TYPES DES RÉSULTATS ---------
+
+type Rows<F extends (...args: never[]) => PromiseLike<{ data: unknown }>> = NonNullable<Awaited<ReturnType<F>>["data"]>;
+
+export type MatchWithTeams = Rows<typeof listMatches>[number];
+export type MatchEventWithPeople = Rows<typeof listMatchEvents>[number];
@@ -0,0 +1,18 @@
+-- Phase finale (élimination directe) après les poules
+
+alter table public.tournaments
+  add column if not exists knockout_enabled boolean not null default false,
+  add column if not exists knockout_qualifiers integer not null default 2;
+
+alter table public.matches
+  add column if not exists phase text not null default 'group',
+  add column if not exists ko_round integer,
+  add column if not exists ko_slot integer,
+  add column if not exists home_source text,
+  add column if not exists away_source text;
+
+-- Les matchs de phase finale sont créés avant de connaître les équipes
+alter table public.matches alter column home_team_id drop not null;
+alter table public.matches alter column away_team_id drop not null;
+
+create index if not exists matches_tournament_phase_idx on public.matches (tournament_id, phase);
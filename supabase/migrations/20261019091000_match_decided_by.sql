@@ -0,0 +1,13 @@
+-- Issue d'un match: temps réglementaire, prolongation ou tirs au but
+
+alter table public.matches
+  add column if not exists decided_by text not null default 'regular',
+  add column if not exists home_penalties integer,
+  add column if not exists away_penalties integer,
+  add column if not exists penalty_kicks jsonb not null default '[]'::jsonb;
+
+alter table public.matches
+  drop constraint if exists matches_decided_by_check;
+
+alter table public.matches
+  add constraint matches_decided_by_check check (decided_by in ('regular', 'extra_time', 'penalties'));
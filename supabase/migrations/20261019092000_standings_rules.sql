@@ -0,0 +1,7 @@
+-- Barème de points et critères de départage par tournoi
+
+alter table public.tournaments
+  add column if not exists points_win integer not null default 3,
+  add column if not exists points_draw integer not null default 1,
+  add column if not exists points_loss integer not null default 0,
+  add column if not exists tiebreakers text[] not null default array['goal_diff', 'goals_for']::text[];
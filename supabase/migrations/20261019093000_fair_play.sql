@@ -0,0 +1,8 @@
+-- Fair-play: barème des cartons par tournoi + cartons staff (sans joueur)
+
+alter table public.tournaments
+  add column if not exists fair_play_points jsonb not null
+    default '{"yellow": 1, "second_yellow": 3, "red": 4, "staff": 2}'::jsonb;
+
+-- staff_yellow / staff_red: carton à l'encadrement, player_id vide
+alter table public.match_events alter column player_id drop not null;
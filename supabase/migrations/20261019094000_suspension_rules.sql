@@ -0,0 +1,5 @@
+-- Suspensions: règles par tournoi (rouge = N matchs, cumul de jaunes = N matchs)
+
+alter table public.tournaments
+  add column if not exists suspension_rules jsonb not null
+    default '{"red_matches": 1, "yellow_threshold": 3, "yellow_matches": 1}'::jsonb;
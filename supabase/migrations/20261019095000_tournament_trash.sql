@@ -0,0 +1,84 @@
+-- Corbeille: suppression logique des tournois (30 jours), restauration, purge transactionnelle
+
+alter table public.tournaments
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists tournaments_deleted_at_idx
+  on public.tournaments (deleted_at)
+  where deleted_at is not null;
+
+-- Mise à la corbeille (RLS: seul le propriétaire voit / modifie sa ligne)
+create or replace function public.trash_tournament(p_tournament_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  update public.tournaments
+    set deleted_at = now()
+    where id = p_tournament_id and deleted_at is null;
+
+  if not found then
+    raise exception 'Tournoi introuvable ou déjà dans la corbeille';
+  end if;
+end;
+$$;
+
+-- Restauration (tant que le délai de 30 jours n'est pas écoulé)
+create or replace function public.restore_tournament(p_tournament_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  update public.tournaments
+    set deleted_at = null
+    where id = p_tournament_id
+      and deleted_at is not null
+      and deleted_at > now() - interval '30 days';
+
+  if not found then
+    raise exception 'Tournoi introuvable ou délai de restauration dépassé';
+  end if;
+end;
+$$;
+
+-- Suppression définitive d'un tournoi et de ses données: une seule transaction (tout ou rien)
+create or replace function public.delete_tournament_cascade(p_tournament_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  delete from public.match_events where tournament_id = p_tournament_id;
+  delete from public.matches where tournament_id = p_tournament_id;
+  delete from public.players where tournament_id = p_tournament_id;
+  delete from public.teams where tournament_id = p_tournament_id;
+  delete from public.tournaments where id = p_tournament_id;
+
+  if not found then
+    raise exception 'Tournoi introuvable';
+  end if;
+end;
+$$;
+
+-- Purge des tournois restés plus de 30 jours dans la corbeille (renvoie le nombre supprimé)
+create or replace function public.purge_trashed_tournaments()
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  r record;
+  n integer := 0;
+begin
+  for r in
+    select id from public.tournaments
+    where deleted_at is not null and deleted_at <= now() - interval '30 days'
+  loop
+    perform public.delete_tournament_cascade(r.id);
+    n := n + 1;
+  end loop;
+  return n;
+end;
+$$;
@@ -0,0 +1,84 @@
+-- Modèles de tournoi (réglages réutilisables) + duplication d'un tournoi existant
+
+create table if not exists public.tournament_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  name text not null,
+  settings jsonb not null default '{}'::jsonb
+);
+
+alter table public.tournament_templates enable row level security;
+
+drop policy if exists tournament_templates_owner on public.tournament_templates;
+create policy tournament_templates_owner on public.tournament_templates
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Copie des réglages (+ équipes, + joueurs) vers un nouveau tournoi, en une transaction
+create or replace function public.duplicate_tournament(
+  p_tournament_id uuid,
+  p_title text,
+  p_tournament_date date,
+  p_with_teams boolean default false,
+  p_with_players boolean default false
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_new_id uuid;
+  v_team_id uuid;
+  r record;
+begin
+  insert into public.tournaments (
+    user_id, title, tournament_date,
+    start_time, end_time, match_duration_min, rotation_duration_min,
+    min_teams, max_teams, min_players_per_team, max_players_per_team,
+    num_fields, field_names, pauses, field_pauses,
+    format, group_count, group_names, knockout_enabled, knockout_qualifiers,
+    points_win, points_draw, points_loss, tiebreakers, fair_play_points, suspension_rules
+  )
+  select
+    auth.uid(), p_title, p_tournament_date,
+    start_time, end_time, match_duration_min, rotation_duration_min,
+    min_teams, max_teams, min_players_per_team, max_players_per_team,
+    num_fields, field_names, pauses, field_pauses,
+    format, group_count, group_names, knockout_enabled, knockout_qualifiers,
+    points_win, points_draw, points_loss, tiebreakers, fair_play_points, suspension_rules
+  from public.tournaments
+  where id = p_tournament_id and deleted_at is null
+  returning id into v_new_id;
+
+  if v_new_id is null then
+    raise exception 'Tournoi introuvable';
+  end if;
+
+  if p_with_teams then
+    for r in
+      select * from public.teams where tournament_id = p_tournament_id order by created_at
+    loop
+      insert into public.teams (
+        tournament_id, name, email, colors, logo_svg, jersey_style, jersey_svg, staff, group_idx, group_manual
+      )
+      values (
+        v_new_id, r.name, r.email, r.colors, r.logo_svg, r.jersey_style, r.jersey_svg, r.staff, r.group_idx, r.group_manual
+      )
+      returning id into v_team_id;
+
+      if p_with_players then
+        insert into public.players (
+          tournament_id, team_id, first_name, last_name, jersey_number, license_number, birth_date
+        )
+        select v_new_id, v_team_id, first_name, last_name, jersey_number, license_number, birth_date
+        from public.players
+        where team_id = r.id;
+      end if;
+    end loop;
+  end if;
+
+  return v_new_id;
+end;
+$$;
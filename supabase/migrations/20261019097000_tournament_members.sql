@@ -0,0 +1,235 @@
+-- Organisateurs multiples: invitations par email avec rôle (owner, admin, scorer, viewer)
+--   owner  = tournaments.user_id (créateur, pas de ligne ici)
+--   admin  = tout sauf corbeille / suppression
+--   scorer = saisie des événements et validation des scores uniquement
+--   viewer = lecture seule
+
+create table if not exists public.tournament_members (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references public.tournaments (id) on delete cascade,
+  email text not null,
+  user_id uuid references auth.users (id) on delete cascade,
+  role text not null default 'viewer',
+  invited_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  accepted_at timestamptz,
+  constraint tournament_members_role_check check (role in ('admin', 'scorer', 'viewer')),
+  constraint tournament_members_email_key unique (tournament_id, email)
+);
+
+create index if not exists tournament_members_user_idx on public.tournament_members (user_id);
+
+-- Rôle de l'utilisateur courant sur un tournoi (null = aucun accès)
+create or replace function public.tournament_role(p_tournament_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select 'owner' from public.tournaments t where t.id = p_tournament_id and t.user_id = auth.uid()),
+    (
+      select m.role from public.tournament_members m
+      where m.tournament_id = p_tournament_id
+        and (m.user_id = auth.uid() or lower(m.email) = lower(auth.jwt() ->> 'email'))
+      limit 1
+    )
+  );
+$$;
+
+-- Rattache les invitations en attente (même email) au compte connecté
+create or replace function public.accept_tournament_invitations()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  update public.tournament_members
+    set user_id = auth.uid(), accepted_at = now()
+    where user_id is null and lower(email) = lower(auth.jwt() ->> 'email');
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+-- --------- RLS (politiques ajoutées aux politiques propriétaire existantes) ---------
+
+alter table public.tournament_members enable row level security;
+
+drop policy if exists tournament_members_read on public.tournament_members;
+create policy tournament_members_read on public.tournament_members
+  for select using (public.tournament_role(tournament_id) is not null);
+
+drop policy if exists tournament_members_manage on public.tournament_members;
+create policy tournament_members_manage on public.tournament_members
+  for all
+  using (public.tournament_role(tournament_id) in ('owner', 'admin'))
+  with check (public.tournament_role(tournament_id) in ('owner', 'admin'));
+
+drop policy if exists tournaments_members_read on public.tournaments;
+create policy tournaments_members_read on public.tournaments
+  for select using (public.tournament_role(id) is not null);
+
+drop policy if exists tournaments_admin_update on public.tournaments;
+create policy tournaments_admin_update on public.tournaments
+  for update using (public.tournament_role(id) in ('owner', 'admin'));
+
+drop policy if exists teams_members_read on public.teams;
+create policy teams_members_read on public.teams
+  for select using (public.tournament_role(tournament_id) is not null);
+
+drop policy if exists teams_admin_write on public.teams;
+create policy teams_admin_write on public.teams
+  for all
+  using (public.tournament_role(tournament_id) in ('owner', 'admin'))
+  with check (public.tournament_role(tournament_id) in ('owner', 'admin'));
+
+drop policy if exists players_members_read on public.players;
+create policy players_members_read on public.players
+  for select using (public.tournament_role(tournament_id) is not null);
+
+drop policy if exists players_admin_write on public.players;
+create policy players_admin_write on public.players
+  for all
+  using (public.tournament_role(tournament_id) in ('owner', 'admin'))
+  with check (public.tournament_role(tournament_id) in ('owner', 'admin'));
+
+drop policy if exists matches_members_read on public.matches;
+create policy matches_members_read on public.matches
+  for select using (public.tournament_role(tournament_id) is not null);
+
+drop policy if exists matches_admin_write on public.matches;
+create policy matches_admin_write on public.matches
+  for all
+  using (public.tournament_role(tournament_id) in ('owner', 'admin'))
+  with check (public.tournament_role(tournament_id) in ('owner', 'admin'));
+
+drop policy if exists matches_scorer_update on public.matches;
+create policy matches_scorer_update on public.matches
+  for update using (public.tournament_role(tournament_id) = 'scorer');
+
+drop policy if exists match_events_members_read on public.match_events;
+create policy match_events_members_read on public.match_events
+  for select using (public.tournament_role(tournament_id) is not null);
+
+drop policy if exists match_events_scorer_write on public.match_events;
+create policy match_events_scorer_write on public.match_events
+  for all
+  using (public.tournament_role(tournament_id) in ('owner', 'admin', 'scorer'))
+  with check (public.tournament_role(tournament_id) in ('owner', 'admin', 'scorer'));
+
+-- Un scorer valide les scores mais ne touche pas au planning (horaires, terrains, tableau final)
+create or replace function public.matches_scorer_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.tournament_role(new.tournament_id) = 'scorer' and (
+    new.start_time is distinct from old.start_time
+    or new.field_idx is distinct from old.field_idx
+    or new.phase is distinct from old.phase
+    or new.ko_round is distinct from old.ko_round
+    or new.ko_slot is distinct from old.ko_slot
+    or new.home_source is distinct from old.home_source
+    or new.away_source is distinct from old.away_source
+  ) then
+    raise exception 'Rôle scorer: modification du planning interdite';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists matches_scorer_guard on public.matches;
+create trigger matches_scorer_guard
+  before update on public.matches
+  for each row execute function public.matches_scorer_guard();
+
+-- Corbeille / suppression: propriétaire uniquement
+create or replace function public.trash_tournament(p_tournament_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if public.tournament_role(p_tournament_id) is distinct from 'owner' then
+    raise exception 'Seul le propriétaire peut supprimer ce tournoi';
+  end if;
+
+  update public.tournaments
+    set deleted_at = now()
+    where id = p_tournament_id and deleted_at is null;
+
+  if not found then
+    raise exception 'Tournoi introuvable ou déjà dans la corbeille';
+  end if;
+end;
+$$;
+
+create or replace function public.restore_tournament(p_tournament_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if public.tournament_role(p_tournament_id) is distinct from 'owner' then
+    raise exception 'Seul le propriétaire peut restaurer ce tournoi';
+  end if;
+
+  update public.tournaments
+    set deleted_at = null
+    where id = p_tournament_id
+      and deleted_at is not null
+      and deleted_at > now() - interval '30 days';
+
+  if not found then
+    raise exception 'Tournoi introuvable ou délai de restauration dépassé';
+  end if;
+end;
+$$;
+
+create or replace function public.delete_tournament_cascade(p_tournament_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if public.tournament_role(p_tournament_id) is distinct from 'owner' then
+    raise exception 'Seul le propriétaire peut supprimer ce tournoi';
+  end if;
+
+  delete from public.match_events where tournament_id = p_tournament_id;
+  delete from public.matches where tournament_id = p_tournament_id;
+  delete from public.players where tournament_id = p_tournament_id;
+  delete from public.teams where tournament_id = p_tournament_id;
+  delete from public.tournaments where id = p_tournament_id;
+
+  if not found then
+    raise exception 'Tournoi introuvable';
+  end if;
+end;
+$$;
+
+-- Purge: uniquement les tournois dont l'utilisateur est propriétaire (les autres lui sont seulement visibles)
+create or replace function public.purge_trashed_tournaments()
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  r record;
+  n integer := 0;
+begin
+  for r in
+    select id from public.tournaments
+    where user_id = auth.uid() and deleted_at is not null and deleted_at <= now() - interval '30 days'
+  loop
+    perform public.delete_tournament_cascade(r.id);
+    n := n + 1;
+  end loop;
+  return n;
+end;
+$$;
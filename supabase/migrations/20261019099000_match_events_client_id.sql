@@ -0,0 +1,7 @@
+-- Saisie arbitre hors ligne: identifiant généré sur le téléphone pour rendre l'envoi idempotent
+-- (un événement renvoyé après une coupure réseau ne crée pas de doublon: violation d'unicité = déjà synchronisé)
+
+alter table public.match_events
+  add column if not exists client_id uuid;
+
+create unique index if not exists match_events_client_id_key on public.match_events (client_id);
@@ -0,0 +1,15 @@
+-- Chrono de match: états réels + horodatages du coup d'envoi
+--   scheduled -> in_progress -> half_time -> in_progress (2e période) -> finished -> played (validé)
+-- La minute de chaque événement est déjà stockée dans match_events.minute.
+
+alter table public.matches
+  add column if not exists kickoff_at timestamptz,
+  add column if not exists half_time_at timestamptz,
+  add column if not exists second_half_at timestamptz,
+  add column if not exists finished_at timestamptz;
+
+alter table public.matches
+  drop constraint if exists matches_status_check;
+alter table public.matches
+  add constraint matches_status_check
+  check (status is null or status in ('scheduled', 'in_progress', 'half_time', 'finished', 'played'));
@@ -0,0 +1,161 @@
+-- Score calculé depuis les buts (score_mode = 'events') ou saisi à la main (score_mode = 'manual', défaut)
+-- Nouveau type d'événement: own_goal (joueur de l'équipe team_id, but compté pour l'adversaire)
+
+alter table public.tournaments
+  add column if not exists score_mode text not null default 'manual';
+
+alter table public.tournaments
+  drop constraint if exists tournaments_score_mode_check;
+alter table public.tournaments
+  add constraint tournaments_score_mode_check check (score_mode in ('manual', 'events'));
+
+-- Recalcule le score d'un match depuis ses événements goal / own_goal
+create or replace function public.recompute_match_score(p_match_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.matches m
+    set home_score = coalesce((
+          select count(*) from public.match_events e
+          where e.match_id = m.id
+            and ((e.event_type = 'goal' and e.team_id = m.home_team_id)
+              or (e.event_type = 'own_goal' and e.team_id = m.away_team_id))
+        ), 0),
+        away_score = coalesce((
+          select count(*) from public.match_events e
+          where e.match_id = m.id
+            and ((e.event_type = 'goal' and e.team_id = m.away_team_id)
+              or (e.event_type = 'own_goal' and e.team_id = m.home_team_id))
+        ), 0)
+    where m.id = p_match_id;
+$$;
+
+-- Chaque but ajouté / supprimé met le score à jour (tournois en mode 'events' uniquement)
+create or replace function public.match_events_score_sync()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  for r in
+    select distinct x.match_id, x.tournament_id, x.event_type
+    from (
+      select new.match_id, new.tournament_id, new.event_type where tg_op in ('INSERT', 'UPDATE')
+      union all
+      select old.match_id, old.tournament_id, old.event_type where tg_op in ('DELETE', 'UPDATE')
+    ) x
+  loop
+    if r.event_type in ('goal', 'own_goal')
+      and exists (select 1 from public.tournaments t where t.id = r.tournament_id and t.score_mode = 'events') then
+      perform public.recompute_match_score(r.match_id);
+    end if;
+  end loop;
+  return null;
+end;
+$$;
+
+drop trigger if exists match_events_score_sync on public.match_events;
+create trigger match_events_score_sync
+  after insert or update or delete on public.match_events
+  for each row execute function public.match_events_score_sync();
+
+-- Passage en mode 'events': les matchs commencés / avec des buts prennent le score des événements
+create or replace function public.tournaments_score_mode_sync()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  if new.score_mode = 'events' and old.score_mode is distinct from 'events' then
+    for r in
+      select m.id from public.matches m
+      where m.tournament_id = new.id
+        and (m.status in ('in_progress', 'half_time', 'finished', 'played')
+          or exists (select 1 from public.match_events e where e.match_id = m.id and e.event_type in ('goal', 'own_goal')))
+    loop
+      perform public.recompute_match_score(r.id);
+    end loop;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists tournaments_score_mode_sync on public.tournaments;
+create trigger tournaments_score_mode_sync
+  after update of score_mode on public.tournaments
+  for each row execute function public.tournaments_score_mode_sync();
+
+-- Duplication: copie aussi le mode de score
+create or replace function public.duplicate_tournament(
+  p_tournament_id uuid,
+  p_title text,
+  p_tournament_date date,
+  p_with_teams boolean default false,
+  p_with_players boolean default false
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_new_id uuid;
+  v_team_id uuid;
+  r record;
+begin
+  insert into public.tournaments (
+    user_id, title, tournament_date,
+    start_time, end_time, match_duration_min, rotation_duration_min,
+    min_teams, max_teams, min_players_per_team, max_players_per_team,
+    num_fields, field_names, pauses, field_pauses,
+    format, group_count, group_names, knockout_enabled, knockout_qualifiers,
+    points_win, points_draw, points_loss, tiebreakers, fair_play_points, suspension_rules, score_mode
+  )
+  select
+    auth.uid(), p_title, p_tournament_date,
+    start_time, end_time, match_duration_min, rotation_duration_min,
+    min_teams, max_teams, min_players_per_team, max_players_per_team,
+    num_fields, field_names, pauses, field_pauses,
+    format, group_count, group_names, knockout_enabled, knockout_qualifiers,
+    points_win, points_draw, points_loss, tiebreakers, fair_play_points, suspension_rules, score_mode
+  from public.tournaments
+  where id = p_tournament_id and deleted_at is null
+  returning id into v_new_id;
+
+  if v_new_id is null then
+    raise exception 'Tournoi introuvable';
+  end if;
+
+  if p_with_teams then
+    for r in
+      select * from public.teams where tournament_id = p_tournament_id order by created_at
+    loop
+      insert into public.teams (
+        tournament_id, name, email, colors, logo_svg, jersey_style, jersey_svg, staff, group_idx, group_manual
+      )
+      values (
+        v_new_id, r.name, r.email, r.colors, r.logo_svg, r.jersey_style, r.jersey_svg, r.staff, r.group_idx, r.group_manual
+      )
+      returning id into v_team_id;
+
+      if p_with_players then
+        insert into public.players (
+          tournament_id, team_id, first_name, last_name, jersey_number, license_number, birth_date
+        )
+        select v_new_id, v_team_id, first_name, last_name, jersey_number, license_number, birth_date
+        from public.players
+        where team_id = r.id;
+      end if;
+    end loop;
+  end if;
+
+  return v_new_id;
+end;
+$$;
@@ -0,0 +1,76 @@
+-- Nouveaux types d'événements: penalty_goal, penalty_missed, save, blue_card (exclusion temporaire)
+-- penalty_goal compte comme un but dans le score calculé (score_mode = 'events')
+
+create or replace function public.recompute_match_score(p_match_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.matches m
+    set home_score = coalesce((
+          select count(*) from public.match_events e
+          where e.match_id = m.id
+            and ((e.event_type in ('goal', 'penalty_goal') and e.team_id = m.home_team_id)
+              or (e.event_type = 'own_goal' and e.team_id = m.away_team_id))
+        ), 0),
+        away_score = coalesce((
+          select count(*) from public.match_events e
+          where e.match_id = m.id
+            and ((e.event_type in ('goal', 'penalty_goal') and e.team_id = m.away_team_id)
+              or (e.event_type = 'own_goal' and e.team_id = m.home_team_id))
+        ), 0)
+    where m.id = p_match_id;
+$$;
+
+create or replace function public.match_events_score_sync()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  for r in
+    select distinct x.match_id, x.tournament_id, x.event_type
+    from (
+      select new.match_id, new.tournament_id, new.event_type where tg_op in ('INSERT', 'UPDATE')
+      union all
+      select old.match_id, old.tournament_id, old.event_type where tg_op in ('DELETE', 'UPDATE')
+    ) x
+  loop
+    if r.event_type in ('goal', 'penalty_goal', 'own_goal')
+      and exists (select 1 from public.tournaments t where t.id = r.tournament_id and t.score_mode = 'events') then
+      perform public.recompute_match_score(r.match_id);
+    end if;
+  end loop;
+  return null;
+end;
+$$;
+
+create or replace function public.tournaments_score_mode_sync()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  if new.score_mode = 'events' and old.score_mode is distinct from 'events' then
+    for r in
+      select m.id from public.matches m
+      where m.tournament_id = new.id
+        and (m.status in ('in_progress', 'half_time', 'finished', 'played')
+          or exists (
+            select 1 from public.match_events e
+            where e.match_id = m.id and e.event_type in ('goal', 'penalty_goal', 'own_goal')
+          ))
+    loop
+      perform public.recompute_match_score(r.id);
+    end loop;
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,87 @@
+-- Journal des modifications (append-only): qui, quand, avant / après
+-- Alimenté uniquement par triggers sur matches, match_events, teams, players.
+-- Lecture: propriétaire + admins. Aucune écriture possible depuis l'application.
+
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references public.tournaments (id) on delete cascade,
+  table_name text not null,
+  row_id uuid not null,
+  match_id uuid,
+  action text not null,
+  actor_id uuid default auth.uid(),
+  actor_email text default (auth.jwt() ->> 'email'),
+  old_row jsonb,
+  new_row jsonb,
+  created_at timestamptz not null default now(),
+  constraint audit_log_action_check check (action in ('insert', 'update', 'delete'))
+);
+
+create index if not exists audit_log_tournament_idx on public.audit_log (tournament_id, created_at desc);
+create index if not exists audit_log_match_idx on public.audit_log (match_id, created_at desc);
+
+alter table public.audit_log enable row level security;
+
+drop policy if exists audit_log_admin_read on public.audit_log;
+create policy audit_log_admin_read on public.audit_log
+  for select using (public.tournament_role(tournament_id) in ('owner', 'admin'));
+
+revoke insert, update, delete on public.audit_log from anon, authenticated;
+
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  v_new jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  v_row jsonb := coalesce(v_new, v_old);
+begin
+  -- mise à jour sans changement réel: rien à tracer
+  if tg_op = 'UPDATE' and v_old = v_new then
+    return null;
+  end if;
+
+  -- suppression du tournoi en cours (corbeille purgée): le journal part avec lui
+  if not exists (select 1 from public.tournaments t where t.id = (v_row ->> 'tournament_id')::uuid) then
+    return null;
+  end if;
+
+  insert into public.audit_log (tournament_id, table_name, row_id, match_id, action, old_row, new_row)
+  values (
+    (v_row ->> 'tournament_id')::uuid,
+    tg_table_name,
+    (v_row ->> 'id')::uuid,
+    case tg_table_name
+      when 'matches' then (v_row ->> 'id')::uuid
+      when 'match_events' then (v_row ->> 'match_id')::uuid
+    end,
+    lower(tg_op),
+    v_old,
+    v_new
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists audit_matches on public.matches;
+create trigger audit_matches
+  after insert or update or delete on public.matches
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_match_events on public.match_events;
+create trigger audit_match_events
+  after insert or update or delete on public.match_events
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_teams on public.teams;
+create trigger audit_teams
+  after insert or update or delete on public.teams
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_players on public.players;
+create trigger audit_players
+  after insert or update or delete on public.players
+  for each row execute function public.audit_row_change();
@@ -0,0 +1,324 @@
+-- Verrou des matchs validés + contestations
+--   * match validé (status = 'played'): score, issue, tirs au but, équipes et événements non modifiables
+--   * réouverture: admin / propriétaire uniquement, avec un motif (reopen_match)
+--   * contestation: le capitaine (email de l'équipe) ou un admin signale un résultat validé,
+--     le match reste mis en évidence jusqu'à la clôture par un admin
+
+alter table public.matches
+  add column if not exists reopen_reason text,
+  add column if not exists disputed_at timestamptz,
+  add column if not exists dispute_team_id uuid references public.teams (id) on delete set null,
+  add column if not exists dispute_reason text,
+  add column if not exists disputed_by_email text,
+  add column if not exists dispute_resolved_at timestamptz,
+  add column if not exists dispute_resolution text;
+
+-- --------- VERROU ---------
+
+create or replace function public.matches_lock_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.status is distinct from 'played' then
+    return new;
+  end if;
+
+  if new.status is distinct from 'played' and coalesce(current_setting('doppietta.reopen', true), '') <> 'on' then
+    raise exception 'Match validé: seul un admin peut le rouvrir, avec un motif';
+  end if;
+
+  if new.status = 'played' and (
+    new.home_score is distinct from old.home_score
+    or new.away_score is distinct from old.away_score
+    or new.decided_by is distinct from old.decided_by
+    or new.home_penalties is distinct from old.home_penalties
+    or new.away_penalties is distinct from old.away_penalties
+    or new.penalty_kicks is distinct from old.penalty_kicks
+    or new.home_team_id is distinct from old.home_team_id
+    or new.away_team_id is distinct from old.away_team_id
+  ) then
+    raise exception 'Match validé: rouvre le match pour modifier le résultat';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists matches_lock_guard on public.matches;
+create trigger matches_lock_guard
+  before update on public.matches
+  for each row execute function public.matches_lock_guard();
+
+create or replace function public.match_events_lock_guard()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_match_id uuid := case when tg_op = 'DELETE' then old.match_id else new.match_id end;
+begin
+  if coalesce(current_setting('doppietta.purge', true), '') <> 'on'
+    and exists (select 1 from public.matches m where m.id = v_match_id and m.status = 'played') then
+    raise exception 'Match validé: rouvre le match pour modifier les événements';
+  end if;
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+drop trigger if exists match_events_lock_guard on public.match_events;
+create trigger match_events_lock_guard
+  before insert or update or delete on public.match_events
+  for each row execute function public.match_events_lock_guard();
+
+-- Un scorer ne rouvre pas et ne clôt pas les contestations
+create or replace function public.matches_dispute_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.tournament_role(new.tournament_id) = 'scorer' and (
+    new.reopen_reason is distinct from old.reopen_reason
+    or new.disputed_at is distinct from old.disputed_at
+    or new.dispute_team_id is distinct from old.dispute_team_id
+    or new.dispute_reason is distinct from old.dispute_reason
+    or new.dispute_resolved_at is distinct from old.dispute_resolved_at
+    or new.dispute_resolution is distinct from old.dispute_resolution
+  ) then
+    raise exception 'Rôle scorer: réouverture et contestations réservées aux admins';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists matches_dispute_guard on public.matches;
+create trigger matches_dispute_guard
+  before update on public.matches
+  for each row execute function public.matches_dispute_guard();
+
+-- Réouverture d'un match validé (la contestation en cours est close avec le même motif)
+create or replace function public.reopen_match(p_match_id uuid, p_reason text)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_tournament_id uuid;
+begin
+  select tournament_id into v_tournament_id from public.matches where id = p_match_id and status = 'played';
+  if v_tournament_id is null then
+    raise exception 'Match introuvable ou non validé';
+  end if;
+  if public.tournament_role(v_tournament_id) not in ('owner', 'admin') then
+    raise exception 'Réouverture réservée aux admins';
+  end if;
+  if coalesce(btrim(p_reason), '') = '' then
+    raise exception 'Motif de réouverture obligatoire';
+  end if;
+
+  perform set_config('doppietta.reopen', 'on', true);
+
+  update public.matches
+    set status = case when kickoff_at is not null then 'finished' else 'scheduled' end,
+        reopen_reason = btrim(p_reason),
+        dispute_resolved_at = case when disputed_at is not null and dispute_resolved_at is null then now() else dispute_resolved_at end,
+        dispute_resolution = case
+          when disputed_at is not null and dispute_resolved_at is null then 'Match rouvert: ' || btrim(p_reason)
+          else dispute_resolution
+        end
+    where id = p_match_id;
+
+  perform set_config('doppietta.reopen', 'off', true);
+end;
+$$;
+
+-- --------- CONTESTATIONS ---------
+
+-- Capitaine = compte dont l'email est celui de la fiche équipe. Sans p_team_id: équipe déduite de l'email.
+create or replace function public.flag_match_dispute(p_match_id uuid, p_reason text, p_team_id uuid default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m record;
+  v_email text := lower(coalesce(auth.jwt() ->> 'email', ''));
+  v_team_id uuid := p_team_id;
+  v_admin boolean;
+begin
+  select * into m from public.matches where id = p_match_id;
+  if m.id is null then
+    raise exception 'Match introuvable';
+  end if;
+  if m.status is distinct from 'played' then
+    raise exception 'Seul un résultat validé peut être contesté';
+  end if;
+  if m.disputed_at is not null and m.dispute_resolved_at is null then
+    raise exception 'Ce résultat est déjà contesté';
+  end if;
+  if coalesce(btrim(p_reason), '') = '' then
+    raise exception 'Motif de contestation obligatoire';
+  end if;
+
+  v_admin := public.tournament_role(m.tournament_id) in ('owner', 'admin');
+
+  if v_team_id is null then
+    select t.id into v_team_id from public.teams t
+    where t.id in (m.home_team_id, m.away_team_id) and v_email <> '' and lower(t.email) = v_email
+    limit 1;
+  end if;
+
+  if v_team_id is null or v_team_id not in (m.home_team_id, m.away_team_id) then
+    raise exception 'Contestation réservée aux capitaines des deux équipes';
+  end if;
+
+  if not v_admin and not exists (
+    select 1 from public.teams t where t.id = v_team_id and v_email <> '' and lower(t.email) = v_email
+  ) then
+    raise exception 'Contestation réservée aux capitaines des deux équipes';
+  end if;
+
+  update public.matches
+    set disputed_at = now(),
+        dispute_team_id = v_team_id,
+        dispute_reason = btrim(p_reason),
+        disputed_by_email = nullif(v_email, ''),
+        dispute_resolved_at = null,
+        dispute_resolution = null
+    where id = p_match_id;
+end;
+$$;
+
+grant execute on function public.flag_match_dispute(uuid, text, uuid) to authenticated;
+
+-- --------- SUPPRESSION / MODE DE SCORE: compatibles avec le verrou ---------
+
+create or replace function public.delete_tournament_cascade(p_tournament_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if public.tournament_role(p_tournament_id) is distinct from 'owner' then
+    raise exception 'Seul le propriétaire peut supprimer ce tournoi';
+  end if;
+
+  -- le verrou des matchs validés ne bloque pas la suppression (jusqu'à la fin de la transaction)
+  perform set_config('doppietta.purge', 'on', true);
+
+  delete from public.match_events where tournament_id = p_tournament_id;
+  delete from public.matches where tournament_id = p_tournament_id;
+  delete from public.players where tournament_id = p_tournament_id;
+  delete from public.teams where tournament_id = p_tournament_id;
+  delete from public.tournaments where id = p_tournament_id;
+
+  if not found then
+    raise exception 'Tournoi introuvable';
+  end if;
+end;
+$$;
+
+-- Passage en mode 'events': les matchs validés gardent leur score (verrouillés)
+create or replace function public.tournaments_score_mode_sync()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  if new.score_mode = 'events' and old.score_mode is distinct from 'events' then
+    for r in
+      select m.id from public.matches m
+      where m.tournament_id = new.id
+        and m.status is distinct from 'played'
+        and (m.status in ('in_progress', 'half_time', 'finished')
+          or exists (
+            select 1 from public.match_events e
+            where e.match_id = m.id and e.event_type in ('goal', 'penalty_goal', 'own_goal')
+          ))
+    loop
+      perform public.recompute_match_score(r.id);
+    end loop;
+  end if;
+  return new;
+end;
+$$;
+
+-- Page publique: signale les résultats contestés
+create or replace function public.public_tournament(p_slug text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'tournament', jsonb_build_object(
+      'id', t.id,
+      'title', t.title,
+      'tournament_date', t.tournament_date,
+      'start_time', t.start_time,
+      'end_time', t.end_time,
+      'match_duration_min', t.match_duration_min,
+      'rotation_duration_min', t.rotation_duration_min,
+      'num_fields', t.num_fields,
+      'field_names', t.field_names,
+      'format', t.format,
+      'group_count', t.group_count,
+      'group_names', t.group_names,
+      'knockout_enabled', t.knockout_enabled,
+      'knockout_qualifiers', t.knockout_qualifiers,
+      'points_win', t.points_win,
+      'points_draw', t.points_draw,
+      'points_loss', t.points_loss,
+      'tiebreakers', t.tiebreakers,
+      'fair_play_points', t.fair_play_points
+    ),
+    'teams', coalesce((
+      select jsonb_agg(jsonb_build_object('id', x.id, 'name', x.name, 'colors', x.colors, 'group_idx', x.group_idx) order by x.name)
+      from public.teams x
+      where x.tournament_id = t.id
+    ), '[]'::jsonb),
+    'matches', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'start_time', m.start_time,
+        'field_idx', m.field_idx,
+        'status', m.status,
+        'phase', m.phase,
+        'ko_round', m.ko_round,
+        'ko_slot', m.ko_slot,
+        'home_team_id', m.home_team_id,
+        'away_team_id', m.away_team_id,
+        'home_source', m.home_source,
+        'away_source', m.away_source,
+        'home_score', m.home_score,
+        'away_score', m.away_score,
+        'decided_by', m.decided_by,
+        'home_penalties', m.home_penalties,
+        'away_penalties', m.away_penalties,
+        'disputed', m.disputed_at is not null and m.dispute_resolved_at is null
+      ) order by m.start_time, m.field_idx)
+      from public.matches m
+      where m.tournament_id = t.id
+    ), '[]'::jsonb),
+    'events', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'match_id', e.match_id,
+        'team_id', e.team_id,
+        'player_id', e.player_id,
+        'event_type', e.event_type,
+        'first_name', p.first_name,
+        'last_name', p.last_name,
+        'jersey_number', p.jersey_number
+      ))
+      from public.match_events e
+      left join public.players p on p.id = e.player_id
+      where e.tournament_id = t.id and e.event_type <> 'mvp'
+    ), '[]'::jsonb)
+  )
+  from public.tournaments t
+  where t.public_slug = lower(p_slug) and t.is_public and t.deleted_at is null;
+$$;
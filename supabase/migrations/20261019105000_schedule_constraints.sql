@@ -0,0 +1,93 @@
+-- Contraintes de planning
+-- Équipe: présence (arrivée / départ), terrains préférés, équipe qui partage des joueurs (jamais en même temps)
+-- Tournoi: repos minimum entre deux matchs d'une équipe (minutes), matchs consécutifs max (0 = pas de limite)
+
+alter table public.teams
+  add column if not exists available_from time,
+  add column if not exists available_until time,
+  add column if not exists preferred_fields integer[] not null default '{}',
+  add column if not exists shares_players_with uuid references public.teams (id) on delete set null;
+
+alter table public.teams
+  drop constraint if exists teams_availability_check;
+alter table public.teams
+  add constraint teams_availability_check
+  check (available_from is null or available_until is null or available_from < available_until);
+
+alter table public.tournaments
+  add column if not exists min_rest_min integer not null default 0,
+  add column if not exists max_consecutive integer not null default 0;
+
+alter table public.tournaments
+  drop constraint if exists tournaments_schedule_constraints_check;
+alter table public.tournaments
+  add constraint tournaments_schedule_constraints_check check (min_rest_min >= 0 and max_consecutive >= 0);
+
+-- Duplication: copie aussi les règles de planning (les contraintes d'équipe dépendent de la date: non copiées)
+create or replace function public.duplicate_tournament(
+  p_tournament_id uuid,
+  p_title text,
+  p_tournament_date date,
+  p_with_teams boolean default false,
+  p_with_players boolean default false
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_new_id uuid;
+  v_team_id uuid;
+  r record;
+begin
+  insert into public.tournaments (
+    user_id, title, tournament_date,
+    start_time, end_time, match_duration_min, rotation_duration_min,
+    min_teams, max_teams, min_players_per_team, max_players_per_team,
+    num_fields, field_names, pauses, field_pauses,
+    format, group_count, group_names, knockout_enabled, knockout_qualifiers,
+    points_win, points_draw, points_loss, tiebreakers, fair_play_points, suspension_rules, score_mode,
+    min_rest_min, max_consecutive
+  )
+  select
+    auth.uid(), p_title, p_tournament_date,
+    start_time, end_time, match_duration_min, rotation_duration_min,
+    min_teams, max_teams, min_players_per_team, max_players_per_team,
+    num_fields, field_names, pauses, field_pauses,
+    format, group_count, group_names, knockout_enabled, knockout_qualifiers,
+    points_win, points_draw, points_loss, tiebreakers, fair_play_points, suspension_rules, score_mode,
+    min_rest_min, max_consecutive
+  from public.tournaments
+  where id = p_tournament_id and deleted_at is null
+  returning id into v_new_id;
+
+  if v_new_id is null then
+    raise exception 'Tournoi introuvable';
+  end if;
+
+  if p_with_teams then
+    for r in
+      select * from public.teams where tournament_id = p_tournament_id order by created_at
+    loop
+      insert into public.teams (
+        tournament_id, name, email, colors, logo_svg, jersey_style, jersey_svg, staff, group_idx, group_manual
+      )
+      values (
+        v_new_id, r.name, r.email, r.colors, r.logo_svg, r.jersey_style, r.jersey_svg, r.staff, r.group_idx, r.group_manual
+      )
+      returning id into v_team_id;
+
+      if p_with_players then
+        insert into public.players (
+          tournament_id, team_id, first_name, last_name, jersey_number, license_number, birth_date
+        )
+        select v_new_id, v_team_id, first_name, last_name, jersey_number, license_number, birth_date
+        from public.players
+        where team_id = r.id;
+      end if;
+    end loop;
+  end if;
+
+  return v_new_id;
+end;
+$$;
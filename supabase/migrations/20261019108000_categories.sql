@@ -0,0 +1,182 @@
+-- Catégories (U9, U11, U13...) dans un tournoi
+-- tournaments.categories: [{ id, name, format, group_count, group_names, knockout_enabled, knockout_qualifiers,
+--                            match_duration_min, group_match_durations }, ...] (vide = réglages du tournoi)
+-- teams.category_id / matches.category_id: id de la catégorie (null = 1re catégorie)
+-- Terrains et créneaux restent ceux du tournoi: partagés par toutes les catégories.
+
+alter table public.tournaments
+  add column if not exists categories jsonb not null default '[]'::jsonb;
+
+alter table public.tournaments
+  drop constraint if exists tournaments_categories_check;
+alter table public.tournaments
+  add constraint tournaments_categories_check check (jsonb_typeof(categories) = 'array' and jsonb_array_length(categories) <= 12);
+
+alter table public.teams
+  add column if not exists category_id text;
+
+alter table public.matches
+  add column if not exists category_id text;
+
+create index if not exists teams_category_idx on public.teams (tournament_id, category_id);
+create index if not exists matches_category_idx on public.matches (tournament_id, category_id);
+
+-- Duplication: copie aussi les catégories et la catégorie des équipes
+create or replace function public.duplicate_tournament(
+  p_tournament_id uuid,
+  p_title text,
+  p_tournament_date date,
+  p_with_teams boolean default false,
+  p_with_players boolean default false
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_new_id uuid;
+  v_team_id uuid;
+  r record;
+begin
+  insert into public.tournaments (
+    user_id, title, tournament_date,
+    start_time, end_time, match_duration_min, rotation_duration_min,
+    min_teams, max_teams, min_players_per_team, max_players_per_team,
+    num_fields, field_names, pauses, field_pauses,
+    format, group_count, group_names, knockout_enabled, knockout_qualifiers,
+    points_win, points_draw, points_loss, tiebreakers, fair_play_points, suspension_rules, score_mode,
+    min_rest_min, max_consecutive, extra_days, field_settings, group_match_durations, categories
+  )
+  select
+    auth.uid(), p_title, p_tournament_date,
+    t.start_time, t.end_time, t.match_duration_min, t.rotation_duration_min,
+    t.min_teams, t.max_teams, t.min_players_per_team, t.max_players_per_team,
+    t.num_fields, t.field_names, t.pauses, t.field_pauses,
+    t.format, t.group_count, t.group_names, t.knockout_enabled, t.knockout_qualifiers,
+    t.points_win, t.points_draw, t.points_loss, t.tiebreakers, t.fair_play_points, t.suspension_rules, t.score_mode,
+    t.min_rest_min, t.max_consecutive,
+    coalesce((
+      select jsonb_agg(
+        case
+          when coalesce(d->>'date', '') <> '' and t.tournament_date is not null and p_tournament_date is not null
+            then jsonb_set(d, '{date}', to_jsonb(((d->>'date')::date + (p_tournament_date - t.tournament_date))::text))
+          else jsonb_set(d, '{date}', 'null'::jsonb)
+        end
+        order by ord
+      )
+      from jsonb_array_elements(t.extra_days) with ordinality as e(d, ord)
+    ), '[]'::jsonb),
+    t.field_settings, t.group_match_durations, t.categories
+  from public.tournaments t
+  where t.id = p_tournament_id and t.deleted_at is null
+  returning id into v_new_id;
+
+  if v_new_id is null then
+    raise exception 'Tournoi introuvable';
+  end if;
+
+  if p_with_teams then
+    for r in
+      select * from public.teams where tournament_id = p_tournament_id order by created_at
+    loop
+      insert into public.teams (
+        tournament_id, name, email, colors, logo_svg, jersey_style, jersey_svg, staff, group_idx, group_manual, category_id
+      )
+      values (
+        v_new_id, r.name, r.email, r.colors, r.logo_svg, r.jersey_style, r.jersey_svg, r.staff, r.group_idx, r.group_manual, r.category_id
+      )
+      returning id into v_team_id;
+
+      if p_with_players then
+        insert into public.players (
+          tournament_id, team_id, first_name, last_name, jersey_number, license_number, birth_date
+        )
+        select v_new_id, v_team_id, first_name, last_name, jersey_number, license_number, birth_date
+        from public.players
+        where team_id = r.id;
+      end if;
+    end loop;
+  end if;
+
+  return v_new_id;
+end;
+$$;
+
+-- Page publique: catégories du tournoi, des équipes et des matchs
+create or replace function public.public_tournament(p_slug text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'tournament', jsonb_build_object(
+      'id', t.id,
+      'title', t.title,
+      'tournament_date', t.tournament_date,
+      'start_time', t.start_time,
+      'end_time', t.end_time,
+      'match_duration_min', t.match_duration_min,
+      'rotation_duration_min', t.rotation_duration_min,
+      'num_fields', t.num_fields,
+      'field_names', t.field_names,
+      'format', t.format,
+      'group_count', t.group_count,
+      'group_names', t.group_names,
+      'knockout_enabled', t.knockout_enabled,
+      'knockout_qualifiers', t.knockout_qualifiers,
+      'points_win', t.points_win,
+      'points_draw', t.points_draw,
+      'points_loss', t.points_loss,
+      'tiebreakers', t.tiebreakers,
+      'fair_play_points', t.fair_play_points,
+      'categories', t.categories
+    ),
+    'teams', coalesce((
+      select jsonb_agg(jsonb_build_object('id', x.id, 'name', x.name, 'colors', x.colors, 'group_idx', x.group_idx, 'category_id', x.category_id) order by x.name)
+      from public.teams x
+      where x.tournament_id = t.id
+    ), '[]'::jsonb),
+    'matches', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'start_time', m.start_time,
+        'field_idx', m.field_idx,
+        'status', m.status,
+        'phase', m.phase,
+        'ko_round', m.ko_round,
+        'ko_slot', m.ko_slot,
+        'home_team_id', m.home_team_id,
+        'away_team_id', m.away_team_id,
+        'home_source', m.home_source,
+        'away_source', m.away_source,
+        'home_score', m.home_score,
+        'away_score', m.away_score,
+        'decided_by', m.decided_by,
+        'home_penalties', m.home_penalties,
+        'away_penalties', m.away_penalties,
+        'category_id', m.category_id,
+        'disputed', m.disputed_at is not null and m.dispute_resolved_at is null
+      ) order by m.start_time, m.field_idx)
+      from public.matches m
+      where m.tournament_id = t.id
+    ), '[]'::jsonb),
+    'events', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'match_id', e.match_id,
+        'team_id', e.team_id,
+        'player_id', e.player_id,
+        'event_type', e.event_type,
+        'first_name', p.first_name,
+        'last_name', p.last_name,
+        'jersey_number', p.jersey_number
+      ))
+      from public.match_events e
+      left join public.players p on p.id = e.player_id
+      where e.tournament_id = t.id and e.event_type <> 'mvp'
+    ), '[]'::jsonb)
+  )
+  from public.tournaments t
+  where t.public_slug = lower(p_slug) and t.is_public and t.deleted_at is null;
+$$;
@@ -0,0 +1,8 @@
+-- Matchs verrouillés dans le planning
+-- matches.schedule_locked: le match garde équipes, heure et terrain quand le planning est régénéré ou replanifié
+-- (à ne pas confondre avec le verrou des matchs validés, cf. matches_lock_guard)
+
+alter table public.matches
+  add column if not exists schedule_locked boolean not null default false;
+
+create index if not exists matches_schedule_locked_idx on public.matches (tournament_id) where schedule_locked;
@@ -0,0 +1,28 @@
+-- Colonnes réservées au propriétaire: un admin modifie les réglages du tournoi,
+-- mais ni son propriétaire (user_id) ni la corbeille (deleted_at, cf. trash_tournament / restore_tournament)
+
+drop policy if exists tournaments_admin_update on public.tournaments;
+create policy tournaments_admin_update on public.tournaments
+  for update
+  using (public.tournament_role(id) in ('owner', 'admin'))
+  with check (public.tournament_role(id) in ('owner', 'admin'));
+
+create or replace function public.tournaments_owner_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (
+    new.user_id is distinct from old.user_id
+    or new.deleted_at is distinct from old.deleted_at
+  ) and public.tournament_role(old.id) is distinct from 'owner' then
+    raise exception 'Seul le propriétaire peut transférer ou supprimer ce tournoi';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists tournaments_owner_guard on public.tournaments;
+create trigger tournaments_owner_guard
+  before update on public.tournaments
+  for each row execute function public.tournaments_owner_guard();
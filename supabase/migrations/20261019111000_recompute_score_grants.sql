@@ -0,0 +1,3 @@
+-- recompute_match_score (security definer) n'est appelée que par les triggers de score calculé
+-- (match_events_score_sync, tournaments_score_mode_sync): pas d'appel direct via l'API
+revoke execute on function public.recompute_match_score(uuid) from public, anon, authenticated;
@@ -0,0 +1,82 @@
+-- Page publique sur plusieurs jours: jours suivants du tournoi (extra_days) et jour de chaque match (day_idx),
+-- matchs triés par jour puis par heure
+
+create or replace function public.public_tournament(p_slug text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'tournament', jsonb_build_object(
+      'id', t.id,
+      'title', t.title,
+      'tournament_date', t.tournament_date,
+      'start_time', t.start_time,
+      'end_time', t.end_time,
+      'match_duration_min', t.match_duration_min,
+      'rotation_duration_min', t.rotation_duration_min,
+      'num_fields', t.num_fields,
+      'field_names', t.field_names,
+      'format', t.format,
+      'group_count', t.group_count,
+      'group_names', t.group_names,
+      'knockout_enabled', t.knockout_enabled,
+      'knockout_qualifiers', t.knockout_qualifiers,
+      'points_win', t.points_win,
+      'points_draw', t.points_draw,
+      'points_loss', t.points_loss,
+      'tiebreakers', t.tiebreakers,
+      'fair_play_points', t.fair_play_points,
+      'categories', t.categories,
+      'extra_days', t.extra_days
+    ),
+    'teams', coalesce((
+      select jsonb_agg(jsonb_build_object('id', x.id, 'name', x.name, 'colors', x.colors, 'group_idx', x.group_idx, 'category_id', x.category_id) order by x.name)
+      from public.teams x
+      where x.tournament_id = t.id
+    ), '[]'::jsonb),
+    'matches', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'day_idx', m.day_idx,
+        'start_time', m.start_time,
+        'field_idx', m.field_idx,
+        'status', m.status,
+        'phase', m.phase,
+        'ko_round', m.ko_round,
+        'ko_slot', m.ko_slot,
+        'home_team_id', m.home_team_id,
+        'away_team_id', m.away_team_id,
+        'home_source', m.home_source,
+        'away_source', m.away_source,
+        'home_score', m.home_score,
+        'away_score', m.away_score,
+        'decided_by', m.decided_by,
+        'home_penalties', m.home_penalties,
+        'away_penalties', m.away_penalties,
+        'category_id', m.category_id,
+        'disputed', m.disputed_at is not null and m.dispute_resolved_at is null
+      ) order by m.day_idx, m.start_time, m.field_idx)
+      from public.matches m
+      where m.tournament_id = t.id
+    ), '[]'::jsonb),
+    'events', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'match_id', e.match_id,
+        'team_id', e.team_id,
+        'player_id', e.player_id,
+        'event_type', e.event_type,
+        'first_name', p.first_name,
+        'last_name', p.last_name,
+        'jersey_number', p.jersey_number
+      ))
+      from public.match_events e
+      left join public.players p on p.id = e.player_id
+      where e.tournament_id = t.id and e.event_type <> 'mvp'
+    ), '[]'::jsonb)
+  )
+  from public.tournaments t
+  where t.public_slug = lower(p_slug) and t.is_public and t.deleted_at is null;
+$$;
@@ -0,0 +1,29 @@
+-- Rôle scorer: le planning comprend aussi le jour (day_idx), la durée (duration_min) et la catégorie (category_id)
+
+create or replace function public.matches_scorer_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.tournament_role(new.tournament_id) = 'scorer' and (
+    new.start_time is distinct from old.start_time
+    or new.day_idx is distinct from old.day_idx
+    or new.field_idx is distinct from old.field_idx
+    or new.duration_min is distinct from old.duration_min
+    or new.category_id is distinct from old.category_id
+    or new.phase is distinct from old.phase
+    or new.ko_round is distinct from old.ko_round
+    or new.ko_slot is distinct from old.ko_slot
+    or new.home_source is distinct from old.home_source
+    or new.away_source is distinct from old.away_source
+  ) then
+    raise exception 'Rôle scorer: modification du planning interdite';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists matches_scorer_guard on public.matches;
+create trigger matches_scorer_guard
+  before update on public.matches
+  for each row execute function public.matches_scorer_guard();
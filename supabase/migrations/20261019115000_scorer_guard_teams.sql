@@ -0,0 +1,97 @@
+-- Rôle scorer: les équipes d'un match (et son tournoi) restent réservées aux admins.
+-- Seule exception: la propagation de la phase finale après validation (set_knockout_teams),
+-- qui vérifie que chaque équipe vient bien de sa source (vainqueur du match précédent, équipe du tournoi).
+
+create or replace function public.matches_scorer_guard()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_knockout_sync boolean;
+begin
+  v_knockout_sync := new.phase = 'knockout' and coalesce(current_setting('doppietta.knockout_sync', true), '') = 'on';
+
+  if public.tournament_role(new.tournament_id) = 'scorer' and (
+    new.tournament_id is distinct from old.tournament_id
+    or (not v_knockout_sync and new.home_team_id is distinct from old.home_team_id)
+    or (not v_knockout_sync and new.away_team_id is distinct from old.away_team_id)
+    or new.start_time is distinct from old.start_time
+    or new.day_idx is distinct from old.day_idx
+    or new.field_idx is distinct from old.field_idx
+    or new.duration_min is distinct from old.duration_min
+    or new.category_id is distinct from old.category_id
+    or new.schedule_locked is distinct from old.schedule_locked
+    or new.phase is distinct from old.phase
+    or new.ko_round is distinct from old.ko_round
+    or new.ko_slot is distinct from old.ko_slot
+    or new.home_source is distinct from old.home_source
+    or new.away_source is distinct from old.away_source
+  ) then
+    raise exception 'Rôle scorer: modification du planning interdite';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists matches_scorer_guard on public.matches;
+create trigger matches_scorer_guard
+  before update on public.matches
+  for each row execute function public.matches_scorer_guard();
+
+-- Équipe acceptable pour une source de phase finale:
+--   "winner:R:S" => une des deux équipes du match validé (tour R, n° S) de la même catégorie
+--   "seed:N"     => une équipe du tournoi (le classement est calculé côté client)
+create or replace function public.knockout_source_allows(p_match public.matches, p_source text, p_team_id uuid)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select p_team_id is null or case
+    when p_source ~ '^winner:\d+:\d+$' then exists (
+      select 1 from public.matches s
+      where s.tournament_id = p_match.tournament_id
+        and s.phase = 'knockout'
+        and s.status = 'played'
+        and s.category_id is not distinct from p_match.category_id
+        and s.ko_round = split_part(p_source, ':', 2)::integer
+        and s.ko_slot = split_part(p_source, ':', 3)::integer
+        and p_team_id in (s.home_team_id, s.away_team_id)
+    )
+    when p_source ~ '^seed:\d+$' then exists (
+      select 1 from public.teams t where t.id = p_team_id and t.tournament_id = p_match.tournament_id
+    )
+    else false
+  end;
+$$;
+
+-- Propagation de la phase finale (page Matchs, après validation): ouverte aux scorers
+create or replace function public.set_knockout_teams(p_match_id uuid, p_home_team_id uuid, p_away_team_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  m public.matches;
+begin
+  select * into m from public.matches where id = p_match_id and phase = 'knockout' and status is distinct from 'played';
+  if not found then
+    raise exception 'Match de phase finale introuvable ou déjà validé';
+  end if;
+  if coalesce(public.tournament_role(m.tournament_id), '') not in ('owner', 'admin', 'scorer') then
+    raise exception 'Saisie réservée aux scorers et aux admins';
+  end if;
+  if not public.knockout_source_allows(m, m.home_source, p_home_team_id)
+    or not public.knockout_source_allows(m, m.away_source, p_away_team_id) then
+    raise exception 'Phase finale: équipe incompatible avec la source du match';
+  end if;
+
+  perform set_config('doppietta.knockout_sync', 'on', true);
+
+  update public.matches
+    set home_team_id = p_home_team_id, away_team_id = p_away_team_id
+    where id = p_match_id;
+
+  perform set_config('doppietta.knockout_sync', '', true);
+end;
+$$;
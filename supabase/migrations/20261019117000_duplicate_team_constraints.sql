@@ -0,0 +1,96 @@
+-- Duplication d'un tournoi: les équipes copiées gardent leurs contraintes de planning
+-- (disponibilités, terrains préférés, joueurs partagés). shares_players_with pointe
+-- vers une équipe du tournoi source: elle est remplacée par sa copie une fois toutes les équipes créées.
+
+create or replace function public.duplicate_tournament(
+  p_tournament_id uuid,
+  p_title text,
+  p_tournament_date date,
+  p_with_teams boolean default false,
+  p_with_players boolean default false
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_new_id uuid;
+  v_team_id uuid;
+  v_team_map jsonb := '{}'::jsonb;
+  r record;
+begin
+  insert into public.tournaments (
+    user_id, title, tournament_date,
+    start_time, end_time, match_duration_min, rotation_duration_min,
+    min_teams, max_teams, min_players_per_team, max_players_per_team,
+    num_fields, field_names, pauses, field_pauses,
+    format, group_count, group_names, knockout_enabled, knockout_qualifiers,
+    points_win, points_draw, points_loss, tiebreakers, fair_play_points, suspension_rules, score_mode,
+    min_rest_min, max_consecutive, extra_days, field_settings, group_match_durations, categories
+  )
+  select
+    auth.uid(), p_title, p_tournament_date,
+    t.start_time, t.end_time, t.match_duration_min, t.rotation_duration_min,
+    t.min_teams, t.max_teams, t.min_players_per_team, t.max_players_per_team,
+    t.num_fields, t.field_names, t.pauses, t.field_pauses,
+    t.format, t.group_count, t.group_names, t.knockout_enabled, t.knockout_qualifiers,
+    t.points_win, t.points_draw, t.points_loss, t.tiebreakers, t.fair_play_points, t.suspension_rules, t.score_mode,
+    t.min_rest_min, t.max_consecutive,
+    coalesce((
+      select jsonb_agg(
+        case
+          when coalesce(d->>'date', '') <> '' and t.tournament_date is not null and p_tournament_date is not null
+            then jsonb_set(d, '{date}', to_jsonb(((d->>'date')::date + (p_tournament_date - t.tournament_date))::text))
+          else jsonb_set(d, '{date}', 'null'::jsonb)
+        end
+        order by ord
+      )
+      from jsonb_array_elements(t.extra_days) with ordinality as e(d, ord)
+    ), '[]'::jsonb),
+    t.field_settings, t.group_match_durations, t.categories
+  from public.tournaments t
+  where t.id = p_tournament_id and t.deleted_at is null
+  returning id into v_new_id;
+
+  if v_new_id is null then
+    raise exception 'Tournoi introuvable';
+  end if;
+
+  if p_with_teams then
+    for r in
+      select * from public.teams where tournament_id = p_tournament_id order by created_at
+    loop
+      insert into public.teams (
+        tournament_id, name, email, colors, logo_svg, jersey_style, jersey_svg, staff, group_idx, group_manual, category_id,
+        available_from, available_until, preferred_fields
+      )
+      values (
+        v_new_id, r.name, r.email, r.colors, r.logo_svg, r.jersey_style, r.jersey_svg, r.staff, r.group_idx, r.group_manual, r.category_id,
+        r.available_from, r.available_until, r.preferred_fields
+      )
+      returning id into v_team_id;
+
+      v_team_map := v_team_map || jsonb_build_object(r.id::text, v_team_id);
+
+      if p_with_players then
+        insert into public.players (
+          tournament_id, team_id, first_name, last_name, jersey_number, license_number, birth_date
+        )
+        select v_new_id, v_team_id, first_name, last_name, jersey_number, license_number, birth_date
+        from public.players
+        where team_id = r.id;
+      end if;
+    end loop;
+
+    -- 2e passe: les joueurs partagés désignent les équipes copiées
+    update public.teams n
+      set shares_players_with = (v_team_map->>o.shares_players_with::text)::uuid
+      from public.teams o
+      where o.tournament_id = p_tournament_id
+        and o.shares_players_with is not null
+        and n.id = (v_team_map->>o.id::text)::uuid;
+  end if;
+
+  return v_new_id;
+end;
+$$;